@@ -0,0 +1,368 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { format, subMonths } from 'date-fns'
+import { MODE_LABELS, TRANSPORT_MODES } from '@/lib/transport-modes'
+import { benchmarkRate, RATE_POSITION_LABELS } from '@/lib/lane-analytics'
+import type { LaneGrouping, LaneRateHistory, LaneRateMonth, RateStats, TransportMode } from '@/types/database'
+
+type CostMeasure = 'cost_per_kg' | 'cost_per_cbm'
+
+const MEASURE_LABELS: Record<CostMeasure, string> = {
+  cost_per_kg: 'per chargeable kg',
+  cost_per_cbm: 'per cbm',
+}
+
+export default function LaneAnalyticsPage() {
+  const searchParams = useSearchParams()
+  const [lanes, setLanes] = useState<LaneRateHistory[]>([])
+  const [currency, setCurrency] = useState('USD')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState(0)
+  const [measure, setMeasure] = useState<CostMeasure>('cost_per_kg')
+  const [compareRate, setCompareRate] = useState(searchParams.get('rate') || '')
+  const [filters, setFilters] = useState({
+    group_by: (searchParams.get('group_by') || 'country') as LaneGrouping,
+    origin: searchParams.get('origin') || '',
+    dest: searchParams.get('dest') || '',
+    mode: (searchParams.get('mode') || '') as TransportMode | '',
+    from: format(subMonths(new Date(), 12), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  })
+
+  useEffect(() => {
+    async function loadLanes() {
+      setLoading(true)
+      setError(null)
+      try {
+        const query = new URLSearchParams(
+          Object.entries(filters).filter(([, value]) => value !== '')
+        )
+        const response = await fetch(`/api/analytics/lanes?${query}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || 'Failed to load lane history')
+        setLanes(result.lanes)
+        setCurrency(result.currency)
+        setSelected(0)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadLanes()
+  }, [filters])
+
+  const lane = lanes[selected] || null
+  const stats = lane?.summary[measure] || null
+  const rate = parseFloat(compareRate)
+  const benchmark = stats && rate > 0 ? benchmarkRate(rate, stats) : null
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Lane Rate History</h1>
+        <p className="text-gray-600">What forwarders have quoted on your lanes, to judge new quotes against</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 grid grid-cols-2 md:grid-cols-6 gap-3">
+        <Field label="Lanes by">
+          <select
+            value={filters.group_by}
+            onChange={(e) => setFilters({ ...filters, group_by: e.target.value as LaneGrouping })}
+            className={inputClass}
+          >
+            <option value="country">Country</option>
+            <option value="port">Port</option>
+          </select>
+        </Field>
+        <Field label="Origin">
+          <input
+            value={filters.origin}
+            onChange={(e) => setFilters({ ...filters, origin: e.target.value.toUpperCase() })}
+            placeholder={filters.group_by === 'port' ? 'e.g., CNSHA' : 'e.g., CN'}
+            className={inputClass}
+          />
+        </Field>
+        <Field label="Destination">
+          <input
+            value={filters.dest}
+            onChange={(e) => setFilters({ ...filters, dest: e.target.value.toUpperCase() })}
+            placeholder={filters.group_by === 'port' ? 'e.g., USLAX' : 'e.g., US'}
+            className={inputClass}
+          />
+        </Field>
+        <Field label="Mode">
+          <select
+            value={filters.mode}
+            onChange={(e) => setFilters({ ...filters, mode: e.target.value as TransportMode | '' })}
+            className={inputClass}
+          >
+            <option value="">All modes</option>
+            {TRANSPORT_MODES.map(mode => (
+              <option key={mode} value={mode}>{MODE_LABELS[mode].label}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label="From">
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => e.target.value && setFilters({ ...filters, from: e.target.value })}
+            className={inputClass}
+          />
+        </Field>
+        <Field label="To">
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => e.target.value && setFilters({ ...filters, to: e.target.value })}
+            className={inputClass}
+          />
+        </Field>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading lane history...</div>
+        </div>
+      ) : lanes.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 px-6 py-12 text-center text-gray-500">
+          No quotes on matching lanes in this period
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Lane list */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 h-fit">
+            <div className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-900">Lanes</div>
+            <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+              {lanes.map((entry, index) => (
+                <li key={`${entry.origin}-${entry.dest}-${entry.mode}`}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(index)}
+                    className={`w-full text-left px-4 py-3 text-sm ${
+                      index === selected ? 'bg-primary-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900">
+                      {MODE_LABELS[entry.mode].icon} {entry.origin} → {entry.dest}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {entry.summary.quotes} quotes · {entry.summary.forwarders} forwarders
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {lane && (
+            <div className="lg:col-span-3 space-y-6">
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <SummaryCard
+                  label={`Median ${MEASURE_LABELS.cost_per_kg}`}
+                  value={formatRate(lane.summary.cost_per_kg?.median, currency)}
+                  detail={formatRange(lane.summary.cost_per_kg, currency)}
+                />
+                <SummaryCard
+                  label={`Median ${MEASURE_LABELS.cost_per_cbm}`}
+                  value={formatRate(lane.summary.cost_per_cbm?.median, currency)}
+                  detail={formatRange(lane.summary.cost_per_cbm, currency)}
+                />
+                <SummaryCard
+                  label="Median transit"
+                  value={lane.summary.transit_days ? `${lane.summary.transit_days.median} days` : '—'}
+                  detail={lane.summary.transit_days
+                    ? `${lane.summary.transit_days.min}–${lane.summary.transit_days.max} days quoted`
+                    : 'No transit times quoted'}
+                />
+                <SummaryCard
+                  label="Forwarder spread"
+                  value={lane.summary.spread_pct !== null ? `${lane.summary.spread_pct}%` : '—'}
+                  detail="Median gap, cheapest to dearest"
+                />
+              </div>
+
+              {/* Cost chart */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">Cost {MEASURE_LABELS[measure]} by month</h2>
+                    <p className="text-sm text-gray-500">Median, with the middle half of quotes shaded ({currency})</p>
+                  </div>
+                  <div className="flex gap-1 text-sm">
+                    {(Object.keys(MEASURE_LABELS) as CostMeasure[]).map(m => (
+                      <button
+                        key={m}
+                        type="button"
+                        onClick={() => setMeasure(m)}
+                        className={`px-3 py-1 rounded-md ${
+                          measure === m ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {m === 'cost_per_kg' ? 'Per kg' : 'Per cbm'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <RangeChart
+                  months={lane.months}
+                  stats={(month) => month[measure]}
+                  format={(value) => formatRate(value, currency)}
+                  marker={rate > 0 ? rate : null}
+                />
+              </div>
+
+              {/* Transit chart */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="font-semibold text-gray-900">Quoted transit by month</h2>
+                  <p className="text-sm text-gray-500">Median days, with the middle half of quotes shaded</p>
+                </div>
+                <RangeChart
+                  months={lane.months}
+                  stats={(month) => month.transit_days}
+                  format={(value) => `${value}d`}
+                  marker={null}
+                />
+              </div>
+
+              {/* Benchmark */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h2 className="font-semibold text-gray-900 mb-1">Compare a quote</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  Enter a quote&apos;s cost {MEASURE_LABELS[measure]} in {currency} to see where it sits
+                  against this lane&apos;s history
+                </p>
+                <div className="flex items-center gap-4">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={compareRate}
+                    onChange={(e) => setCompareRate(e.target.value)}
+                    placeholder={stats ? String(stats.median) : '0.00'}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  {!stats ? (
+                    <span className="text-sm text-gray-500">No history {MEASURE_LABELS[measure]} on this lane</span>
+                  ) : benchmark && (
+                    <div className={`text-sm font-medium ${
+                      benchmark.vs_median_pct > 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {benchmark.vs_median_pct > 0 ? '▲' : '▼'} {Math.abs(benchmark.vs_median_pct)}%{' '}
+                      {benchmark.vs_median_pct > 0 ? 'above' : 'below'} the median of {stats.count} quotes
+                      <div className="text-xs font-normal text-gray-500">{RATE_POSITION_LABELS[benchmark.position]}</div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Median per month as a dot over its interquartile range */
+function RangeChart({
+  months,
+  stats,
+  format: formatValue,
+  marker,
+}: {
+  months: LaneRateMonth[]
+  stats: (month: LaneRateMonth) => RateStats | null
+  format: (value: number) => string
+  marker: number | null
+}) {
+  const points = months.map(month => ({ month: month.month, stats: stats(month) }))
+  const known = points.filter(p => p.stats !== null).map(p => p.stats as RateStats)
+  if (known.length === 0) {
+    return <div className="px-6 py-8 text-center text-sm text-gray-500">No data for this measure</div>
+  }
+
+  const max = Math.max(marker ?? 0, ...known.map(s => s.p75)) * 1.1
+  const percent = (value: number) => `${(value / max) * 100}%`
+
+  return (
+    <div className="px-6 py-4">
+      <div className="relative flex items-stretch gap-3 h-48 border-b border-gray-200">
+        {marker !== null && (
+          <div
+            className="absolute left-0 right-0 border-t-2 border-dashed border-amber-500 z-10"
+            style={{ bottom: percent(marker) }}
+            title={`Your quote: ${formatValue(marker)}`}
+          />
+        )}
+        {points.map(point => (
+          <div key={point.month} className="flex-1 relative">
+            {point.stats && (
+              <>
+                <div
+                  className="absolute left-1/4 right-1/4 bg-primary-100 rounded"
+                  style={{ bottom: percent(point.stats.p25), height: percent(point.stats.p75 - point.stats.p25) }}
+                />
+                <div
+                  className="absolute left-1/2 w-3 h-3 -ml-1.5 -mb-1.5 bg-primary-600 rounded-full"
+                  style={{ bottom: percent(point.stats.median) }}
+                  title={`${formatValue(point.stats.median)} median of ${point.stats.count} quotes`}
+                />
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 mt-2">
+        {points.map(point => (
+          <div key={point.month} className="flex-1 text-center text-xs text-gray-500">
+            <div>{format(new Date(`${point.month}-01T00:00:00`), 'MMM yy')}</div>
+            <div className="text-gray-700">{point.stats ? formatValue(point.stats.median) : '—'}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function SummaryCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-xl font-bold text-gray-900">{value}</div>
+      <div className="text-xs text-gray-400">{detail}</div>
+    </div>
+  )
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+      {children}
+    </div>
+  )
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+function formatRate(value: number | null | undefined, currency: string): string {
+  return value != null ? `${currency} ${value.toFixed(2)}` : '—'
+}
+
+function formatRange(stats: RateStats | null, currency: string): string {
+  return stats ? `Middle half ${stats.p25.toFixed(2)}–${stats.p75.toFixed(2)} ${currency}` : 'Not enough data'
+}
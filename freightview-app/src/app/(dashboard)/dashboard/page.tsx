@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { formatDistanceToNow } from 'date-fns'
 import { getDemoRequestsWithQuotes } from '@/lib/demo-data'
+import { analyzeQuotes } from '@/lib/quote-analysis'
 
 export default function DashboardPage() {
   const requests = getDemoRequestsWithQuotes()
@@ -118,11 +119,7 @@ export default function DashboardPage() {
           </div>
           <div className="divide-y divide-gray-100">
             {pendingDecisions.map((request) => {
-              const airQuotes = request.quotes?.filter((q) => q.mode === 'air') || []
-              const seaQuotes = request.quotes?.filter((q) => q.mode === 'sea') || []
-              const bestAir = airQuotes.sort((a, b) => a.total_amount - b.total_amount)[0]
-              const bestSea = seaQuotes.sort((a, b) => a.total_amount - b.total_amount)[0]
-              const savings = bestAir && bestSea ? bestAir.total_amount - bestSea.total_amount : null
+              const savings = analyzeQuotes(request.quotes || []).potentialSavings
 
               return (
                 <div key={request.id} className="px-6 py-4">
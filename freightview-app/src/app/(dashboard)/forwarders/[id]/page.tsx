@@ -0,0 +1,251 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { format, subMonths } from 'date-fns'
+import type { ForwarderScorecard } from '@/types/database'
+
+export default function ForwarderScorecardPage() {
+  const params = useParams()
+  const [scorecard, setScorecard] = useState<ForwarderScorecard | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState({
+    from: format(subMonths(new Date(), 12), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  })
+
+  useEffect(() => {
+    async function loadScorecard() {
+      setLoading(true)
+      setError(null)
+      try {
+        const query = new URLSearchParams(range)
+        const response = await fetch(`/api/forwarders/${params.id}/scorecard?${query}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || 'Failed to load scorecard')
+        setScorecard(result.scorecard)
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadScorecard()
+  }, [params.id, range])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end gap-4">
+        <div>
+          <Link href="/requests" className="text-sm text-primary-600 hover:underline">
+            ← Requests
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">
+            {scorecard ? `${scorecard.forwarder.name} Scorecard` : 'Forwarder Scorecard'}
+          </h1>
+          <p className="text-gray-600">How this forwarder has performed on your requests</p>
+        </div>
+        <div className="flex items-end gap-2">
+          <DateInput label="From" value={range.from} onChange={(from) => setRange({ ...range, from })} />
+          <DateInput label="To" value={range.to} onChange={(to) => setRange({ ...range, to })} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && !scorecard ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading scorecard...</div>
+        </div>
+      ) : scorecard && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <StatCard
+              icon="📨"
+              value={formatPercent(scorecard.response_rate)}
+              label="Response rate"
+              detail={`${scorecard.responses} of ${scorecard.invitations} RFQs quoted`}
+            />
+            <StatCard
+              icon="⏱️"
+              value={scorecard.median_hours_to_quote !== null ? formatHours(scorecard.median_hours_to_quote) : '—'}
+              label="Median time to quote"
+              detail="From RFQ email to first quote"
+            />
+            <StatCard
+              icon="🏆"
+              value={formatPercent(scorecard.win_rate)}
+              label="Win rate"
+              detail={`${scorecard.wins} of ${scorecard.decisions} decisions`}
+            />
+            <StatCard
+              icon="💲"
+              value={scorecard.avg_price_rank !== null ? `#${scorecard.avg_price_rank}` : '—'}
+              label="Average price rank"
+              detail={`1 is cheapest; compared in ${scorecard.currency}`}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="font-semibold text-gray-900">Price rank by lane</h2>
+              </div>
+              {scorecard.lanes.length === 0 ? (
+                <div className="px-6 py-8 text-center text-sm text-gray-500">No quotes in this period</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500">
+                    <tr>
+                      <th className="px-6 py-2 font-medium">Lane</th>
+                      <th className="px-6 py-2 font-medium text-right">Ranked quotes</th>
+                      <th className="px-6 py-2 font-medium text-right">Avg rank</th>
+                      <th className="px-6 py-2 font-medium text-right">Avg forwarders</th>
+                      <th className="px-6 py-2 font-medium text-right">Wins</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {scorecard.lanes.map(lane => (
+                      <tr key={`${lane.origin_country}-${lane.dest_country}`}>
+                        <td className="px-6 py-2 font-medium text-gray-900">
+                          {lane.origin_country} → {lane.dest_country}
+                        </td>
+                        <td className="px-6 py-2 text-right">{lane.quotes}</td>
+                        <td className="px-6 py-2 text-right">{lane.avg_price_rank ?? '—'}</td>
+                        <td className="px-6 py-2 text-right">{lane.avg_competitors ?? '—'}</td>
+                        <td className="px-6 py-2 text-right">{lane.wins}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="font-semibold text-gray-900">Quoted vs actual transit</h2>
+              </div>
+              {scorecard.transit.shipments === 0 ? (
+                <div className="px-6 py-8 text-center text-sm text-gray-500">
+                  No delivered shipments yet. Record shipped and delivered dates on won bookings.
+                </div>
+              ) : (
+                <dl className="px-6 py-4 space-y-3 text-sm">
+                  <Metric label="Shipments" value={String(scorecard.transit.shipments)} />
+                  <Metric label="Avg quoted" value={formatDays(scorecard.transit.avg_quoted_days)} />
+                  <Metric label="Avg actual" value={formatDays(scorecard.transit.avg_actual_days)} />
+                  <Metric
+                    label="Avg delay"
+                    value={formatDays(scorecard.transit.avg_delay_days)}
+                    tone={(scorecard.transit.avg_delay_days ?? 0) > 0 ? 'bad' : 'good'}
+                  />
+                  <Metric label="On time" value={formatPercent(scorecard.transit.on_time_rate)} />
+                </dl>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="font-semibold text-gray-900">Price competitiveness</h2>
+              <p className="text-sm text-gray-500">Average premium over the cheapest quote, by month</p>
+            </div>
+            {scorecard.trend.length === 0 ? (
+              <div className="px-6 py-8 text-center text-sm text-gray-500">
+                No requests where other forwarders also quoted
+              </div>
+            ) : (
+              <TrendChart trend={scorecard.trend} />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function TrendChart({ trend }: { trend: ForwarderScorecard['trend'] }) {
+  const maxPremium = Math.max(1, ...trend.map(p => p.avg_premium_pct ?? 0))
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex items-end gap-3 h-48">
+        {trend.map(point => (
+          <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full">
+            <div className="text-xs text-gray-700 mb-1">
+              {point.avg_premium_pct !== null ? `+${point.avg_premium_pct}%` : '—'}
+            </div>
+            <div
+              className={`w-full rounded-t ${point.avg_premium_pct === 0 ? 'bg-green-500' : 'bg-primary-500'}`}
+              style={{ height: `${Math.max(2, ((point.avg_premium_pct ?? 0) / maxPremium) * 100)}%` }}
+              title={`${point.quotes} ranked quotes, average rank #${point.avg_price_rank}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 mt-2">
+        {trend.map(point => (
+          <div key={point.month} className="flex-1 text-center text-xs text-gray-500">
+            <div>{format(new Date(`${point.month}-01T00:00:00`), 'MMM yy')}</div>
+            <div>#{point.avg_price_rank}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function StatCard({ icon, value, label, detail }: { icon: string; value: string; label: string; detail: string }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex items-center gap-4">
+      <div className="text-3xl bg-gray-100 p-3 rounded-xl">{icon}</div>
+      <div>
+        <div className="text-2xl font-bold text-gray-900">{value}</div>
+        <div className="text-sm text-gray-500">{label}</div>
+        <div className="text-xs text-gray-400">{detail}</div>
+      </div>
+    </div>
+  )
+}
+
+function Metric({ label, value, tone }: { label: string; value: string; tone?: 'good' | 'bad' }) {
+  const color = tone === 'bad' ? 'text-red-600' : tone === 'good' ? 'text-green-600' : 'text-gray-900'
+  return (
+    <div className="flex justify-between">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`font-medium ${color}`}>{value}</dd>
+    </div>
+  )
+}
+
+function DateInput({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+      <input
+        type="date"
+        value={value}
+        onChange={(e) => e.target.value && onChange(e.target.value)}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      />
+    </div>
+  )
+}
+
+function formatPercent(value: number | null): string {
+  return value !== null ? `${value}%` : '—'
+}
+
+function formatHours(hours: number): string {
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 2.4) / 10}d`
+}
+
+function formatDays(days: number | null): string {
+  return days !== null ? `${days} days` : '—'
+}
@@ -3,8 +3,33 @@
 import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { format } from 'date-fns'
-import type { Quote, ShipmentRequest } from '@/types/database'
+import { format, differenceInCalendarDays, parseISO } from 'date-fns'
+import ActivityTimeline from '@/components/ActivityTimeline'
+import type { UnitCosts } from '@/lib/freight-math'
+import type { LandedCostQuote, LandedCostContext, LandedCostBreakdown } from '@/lib/landed-cost'
+import { MODE_LABELS } from '@/lib/transport-modes'
+import { describeContainers, type ContainerSuggestion } from '@/lib/containers'
+import { TEMPERATURE_CONTROL_LABELS, formatTemperatureRange } from '@/lib/temperature'
+import { COMPONENT_LABELS, type CostComponent, type IncotermCost } from '@/lib/incoterms'
+import type {
+  Quote,
+  ShipmentRequest,
+  NormalizedQuote,
+  CurrencyNormalization,
+  RankedQuote,
+  ScoreFactor,
+  TransportMode,
+  LoadType,
+  ContainerCount,
+  Incoterm,
+  QuoteWarning,
+  ChargeBreakdownLine,
+} from '@/types/database'
+
+type ComparedQuote = LandedCostQuote<NormalizedQuote & UnitCosts> & {
+  incoterm_cost: IncotermCost | null
+  charge_breakdown: ChargeBreakdownLine[] | null
+}
 
 interface AnalysisData {
   request: {
@@ -12,24 +37,49 @@ interface AnalysisData {
     reference: string
     origin: string
     destination: string
+    origin_country: string
+    dest_country: string
     cargo_ready_date: string
     delivery_required_date: string
+    load_type: LoadType | null
+    containers: ContainerCount[]
   }
-  analysis: {
-    best_air: Quote | null
-    best_sea: Quote | null
-    potential_savings: number | null
-    savings_percentage: number | null
-    recommendation: 'air' | 'sea' | null
-    recommendation_reason: string | null
-  }
+  modes: { mode: TransportMode; quotes: ComparedQuote[]; best: ComparedQuote | null }[]
+  potential_savings: number | null
+  recommendation: TransportMode | null
+  recommendation_reason: string | null
+  ranking: RankedQuote[]
   factors: {
     timeline_flexibility: string
     daily_carrying_cost: number | null
     available_days: number | null
+    savings_percentage: number | null
+    cheapest_mode: TransportMode | null
+    fastest_mode: TransportMode | null
+    chargeable_weight: Partial<Record<TransportMode, number | null>>
+  }
+  validity: {
+    warning_days: number
+    best_expires_in_days: Partial<Record<TransportMode, number | null>>
+  }
+  containers: {
+    suggestion: ContainerSuggestion | null
+    comparison: {
+      fcl_quote_id: string | null
+      lcl_quote_id: string | null
+      cheaper: LoadType | null
+      difference: number | null
+    }
+  }
+  fx: CurrencyNormalization
+  landed_cost: LandedCostContext
+  incoterms: { code: Incoterm; name: string; buyer_pays: CostComponent[]; warning: string | null } | null
+  draft_quotes: Quote[]
+  expired_quotes: Quote[]
+  temperature: {
+    range: string | null
+    non_compliant: { quote_id: string; forwarder: string | null; mode: TransportMode; reason: string }[]
   }
-  air_quotes: Quote[]
-  sea_quotes: Quote[]
 }
 
 export default function QuotesPage() {
@@ -37,7 +87,9 @@ export default function QuotesPage() {
   const router = useRouter()
   const [data, setData] = useState<AnalysisData | null>(null)
   const [loading, setLoading] = useState(true)
-  const [modeFilter, setModeFilter] = useState<'all' | 'air' | 'sea'>('all')
+  const [modeFilter, setModeFilter] = useState<'all' | TransportMode>('all')
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [reviewError, setReviewError] = useState<string | null>(null)
 
   useEffect(() => {
     async function loadData() {
@@ -53,7 +105,25 @@ export default function QuotesPage() {
       }
     }
     loadData()
-  }, [params.id])
+  }, [params.id, refreshKey])
+
+  async function reviewDraft(quoteId: string, action: 'confirm' | 'discard') {
+    setReviewError(null)
+    const response = await fetch(`/api/quotes/${quoteId}`, action === 'confirm'
+      ? {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'active' }),
+        }
+      : { method: 'DELETE' })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null)
+      setReviewError(result?.error || 'Failed to update quote')
+      return
+    }
+    setRefreshKey((key) => key + 1)
+  }
 
   if (loading) {
     return (
@@ -74,9 +144,33 @@ export default function QuotesPage() {
     )
   }
 
-  const { request, analysis, factors, air_quotes, sea_quotes } = data
-  const showAir = modeFilter === 'all' || modeFilter === 'air'
-  const showSea = modeFilter === 'all' || modeFilter === 'sea'
+  const {
+    request,
+    modes,
+    potential_savings,
+    recommendation,
+    recommendation_reason,
+    ranking,
+    factors,
+    validity,
+    containers,
+    fx,
+    landed_cost,
+    incoterms,
+    draft_quotes,
+    expired_quotes,
+    temperature,
+  } = data
+  // Best options that lapse within the warning window
+  const expiringSoon = modes
+    .map(({ mode, best }) => ({ label: MODE_LABELS[mode].label.toLowerCase(), quote: best, days: validity.best_expires_in_days[mode] ?? null }))
+    .filter((item): item is { label: string; quote: ComparedQuote; days: number } =>
+      !!item.quote && item.days !== null && item.days <= validity.warning_days
+    )
+
+  const compared = modes.flatMap((group) => group.quotes)
+  const shownModes = modes.filter((group) => modeFilter === 'all' || group.mode === modeFilter)
+  const chargeableWeights = modes.filter((group) => factors.chargeable_weight[group.mode] != null)
 
   return (
     <div className="space-y-6">
@@ -86,12 +180,22 @@ export default function QuotesPage() {
           <h1 className="text-2xl font-bold text-gray-900">Quote Comparison</h1>
           <p className="text-gray-600">Compare quotes across forwarders and modes</p>
         </div>
-        <Link
-          href={`/requests/${params.id}`}
-          className="text-sm text-gray-500 hover:text-gray-700"
-        >
-          ← Back to request
-        </Link>
+        <div className="flex items-center gap-4">
+          <Link
+            href={`/analytics?origin=${data.request.origin_country}&dest=${data.request.dest_country}${
+              modeFilter === 'all' ? '' : `&mode=${modeFilter}`
+            }`}
+            className="text-sm text-primary-600 hover:text-primary-700"
+          >
+            📈 Lane rate history
+          </Link>
+          <Link
+            href={`/requests/${params.id}`}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            ← Back to request
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
@@ -99,7 +203,7 @@ export default function QuotesPage() {
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium text-gray-500">Mode:</span>
           <div className="flex bg-gray-100 rounded-lg p-1">
-            {(['all', 'air', 'sea'] as const).map((mode) => (
+            {(['all', ...modes.map((group) => group.mode)] as const).map((mode) => (
               <button
                 key={mode}
                 onClick={() => setModeFilter(mode)}
@@ -109,7 +213,7 @@ export default function QuotesPage() {
                     : 'text-gray-500 hover:text-gray-700'
                 }`}
               >
-                {mode === 'all' ? 'All' : mode === 'air' ? '✈️ Air' : '🚢 Sea'}
+                {mode === 'all' ? 'All' : `${MODE_LABELS[mode].icon} ${MODE_LABELS[mode].label}`}
               </button>
             ))}
           </div>
@@ -117,7 +221,7 @@ export default function QuotesPage() {
       </div>
 
       {/* Shipment Summary */}
-      <div className="bg-slate-800 text-white rounded-xl p-4 grid grid-cols-4 gap-4">
+      <div className="bg-slate-800 text-white rounded-xl p-4 grid grid-cols-5 gap-4">
         <div>
           <div className="text-xs text-slate-400">Route</div>
           <div className="font-medium">{request.origin} → {request.destination}</div>
@@ -134,81 +238,234 @@ export default function QuotesPage() {
           <div className="text-xs text-slate-400">Available Days</div>
           <div className="font-medium">{factors.available_days || '-'} days</div>
         </div>
+        <div>
+          <div className="text-xs text-slate-400">Chargeable Weight</div>
+          <div className="font-medium">
+            {chargeableWeights.length > 0
+              ? chargeableWeights
+                  .map(({ mode }) => `${MODE_LABELS[mode].icon} ${factors.chargeable_weight[mode]!.toLocaleString()} kg${mode === 'sea' ? ' W/M' : ''}`)
+                  .join(' · ')
+              : '-'}
+          </div>
+        </div>
       </div>
 
       {/* Recommendation Banner */}
-      {analysis.recommendation && (
-        <div className={`rounded-xl p-4 ${
-          analysis.recommendation === 'sea' ? 'bg-green-50 border border-green-200' : 'bg-blue-50 border border-blue-200'
-        }`}>
+      {recommendation && (
+        <div className={`rounded-xl p-4 border ${modeStyles[recommendation].banner}`}>
           <div className="flex items-start gap-4">
-            <div className={`text-2xl p-2 rounded-lg ${
-              analysis.recommendation === 'sea' ? 'bg-green-100' : 'bg-blue-100'
-            }`}>
-              {analysis.recommendation === 'sea' ? '🚢' : '✈️'}
+            <div className={`text-2xl p-2 rounded-lg ${modeStyles[recommendation].icon}`}>
+              {MODE_LABELS[recommendation].icon}
             </div>
             <div className="flex-1">
               <div className="font-semibold text-gray-900">
-                {analysis.recommendation === 'sea' ? 'Sea Freight' : 'Air Freight'} Recommended
+                {MODE_LABELS[recommendation].label} Recommended
               </div>
-              <p className="text-sm text-gray-600 mt-1">{analysis.recommendation_reason}</p>
-              {analysis.potential_savings && analysis.potential_savings > 0 && (
+              <p className="text-sm text-gray-600 mt-1">{recommendation_reason}</p>
+              {potential_savings && potential_savings > 0 && (
                 <div className="mt-2 text-sm font-medium text-green-700">
-                  Potential savings: ${analysis.potential_savings.toLocaleString()} ({analysis.savings_percentage}% vs air)
+                  Potential savings: {fx.currency} {potential_savings.toLocaleString()} ({factors.savings_percentage}% vs {MODE_LABELS[factors.fastest_mode!].label.toLowerCase()})
                 </div>
               )}
+              <p className="mt-2 text-xs text-gray-500">
+                {landed_cost.goods_value !== null
+                  ? `Ranked by landed cost: freight, destination charges, insurance (${landed_cost.insurance_rate}%), ` +
+                    (landed_cost.tariff
+                      ? `duty (${landed_cost.tariff.duty_rate}%), VAT (${landed_cost.tariff.vat_rate}%)`
+                      : 'no duty/VAT rate for this destination') +
+                    ` and carrying cost (${landed_cost.carrying_cost_rate}% a year).`
+                  : 'Ranked by freight and destination charges. Add a cargo value to include insurance, duty and carrying cost.'}
+              </p>
             </div>
           </div>
         </div>
       )}
 
+      {/* Containers */}
+      {(containers.suggestion || containers.comparison.cheaper) && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex items-start gap-3">
+          <span className="text-xl">📦</span>
+          <div className="text-sm text-gray-700 space-y-1">
+            {containers.suggestion && (
+              <p>
+                <span className="font-medium">
+                  Suggested: {containers.suggestion.load_type === 'lcl' ? 'LCL' : describeContainers(containers.suggestion.containers)}
+                </span>
+                {containers.suggestion.volume_utilization !== null &&
+                  ` (${containers.suggestion.volume_utilization}% of volume, ${containers.suggestion.weight_utilization}% of payload)`}
+                {request.load_type === 'fcl' && request.containers.length > 0 &&
+                  `; requested ${describeContainers(request.containers)}`}
+                {request.load_type === 'lcl' && '; requested LCL'}
+              </p>
+            )}
+            {containers.comparison.cheaper && containers.comparison.difference !== null && (
+              <p>
+                Cheapest {containers.comparison.cheaper.toUpperCase()} quote saves {fx.currency}{' '}
+                {containers.comparison.difference.toLocaleString()} over the cheapest{' '}
+                {containers.comparison.cheaper === 'fcl' ? 'LCL' : 'FCL'} quote.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Incoterms */}
+      {incoterms && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex items-start gap-3">
+          <span className="text-xl">🤝</span>
+          <div className="text-sm text-gray-700 space-y-1">
+            <p>
+              <span className="font-medium">{incoterms.code} ({incoterms.name}):</span>{' '}
+              {incoterms.buyer_pays.length > 0
+                ? `you pay ${incoterms.buyer_pays.map((component) => COMPONENT_LABELS[component].toLowerCase()).join(', ')}; the seller pays the rest.`
+                : 'the seller pays everything up to delivery, duties included.'}
+            </p>
+            {incoterms.warning && <p className="text-amber-700">⚠️ {incoterms.warning}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Missing FX Rates */}
+      {fx.missing_currencies.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+          <span className="text-xl">💱</span>
+          <p className="text-sm text-amber-800">
+            No exchange rate to {fx.currency} for {fx.missing_currencies.join(', ')}.
+            Quotes in {fx.missing_currencies.length === 1 ? 'this currency' : 'these currencies'} are
+            listed last and can&apos;t be recommended until rates are imported.
+          </p>
+        </div>
+      )}
+
+      {/* Expiry Warnings */}
+      {expiringSoon.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+          <span className="text-xl">⏳</span>
+          <div className="text-sm text-amber-800 space-y-1">
+            {expiringSoon.map(({ label, quote, days }) => (
+              <p key={quote.id}>
+                <span className="font-medium">Best {label} quote</span> from {quote.forwarder?.name || 'Unknown'}{' '}
+                {describeExpiry(days)} ({format(new Date(quote.valid_until!), 'MMM d')}).
+                Book it or ask the forwarder to extend it.
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Draft Quotes from Email */}
+      {draft_quotes?.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl">
+          <div className="px-6 py-4 border-b border-amber-200">
+            <h2 className="font-semibold text-gray-900">📧 Quotes Received by Email</h2>
+            <p className="text-sm text-gray-600">
+              Review the details read from forwarder replies before they are included in the comparison
+            </p>
+          </div>
+          {reviewError && (
+            <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {reviewError}
+            </div>
+          )}
+          <ul className="divide-y divide-amber-100">
+            {draft_quotes.map((quote) => (
+              <DraftQuoteRow key={quote.id} quote={quote} onReview={reviewDraft} />
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Quote Sections */}
       <div className="space-y-6">
-        {/* Air Quotes */}
-        {showAir && (
-          <div>
+        {shownModes.map(({ mode, quotes, best }) => (
+          <div key={mode}>
             <div className="flex items-center gap-3 mb-4">
-              <h2 className="text-lg font-semibold text-gray-900">✈️ Air Freight Options</h2>
-              <span className="bg-blue-100 text-blue-700 text-xs font-medium px-2 py-1 rounded-full">
-                {air_quotes.length} quote{air_quotes.length !== 1 ? 's' : ''}
+              <h2 className="text-lg font-semibold text-gray-900">
+                {MODE_LABELS[mode].icon} {MODE_LABELS[mode].label} Options
+              </h2>
+              <span className={`text-xs font-medium px-2 py-1 rounded-full ${modeStyles[mode].badge}`}>
+                {quotes.length} quote{quotes.length !== 1 ? 's' : ''}
               </span>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {air_quotes.map((quote, idx) => (
-                <QuoteCard key={quote.id} quote={quote} isLowest={idx === 0} isRecommended={analysis.recommendation === 'air' && idx === 0} />
+              {quotes.map((quote) => (
+                <QuoteCard key={quote.id} quote={quote} isLowest={quote.id === best?.id} isRecommended={quote.id === ranking[0]?.quote_id} warningDays={validity.warning_days} />
               ))}
-              {air_quotes.length === 0 && (
-                <div className="col-span-3 bg-gray-50 rounded-lg p-8 text-center text-gray-500">
-                  No air freight quotes received yet
-                </div>
-              )}
             </div>
           </div>
-        )}
-
-        {/* Sea Quotes */}
-        {showSea && (
-          <div>
-            <div className="flex items-center gap-3 mb-4">
-              <h2 className="text-lg font-semibold text-gray-900">🚢 Sea Freight Options</h2>
-              <span className="bg-green-100 text-green-700 text-xs font-medium px-2 py-1 rounded-full">
-                {sea_quotes.length} quote{sea_quotes.length !== 1 ? 's' : ''}
-              </span>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {sea_quotes.map((quote, idx) => (
-                <QuoteCard key={quote.id} quote={quote} isLowest={idx === 0} isRecommended={analysis.recommendation === 'sea' && idx === 0} />
-              ))}
-              {sea_quotes.length === 0 && (
-                <div className="col-span-3 bg-gray-50 rounded-lg p-8 text-center text-gray-500">
-                  No sea freight quotes received yet
-                </div>
-              )}
-            </div>
+        ))}
+        {modes.length === 0 && (
+          <div className="bg-gray-50 rounded-lg p-8 text-center text-gray-500">
+            No quotes received yet
           </div>
         )}
       </div>
 
+      {/* Charge Comparison */}
+      <ChargeComparison quotes={shownModes.flatMap((group) => group.quotes)} currency={fx.currency} />
+
+      {/* Ranking */}
+      {ranking.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Ranking</h2>
+            <p className="text-sm text-gray-500">
+              Every quote scored on cost, transit time, deadline buffer, reliability, transshipments and free days
+            </p>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {ranking.map((entry) => (
+              <RankingRow
+                key={entry.quote_id}
+                entry={entry}
+                quote={compared.find((q) => q.id === entry.quote_id)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Expired Quotes */}
+      {expired_quotes?.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Expired Quotes</h2>
+            <p className="text-sm text-gray-500">No longer valid and excluded from the comparison</p>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {expired_quotes.map((quote) => (
+              <li key={quote.id} className="px-6 py-3 flex justify-between text-sm text-gray-500">
+                <span>{MODE_LABELS[quote.mode].icon} {quote.forwarder?.name || 'Unknown'}</span>
+                <span>
+                  {quote.currency} {quote.total_amount.toLocaleString()} · expired {quote.valid_until ? format(new Date(quote.valid_until), 'MMM d') : '-'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Temperature Non-Compliant Quotes */}
+      {temperature?.non_compliant.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Can&apos;t Hold {temperature.range}</h2>
+            <p className="text-sm text-gray-500">Excluded from the comparison because they won&apos;t keep the cargo in range</p>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {temperature.non_compliant.map((entry) => (
+              <li key={entry.quote_id} className="px-6 py-3 flex justify-between text-sm text-gray-500">
+                <span>{MODE_LABELS[entry.mode].icon} {entry.forwarder || 'Unknown'}</span>
+                <span>{entry.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Audit Trail */}
+      <ActivityTimeline requestId={params.id as string} />
+
       {/* Actions */}
       <div className="flex justify-end gap-4 pt-4">
         <button className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium">
@@ -226,11 +483,18 @@ function QuoteCard({
   quote,
   isLowest,
   isRecommended,
+  warningDays,
 }: {
-  quote: Quote
+  quote: ComparedQuote
   isLowest: boolean
   isRecommended: boolean
+  warningDays: number
 }) {
+  const daysLeft = quote.valid_until
+    ? differenceInCalendarDays(parseISO(quote.valid_until), new Date())
+    : null
+  const expiresSoon = daysLeft !== null && daysLeft <= warningDays
+
   return (
     <div className={`bg-white rounded-xl shadow-sm border-2 p-5 relative ${
       isRecommended ? 'border-green-500' : isLowest ? 'border-primary-500' : 'border-gray-200'
@@ -251,17 +515,77 @@ function QuoteCard({
         <div className="w-10 h-10 bg-slate-800 text-white rounded-lg flex items-center justify-center text-xs font-bold">
           {quote.forwarder?.short_code || '?'}
         </div>
-        <span className="font-medium text-gray-900">{quote.forwarder?.name || 'Unknown'}</span>
+        <Link
+          href={`/forwarders/${quote.forwarder_id}`}
+          className="font-medium text-gray-900 hover:text-primary-600 hover:underline"
+          title="View scorecard"
+        >
+          {quote.forwarder?.name || 'Unknown'}
+        </Link>
       </div>
 
       {/* Price */}
       <div className="bg-gray-50 rounded-lg p-4 text-center mb-4">
         <div className="text-2xl font-bold text-gray-900">
-          ${quote.total_amount.toLocaleString()}
+          {quote.currency} {quote.total_amount.toLocaleString()}
         </div>
+        {quote.currency !== quote.normalized_currency && (
+          <div className="text-xs text-gray-600">
+            {quote.normalized_total_amount !== null
+              ? `≈ ${quote.normalized_currency} ${quote.normalized_total_amount.toLocaleString()}`
+              : `No ${quote.currency} rate`}
+          </div>
+        )}
         <div className="text-xs text-gray-500">Total Cost</div>
+        {quote.landed_cost_breakdown && (
+          <div
+            className="text-sm font-medium text-gray-800 mt-2"
+            title={describeLandedCost(quote.landed_cost_breakdown, quote.normalized_currency)}
+          >
+            Landed: {quote.normalized_currency} {quote.landed_cost_breakdown.total.toLocaleString()}
+          </div>
+        )}
+        {quote.incoterm_cost && (
+          <div
+            className="text-xs text-gray-600 mt-1"
+            title={describeIncotermCost(quote.incoterm_cost, quote.normalized_currency)}
+          >
+            Your cost under {quote.incoterm_cost.incoterm}: {quote.normalized_currency} {quote.incoterm_cost.buyer_cost.toLocaleString()}
+            {' · '}Door-to-door: {quote.normalized_currency} {quote.incoterm_cost.door_to_door.toLocaleString()}
+          </div>
+        )}
+        {(quote.cost_per_chargeable_kg !== null || quote.cost_per_cbm !== null) && (
+          <div className="text-xs text-gray-600 mt-2">
+            {quote.cost_per_chargeable_kg !== null && `${quote.normalized_currency} ${quote.cost_per_chargeable_kg.toLocaleString()}/kg`}
+            {quote.cost_per_chargeable_kg !== null && quote.cost_per_cbm !== null && ' · '}
+            {quote.cost_per_cbm !== null && `${quote.normalized_currency} ${quote.cost_per_cbm.toLocaleString()}/cbm`}
+          </div>
+        )}
+        {quote.load_type && (
+          <div className="text-xs text-gray-600 mt-2">
+            {quote.load_type === 'lcl'
+              ? 'LCL'
+              : `FCL ${describeContainers(quote.containers)}` +
+                (quote.cost_per_container !== null
+                  ? ` · ${quote.normalized_currency} ${quote.cost_per_container.toLocaleString()}/container`
+                  : '')}
+          </div>
+        )}
+        {quote.dg_accepted !== null && (
+          <div className={`text-xs mt-2 ${quote.dg_accepted ? 'text-green-700' : 'text-red-700'}`}>
+            {quote.dg_accepted ? '☣️ Dangerous goods accepted' : '☣️ Dangerous goods not accepted'}
+          </div>
+        )}
+        {quote.temp_control && (
+          <div className="text-xs text-sky-700 mt-2">
+            ❄️ {TEMPERATURE_CONTROL_LABELS[quote.temp_control]}
+            {formatTemperatureRange(quote) && ` · ${formatTemperatureRange(quote)}`}
+          </div>
+        )}
       </div>
 
+      <QuoteWarnings warnings={quote.warnings} />
+
       {/* Details Grid */}
       <div className="grid grid-cols-2 gap-3 text-center mb-4">
         <div>
@@ -286,8 +610,9 @@ function QuoteCard({
 
       {/* Footer */}
       <div className="flex justify-between items-center pt-3 border-t border-gray-100">
-        <span className="text-xs text-gray-500">
+        <span className={`text-xs ${expiresSoon ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
           Valid until {quote.valid_until ? format(new Date(quote.valid_until), 'MMM d') : '-'}
+          {expiresSoon && ` · ${describeExpiry(daysLeft)}`}
         </span>
         <button className="text-sm text-primary-600 hover:text-primary-700 font-medium">
           Details
@@ -296,3 +621,268 @@ function QuoteCard({
     </div>
   )
 }
+
+function DraftQuoteRow({
+  quote,
+  onReview,
+}: {
+  quote: Quote
+  onReview: (quoteId: string, action: 'confirm' | 'discard') => Promise<void>
+}) {
+  const [busy, setBusy] = useState(false)
+
+  async function handle(action: 'confirm' | 'discard') {
+    setBusy(true)
+    await onReview(quote.id, action)
+    setBusy(false)
+  }
+
+  return (
+    <li className="px-6 py-4 flex items-start gap-4">
+      <span className="text-xl">{MODE_LABELS[quote.mode].icon}</span>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-3">
+          <span className="font-medium text-gray-900">{quote.forwarder?.name || 'Unknown'}</span>
+          <span className="text-lg font-bold text-gray-900">
+            {quote.currency} {quote.total_amount.toLocaleString()}
+          </span>
+        </div>
+        <div className="text-sm text-gray-600">
+          {quote.transit_days ? `${quote.transit_days} days` : 'Transit not stated'}
+          {quote.carrier && ` · ${quote.carrier}`}
+          {' · '}
+          Valid until {quote.valid_until ? format(new Date(quote.valid_until), 'MMM d, yyyy') : '-'}
+        </div>
+        {quote.notes && (
+          <p className="mt-1 text-xs text-gray-500 whitespace-pre-line">{quote.notes}</p>
+        )}
+        <QuoteWarnings warnings={quote.warnings} />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => handle('discard')}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => handle('confirm')}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          Confirm
+        </button>
+      </div>
+    </li>
+  )
+}
+
+/** Anomaly warnings raised when the quote was entered or last repriced */
+function QuoteWarnings({ warnings }: { warnings: QuoteWarning[] }) {
+  if (!warnings?.length) return null
+
+  return (
+    <ul className="mt-2 mb-4 space-y-1 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-800">
+      {warnings.map(warning => (
+        <li key={warning.message}>⚠️ {warning.message}</li>
+      ))}
+    </ul>
+  )
+}
+
+/** Colour classes per charge code; spelled out in full so Tailwind keeps them */
+const chargeStyles: Record<string, string> = {
+  FRT: 'bg-blue-600',
+  GRI: 'bg-blue-400',
+  BAF: 'bg-amber-500',
+  LSS: 'bg-amber-400',
+  EBS: 'bg-amber-300',
+  FSC: 'bg-yellow-400',
+  CAF: 'bg-rose-400',
+  PSS: 'bg-rose-500',
+  SEC: 'bg-red-400',
+  ISPS: 'bg-red-300',
+  WRS: 'bg-red-600',
+  OTH: 'bg-gray-400',
+  PUC: 'bg-teal-500',
+  ORG: 'bg-teal-400',
+  ECC: 'bg-teal-300',
+  OTHC: 'bg-cyan-500',
+  DOC: 'bg-violet-500',
+  BLF: 'bg-violet-400',
+  AWB: 'bg-violet-300',
+  AMS: 'bg-purple-400',
+  DTHC: 'bg-lime-500',
+  DHC: 'bg-lime-400',
+  ICC: 'bg-lime-300',
+  DEL: 'bg-green-500',
+}
+
+/**
+ * Compared quotes side by side, each a column of its charges stacked by
+ * standard code and scaled to the dearest quote
+ */
+function ChargeComparison({ quotes, currency }: { quotes: ComparedQuote[]; currency: string }) {
+  const columns = quotes.filter((quote) => quote.charge_breakdown?.length)
+  if (columns.length < 2) return null
+
+  const totalOf = (lines: ChargeBreakdownLine[]) => lines.reduce((sum, line) => sum + line.amount, 0)
+  const maxTotal = Math.max(...columns.map((quote) => totalOf(quote.charge_breakdown!)))
+  if (!(maxTotal > 0)) return null
+
+  // One legend entry per code shown, the first time it appears
+  const legend = new Map<string, ChargeBreakdownLine>()
+  for (const quote of columns) {
+    for (const line of quote.charge_breakdown!) {
+      legend.set(line.code ?? '', legend.get(line.code ?? '') ?? line)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="font-semibold text-gray-900">Charge Comparison</h2>
+        <p className="text-sm text-gray-500">
+          Each quote&apos;s charges by standard code in {currency}; destination charges are hatched and not part of the quoted total
+        </p>
+      </div>
+      <div className="px-6 py-4 overflow-x-auto">
+        <div className="flex items-end gap-6 h-64">
+          {columns.map((quote) => {
+            const lines = quote.charge_breakdown!
+            const total = totalOf(lines)
+            return (
+              <div key={quote.id} className="flex flex-col items-center justify-end h-full w-24 shrink-0">
+                <span className="text-xs font-medium text-gray-700 mb-1">
+                  {Math.round(total).toLocaleString()}
+                </span>
+                <div
+                  className="flex flex-col-reverse w-12 rounded-t overflow-hidden"
+                  style={{ height: `${(total / maxTotal) * 100}%` }}
+                >
+                  {lines.map((line) => (
+                    <div
+                      key={line.code ?? ''}
+                      className={`${line.code ? chargeStyles[line.code] ?? 'bg-gray-400' : 'bg-gray-200'} border-t border-white`}
+                      style={{
+                        height: `${(line.amount / total) * 100}%`,
+                        ...(line.destination && {
+                          backgroundImage: 'repeating-linear-gradient(45deg, rgba(255,255,255,0.5) 0 3px, transparent 3px 6px)',
+                        }),
+                      }}
+                      title={`${line.code ?? ''} ${line.name}: ${currency} ${line.amount.toLocaleString()}`.trim()}
+                    />
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+        <div className="flex gap-6 mt-2">
+          {columns.map((quote) => (
+            <span key={quote.id} className="w-24 shrink-0 text-center text-xs text-gray-600 truncate" title={quote.forwarder?.name}>
+              {MODE_LABELS[quote.mode].icon} {quote.forwarder?.name || 'Unknown'}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="px-6 py-3 border-t border-gray-100 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {Array.from(legend.values()).map((line) => (
+          <span key={line.code ?? ''} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${line.code ? chargeStyles[line.code] ?? 'bg-gray-400' : 'bg-gray-200'}`} />
+            {line.code ? `${line.code} · ${line.name}` : line.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/** Colour classes per mode; spelled out in full so Tailwind keeps them */
+const modeStyles: Record<TransportMode, { banner: string; icon: string; badge: string }> = {
+  air: { banner: 'bg-blue-50 border-blue-200', icon: 'bg-blue-100', badge: 'bg-blue-100 text-blue-700' },
+  sea_air: { banner: 'bg-cyan-50 border-cyan-200', icon: 'bg-cyan-100', badge: 'bg-cyan-100 text-cyan-700' },
+  sea: { banner: 'bg-green-50 border-green-200', icon: 'bg-green-100', badge: 'bg-green-100 text-green-700' },
+  rail: { banner: 'bg-amber-50 border-amber-200', icon: 'bg-amber-100', badge: 'bg-amber-100 text-amber-700' },
+  road: { banner: 'bg-orange-50 border-orange-200', icon: 'bg-orange-100', badge: 'bg-orange-100 text-orange-700' },
+  courier: { banner: 'bg-purple-50 border-purple-200', icon: 'bg-purple-100', badge: 'bg-purple-100 text-purple-700' },
+}
+
+const factorLabels: Record<ScoreFactor, string> = {
+  cost: 'Cost',
+  transit: 'Transit time',
+  deadline: 'Deadline buffer',
+  reliability: 'Reliability',
+  transshipment: 'Transshipments',
+  free_days: 'Free days',
+}
+
+function RankingRow({ entry, quote }: { entry: RankedQuote; quote?: Quote }) {
+  return (
+    <li className="px-6 py-3">
+      <details>
+        <summary className="flex items-center gap-4 cursor-pointer list-none">
+          <span className="w-6 text-sm font-bold text-gray-400">#{entry.rank}</span>
+          <span className="w-48 text-sm font-medium text-gray-900 truncate">
+            {MODE_LABELS[entry.mode].icon} {quote?.forwarder?.name || 'Unknown'}
+          </span>
+          <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${entry.rank === 1 ? 'bg-green-500' : 'bg-primary-500'}`}
+              style={{ width: `${entry.score}%` }}
+            />
+          </div>
+          <span className="w-12 text-right text-sm font-medium text-gray-900">{Math.round(entry.score)}</span>
+          {entry.meets_deadline === false && (
+            <span className="text-xs font-medium text-red-600">Misses deadline</span>
+          )}
+        </summary>
+        <table className="mt-3 ml-10 text-xs text-gray-600">
+          <tbody>
+            {entry.breakdown.map((component) => (
+              <tr key={component.factor}>
+                <td className="pr-4 py-0.5 font-medium text-gray-700">{factorLabels[component.factor]}</td>
+                <td className="pr-4 py-0.5">{component.detail}</td>
+                <td className="pr-4 py-0.5 text-right">{Math.round(component.score)}/100</td>
+                <td className="py-0.5 text-right text-gray-400">
+                  × {Math.round(component.weight * 100)}% = {component.points.toFixed(1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </li>
+  )
+}
+
+function describeLandedCost(breakdown: LandedCostBreakdown, currency: string): string {
+  const parts: [string, number][] = [
+    ['Freight', breakdown.freight],
+    ['Destination charges', breakdown.destination_charges],
+    ['Insurance', breakdown.insurance],
+    ['Duty', breakdown.duty],
+    ['VAT', breakdown.vat],
+    ['Carrying cost', breakdown.carrying_cost],
+  ]
+  return parts
+    .filter(([, amount]) => amount > 0)
+    .map(([label, amount]) => `${label}: ${currency} ${amount.toLocaleString()}`)
+    .join('\n')
+}
+
+function describeIncotermCost(cost: IncotermCost, currency: string): string {
+  return cost.charges
+    .map((line) =>
+      `${COMPONENT_LABELS[line.component]} (${line.charge.replace(/_/g, ' ')}): ${currency} ${line.amount.toLocaleString()}` +
+      ` · ${line.payer === 'buyer' ? 'you' : 'seller'}`
+    )
+    .join('\n')
+}
+
+function describeExpiry(days: number): string {
+  if (days <= 0) return 'expires today'
+  if (days === 1) return 'expires tomorrow'
+  return `expires in ${days} days`
+}
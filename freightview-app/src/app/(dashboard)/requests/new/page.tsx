@@ -3,7 +3,27 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
-import type { Forwarder, Country, CargoType } from '@/types/database'
+import { TRANSPORT_MODES, MODE_LABELS } from '@/lib/transport-modes'
+import { CONTAINER_SPECS, CONTAINER_TYPES, suggestContainers } from '@/lib/containers'
+import { rollupItems } from '@/lib/request-items'
+import { modeRestriction, PACKING_GROUPS } from '@/lib/dangerous-goods'
+import { TEMPERATURE_PRESETS } from '@/lib/temperature'
+import { INCOTERMS, INCOTERM_RULES } from '@/lib/incoterms'
+import PortSearch from '@/components/PortSearch'
+import type {
+  Forwarder,
+  Country,
+  CargoType,
+  DgClass,
+  PackingGroup,
+  ModePreference,
+  TransportMode,
+  LoadType,
+  ContainerCount,
+  Incoterm,
+  Port,
+  PortType,
+} from '@/types/database'
 
 export default function NewRequestPage() {
   const router = useRouter()
@@ -14,37 +34,53 @@ export default function NewRequestPage() {
   const [forwarders, setForwarders] = useState<Forwarder[]>([])
   const [countries, setCountries] = useState<Country[]>([])
   const [cargoTypes, setCargoTypes] = useState<CargoType[]>([])
+  const [dgClasses, setDgClasses] = useState<DgClass[]>([])
+  const [msdsFile, setMsdsFile] = useState<File | null>(null)
 
   // Form state
   const [formData, setFormData] = useState({
     reference: '',
     origin_country: '',
     origin_city: '',
+    origin_port: '',
     dest_country: '',
     dest_city: '',
+    dest_port: '',
     cargo_type: '',
     weight_kg: '',
     volume_cbm: '',
     pieces: '',
     value_usd: '',
+    hs_code: '',
+    dg_un_number: '',
+    dg_class: '',
+    dg_packing_group: '' as PackingGroup | '',
+    temp_min_c: '',
+    temp_max_c: '',
+    load_type: '' as LoadType | '',
+    containers: [] as ContainerCount[],
     cargo_ready_date: '',
     delivery_required_date: '',
-    mode_preference: 'any' as 'air' | 'sea' | 'any',
+    mode_preference: 'any' as ModePreference,
+    incoterms: '' as Incoterm | '',
     special_instructions: '',
     forwarder_ids: [] as string[],
   })
+  const [items, setItems] = useState<ItemRow[]>([])
 
   useEffect(() => {
     async function loadData() {
-      const [forwardersRes, countriesRes, cargoTypesRes] = await Promise.all([
+      const [forwardersRes, countriesRes, cargoTypesRes, dgClassesRes] = await Promise.all([
         supabase.from('forwarders').select('*').order('name'),
         supabase.from('countries').select('*').order('name'),
         supabase.from('cargo_types').select('*').order('name'),
+        supabase.from('dg_classes').select('*').order('code'),
       ])
 
       if (forwardersRes.data) setForwarders(forwardersRes.data)
       if (countriesRes.data) setCountries(countriesRes.data)
       if (cargoTypesRes.data) setCargoTypes(cargoTypesRes.data)
+      if (dgClassesRes.data) setDgClasses(dgClassesRes.data)
     }
     loadData()
   }, [])
@@ -64,6 +100,18 @@ export default function NewRequestPage() {
           volume_cbm: parseFloat(formData.volume_cbm) || 0,
           pieces: parseInt(formData.pieces) || undefined,
           value_usd: parseFloat(formData.value_usd) || undefined,
+          hs_code: formData.hs_code.trim() || undefined,
+          dg_un_number: isDangerous ? formData.dg_un_number.trim() || undefined : undefined,
+          dg_class: isDangerous ? formData.dg_class || undefined : undefined,
+          dg_packing_group: isDangerous ? formData.dg_packing_group || undefined : undefined,
+          temp_min_c: needsTemperature ? parseDegrees(formData.temp_min_c) : undefined,
+          temp_max_c: needsTemperature ? parseDegrees(formData.temp_max_c) : undefined,
+          load_type: formData.load_type || undefined,
+          containers: formData.load_type === 'fcl' ? formData.containers : undefined,
+          incoterms: formData.incoterms || undefined,
+          origin_port: formData.origin_port || undefined,
+          dest_port: formData.dest_port || undefined,
+          items: items.length > 0 ? items.filter(i => i.description.trim()).map(parseItem) : undefined,
         }),
       })
 
@@ -73,6 +121,17 @@ export default function NewRequestPage() {
       }
 
       const { request } = await response.json()
+
+      if (isDangerous && msdsFile) {
+        const upload = new FormData()
+        upload.append('file', msdsFile)
+        const msdsResponse = await fetch(`/api/requests/${request.id}/msds`, { method: 'POST', body: upload })
+        if (!msdsResponse.ok) {
+          const data = await msdsResponse.json()
+          throw new Error(`Request created, but the MSDS upload failed: ${data.error || msdsResponse.statusText}`)
+        }
+      }
+
       router.push(`/requests/${request.id}`)
     } catch (err: any) {
       setError(err.message)
@@ -81,6 +140,65 @@ export default function NewRequestPage() {
     }
   }
 
+  const selectedDgClass = dgClasses.find(c => c.code === formData.dg_class) || null
+  const isDangerous = !!cargoTypes.find(c => c.code === formData.cargo_type)?.is_hazmat ||
+    !!formData.dg_class || items.some(i => i.un_number.trim())
+  const needsTemperature = !!cargoTypes.find(c => c.code === formData.cargo_type)?.requires_temp_control
+  const temperaturePreset = TEMPERATURE_PRESETS.find(p =>
+    formData.temp_min_c === String(p.min) && formData.temp_max_c === String(p.max)
+  )?.id ?? ''
+
+  const suggestion = suggestContainers({
+    weight_kg: parseFloat(formData.weight_kg) || null,
+    volume_cbm: parseFloat(formData.volume_cbm) || null,
+    is_stackable: true,
+  })
+
+  const updateContainer = (index: number, changes: Partial<ContainerCount>) => {
+    setFormData(prev => ({
+      ...prev,
+      containers: prev.containers.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }))
+  }
+
+  // Keep the totals in step with the packing list; the API rolls them up the same way
+  const updateItems = (next: ItemRow[]) => {
+    setItems(next)
+    const totals = rollupItems(next.filter(i => i.description.trim()).map(parseItem))
+    setFormData(prev => ({
+      ...prev,
+      weight_kg: totals.weight_kg !== null ? String(totals.weight_kg) : prev.weight_kg,
+      volume_cbm: totals.volume_cbm !== null ? String(totals.volume_cbm) : prev.volume_cbm,
+      pieces: totals.pieces > 0 ? String(totals.pieces) : prev.pieces,
+      value_usd: totals.value_usd !== null ? String(totals.value_usd) : prev.value_usd,
+    }))
+  }
+
+  const updateItem = (index: number, field: keyof ItemRow, value: string) => {
+    updateItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)))
+  }
+
+  // Picking a port fills its country, and the city when none was typed
+  const selectPort = (end: 'origin' | 'dest', port: Port | null) => {
+    setFormData(prev => ({
+      ...prev,
+      [`${end}_port`]: port?.code ?? '',
+      ...(port && {
+        [`${end}_country`]: port.country_code,
+        [`${end}_city`]: prev[`${end}_city`] || port.city,
+      }),
+    }))
+  }
+
+  // A port outside the chosen country no longer applies
+  const selectCountry = (end: 'origin' | 'dest', country: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [`${end}_country`]: country,
+      ...(prev[`${end}_country`] !== country && { [`${end}_port`]: '' }),
+    }))
+  }
+
   const toggleForwarder = (id: string) => {
     setFormData(prev => ({
       ...prev,
@@ -134,10 +252,17 @@ export default function NewRequestPage() {
               <h4 className="font-medium text-gray-700 flex items-center gap-2">
                 <span>📍</span> Origin
               </h4>
+              <PortSearch
+                label="Port / Airport"
+                value={formData.origin_port}
+                portTypes={portTypesFor(formData.mode_preference, 'origin')}
+                placeholder="Search by code, name or city"
+                onSelect={(port) => selectPort('origin', port)}
+              />
               <Select
                 label="Country"
                 value={formData.origin_country}
-                onChange={(e) => setFormData({ ...formData, origin_country: e.target.value })}
+                onChange={(e) => selectCountry('origin', e.target.value)}
                 required
               >
                 <option value="">Select country...</option>
@@ -158,10 +283,17 @@ export default function NewRequestPage() {
               <h4 className="font-medium text-gray-700 flex items-center gap-2">
                 <span>🎯</span> Destination
               </h4>
+              <PortSearch
+                label="Port / Airport"
+                value={formData.dest_port}
+                portTypes={portTypesFor(formData.mode_preference, 'dest')}
+                placeholder="Search by code, name or city"
+                onSelect={(port) => selectPort('dest', port)}
+              />
               <Select
                 label="Country"
                 value={formData.dest_country}
-                onChange={(e) => setFormData({ ...formData, dest_country: e.target.value })}
+                onChange={(e) => selectCountry('dest', e.target.value)}
                 required
               >
                 <option value="">Select country...</option>
@@ -215,11 +347,228 @@ export default function NewRequestPage() {
               placeholder="0"
             />
           </div>
+          <div className="grid grid-cols-4 gap-4 mt-4">
+            <Input
+              label="HS Code"
+              value={formData.hs_code}
+              onChange={(e) => setFormData({ ...formData, hs_code: e.target.value })}
+              placeholder="e.g., 8517.13"
+            />
+            <Select
+              label="Load Type"
+              value={formData.load_type}
+              onChange={(e) => setFormData({ ...formData, load_type: e.target.value as LoadType | '' })}
+            >
+              <option value="">Forwarder to advise</option>
+              <option value="fcl">FCL (full container)</option>
+              <option value="lcl">LCL (consolidated)</option>
+            </Select>
+            {suggestion && (
+              <div className="col-span-2 self-end text-sm text-gray-500 pb-2">
+                Suggested: <span className="font-medium text-gray-700">{suggestion.reason}</span>
+                {suggestion.load_type === 'fcl' && (
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, load_type: 'fcl', containers: suggestion.containers })}
+                    className="ml-2 text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    Use
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          {formData.load_type === 'fcl' && (
+            <div className="mt-4 space-y-2">
+              {formData.containers.map((container, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={container.count}
+                    onChange={(e) => updateContainer(index, { count: parseInt(e.target.value) || 1 })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                  <span className="text-gray-500">×</span>
+                  <select
+                    value={container.type}
+                    onChange={(e) => updateContainer(index, { type: e.target.value as ContainerCount['type'] })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {CONTAINER_TYPES.map(type => (
+                      <option key={type} value={type}>{CONTAINER_SPECS[type].label} ({type})</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, containers: formData.containers.filter((_, i) => i !== index) })}
+                    className="text-sm text-gray-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, containers: [...formData.containers, { type: '40HC', count: 1 }] })}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                + Add container
+              </button>
+            </div>
+          )}
         </Section>
 
+        {/* Packing List */}
+        <Section title="Packing List">
+          <p className="text-sm text-gray-500 mb-4">
+            Optional. List each line with per-piece dimensions, weight and value; the cargo totals are calculated from it.
+          </p>
+          {items.length > 0 && (
+            <table className="w-full text-sm mb-3">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  {itemColumns.map(({ label }) => (
+                    <th key={label} className="font-medium pb-1 pr-2">{label}</th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index}>
+                    {itemColumns.map(({ field, width, type, placeholder }) => (
+                      <td key={field} className={`pr-2 pb-2 ${width}`}>
+                        <input
+                          type={type}
+                          min={type === 'number' ? 0 : undefined}
+                          step={type === 'number' ? 'any' : undefined}
+                          value={item[field]}
+                          onChange={(e) => updateItem(index, field, e.target.value)}
+                          placeholder={placeholder}
+                          required={field === 'description'}
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-md"
+                        />
+                      </td>
+                    ))}
+                    <td className="pb-2">
+                      <button
+                        type="button"
+                        onClick={() => updateItems(items.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Remove line"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <button
+            type="button"
+            onClick={() => updateItems([...items, { ...emptyItem }])}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            + Add line
+          </button>
+        </Section>
+
+        {/* Dangerous Goods */}
+        {isDangerous && (
+          <Section title="Dangerous Goods">
+            <div className="grid grid-cols-4 gap-4">
+              <Input
+                label="UN Number"
+                value={formData.dg_un_number}
+                onChange={(e) => setFormData({ ...formData, dg_un_number: e.target.value })}
+                placeholder="e.g., UN1266"
+                required
+              />
+              <Select
+                label="Class"
+                value={formData.dg_class}
+                onChange={(e) => setFormData({ ...formData, dg_class: e.target.value })}
+                required
+              >
+                <option value="">Select class...</option>
+                {dgClasses.map(c => (
+                  <option key={c.code} value={c.code}>{c.code} – {c.name}</option>
+                ))}
+              </Select>
+              <Select
+                label="Packing Group"
+                value={formData.dg_packing_group}
+                onChange={(e) => setFormData({ ...formData, dg_packing_group: e.target.value as PackingGroup | '' })}
+              >
+                <option value="">Not applicable</option>
+                {PACKING_GROUPS.map(group => (
+                  <option key={group} value={group}>{group}</option>
+                ))}
+              </Select>
+              <Input
+                label="MSDS (PDF or image)"
+                type="file"
+                accept="application/pdf,image/png,image/jpeg"
+                onChange={(e) => setMsdsFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            {selectedDgClass && (selectedDgClass.restrictions || !selectedDgClass.air_allowed) && (
+              <p className="text-sm text-amber-700 mt-3">
+                ⚠️ {[!selectedDgClass.air_allowed && 'Cannot be shipped by air.', selectedDgClass.restrictions]
+                  .filter(Boolean)
+                  .join(' ')}
+              </p>
+            )}
+          </Section>
+        )}
+
+        {/* Temperature Control */}
+        {needsTemperature && (
+          <Section title="Temperature Control">
+            <div className="grid grid-cols-3 gap-4">
+              <Select
+                label="Range"
+                value={temperaturePreset}
+                onChange={(e) => {
+                  const preset = TEMPERATURE_PRESETS.find(p => p.id === e.target.value)
+                  if (preset) {
+                    setFormData({ ...formData, temp_min_c: String(preset.min), temp_max_c: String(preset.max) })
+                  }
+                }}
+              >
+                <option value="">Custom</option>
+                {TEMPERATURE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label} ({preset.min} to {preset.max} °C)
+                  </option>
+                ))}
+              </Select>
+              <Input
+                label="Min (°C)"
+                type="number"
+                step="0.5"
+                value={formData.temp_min_c}
+                onChange={(e) => setFormData({ ...formData, temp_min_c: e.target.value })}
+              />
+              <Input
+                label="Max (°C)"
+                type="number"
+                step="0.5"
+                value={formData.temp_max_c}
+                onChange={(e) => setFormData({ ...formData, temp_max_c: e.target.value })}
+              />
+            </div>
+            <p className="text-sm text-gray-500 mt-3">
+              Only quotes with reefer, active or passive temperature control that holds this range are compared.
+            </p>
+          </Section>
+        )}
+
         {/* Requirements */}
         <Section title="Requirements">
-          <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="grid grid-cols-3 gap-4 mb-4">
             <Input
               label="Cargo Ready Date"
               type="date"
@@ -234,37 +583,60 @@ export default function NewRequestPage() {
               onChange={(e) => setFormData({ ...formData, delivery_required_date: e.target.value })}
               required
             />
+            <Select
+              label="Incoterms"
+              value={formData.incoterms}
+              onChange={(e) => setFormData({ ...formData, incoterms: e.target.value as Incoterm | '' })}
+            >
+              <option value="">Organization default</option>
+              {INCOTERMS.map(code => (
+                <option key={code} value={code}>{code} – {INCOTERM_RULES[code].name}</option>
+              ))}
+            </Select>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Mode Preference</label>
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               {[
-                { value: 'any', icon: '🔄', label: 'Quote Both', desc: 'Compare air & sea options' },
-                { value: 'air', icon: '✈️', label: 'Air Only', desc: 'Fastest transit time' },
-                { value: 'sea', icon: '🚢', label: 'Sea Only', desc: 'Most economical' },
-              ].map((mode) => (
-                <label
-                  key={mode.value}
-                  className={`flex flex-col items-center p-4 border-2 rounded-lg cursor-pointer transition-colors ${
-                    formData.mode_preference === mode.value
-                      ? 'border-primary-500 bg-primary-50'
-                      : 'border-gray-200 hover:border-primary-300'
-                  }`}
-                >
-                  <input
-                    type="radio"
-                    name="mode_preference"
-                    value={mode.value}
-                    checked={formData.mode_preference === mode.value}
-                    onChange={(e) => setFormData({ ...formData, mode_preference: e.target.value as any })}
-                    className="sr-only"
-                  />
-                  <span className="text-2xl mb-1">{mode.icon}</span>
-                  <span className="font-medium text-gray-900">{mode.label}</span>
-                  <span className="text-xs text-gray-500">{mode.desc}</span>
-                </label>
-              ))}
+                { value: 'any', icon: '🔄', label: 'Any Mode', desc: 'Compare every option' },
+                ...TRANSPORT_MODES.map((value) => ({
+                  value,
+                  icon: MODE_LABELS[value].icon,
+                  label: `${MODE_LABELS[value].label} Only`,
+                  desc: modeDescriptions[value],
+                })),
+              ].map((mode) => {
+                const restriction = isDangerous && selectedDgClass
+                  ? modeRestriction(selectedDgClass, mode.value as ModePreference)
+                  : null
+                return (
+                  <label
+                    key={mode.value}
+                    title={restriction ?? undefined}
+                    className={`flex flex-col items-center p-4 border-2 rounded-lg transition-colors ${
+                      restriction
+                        ? 'border-gray-100 opacity-40 cursor-not-allowed'
+                        : formData.mode_preference === mode.value
+                          ? 'border-primary-500 bg-primary-50 cursor-pointer'
+                          : 'border-gray-200 hover:border-primary-300 cursor-pointer'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="mode_preference"
+                      value={mode.value}
+                      checked={formData.mode_preference === mode.value}
+                      onChange={(e) => setFormData({ ...formData, mode_preference: e.target.value as any })}
+                      disabled={!!restriction}
+                      className="sr-only"
+                    />
+                    <span className="text-2xl mb-1">{mode.icon}</span>
+                    <span className="font-medium text-gray-900">{mode.label}</span>
+                    <span className="text-xs text-gray-500">{mode.desc}</span>
+                  </label>
+                )
+              })}
             </div>
           </div>
         </Section>
@@ -275,27 +647,34 @@ export default function NewRequestPage() {
             Choose which forwarders to request quotes from
           </p>
           <div className="grid grid-cols-4 gap-3">
-            {forwarders.map((f) => (
-              <label
-                key={f.id}
-                className={`flex flex-col items-center p-4 border-2 rounded-lg cursor-pointer transition-colors ${
-                  formData.forwarder_ids.includes(f.id)
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-gray-200 hover:border-green-300'
-                }`}
-              >
-                <input
-                  type="checkbox"
-                  checked={formData.forwarder_ids.includes(f.id)}
-                  onChange={() => toggleForwarder(f.id)}
-                  className="sr-only"
-                />
-                <div className="w-10 h-10 bg-slate-800 text-white rounded-lg flex items-center justify-center text-xs font-bold mb-2">
-                  {f.short_code}
-                </div>
-                <span className="text-xs text-gray-600 text-center">{f.name}</span>
-              </label>
-            ))}
+            {forwarders.map((f) => {
+              const noDg = isDangerous && !f.accepts_dangerous_goods
+              return (
+                <label
+                  key={f.id}
+                  className={`flex flex-col items-center p-4 border-2 rounded-lg transition-colors ${
+                    noDg
+                      ? 'border-gray-100 opacity-40 cursor-not-allowed'
+                      : formData.forwarder_ids.includes(f.id)
+                        ? 'border-green-500 bg-green-50 cursor-pointer'
+                        : 'border-gray-200 hover:border-green-300 cursor-pointer'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.forwarder_ids.includes(f.id)}
+                    onChange={() => toggleForwarder(f.id)}
+                    disabled={noDg}
+                    className="sr-only"
+                  />
+                  <div className="w-10 h-10 bg-slate-800 text-white rounded-lg flex items-center justify-center text-xs font-bold mb-2">
+                    {f.short_code}
+                  </div>
+                  <span className="text-xs text-gray-600 text-center">{f.name}</span>
+                  {noDg && <span className="text-xs text-gray-500">No DG</span>}
+                </label>
+              )
+            })}
           </div>
         </Section>
 
@@ -332,6 +711,73 @@ export default function NewRequestPage() {
   )
 }
 
+const modeDescriptions: Record<TransportMode, string> = {
+  air: 'Fastest transit time',
+  sea_air: 'Faster than sea, cheaper than air',
+  sea: 'Most economical',
+  rail: 'Asia–Europe corridor',
+  road: 'Regional FTL/LTL',
+  courier: 'Small, urgent parcels',
+}
+
+/** Packing list line as edited in the form */
+type ItemRow = Record<
+  'description' | 'hs_code' | 'quantity' | 'length_cm' | 'width_cm' | 'height_cm' | 'gross_weight_kg' | 'unit_value' | 'un_number',
+  string
+>
+
+const emptyItem: ItemRow = {
+  description: '',
+  hs_code: '',
+  quantity: '1',
+  length_cm: '',
+  width_cm: '',
+  height_cm: '',
+  gross_weight_kg: '',
+  unit_value: '',
+  un_number: '',
+}
+
+const itemColumns: { field: keyof ItemRow; label: string; width: string; type: string; placeholder?: string }[] = [
+  { field: 'description', label: 'Description', width: 'w-1/4', type: 'text' },
+  { field: 'hs_code', label: 'HS Code', width: 'w-24', type: 'text' },
+  { field: 'quantity', label: 'Qty', width: 'w-16', type: 'number' },
+  { field: 'length_cm', label: 'L (cm)', width: 'w-16', type: 'number' },
+  { field: 'width_cm', label: 'W (cm)', width: 'w-16', type: 'number' },
+  { field: 'height_cm', label: 'H (cm)', width: 'w-16', type: 'number' },
+  { field: 'gross_weight_kg', label: 'Kg/pc', width: 'w-20', type: 'number' },
+  { field: 'unit_value', label: 'USD/pc', width: 'w-20', type: 'number' },
+  { field: 'un_number', label: 'UN No.', width: 'w-20', type: 'text', placeholder: 'UN1266' },
+]
+
+function parseItem(row: ItemRow) {
+  const measure = (value: string) => parseFloat(value) || null
+  return {
+    description: row.description.trim(),
+    hs_code: row.hs_code.trim() || null,
+    quantity: parseInt(row.quantity) || 1,
+    length_cm: measure(row.length_cm),
+    width_cm: measure(row.width_cm),
+    height_cm: measure(row.height_cm),
+    gross_weight_kg: measure(row.gross_weight_kg),
+    unit_value: row.unit_value === '' ? null : parseFloat(row.unit_value),
+    un_number: row.un_number.trim() || null,
+  }
+}
+
+/** Ports that suit the preferred mode; sea-air leaves by sea and arrives by air */
+function portTypesFor(mode: ModePreference, end: 'origin' | 'dest'): PortType[] {
+  if (mode === 'air' || mode === 'courier') return ['airport']
+  if (mode === 'sea') return ['seaport']
+  if (mode === 'sea_air') return end === 'origin' ? ['seaport'] : ['airport']
+  return []
+}
+
+/** Temperatures may be zero or negative, so only blank means unset */
+function parseDegrees(value: string): number | undefined {
+  return value.trim() === '' ? undefined : parseFloat(value)
+}
+
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { format } from 'date-fns'
 import { getDemoRequestsWithQuotes } from '@/lib/demo-data'
+import { TRANSPORT_MODES, MODE_LABELS } from '@/lib/transport-modes'
 
 export default function RequestsPage() {
   const requests = getDemoRequestsWithQuotes()
@@ -65,8 +66,9 @@ export default function RequestsPage() {
           </thead>
           <tbody className="divide-y divide-gray-100">
             {requests.map((request) => {
-              const airCount = request.quotes?.filter((q) => q.mode === 'air').length || 0
-              const seaCount = request.quotes?.filter((q) => q.mode === 'sea').length || 0
+              const modeCounts = TRANSPORT_MODES
+                .map((mode) => ({ mode, count: request.quotes?.filter((q) => q.mode === mode).length || 0 }))
+                .filter(({ count }) => count > 0)
 
               return (
                 <tr key={request.id} className="hover:bg-gray-50">
@@ -97,17 +99,18 @@ export default function RequestsPage() {
                   </td>
                   <td className="px-6 py-4">
                     <div className="flex gap-2">
-                      {airCount > 0 && (
-                        <span className="inline-flex items-center gap-1 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
-                          ✈️ {airCount}
+                      {modeCounts.map(({ mode, count }) => (
+                        <span
+                          key={mode}
+                          title={MODE_LABELS[mode].label}
+                          className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full ${
+                            mode === 'air' ? 'bg-blue-100 text-blue-700' : mode === 'sea' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {MODE_LABELS[mode].icon} {count}
                         </span>
-                      )}
-                      {seaCount > 0 && (
-                        <span className="inline-flex items-center gap-1 text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full">
-                          🚢 {seaCount}
-                        </span>
-                      )}
-                      {airCount === 0 && seaCount === 0 && (
+                      ))}
+                      {modeCounts.length === 0 && (
                         <span className="text-sm text-gray-400">None yet</span>
                       )}
                     </div>
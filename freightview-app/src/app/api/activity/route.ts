@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Activity Log API
+ *
+ * Endpoint for reading the audit trail of changes within the caller's
+ * organization. Entries are written by the mutating API routes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import type { ActivityLog } from '@/types/database'
+import type { ActivityListResponse, ApiErrorResponse } from '@/types/api'
+
+/** request_id goes into an or() filter string, so it must be a bare UUID */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/activity
+ *
+ * Returns a paginated audit trail, newest first. Organization members see
+ * all entries for their organization; users without one see their own.
+ *
+ * @query {string} [request_id] - Entries about a request and its quotes/decisions
+ * @query {string} [entity_type] - Filter by entity type (e.g., 'request', 'quote')
+ * @query {string} [entity_id] - Filter by entity UUID
+ * @query {string} [user_id] - Filter by acting user
+ * @query {string} [action] - Filter by action (e.g., 'decision.made')
+ * @query {string} [from] - Only entries on or after this ISO date
+ * @query {string} [to] - Only entries on or before this ISO date
+ * @query {number} [limit=50] - Maximum number of entries to return (max 200)
+ * @query {number} [offset=0] - Number of entries to skip for pagination
+ *
+ * @returns {ActivityListResponse} Activity entries with acting user
+ *
+ * @throws {400} Bad Request - Invalid date filter or request_id
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * // Timeline for a request
+ * GET /api/activity?request_id=123e4567-e89b-12d3-a456-426614174000
+ *
+ * @example
+ * // Everything a colleague did last week
+ * GET /api/activity?user_id=user-uuid&from=2024-02-01&to=2024-02-08
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ActivityListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const requestId = searchParams.get('request_id')
+  const entityType = searchParams.get('entity_type')
+  const entityId = searchParams.get('entity_id')
+  const userId = searchParams.get('user_id')
+  const action = searchParams.get('action')
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+  const offset = parseInt(searchParams.get('offset') || '0')
+
+  if (requestId && !UUID_PATTERN.test(requestId)) {
+    return NextResponse.json(
+      { error: 'request_id must be a UUID' },
+      { status: 400 }
+    )
+  }
+
+  if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+    return NextResponse.json(
+      { error: 'from and to must be valid ISO dates' },
+      { status: 400 }
+    )
+  }
+
+  let query = supabase
+    .from('activity_log')
+    .select(`
+      *,
+      user:profiles (id, email)
+    `, { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (access.organizationId) {
+    query = query.eq('organization_id', access.organizationId)
+  } else {
+    query = query.is('organization_id', null).eq('user_id', access.userId)
+  }
+
+  if (requestId) {
+    query = query.or(`entity_id.eq.${requestId},metadata->>request_id.eq.${requestId}`)
+  }
+  if (entityType) {
+    query = query.eq('entity_type', entityType)
+  }
+  if (entityId) {
+    query = query.eq('entity_id', entityId)
+  }
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+  if (action) {
+    query = query.eq('action', action)
+  }
+  if (from) {
+    query = query.gte('created_at', new Date(from).toISOString())
+  }
+  if (to) {
+    // A bare date includes the whole day
+    const toDate = new Date(to)
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      toDate.setUTCDate(toDate.getUTCDate() + 1)
+      query = query.lt('created_at', toDate.toISOString())
+    } else {
+      query = query.lte('created_at', toDate.toISOString())
+    }
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: ActivityListResponse = {
+    activities: data as ActivityLog[],
+    count: count ?? data?.length ?? 0,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Lane Analytics API
+ *
+ * Endpoint for the rate history of the caller's lanes: what forwarders
+ * have quoted per chargeable kg and per cbm, how long they said transit
+ * would take, and how far apart their prices were, by mode and month.
+ * Buyers use it to judge whether a new quote is above or below what the
+ * lane has cost before.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subMonths } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter } from '@/lib/access'
+import { normalizeQuotes } from '@/lib/fx'
+import { buildLaneHistory, type LaneQuote, type LaneRequest } from '@/lib/lane-analytics'
+import { TRANSPORT_MODES, isTransportMode } from '@/lib/transport-modes'
+import type { LaneGrouping, Quote } from '@/types/database'
+import type { LaneAnalyticsResponse, ApiErrorResponse } from '@/types/api'
+
+/** Months covered when no `from` date is given */
+const DEFAULT_PERIOD_MONTHS = 12
+
+/**
+ * GET /api/analytics/lanes
+ *
+ * Returns quote history for each lane and mode in the period, limited to
+ * requests the caller can see (their organization's, or their own outside
+ * an organization). Costs are given in the organization's default currency.
+ *
+ * @query {string} [group_by=country] - 'country' or 'port' lanes
+ * @query {string} [origin] - Origin country or port code, per group_by
+ * @query {string} [dest] - Destination country or port code, per group_by
+ * @query {string} [mode] - Only this transport mode
+ * @query {string} [from] - Start of the period (ISO date), by quote date; defaults to 12 months ago
+ * @query {string} [to] - End of the period (ISO date, inclusive); defaults to today
+ *
+ * @returns {LaneAnalyticsResponse} Rate history per lane and mode, busiest first
+ *
+ * @throws {400} Bad Request - Unknown grouping or mode, from or to isn't a date, or from is after to
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * GET /api/analytics/lanes?origin=CN&dest=US&mode=sea
+ *
+ * @example Response
+ * {
+ *   "group_by": "country",
+ *   "from": "2025-10-18",
+ *   "to": "2026-10-18",
+ *   "currency": "USD",
+ *   "lanes": [
+ *     {
+ *       "origin": "CN",
+ *       "dest": "US",
+ *       "mode": "sea",
+ *       "summary": {
+ *         "quotes": 46, "requests": 15, "forwarders": 4,
+ *         "cost_per_kg": { "count": 46, "min": 0.21, "p25": 0.27, "median": 0.31, "p75": 0.38, "max": 0.52 },
+ *         "cost_per_cbm": { ... },
+ *         "transit_days": { ... },
+ *         "spread_pct": 22.5
+ *       },
+ *       "months": [{ "month": "2026-01", "quotes": 5, ... }, ...]
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<LaneAnalyticsResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const groupBy = (searchParams.get('group_by') || 'country') as LaneGrouping
+  const origin = searchParams.get('origin')?.trim().toUpperCase()
+  const dest = searchParams.get('dest')?.trim().toUpperCase()
+  const mode = searchParams.get('mode')
+  const to = searchParams.get('to') || format(new Date(), 'yyyy-MM-dd')
+  const fromParam = searchParams.get('from')
+
+  if (groupBy !== 'country' && groupBy !== 'port') {
+    return NextResponse.json(
+      { error: "group_by must be 'country' or 'port'" },
+      { status: 400 }
+    )
+  }
+
+  if (mode && !isTransportMode(mode)) {
+    return NextResponse.json(
+      { error: `mode must be one of: ${TRANSPORT_MODES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if ((fromParam && isNaN(Date.parse(fromParam))) || isNaN(Date.parse(to))) {
+    return NextResponse.json(
+      { error: 'from and to must be valid ISO dates' },
+      { status: 400 }
+    )
+  }
+
+  const from = fromParam || format(subMonths(new Date(to), DEFAULT_PERIOD_MONTHS), 'yyyy-MM-dd')
+
+  // A bare date includes the whole day
+  const toDate = new Date(to)
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    toDate.setUTCDate(toDate.getUTCDate() + 1)
+  }
+
+  if (new Date(from) >= toDate) {
+    return NextResponse.json(
+      { error: 'from must be before to' },
+      { status: 400 }
+    )
+  }
+
+  // The inner join keeps only requests with a quote in the period
+  let query = supabase
+    .from('requests')
+    .select(`
+      id,
+      origin_country,
+      dest_country,
+      origin_port,
+      dest_port,
+      weight_kg,
+      volume_cbm,
+      quotes!inner (
+        id, forwarder_id, mode, status, transit_days, chargeable_weight,
+        containers, created_at, total_amount, currency
+      )
+    `)
+    .or(requestScopeFilter(access))
+    .neq('quotes.status', 'draft')
+    .gte('quotes.created_at', new Date(from).toISOString())
+    .lt('quotes.created_at', toDate.toISOString())
+
+  if (mode) {
+    query = query.eq('quotes.mode', mode)
+  }
+  if (origin) {
+    query = query.eq(groupBy === 'port' ? 'origin_port' : 'origin_country', origin)
+  }
+  if (dest) {
+    query = query.eq(groupBy === 'port' ? 'dest_port' : 'dest_country', dest)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  type QuoteRow = Omit<LaneQuote, 'normalized_total_amount'> & Pick<Quote, 'total_amount' | 'currency'>
+  const requests = (data || []) as unknown as (LaneRequest & { quotes: QuoteRow[] })[]
+
+  let normalized
+  try {
+    normalized = await normalizeQuotes(
+      supabase,
+      access.organizationId,
+      requests.flatMap(r => r.quotes)
+    )
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  const amounts = new Map(normalized.quotes.map(q => [q.id, q.normalized_total_amount]))
+  const lanes = buildLaneHistory(
+    requests.map(r => ({
+      ...r,
+      quotes: r.quotes.map(q => ({ ...q, normalized_total_amount: amounts.get(q.id) ?? null })),
+    })),
+    groupBy
+  )
+
+  const response: LaneAnalyticsResponse = {
+    group_by: groupBy,
+    from,
+    to,
+    currency: normalized.fx.currency,
+    lanes,
+  }
+
+  return NextResponse.json(response)
+}
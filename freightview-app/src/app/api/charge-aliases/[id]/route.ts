@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Single Charge Alias API
+ *
+ * Endpoint for removing an organization charge alias. Requires owner or
+ * admin role; shared aliases can't be deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import type { DeleteChargeAliasResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * DELETE /api/charge-aliases/:id
+ *
+ * Deletes an organization charge alias. Charge names it matched fall back
+ * to the shared aliases from the next time charges are entered; stored
+ * lines keep their code.
+ *
+ * @param {string} id - The charge alias UUID
+ *
+ * @returns {DeleteChargeAliasResponse} Confirmation of deletion
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin
+ * @throws {404} Not Found - Alias doesn't exist in the caller's organization
+ *
+ * @example
+ * DELETE /api/charge-aliases/alias-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<DeleteChargeAliasResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: existing } = await supabase
+    .from('charge_aliases')
+    .select('id, alias, code, forwarder_id')
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+    .single()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Charge alias not found' }, { status: 404 })
+  }
+
+  const { error } = await supabase
+    .from('charge_aliases')
+    .delete()
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'charge_aliases.deleted',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: { alias: existing.alias, code: existing.code, forwarder_id: existing.forwarder_id },
+  })
+
+  const response: DeleteChargeAliasResponse = {
+    message: 'Charge alias deleted successfully',
+    deleted_id: params.id,
+  }
+
+  return NextResponse.json(response)
+}
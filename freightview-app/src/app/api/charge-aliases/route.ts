@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Charge Aliases API
+ *
+ * Standard charge codes and the names forwarders use for them, used to
+ * map itemised quote charges. Everyone can read the codes, shared aliases
+ * and their organization's aliases; owners and admins maintain their
+ * organization's aliases.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { loadChargeCatalogue, normalizeChargeAlias } from '@/lib/quote-charges'
+import type { ChargeAlias } from '@/types/database'
+import type {
+  ChargeAliasListResponse,
+  UpsertChargeAliasesRequest,
+  UpsertChargeAliasesResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/**
+ * GET /api/charge-aliases
+ *
+ * Returns the standard charge codes and the aliases that map to them.
+ *
+ * @returns {ChargeAliasListResponse} Codes in display order, shared and organization aliases
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * GET /api/charge-aliases
+ */
+export async function GET(): Promise<NextResponse<ChargeAliasListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const catalogue = await loadChargeCatalogue(supabase, access.organizationId)
+    const response: ChargeAliasListResponse = {
+      codes: catalogue.codes,
+      aliases: catalogue.aliases.sort((a, b) => a.code.localeCompare(b.code) || a.alias.localeCompare(b.alias)),
+    }
+    return NextResponse.json(response)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/charge-aliases
+ *
+ * Creates or remaps organization aliases. An alias is matched
+ * case-insensitively against charge names; give a `forwarder_id` for a
+ * name only that forwarder uses. Organization aliases take precedence over
+ * shared ones, and forwarder aliases over both.
+ *
+ * @body {UpsertChargeAliasesRequest} Aliases to store
+ *
+ * @returns {UpsertChargeAliasesResponse} The stored aliases
+ *
+ * @throws {400} Bad Request - Missing aliases, an unknown code or forwarder
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin of an organization
+ *
+ * @example
+ * POST /api/charge-aliases
+ * {
+ *   "aliases": [
+ *     { "alias": "Seefracht", "code": "FRT" },
+ *     { "alias": "Congestion fee", "code": "PSS", "forwarder_id": "forwarder-uuid" }
+ *   ]
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<UpsertChargeAliasesResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpsertChargeAliasesRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!Array.isArray(body.aliases) || body.aliases.length === 0) {
+    return NextResponse.json(
+      { error: 'aliases must be a non-empty array' },
+      { status: 400 }
+    )
+  }
+
+  const forwarderIds = Array.from(new Set(
+    body.aliases.map(a => a.forwarder_id).filter((id): id is string => typeof id === 'string' && id.length > 0)
+  ))
+
+  const [codesResult, forwardersResult] = await Promise.all([
+    supabase.from('charge_codes').select('code'),
+    forwarderIds.length > 0
+      ? supabase.from('forwarders').select('id').in('id', forwarderIds)
+      : Promise.resolve({ data: [] as { id: string }[], error: null }),
+  ])
+
+  if (codesResult.error || forwardersResult.error) {
+    return NextResponse.json(
+      { error: (codesResult.error || forwardersResult.error)!.message },
+      { status: 500 }
+    )
+  }
+
+  const knownCodes = new Set((codesResult.data || []).map(c => c.code as string))
+  const knownForwarders = new Set((forwardersResult.data || []).map(f => f.id as string))
+
+  const rows = []
+  for (const [i, entry] of Array.from(body.aliases.entries())) {
+    const alias = typeof entry.alias === 'string' ? normalizeChargeAlias(entry.alias) : ''
+    const code = typeof entry.code === 'string' ? entry.code.toUpperCase() : ''
+
+    if (!alias || alias.length > 100) {
+      return NextResponse.json(
+        { error: `aliases[${i}].alias must be 1-100 characters` },
+        { status: 400 }
+      )
+    }
+    if (!knownCodes.has(code)) {
+      return NextResponse.json(
+        { error: `aliases[${i}].code is not a standard charge code` },
+        { status: 400 }
+      )
+    }
+    if (entry.forwarder_id && !knownForwarders.has(entry.forwarder_id)) {
+      return NextResponse.json(
+        { error: `aliases[${i}].forwarder_id is not a known forwarder` },
+        { status: 400 }
+      )
+    }
+
+    rows.push({
+      organization_id: access.organizationId,
+      forwarder_id: entry.forwarder_id || null,
+      alias,
+      code,
+    })
+  }
+
+  const { data, error } = await supabase
+    .from('charge_aliases')
+    .upsert(rows, { onConflict: 'organization_id,forwarder_id,alias' })
+    .select()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const aliases = data as ChargeAlias[]
+
+  await logActivity(supabase, request, access, {
+    action: 'charge_aliases.updated',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: {
+      aliases: aliases.map(a => ({ alias: a.alias, code: a.code, forwarder_id: a.forwarder_id })),
+    },
+  })
+
+  const response: UpsertChargeAliasesResponse = { aliases }
+
+  return NextResponse.json(response, { status: 201 })
+}
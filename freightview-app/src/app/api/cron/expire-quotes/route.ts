@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Quote Expiry Job
+ *
+ * Cron-invoked endpoint that marks quotes past their validity date as
+ * expired. Authenticated with CRON_SECRET and run with the service client
+ * across all organizations.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { logActivity } from '@/lib/activity'
+import { hasSharedSecret } from '@/lib/webhook-auth'
+import { expireStaleQuotes, type ExpiredQuote } from '@/lib/quote-expiry'
+import type { ExpiryRunResponse, ApiErrorResponse } from '@/types/api'
+
+/**
+ * GET /api/cron/expire-quotes
+ *
+ * Flips every 'active' quote whose `valid_until` date has passed to
+ * 'expired'. Quotes are valid through their `valid_until` day, so a daily
+ * run shortly after midnight is enough. Selected and draft quotes are
+ * left alone.
+ *
+ * @query {string} [token] - CRON_SECRET, when the scheduler can't send headers
+ *
+ * @returns {ExpiryRunResponse} Number and IDs of quotes expired
+ *
+ * @throws {401} Unauthorized - Missing or wrong CRON_SECRET
+ *
+ * @example
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://app.example.com/api/cron/expire-quotes
+ *
+ * @example Response
+ * {
+ *   "expired_count": 2,
+ *   "expired_ids": ["quote-uuid-1", "quote-uuid-2"]
+ * }
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ExpiryRunResponse | ApiErrorResponse>> {
+  if (!hasSharedSecret(request, process.env.CRON_SECRET)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createServiceClient()
+
+  let expired: ExpiredQuote[]
+  try {
+    expired = await expireStaleQuotes(supabase)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  for (const quote of expired) {
+    await logActivity(supabase, request, null, {
+      action: 'quote.expired',
+      entityType: 'quote',
+      entityId: quote.id,
+      organizationId: quote.request?.organization_id ?? null,
+      metadata: {
+        request_id: quote.request_id,
+        forwarder_id: quote.forwarder_id,
+        mode: quote.mode,
+        valid_until: quote.valid_until,
+      },
+    })
+  }
+
+  const response: ExpiryRunResponse = {
+    expired_count: expired.length,
+    expired_ids: expired.map(q => q.id),
+  }
+
+  return NextResponse.json(response)
+}
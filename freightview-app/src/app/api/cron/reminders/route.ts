@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Quote Reminder Job
+ *
+ * Cron-invoked endpoint that reminds forwarders who haven't quoted and
+ * escalates to the request owner after a missed reminder. Authenticated
+ * with CRON_SECRET and run with the service client across all
+ * organizations.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { logActivity } from '@/lib/activity'
+import { hasSharedSecret } from '@/lib/webhook-auth'
+import { runQuoteReminders } from '@/lib/mail/reminders'
+import type { ReminderRunResponse, ApiErrorResponse } from '@/types/api'
+
+/**
+ * GET /api/cron/reminders
+ *
+ * Finds requests still in 'pending_quotes' and, for each contacted
+ * forwarder without a quote:
+ * - sends a reminder REMINDER_AFTER_HOURS (default 48) after the RFQ and
+ *   records `reminder_sent_at`
+ * - emails the request owner ESCALATE_AFTER_HOURS (default 24) after the
+ *   reminder and records `escalated_at`
+ *
+ * Safe to run as often as you like; each forwarder is reminded and
+ * escalated at most once per request.
+ *
+ * @query {string} [token] - CRON_SECRET, when the scheduler can't send headers
+ *
+ * @returns {ReminderRunResponse} Counts of emails sent
+ *
+ * @throws {401} Unauthorized - Missing or wrong CRON_SECRET
+ *
+ * @example
+ * // Hourly from any scheduler
+ * curl -H "Authorization: Bearer $CRON_SECRET" https://app.example.com/api/cron/reminders
+ *
+ * @example Response
+ * {
+ *   "reminders_sent": 3,
+ *   "escalations_sent": 1,
+ *   "failed": 0
+ * }
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ReminderRunResponse | ApiErrorResponse>> {
+  if (!hasSharedSecret(request, process.env.CRON_SECRET)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createServiceClient()
+
+  let result
+  try {
+    result = await runQuoteReminders(supabase)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  for (const event of result.events) {
+    if (event.kind === 'reminder') {
+      for (const forwarderId of event.forwarderIds) {
+        await logActivity(supabase, request, null, {
+          action: 'forwarder.reminded',
+          entityType: 'forwarder',
+          entityId: forwarderId,
+          organizationId: event.organizationId,
+          metadata: { request_id: event.requestId },
+        })
+      }
+    } else {
+      await logActivity(supabase, request, null, {
+        action: 'request.escalated',
+        entityType: 'request',
+        entityId: event.requestId,
+        organizationId: event.organizationId,
+        metadata: { request_id: event.requestId, forwarder_ids: event.forwarderIds },
+      })
+    }
+  }
+
+  const response: ReminderRunResponse = {
+    reminders_sent: result.reminders_sent,
+    escalations_sent: result.escalations_sent,
+    failed: result.failed,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Forwarder Scorecard API
+ *
+ * Endpoint for measuring how a forwarder has performed on the caller's
+ * requests: how often and how fast it quotes, how often it wins, how its
+ * prices rank per lane and over time, and how its quoted transit times
+ * compare to the shipped and delivered dates of the bookings it won.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { format, subMonths } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter } from '@/lib/access'
+import { normalizeQuotes } from '@/lib/fx'
+import { buildScorecard, type ScorecardRequest } from '@/lib/forwarder-scorecard'
+import type { ForwarderScorecard, Quote } from '@/types/database'
+import type { ForwarderScorecardResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/** Months covered when no `from` date is given */
+const DEFAULT_PERIOD_MONTHS = 12
+
+/**
+ * GET /api/forwarders/:id/scorecard
+ *
+ * Computes the forwarder's scorecard over the requests in the period that
+ * it was asked to quote on, limited to requests the caller can see (their
+ * organization's, or their own outside an organization). Prices are
+ * compared in the organization's default currency.
+ *
+ * @param {string} id - The forwarder UUID
+ * @query {string} [from] - Start of the period (ISO date), by request creation; defaults to 12 months ago
+ * @query {string} [to] - End of the period (ISO date, inclusive); defaults to today
+ *
+ * @returns {ForwarderScorecardResponse} The forwarder's scorecard
+ *
+ * @throws {400} Bad Request - from or to isn't a date, or from is after to
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - Forwarder doesn't exist
+ *
+ * @example
+ * GET /api/forwarders/123e4567-e89b-12d3-a456-426614174000/scorecard?from=2026-01-01
+ *
+ * @example Response
+ * {
+ *   "scorecard": {
+ *     "forwarder": { "id": "uuid", "name": "DHL Global Forwarding", "short_code": "DHL" },
+ *     "from": "2026-01-01",
+ *     "to": "2026-10-18",
+ *     "currency": "USD",
+ *     "invitations": 24,
+ *     "responses": 21,
+ *     "response_rate": 87.5,
+ *     "median_hours_to_quote": 18.4,
+ *     "decisions": 17,
+ *     "wins": 6,
+ *     "win_rate": 35.3,
+ *     "avg_price_rank": 1.8,
+ *     "lanes": [{ "origin_country": "CN", "dest_country": "US", "quotes": 12, "avg_price_rank": 1.5, ... }],
+ *     "transit": { "shipments": 5, "avg_quoted_days": 28, "avg_actual_days": 30.2, ... },
+ *     "trend": [{ "month": "2026-01", "quotes": 3, "avg_price_rank": 2.3, "avg_premium_pct": 8.1 }, ...]
+ *   }
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ForwarderScorecardResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const to = searchParams.get('to') || format(new Date(), 'yyyy-MM-dd')
+  const fromParam = searchParams.get('from')
+
+  if ((fromParam && isNaN(Date.parse(fromParam))) || isNaN(Date.parse(to))) {
+    return NextResponse.json(
+      { error: 'from and to must be valid ISO dates' },
+      { status: 400 }
+    )
+  }
+
+  const from = fromParam || format(subMonths(new Date(to), DEFAULT_PERIOD_MONTHS), 'yyyy-MM-dd')
+
+  // A bare date includes the whole day
+  const toDate = new Date(to)
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    toDate.setUTCDate(toDate.getUTCDate() + 1)
+  }
+
+  if (new Date(from) >= toDate) {
+    return NextResponse.json(
+      { error: 'from must be before to' },
+      { status: 400 }
+    )
+  }
+
+  const { data: forwarder, error: forwarderError } = await supabase
+    .from('forwarders')
+    .select('id, name, short_code')
+    .eq('id', params.id)
+    .single()
+
+  if (forwarderError || !forwarder) {
+    return NextResponse.json({ error: 'Forwarder not found' }, { status: 404 })
+  }
+
+  // Only requests the forwarder was asked to quote on; the inner join
+  // leaves just its own RFQ row on each
+  const { data, error } = await supabase
+    .from('requests')
+    .select(`
+      id,
+      origin_country,
+      dest_country,
+      created_at,
+      request_forwarders!inner (forwarder_id, email_sent_at),
+      quotes (id, forwarder_id, mode, status, transit_days, created_at, total_amount, currency),
+      decisions (selected_quote_id, decided_at, shipped_at, delivered_at)
+    `)
+    .eq('request_forwarders.forwarder_id', params.id)
+    .or(requestScopeFilter(access))
+    .gte('created_at', new Date(from).toISOString())
+    .lt('created_at', toDate.toISOString())
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  type QuoteRow = ScorecardRequest['quotes'][number] & Pick<Quote, 'total_amount' | 'currency'>
+  const requests = (data || []) as unknown as (Omit<ScorecardRequest, 'quotes'> & { quotes: QuoteRow[] })[]
+
+  let normalized
+  try {
+    normalized = await normalizeQuotes(
+      supabase,
+      access.organizationId,
+      requests.flatMap(r => r.quotes)
+    )
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  const amounts = new Map(normalized.quotes.map(q => [q.id, q.normalized_total_amount]))
+  const metrics = buildScorecard(
+    params.id,
+    requests.map(r => ({
+      ...r,
+      quotes: r.quotes.map(q => ({ ...q, normalized_total_amount: amounts.get(q.id) ?? null })),
+    }))
+  )
+
+  const scorecard: ForwarderScorecard = {
+    forwarder,
+    from,
+    to,
+    currency: normalized.fx.currency,
+    ...metrics,
+  }
+
+  return NextResponse.json({ scorecard })
+}
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview FX Rates API
+ *
+ * Lists the exchange rates used to compare quotes in different currencies
+ * and lets organization owners and admins import their own dated rates
+ * from CSV or ECB-style XML.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { parseFxCsv, parseEcbXml, parseFxFile, type FxRateInput } from '@/lib/fx'
+import type { FxRate } from '@/types/database'
+import type {
+  FxRateListResponse,
+  ImportFxRatesResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Largest file accepted in one import (about 30 years of daily ECB rates) */
+const MAX_IMPORT_RATES = 250000
+
+/** Rows per upsert so large histories don't exceed request limits */
+const UPSERT_BATCH_SIZE = 1000
+
+/**
+ * GET /api/fx-rates
+ *
+ * Returns shared rates and the caller's organization rates, newest first.
+ *
+ * @query {string} [currency] - Only rates with this base or quote currency
+ * @query {string} [from] - Rates on or after this date (YYYY-MM-DD)
+ * @query {string} [to] - Rates on or before this date (YYYY-MM-DD)
+ * @query {number} [limit=100] - Maximum number of rates to return (max 1000)
+ *
+ * @returns {FxRateListResponse} Matching rates
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * GET /api/fx-rates?currency=CNY&from=2024-01-01
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<FxRateListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const currency = searchParams.get('currency')?.toUpperCase()
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 1000)
+
+  // RLS limits rows to shared rates and the caller's organization
+  let query = supabase
+    .from('fx_rates')
+    .select('*')
+    .order('rate_date', { ascending: false })
+    .order('quote_currency', { ascending: true })
+    .limit(limit)
+
+  if (currency) {
+    query = query.or(`base_currency.eq.${currency},quote_currency.eq.${currency}`)
+  }
+  if (from) {
+    query = query.gte('rate_date', from)
+  }
+  if (to) {
+    query = query.lte('rate_date', to)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: FxRateListResponse = {
+    rates: data as FxRate[],
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/fx-rates
+ *
+ * Imports dated rates for the caller's organization. Organization rates
+ * take precedence over shared rates for the same day. Importing a rate
+ * that already exists for the same pair and day replaces it.
+ *
+ * Accepts a `file` field in `multipart/form-data`, or the file as the raw
+ * body. The format is detected from the content unless `format` is given:
+ * - CSV with `date`, `currency` and `rate` columns, plus an optional
+ *   `base` column (default EUR): 1 base = rate currency
+ * - ECB-style XML (eurofxref-hist.xml), where every rate is against EUR
+ *
+ * @query {string} [format] - 'csv' or 'ecb' to skip detection
+ *
+ * @returns {ImportFxRatesResponse} Number of rates stored and the dates covered
+ *
+ * @throws {400} Bad Request - Empty, unparseable or oversized file
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin of an organization
+ *
+ * @example
+ * curl -X POST https://app.example.com/api/fx-rates \
+ *   -F "file=@eurofxref-hist.xml"
+ *
+ * @example CSV
+ * date,base,currency,rate
+ * 2024-03-01,USD,EUR,0.9221
+ * 2024-03-01,USD,CNY,7.1970
+ *
+ * @example Response
+ * {
+ *   "imported": 2,
+ *   "currencies": ["CNY", "EUR"],
+ *   "from": "2024-03-01",
+ *   "to": "2024-03-01"
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ImportFxRatesResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let content: string
+  try {
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      content = typeof file === 'string' ? file : file ? await file.text() : ''
+    } else {
+      content = await request.text()
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    )
+  }
+
+  if (!content.trim()) {
+    return NextResponse.json(
+      { error: 'File is empty' },
+      { status: 400 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const format = searchParams.get('format')
+
+  let rates: FxRateInput[]
+  try {
+    rates = format === 'csv'
+      ? parseFxCsv(content)
+      : format === 'ecb'
+        ? parseEcbXml(content)
+        : parseFxFile(content)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 400 }
+    )
+  }
+
+  if (rates.length > MAX_IMPORT_RATES) {
+    return NextResponse.json(
+      { error: `File has ${rates.length} rates; import at most ${MAX_IMPORT_RATES} at a time` },
+      { status: 400 }
+    )
+  }
+
+  const source = content.trimStart().startsWith('<') ? 'ecb' : 'csv'
+  const rows = rates.map(rate => ({
+    ...rate,
+    organization_id: access.organizationId,
+    source,
+  }))
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('fx_rates')
+      .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), {
+        onConflict: 'organization_id,base_currency,quote_currency,rate_date',
+      })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+  }
+
+  const dates = rates.map(r => r.rate_date).sort()
+  const response: ImportFxRatesResponse = {
+    imported: rates.length,
+    currencies: Array.from(new Set(rates.map(r => r.quote_currency))).sort(),
+    from: dates[0],
+    to: dates[dates.length - 1],
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'fx_rates.imported',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: { ...response, source },
+  })
+
+  return NextResponse.json(response, { status: 201 })
+}
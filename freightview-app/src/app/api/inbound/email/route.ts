@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Inbound Email Webhook
+ *
+ * Receives forwarder replies as raw MIME messages from the mail provider,
+ * matches them to a request and creates draft quotes for user confirmation.
+ * Called by the mail provider rather than a signed-in user, so it is
+ * authenticated with a shared secret and uses the service client.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { logActivity } from '@/lib/activity'
+import { hasSharedSecret } from '@/lib/webhook-auth'
+import { parseInboundMessage, matchInboundMessage, type InboundMessage } from '@/lib/mail/inbound'
+import {
+  extractQuotesFromText,
+  extractQuotesFromAttachment,
+  type ExtractedQuote,
+} from '@/lib/quote-extraction'
+import { deriveQuoteRateFields } from '@/lib/freight-math'
+import { checkQuotes, checksFailedWarning, type CheckedQuote } from '@/lib/quote-anomalies'
+import type { Quote, QuoteWarning, ShipmentRequest, TransportMode } from '@/types/database'
+import type { InboundEmailResponse, ApiErrorResponse } from '@/types/api'
+
+/**
+ * POST /api/inbound/email
+ *
+ * Ingests a raw RFC 822 message. The message is matched to a request by
+ * the RFQ it replies to (In-Reply-To/References) or by the `[FV-<id>]`
+ * reference token in its subject. Charges, currency, schedule and validity
+ * are extracted from CSV/XLSX attachments, or from the body when no
+ * attachment yields a quote, and saved as draft quotes with
+ * `received_via: 'email'`. Drafts are confirmed by setting their status
+ * to 'active' via PATCH /api/quotes/:id. Drafts carry the warnings of
+ * the quote anomaly checks so they can be reviewed before confirming.
+ *
+ * Every message is stored in `inbound_emails`, including ones that can't
+ * be matched, and redelivery of the same Message-ID is ignored.
+ *
+ * Accepts either a raw `message/rfc822` body or `multipart/form-data` with
+ * the raw message in an `email` field (as posted by SendGrid Inbound Parse).
+ *
+ * @query {string} [token] - Shared secret, when the provider can't send headers
+ *
+ * @returns {InboundEmailResponse} Stored email, match outcome and draft quotes
+ *
+ * @throws {400} Bad Request - Empty or unparseable message
+ * @throws {401} Unauthorized - Missing or wrong INBOUND_EMAIL_SECRET
+ *
+ * @example
+ * POST /api/inbound/email
+ * Authorization: Bearer <INBOUND_EMAIL_SECRET>
+ * Content-Type: message/rfc822
+ *
+ * From: Maria Chen <quotes@globalfreight.com>
+ * Subject: RE: Quote request PO-2024-001: Shanghai, CN → Los Angeles, US [FV-123e4567-e89b-12d3-a456-426614174000]
+ * ...
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<InboundEmailResponse | ApiErrorResponse>> {
+  if (!hasSharedSecret(request, process.env.INBOUND_EMAIL_SECRET)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let raw: string
+  try {
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData()
+      const email = form.get('email')
+      raw = typeof email === 'string' ? email : email ? await email.text() : ''
+    } else {
+      raw = await request.text()
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    )
+  }
+
+  if (!raw.trim()) {
+    return NextResponse.json(
+      { error: 'Message is empty' },
+      { status: 400 }
+    )
+  }
+
+  let message: InboundMessage
+  try {
+    message = await parseInboundMessage(raw)
+  } catch {
+    return NextResponse.json(
+      { error: 'Could not parse MIME message' },
+      { status: 400 }
+    )
+  }
+
+  const supabase = createServiceClient()
+
+  // Providers retry on timeouts; don't create the same drafts twice
+  if (message.messageId) {
+    const { data: existing } = await supabase
+      .from('inbound_emails')
+      .select('id, status, request_id')
+      .eq('message_id', message.messageId)
+      .maybeSingle()
+
+    if (existing) {
+      const response: InboundEmailResponse = {
+        inbound_email_id: existing.id,
+        status: existing.status,
+        request_id: existing.request_id,
+        quotes: [],
+        duplicate: true,
+      }
+      return NextResponse.json(response)
+    }
+  }
+
+  const match = await matchInboundMessage(supabase, message)
+
+  const { data: inbound, error: inboundError } = await supabase
+    .from('inbound_emails')
+    .insert({
+      message_id: message.messageId,
+      from_email: message.from,
+      subject: message.subject.slice(0, 500),
+      request_id: match?.requestId ?? null,
+      forwarder_id: match?.forwarderId ?? null,
+      matched_by: match?.matchedBy ?? null,
+      status: match?.forwarderId ? 'received' : 'unmatched',
+      error: !match
+        ? 'No matching request'
+        : !match.forwarderId
+          ? 'Sender does not match a forwarder on the request'
+          : null,
+      raw_message: raw,
+    })
+    .select('id')
+    .single()
+
+  if (inboundError) {
+    return NextResponse.json({ error: inboundError.message }, { status: 500 })
+  }
+
+  if (!match?.forwarderId) {
+    const response: InboundEmailResponse = {
+      inbound_email_id: inbound.id,
+      status: 'unmatched',
+      request_id: match?.requestId ?? null,
+      quotes: [],
+    }
+    return NextResponse.json(response, { status: 202 })
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id, user_id, organization_id, mode_preference, origin_country, dest_country, weight_kg, volume_cbm')
+    .eq('id', match.requestId)
+    .single()
+
+  const shipmentRequest = requestData as Pick<
+    ShipmentRequest,
+    'id' | 'user_id' | 'organization_id' | 'mode_preference' | 'origin_country' | 'dest_country' | 'weight_kg' | 'volume_cbm'
+  >
+
+  let extracted: ExtractedQuote[]
+  try {
+    const fromAttachments = (
+      await Promise.all(message.attachments.map(extractQuotesFromAttachment))
+    ).flat()
+    extracted = fromAttachments.length > 0 ? fromAttachments : extractQuotesFromText(message.text)
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err)
+    await supabase
+      .from('inbound_emails')
+      .update({ status: 'failed', error: errorMessage })
+      .eq('id', inbound.id)
+
+    return NextResponse.json({ error: `Could not read quote: ${errorMessage}` }, { status: 500 })
+  }
+
+  // A single-mode request tells us the mode when the email doesn't
+  const fallbackMode: TransportMode | null =
+    shipmentRequest.mode_preference === 'any' ? null : shipmentRequest.mode_preference
+
+  const drafts = extracted
+    .filter(quote => quote.mode || fallbackMode)
+    .map(quote => ({
+      quote,
+      mode: (quote.mode || fallbackMode) as TransportMode,
+    }))
+    .map(({ quote, mode }) => ({
+      request_id: match.requestId,
+      forwarder_id: match.forwarderId,
+      mode,
+      status: 'draft',
+      currency: quote.currency || 'USD',
+      total_amount: quote.total_amount,
+      freight_charge: quote.freight_charge,
+      fuel_surcharge: quote.fuel_surcharge,
+      handling_charge: quote.handling_charge,
+      documentation_fee: quote.documentation_fee,
+      terminal_handling: quote.terminal_handling,
+      other_charges: quote.other_charges,
+      ...deriveQuoteRateFields({ mode, total_amount: quote.total_amount }, shipmentRequest),
+      etd: quote.etd,
+      eta: quote.eta,
+      transit_days: quote.transit_days,
+      carrier: quote.carrier,
+      routing: quote.routing,
+      valid_until: quote.valid_until,
+      received_via: 'email',
+      raw_email_id: inbound.id,
+      notes: buildReviewNotes(message.subject, quote),
+    }))
+
+  // Anomaly checks are advisory, so a failure is recorded, not raised
+  let warnings = drafts.map(() => [] as QuoteWarning[])
+  try {
+    // Extraction only returns quotes that have a total
+    warnings = await checkQuotes(supabase, shipmentRequest, drafts as CheckedQuote[])
+  } catch (err) {
+    warnings = drafts.map(() => [checksFailedWarning(err)])
+  }
+
+  let quotes: Quote[] = []
+  if (drafts.length > 0) {
+    const { data, error } = await supabase
+      .from('quotes')
+      .insert(drafts.map((draft, i) => ({ ...draft, warnings: warnings[i] })))
+      .select(`
+        *,
+        forwarder:forwarders (*)
+      `)
+
+    if (error) {
+      await supabase
+        .from('inbound_emails')
+        .update({ status: 'failed', error: error.message })
+        .eq('id', inbound.id)
+
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    quotes = data as Quote[]
+  }
+
+  const skipped = extracted.length - drafts.length
+  await supabase
+    .from('inbound_emails')
+    .update({
+      status: quotes.length > 0 ? 'parsed' : 'no_quotes',
+      quotes_created: quotes.length,
+      error: skipped > 0 ? `${skipped} quote(s) skipped: transport mode not stated` : null,
+    })
+    .eq('id', inbound.id)
+
+  for (const quote of quotes) {
+    await logActivity(supabase, request, null, {
+      action: 'quote.received',
+      entityType: 'quote',
+      entityId: quote.id,
+      organizationId: shipmentRequest.organization_id,
+      metadata: {
+        request_id: match.requestId,
+        forwarder_id: match.forwarderId,
+        mode: quote.mode,
+        total_amount: quote.total_amount,
+        received_via: 'email',
+        status: 'draft',
+        inbound_email_id: inbound.id,
+      },
+    })
+  }
+
+  const response: InboundEmailResponse = {
+    inbound_email_id: inbound.id,
+    status: quotes.length > 0 ? 'parsed' : 'no_quotes',
+    request_id: match.requestId,
+    quotes,
+  }
+
+  return NextResponse.json(response, { status: quotes.length > 0 ? 201 : 202 })
+}
+
+/**
+ * Notes shown to the reviewer of a draft quote
+ */
+function buildReviewNotes(subject: string, quote: ExtractedQuote): string {
+  const notes = [`Parsed from email: ${subject}`]
+  if (quote.warnings.length > 0) {
+    notes.push(`Please check: ${quote.warnings.join('; ')}`)
+  }
+  return notes.join('\n')
+}
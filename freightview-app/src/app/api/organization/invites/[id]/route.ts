@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Single Organization Invite API
+ *
+ * Endpoint for revoking a pending invite. Requires owner or admin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import type { RevokeInviteResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * DELETE /api/organization/invites/:id
+ *
+ * Revokes an invite so its token can no longer be accepted.
+ *
+ * @param {string} id - The invite UUID
+ *
+ * @returns {RevokeInviteResponse} Confirmation of revocation
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin
+ * @throws {404} Not Found - Invite doesn't exist in the caller's organization
+ * @throws {409} Conflict - Invite has already been accepted
+ *
+ * @example
+ * DELETE /api/organization/invites/invite-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<RevokeInviteResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: existing } = await supabase
+    .from('organization_invites')
+    .select('id, email, accepted_at')
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+    .single()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+  }
+
+  if (existing.accepted_at) {
+    return NextResponse.json(
+      { error: 'Invite has already been accepted' },
+      { status: 409 }
+    )
+  }
+
+  const { error } = await supabase
+    .from('organization_invites')
+    .delete()
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'invite.revoked',
+    entityType: 'invite',
+    entityId: params.id,
+    metadata: { email: existing.email },
+  })
+
+  const response: RevokeInviteResponse = {
+    message: 'Invite revoked successfully',
+    revoked_id: params.id,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Accept Organization Invite API
+ *
+ * Endpoint used at signup to join an organization with an invite token.
+ * The invitee can't read invites under RLS, so lookups use the service client
+ * after the caller has been authenticated. Signups that must confirm their
+ * email first accept their invite in the auth callback instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { acceptInvite } from '@/lib/organization'
+import type {
+  AcceptInviteRequest,
+  AcceptInviteResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/**
+ * POST /api/organization/invites/accept
+ *
+ * Joins the authenticated user to the inviting organization with the
+ * invited role and marks the invite as accepted.
+ *
+ * @body {AcceptInviteRequest} The invite token
+ *
+ * @returns {AcceptInviteResponse} The organization joined and granted role
+ *
+ * @throws {400} Bad Request - Missing token
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - Invite is for a different email, or no seats left
+ * @throws {404} Not Found - Token doesn't match an invite
+ * @throws {409} Conflict - Invite already used, or user belongs to another organization
+ * @throws {410} Gone - Invite has expired
+ *
+ * @example
+ * POST /api/organization/invites/accept
+ * {
+ *   "token": "5f2b...e9"
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<AcceptInviteResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: AcceptInviteRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.token) {
+    return NextResponse.json(
+      { error: 'token is required' },
+      { status: 400 }
+    )
+  }
+
+  let accepted
+  try {
+    accepted = await acceptInvite(createServiceClient(), access, body.token)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  if ('error' in accepted) {
+    return NextResponse.json(
+      { error: accepted.error, ...(accepted.code && { code: accepted.code }) },
+      { status: accepted.status }
+    )
+  }
+  const { invite, organization } = accepted
+
+  await logActivity(supabase, request, access, {
+    action: 'invite.accepted',
+    entityType: 'invite',
+    entityId: invite.id,
+    organizationId: organization.id,
+    metadata: { email: invite.email, role: invite.role },
+  })
+
+  const response: AcceptInviteResponse = {
+    organization,
+    role: invite.role,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Organization Invites API
+ *
+ * Endpoints for listing and creating tokenised invitations to join
+ * the caller's organization. Requires owner or admin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import {
+  countSeatsUsed,
+  generateInviteToken,
+  DEFAULT_INVITE_EXPIRY_DAYS,
+} from '@/lib/organization'
+import type { OrganizationInvite, UserRole } from '@/types/database'
+import type {
+  InviteListResponse,
+  CreateInviteRequest,
+  CreateInviteResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Roles an invite can grant */
+const INVITABLE_ROLES: UserRole[] = ['admin', 'member', 'viewer']
+
+/**
+ * GET /api/organization/invites
+ *
+ * Returns the organization's invites, newest first.
+ *
+ * @query {string} [status] - 'pending', 'accepted' or 'expired'
+ *
+ * @returns {InviteListResponse} List of invites
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin
+ *
+ * @example
+ * GET /api/organization/invites?status=pending
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<InviteListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const status = searchParams.get('status')
+  const now = new Date().toISOString()
+
+  let query = supabase
+    .from('organization_invites')
+    .select('*')
+    .eq('organization_id', access.organizationId)
+    .order('created_at', { ascending: false })
+
+  if (status === 'pending') {
+    query = query.is('accepted_at', null).gt('expires_at', now)
+  } else if (status === 'accepted') {
+    query = query.not('accepted_at', 'is', null)
+  } else if (status === 'expired') {
+    query = query.is('accepted_at', null).lte('expires_at', now)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: InviteListResponse = {
+    invites: data as OrganizationInvite[],
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/organization/invites
+ *
+ * Creates an invite with a random token. Re-inviting an email that has an
+ * unaccepted invite replaces the old token and expiry. Pending invites
+ * count towards the plan's seat limit.
+ *
+ * @body {CreateInviteRequest} Email, role and optional expiry
+ *
+ * @returns {CreateInviteResponse} The invite and the signup link to share
+ *
+ * @throws {400} Bad Request - Missing email or invalid role/expiry
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin, or no seats left
+ * @throws {409} Conflict - Email already belongs to a member
+ *
+ * @example
+ * POST /api/organization/invites
+ * {
+ *   "email": "colleague@acme-electronics.com",
+ *   "role": "member"
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<CreateInviteResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access) || !access.organizationId) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: CreateInviteRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const email = body.email?.trim().toLowerCase()
+  if (!email || !email.includes('@')) {
+    return NextResponse.json(
+      { error: 'A valid email is required' },
+      { status: 400 }
+    )
+  }
+
+  const role = body.role ?? 'member'
+  if (!INVITABLE_ROLES.includes(role)) {
+    return NextResponse.json(
+      { error: `role must be one of: ${INVITABLE_ROLES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const expiresInDays = body.expires_in_days ?? DEFAULT_INVITE_EXPIRY_DAYS
+  if (!(expiresInDays > 0 && expiresInDays <= 30)) {
+    return NextResponse.json(
+      { error: 'expires_in_days must be between 1 and 30' },
+      { status: 400 }
+    )
+  }
+
+  // Already a member?
+  const { data: existingMember } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('organization_id', access.organizationId)
+    .ilike('email', email)
+    .maybeSingle()
+
+  if (existingMember) {
+    return NextResponse.json(
+      { error: 'This email already belongs to a member of your organization' },
+      { status: 409 }
+    )
+  }
+
+  // A pending invite for the same email is being replaced, so it doesn't take an extra seat
+  const { data: existingInvite } = await supabase
+    .from('organization_invites')
+    .select('id, expires_at, accepted_at')
+    .eq('organization_id', access.organizationId)
+    .eq('email', email)
+    .maybeSingle()
+
+  const replacesPendingInvite =
+    !!existingInvite &&
+    !existingInvite.accepted_at &&
+    new Date(existingInvite.expires_at) > new Date()
+
+  const [{ data: organization }, seatsUsed] = await Promise.all([
+    supabase
+      .from('organizations')
+      .select('plan_seats')
+      .eq('id', access.organizationId)
+      .single(),
+    countSeatsUsed(supabase, access.organizationId),
+  ])
+
+  if (organization && !replacesPendingInvite && seatsUsed >= organization.plan_seats) {
+    return NextResponse.json(
+      { error: 'No seats available on your plan', code: 'SEAT_LIMIT' },
+      { status: 403 }
+    )
+  }
+
+  const { data, error } = await supabase
+    .from('organization_invites')
+    .upsert(
+      {
+        organization_id: access.organizationId,
+        email,
+        role,
+        token: generateInviteToken(),
+        expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        invited_by: access.userId,
+        accepted_at: null,
+      },
+      { onConflict: 'organization_id,email' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const invite = data as OrganizationInvite
+
+  await logActivity(supabase, request, access, {
+    action: 'invite.created',
+    entityType: 'invite',
+    entityId: invite.id,
+    metadata: { email, role, expires_at: invite.expires_at },
+  })
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin
+
+  const response: CreateInviteResponse = {
+    invite,
+    invite_url: `${appUrl}/signup?invite=${invite.token}`,
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Organization Member API
+ *
+ * Endpoint for changing a member's role or deactivating them.
+ * Requires owner or admin role; only the owner may modify other admins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { countSeatsUsed } from '@/lib/organization'
+import type { Profile, UserRole } from '@/types/database'
+import type {
+  UpdateMemberRequest,
+  UpdateMemberResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/** Roles that can be assigned through the API (ownership is not transferable here) */
+const ASSIGNABLE_ROLES: UserRole[] = ['admin', 'member', 'viewer']
+
+/**
+ * PATCH /api/organization/members/:id
+ *
+ * Changes a member's role and/or active state. Deactivated members keep
+ * their history but can no longer access the API. Reactivating a member
+ * requires a free seat on the organization's plan.
+ *
+ * @param {string} id - The member's profile UUID
+ * @body {UpdateMemberRequest} New role and/or is_active flag
+ *
+ * @returns {UpdateMemberResponse} The updated member profile
+ *
+ * @throws {400} Bad Request - Invalid role, no fields, or attempting to modify yourself
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - Insufficient role, target is the owner, or no seats left
+ * @throws {404} Not Found - Member doesn't belong to the caller's organization
+ *
+ * @example
+ * PATCH /api/organization/members/user-uuid
+ * {
+ *   "role": "viewer"
+ * }
+ *
+ * @example
+ * // Deactivate a member
+ * PATCH /api/organization/members/user-uuid
+ * {
+ *   "is_active": false
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<UpdateMemberResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access) || !access.organizationId) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpdateMemberRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (body.role === undefined && body.is_active === undefined) {
+    return NextResponse.json(
+      { error: 'No valid fields to update' },
+      { status: 400 }
+    )
+  }
+
+  if (body.role !== undefined && !ASSIGNABLE_ROLES.includes(body.role)) {
+    return NextResponse.json(
+      { error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (params.id === access.userId) {
+    return NextResponse.json(
+      { error: 'You cannot change your own role or status' },
+      { status: 400 }
+    )
+  }
+
+  const { data: member } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+    .single()
+
+  if (!member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+  }
+
+  if (member.role === 'owner') {
+    return NextResponse.json(
+      { error: 'The organization owner cannot be modified' },
+      { status: 403 }
+    )
+  }
+
+  if (member.role === 'admin' && access.role !== 'owner') {
+    return NextResponse.json(
+      { error: 'Only the owner can modify admins' },
+      { status: 403 }
+    )
+  }
+
+  // Reactivation takes a seat
+  if (body.is_active === true && !member.is_active) {
+    const [{ data: organization }, seatsUsed] = await Promise.all([
+      supabase
+        .from('organizations')
+        .select('plan_seats')
+        .eq('id', access.organizationId)
+        .single(),
+      countSeatsUsed(supabase, access.organizationId),
+    ])
+
+    if (organization && seatsUsed >= organization.plan_seats) {
+      return NextResponse.json(
+        { error: 'No seats available on your plan', code: 'SEAT_LIMIT' },
+        { status: 403 }
+      )
+    }
+  }
+
+  const updates: Partial<Profile> = {}
+  if (body.role !== undefined) updates.role = body.role
+  if (body.is_active !== undefined) updates.is_active = body.is_active
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'member.updated',
+    entityType: 'member',
+    entityId: params.id,
+    metadata: {
+      email: member.email,
+      changes: diffFields<Profile>(member, updates, ['role', 'is_active']),
+    },
+  })
+
+  const response: UpdateMemberResponse = {
+    member: data as Profile,
+  }
+
+  return NextResponse.json(response)
+}
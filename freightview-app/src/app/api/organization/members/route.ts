@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Organization Members API
+ *
+ * Endpoint for listing the members of the caller's organization.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import { countSeatsUsed } from '@/lib/organization'
+import type { Profile } from '@/types/database'
+import type { MemberListResponse, ApiErrorResponse } from '@/types/api'
+
+/**
+ * GET /api/organization/members
+ *
+ * Returns all members of the caller's organization, including deactivated
+ * ones, along with plan seat usage.
+ *
+ * @query {boolean} [active] - Filter by active state ('true' or 'false')
+ *
+ * @returns {MemberListResponse} Members and seat usage
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - User doesn't belong to an organization
+ *
+ * @example
+ * GET /api/organization/members?active=true
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<MemberListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!access.organizationId) {
+    return NextResponse.json({ error: 'Organization not found' }, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const active = searchParams.get('active')
+
+  let query = supabase
+    .from('profiles')
+    .select('*')
+    .eq('organization_id', access.organizationId)
+    .order('created_at')
+
+  if (active === 'true' || active === 'false') {
+    query = query.eq('is_active', active === 'true')
+  }
+
+  const [{ data, error }, { data: organization }, seatsUsed] = await Promise.all([
+    query,
+    supabase
+      .from('organizations')
+      .select('plan_seats')
+      .eq('id', access.organizationId)
+      .single(),
+    countSeatsUsed(supabase, access.organizationId),
+  ])
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: MemberListResponse = {
+    members: data as Profile[],
+    plan_seats: organization?.plan_seats ?? 0,
+    seats_used: seatsUsed,
+  }
+
+  return NextResponse.json(response)
+}
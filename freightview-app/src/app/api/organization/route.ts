@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Organization API
+ *
+ * Endpoints for viewing, creating and updating the caller's organization.
+ * All endpoints require authentication; updates require owner or admin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { slugify } from '@/lib/organization'
+import { validateWeights } from '@/lib/recommendation'
+import { validateIncoterm } from '@/lib/incoterms'
+import type { Organization } from '@/types/database'
+import type {
+  OrganizationResponse,
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/**
+ * GET /api/organization
+ *
+ * Returns the authenticated user's organization.
+ *
+ * @returns {OrganizationResponse} The organization
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - User doesn't belong to an organization
+ *
+ * @example
+ * GET /api/organization
+ */
+export async function GET(
+  _request: NextRequest
+): Promise<NextResponse<OrganizationResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!access.organizationId) {
+    return NextResponse.json({ error: 'Organization not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', access.organizationId)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: OrganizationResponse = {
+    organization: data as Organization,
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/organization
+ *
+ * Creates an organization and makes the caller its owner.
+ * Uses the `create_organization()` database function.
+ *
+ * @body {CreateOrganizationRequest} Organization name and optional slug
+ *
+ * @returns {OrganizationResponse} The newly created organization
+ *
+ * @throws {400} Bad Request - Missing name or invalid slug
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {409} Conflict - User already belongs to an organization, or slug is taken
+ *
+ * @example
+ * POST /api/organization
+ * {
+ *   "name": "Acme Electronics Inc."
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<OrganizationResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (access.organizationId) {
+    return NextResponse.json(
+      { error: 'You already belong to an organization' },
+      { status: 409 }
+    )
+  }
+
+  let body: CreateOrganizationRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.name?.trim()) {
+    return NextResponse.json(
+      { error: 'name is required' },
+      { status: 400 }
+    )
+  }
+
+  const slug = slugify(body.slug || body.name)
+  if (!slug) {
+    return NextResponse.json(
+      { error: 'slug must contain letters or numbers' },
+      { status: 400 }
+    )
+  }
+
+  const { data: organizationId, error: createError } = await supabase
+    .rpc('create_organization', {
+      org_name: body.name.trim(),
+      org_slug: slug,
+      owner_user_id: access.userId,
+    })
+
+  if (createError) {
+    // Unique constraint violation - slug already in use
+    if (createError.code === '23505') {
+      return NextResponse.json(
+        { error: 'An organization with this slug already exists' },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ error: createError.message }, { status: 500 })
+  }
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'organization.created',
+    entityType: 'organization',
+    entityId: organizationId,
+    organizationId,
+    metadata: { name: body.name.trim(), slug },
+  })
+
+  const response: OrganizationResponse = {
+    organization: data as Organization,
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
+
+/**
+ * PATCH /api/organization
+ *
+ * Updates company details and defaults such as currency and Incoterms,
+ * the insurance and inventory carrying cost rates (percent) used for
+ * landed cost, and the factor weights used to rank quotes.
+ *
+ * @body {UpdateOrganizationRequest} Fields to update
+ *
+ * @returns {OrganizationResponse} The updated organization
+ *
+ * @throws {400} Bad Request - No valid fields or invalid values
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin
+ *
+ * @example
+ * PATCH /api/organization
+ * {
+ *   "default_currency": "EUR",
+ *   "default_incoterms": "CIF"
+ * }
+ */
+export async function PATCH(
+  request: NextRequest
+): Promise<NextResponse<OrganizationResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpdateOrganizationRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  // Only allow certain fields to be updated
+  const allowedFields: (keyof UpdateOrganizationRequest)[] = [
+    'name',
+    'legal_name',
+    'tax_id',
+    'address',
+    'city',
+    'country_code',
+    'phone',
+    'website',
+    'logo_url',
+    'default_currency',
+    'default_incoterms',
+    'fiscal_year_start',
+    'insurance_rate',
+    'carrying_cost_rate',
+    'recommendation_weights',
+  ]
+
+  const updates: Partial<Organization> = {}
+  for (const field of allowedFields) {
+    if (body[field] !== undefined) {
+      (updates as Record<string, unknown>)[field] = body[field]
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No valid fields to update' },
+      { status: 400 }
+    )
+  }
+
+  if (updates.name !== undefined && !updates.name.trim()) {
+    return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 })
+  }
+
+  if (updates.default_currency !== undefined) {
+    if (!/^[A-Za-z]{3}$/.test(updates.default_currency)) {
+      return NextResponse.json(
+        { error: 'default_currency must be a 3-letter ISO 4217 code' },
+        { status: 400 }
+      )
+    }
+    updates.default_currency = updates.default_currency.toUpperCase()
+  }
+
+  const incotermError = validateIncoterm(updates.default_incoterms, 'default_incoterms')
+  if (incotermError) {
+    return NextResponse.json({ error: incotermError }, { status: 400 })
+  }
+
+  if (
+    updates.fiscal_year_start !== undefined &&
+    !(Number.isInteger(updates.fiscal_year_start) && updates.fiscal_year_start >= 1 && updates.fiscal_year_start <= 12)
+  ) {
+    return NextResponse.json(
+      { error: 'fiscal_year_start must be a month number between 1 and 12' },
+      { status: 400 }
+    )
+  }
+
+  for (const field of ['insurance_rate', 'carrying_cost_rate'] as const) {
+    const value = updates[field]
+    if (value !== undefined && !(typeof value === 'number' && value >= 0 && value <= 100)) {
+      return NextResponse.json(
+        { error: `${field} must be a percentage between 0 and 100` },
+        { status: 400 }
+      )
+    }
+  }
+
+  if (updates.recommendation_weights !== undefined) {
+    const weightsError = validateWeights(updates.recommendation_weights)
+    if (weightsError) {
+      return NextResponse.json({ error: weightsError }, { status: 400 })
+    }
+  }
+
+  // Capture current values for the audit trail
+  const { data: before } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', access.organizationId)
+    .single()
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .update(updates)
+    .eq('id', access.organizationId)
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'organization.updated',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: {
+      changes: diffFields<Organization>(
+        (before ?? {}) as Partial<Organization>,
+        updates,
+        Object.keys(updates) as (keyof Organization)[]
+      ),
+    },
+  })
+
+  const response: OrganizationResponse = {
+    organization: data as Organization,
+  }
+
+  return NextResponse.json(response)
+}
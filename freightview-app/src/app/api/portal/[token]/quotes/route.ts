@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Forwarder Portal Quotes API
+ *
+ * Public endpoint through which a forwarder submits quotes with its
+ * portal link. Uses the service client and the link's rate limits, like
+ * the portal view (see lib/quote-portal).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getClientIp, logActivity } from '@/lib/activity'
+import {
+  INTAKE_REQUEST_COLUMNS,
+  prepareQuote,
+  saveQuote,
+  type IntakeRequest,
+  type PreparedQuote,
+} from '@/lib/quote-intake'
+import {
+  MAX_PORTAL_QUOTES,
+  PORTAL_OPEN_STATUSES,
+  openPortalLink,
+  toPortalQuote,
+} from '@/lib/quote-portal'
+import type { Quote } from '@/types/database'
+import type {
+  SubmitPortalQuotesRequest,
+  SubmitPortalQuotesResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [token] segment */
+interface RouteParams {
+  params: { token: string }
+}
+
+/**
+ * POST /api/portal/:token/quotes
+ *
+ * Adds the forwarder's quotes to the request, e.g. one per mode or
+ * routing it offers. Each quote takes the same fields as a manually added
+ * one (see POST /api/requests/:id/quotes), including itemised `charges`,
+ * and goes through the same checks; the request and forwarder come from
+ * the link. Every quote is checked before any is stored, so a rejected
+ * quote stores none. Quotes are saved as active with
+ * `received_via: 'portal'` and join the comparison straight away.
+ *
+ * @param {string} token - The portal token
+ * @body {SubmitPortalQuotesRequest} The quotes
+ *
+ * @returns {SubmitPortalQuotesResponse} The stored quotes
+ *
+ * @throws {400} Bad Request - No quotes, too many, or a quote that fails validation
+ * @throws {404} Not Found - Token doesn't match a link
+ * @throws {409} Conflict - Request is no longer collecting quotes
+ * @throws {410} Gone - Link has expired or been revoked
+ * @throws {429} Too Many Requests - Hourly limit reached for the link or IP
+ *
+ * @example
+ * POST /api/portal/5f2b...e9/quotes
+ * {
+ *   "quotes": [
+ *     {
+ *       "mode": "sea",
+ *       "currency": "USD",
+ *       "containers": [{ "type": "40HC", "count": 1 }],
+ *       "charges": [
+ *         { "name": "Ocean Freight", "basis": "per_container", "rate": 1450 },
+ *         { "name": "BAF", "basis": "per_container", "rate": 210 }
+ *       ],
+ *       "etd": "2024-02-20",
+ *       "transit_days": 28,
+ *       "carrier": "Maersk Line",
+ *       "valid_until": "2024-02-28"
+ *     }
+ *   ]
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<SubmitPortalQuotesResponse | ApiErrorResponse>> {
+  const supabase = createServiceClient()
+
+  let opened
+  try {
+    opened = await openPortalLink(supabase, params.token, getClientIp(request))
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  if ('error' in opened) {
+    return NextResponse.json(
+      { error: opened.error, ...(opened.code && { code: opened.code }) },
+      { status: opened.status }
+    )
+  }
+  const { link } = opened
+
+  let body: SubmitPortalQuotesRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!Array.isArray(body.quotes) || body.quotes.length === 0) {
+    return NextResponse.json(
+      { error: 'quotes must be a non-empty array' },
+      { status: 400 }
+    )
+  }
+  if (body.quotes.length > MAX_PORTAL_QUOTES) {
+    return NextResponse.json(
+      { error: `At most ${MAX_PORTAL_QUOTES} quotes can be submitted at once` },
+      { status: 400 }
+    )
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select(INTAKE_REQUEST_COLUMNS)
+    .eq('id', link.request_id)
+    .single()
+
+  if (!requestData) {
+    return NextResponse.json({ error: 'Portal link not found' }, { status: 404 })
+  }
+  const shipmentRequest = requestData as IntakeRequest
+
+  if (!PORTAL_OPEN_STATUSES.includes(shipmentRequest.status)) {
+    return NextResponse.json(
+      { error: 'This request is no longer accepting quotes' },
+      { status: 409 }
+    )
+  }
+
+  const saved: { quote: Quote; prepared: PreparedQuote }[] = []
+  try {
+    const preparedQuotes: PreparedQuote[] = []
+    for (const [i, input] of Array.from(body.quotes.entries())) {
+      // The link decides who is quoting on what
+      const prepared = await prepareQuote(supabase, shipmentRequest, { ...input, forwarder_id: link.forwarder_id })
+      if ('error' in prepared) {
+        return NextResponse.json(
+          { error: body.quotes.length > 1 ? `quotes[${i}]: ${prepared.error}` : prepared.error },
+          { status: 400 }
+        )
+      }
+      preparedQuotes.push(prepared)
+    }
+
+    for (const prepared of preparedQuotes) {
+      const { quote } = await saveQuote(supabase, shipmentRequest, prepared, 'portal')
+      saved.push({ quote, prepared })
+    }
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  for (const { quote, prepared } of saved) {
+    await logActivity(supabase, request, null, {
+      action: 'quote.received',
+      entityType: 'quote',
+      entityId: quote.id,
+      organizationId: shipmentRequest.organization_id,
+      metadata: {
+        request_id: shipmentRequest.id,
+        forwarder_id: link.forwarder_id,
+        mode: quote.mode,
+        total_amount: quote.total_amount,
+        received_via: 'portal',
+        warnings: prepared.warnings.map(w => w.code),
+      },
+    })
+  }
+
+  const response: SubmitPortalQuotesResponse = {
+    quotes: saved.map(({ quote }) => toPortalQuote(quote)),
+    unmapped_charges: Array.from(new Set(saved.flatMap(({ prepared }) => prepared.priced?.unmapped ?? []))),
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
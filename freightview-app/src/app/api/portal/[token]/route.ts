@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Forwarder Portal API
+ *
+ * Public endpoint behind a forwarder's portal link. The token in the URL
+ * is the only credential, so there is no signed-in user and lookups use
+ * the service client; every call is rate limited (see lib/quote-portal).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getClientIp } from '@/lib/activity'
+import { resolveSenderName } from '@/lib/mail/rfq'
+import {
+  PORTAL_OPEN_STATUSES,
+  PORTAL_QUOTE_COLUMNS,
+  PORTAL_REQUEST_COLUMNS,
+  openPortalLink,
+} from '@/lib/quote-portal'
+import type { PortalQuote, PortalRequest, ShipmentRequest } from '@/types/database'
+import type { PortalViewResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [token] segment */
+interface RouteParams {
+  params: { token: string }
+}
+
+/**
+ * GET /api/portal/:token
+ *
+ * Returns what the forwarder needs to quote: the request's shipment
+ * details as sent in the RFQ, who is asking, and the forwarder's own
+ * quotes on it so far. Nothing about other forwarders' quotes is shown.
+ *
+ * @param {string} token - The portal token
+ *
+ * @returns {PortalViewResponse} Request details and the forwarder's quotes
+ *
+ * @throws {404} Not Found - Token doesn't match a link
+ * @throws {410} Gone - Link has expired or been revoked
+ * @throws {429} Too Many Requests - Hourly limit reached for the link or IP
+ *
+ * @example
+ * GET /api/portal/5f2b...e9
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PortalViewResponse | ApiErrorResponse>> {
+  const supabase = createServiceClient()
+
+  let opened
+  try {
+    opened = await openPortalLink(supabase, params.token, getClientIp(request))
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  if ('error' in opened) {
+    return NextResponse.json(
+      { error: opened.error, ...(opened.code && { code: opened.code }) },
+      { status: opened.status }
+    )
+  }
+  const { link } = opened
+
+  const [{ data: requestData }, { data: forwarder }, { data: quotes, error: quotesError }] = await Promise.all([
+    supabase
+      .from('requests')
+      .select(`${PORTAL_REQUEST_COLUMNS}, status, organization_id, user_id`)
+      .eq('id', link.request_id)
+      .single(),
+    supabase
+      .from('forwarders')
+      .select('id, name')
+      .eq('id', link.forwarder_id)
+      .single(),
+    supabase
+      .from('quotes')
+      .select(PORTAL_QUOTE_COLUMNS)
+      .eq('request_id', link.request_id)
+      .eq('forwarder_id', link.forwarder_id)
+      .order('created_at', { ascending: false }),
+  ])
+
+  if (!requestData || !forwarder) {
+    return NextResponse.json({ error: 'Portal link not found' }, { status: 404 })
+  }
+  if (quotesError) {
+    return NextResponse.json({ error: quotesError.message }, { status: 500 })
+  }
+
+  const { status, organization_id, user_id, ...details } =
+    requestData as unknown as PortalRequest & Pick<ShipmentRequest, 'status' | 'organization_id' | 'user_id'>
+
+  const response: PortalViewResponse = {
+    request: details,
+    forwarder,
+    requested_by: await resolveSenderName(supabase, { organization_id, user_id }),
+    expires_at: link.portal_expires_at!,
+    accepting_quotes: PORTAL_OPEN_STATUSES.includes(status),
+    quotes: (quotes || []) as unknown as PortalQuote[],
+  }
+
+  return NextResponse.json(response)
+}
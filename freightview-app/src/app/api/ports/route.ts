@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Ports API
+ *
+ * Searches the seaports, airports and inland terminals a request can
+ * name as its origin or destination, and imports them from UN/LOCODE
+ * and IATA airport files. Ports are shared reference data: any signed-in
+ * user can search them, and imports are authenticated with
+ * PORTS_IMPORT_SECRET and run with the service client.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import { hasSharedSecret } from '@/lib/webhook-auth'
+import {
+  PORT_TYPES,
+  isPortType,
+  parsePortFile,
+  matchExistingAirports,
+  rankPorts,
+  sanitizeSearchTerm,
+  type ParsedPortFile,
+  type PortFileFormat,
+} from '@/lib/ports'
+import type { Port, PortType } from '@/types/database'
+import type {
+  PortSearchResponse,
+  ImportPortsResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Rows per upsert so full code lists don't exceed request limits */
+const UPSERT_BATCH_SIZE = 1000
+
+/** IATA codes per lookup of stored airports, to keep URLs short */
+const IATA_LOOKUP_BATCH_SIZE = 500
+
+/**
+ * GET /api/ports
+ *
+ * Returns ports whose code, IATA code, name or city matches the search,
+ * exact code matches first, then names and cities starting with it.
+ *
+ * @query {string} [q] - Code, name or city to match (at least 2 characters)
+ * @query {string} [country] - Only ports in this country (ISO 3166-1 alpha-2)
+ * @query {string} [type] - Only these types, comma-separated: seaport, airport, inland
+ * @query {number} [limit=20] - Maximum number of ports to return (max 100)
+ *
+ * @returns {PortSearchResponse} Matching ports
+ *
+ * @throws {400} Bad Request - Unknown port type
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * GET /api/ports?q=shang&type=seaport
+ *
+ * @example Response
+ * {
+ *   "ports": [
+ *     { "code": "CNSHA", "name": "Shanghai", "country_code": "CN", "port_type": "seaport", "city": "Shanghai", ... }
+ *   ]
+ * }
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<PortSearchResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const term = sanitizeSearchTerm(searchParams.get('q') || '')
+  const country = searchParams.get('country')?.toUpperCase()
+  const types = (searchParams.get('type') || '').split(',').map(t => t.trim()).filter(Boolean)
+  const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100)
+
+  const unknownType = types.find(type => !isPortType(type))
+  if (unknownType) {
+    return NextResponse.json(
+      { error: `type must be one of: ${PORT_TYPES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const filtered = () => {
+    let query = supabase.from('ports').select('*')
+    if (country) {
+      query = query.eq('country_code', country)
+    }
+    if (types.length > 0) {
+      query = query.in('port_type', types as PortType[])
+    }
+    return query
+  }
+
+  // Exact codes are fetched on their own so a common name can't crowd them out
+  const [exact, matches] = await Promise.all([
+    /^[A-Za-z0-9]{3,5}$/.test(term)
+      ? filtered().or(`code.eq.${term.toUpperCase()},iata_code.eq.${term.toUpperCase()}`)
+      : Promise.resolve({ data: [], error: null }),
+    term.length >= 2
+      ? filtered()
+          .or(`code.ilike.${term}%,name.ilike.%${term}%,city.ilike.%${term}%`)
+          .order('name')
+          .limit(limit)
+      : filtered().order('name').limit(limit),
+  ])
+
+  const error = exact.error || matches.error
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const ports = new Map<string, Port>()
+  for (const port of [...(exact.data || []), ...(matches.data || [])] as Port[]) {
+    ports.set(port.code, port)
+  }
+
+  const response: PortSearchResponse = {
+    ports: rankPorts(Array.from(ports.values()), term).slice(0, limit),
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/ports
+ *
+ * Imports ports from a UN/LOCODE code list or an IATA airport list,
+ * updating ports that already exist. Airports are matched on their IATA
+ * code, so one imported from both kinds of list stays one port under the
+ * code it was first stored with. Countries named by a UN/LOCODE
+ * file's country rows are added when missing; rows for other unknown
+ * countries are skipped.
+ *
+ * Accepts a `file` field in `multipart/form-data`, or the file as the raw
+ * body. The format is detected from the content unless `format` is given:
+ * - UN/LOCODE: the UNECE CSV parts, without a header row
+ * - IATA: a CSV with iata_code, name and iso_country columns (e.g.
+ *   OurAirports' airports.csv)
+ *
+ * @query {string} [format] - 'unlocode' or 'iata' to skip detection
+ * @query {string} [token] - PORTS_IMPORT_SECRET, when the caller can't send headers
+ *
+ * @returns {ImportPortsResponse} Number of ports stored and skipped
+ *
+ * @throws {400} Bad Request - Empty or unparseable file, or unknown format
+ * @throws {401} Unauthorized - Missing or wrong PORTS_IMPORT_SECRET
+ *
+ * @example
+ * curl -X POST https://app.example.com/api/ports \
+ *   -H "Authorization: Bearer $PORTS_IMPORT_SECRET" \
+ *   -F "file=@2024-1 UNLOCODE CodeListPart1.csv"
+ *
+ * @example Response
+ * {
+ *   "format": "unlocode",
+ *   "imported": 38412,
+ *   "skipped": 0,
+ *   "by_type": { "seaport": 9120, "airport": 4213, "inland": 25079 },
+ *   "countries_added": ["AD", "AE"]
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ImportPortsResponse | ApiErrorResponse>> {
+  if (!hasSharedSecret(request, process.env.PORTS_IMPORT_SECRET)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let content: string
+  try {
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      content = typeof file === 'string' ? file : file ? await file.text() : ''
+    } else {
+      content = await request.text()
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    )
+  }
+
+  if (!content.trim()) {
+    return NextResponse.json(
+      { error: 'File is empty' },
+      { status: 400 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const format = searchParams.get('format') as PortFileFormat | null
+  if (format && format !== 'unlocode' && format !== 'iata') {
+    return NextResponse.json(
+      { error: "format must be 'unlocode' or 'iata'" },
+      { status: 400 }
+    )
+  }
+
+  let parsed: ParsedPortFile
+  try {
+    parsed = parsePortFile(content, format || undefined)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 400 }
+    )
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: existingCountries, error: countriesError } = await supabase
+    .from('countries')
+    .select('code')
+
+  if (countriesError) {
+    return NextResponse.json({ error: countriesError.message }, { status: 500 })
+  }
+
+  // Add countries the file names that aren't known yet
+  const known = new Set((existingCountries || []).map(c => c.code as string))
+  const newCountries = Object.entries(parsed.countries)
+    .filter(([code]) => !known.has(code))
+    .map(([code, name]) => ({ code, name }))
+
+  if (newCountries.length > 0) {
+    const { error } = await supabase.from('countries').insert(newCountries)
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    newCountries.forEach(c => known.add(c.code))
+  }
+
+  const inKnownCountries = parsed.ports.filter(port => known.has(port.country_code))
+
+  // Airports already stored under another code, e.g. CNPVG for PVG
+  const iataCodes = Array.from(new Set(inKnownCountries
+    .filter(port => port.port_type === 'airport' && port.iata_code)
+    .map(port => port.iata_code as string)))
+  const storedAirports: Pick<Port, 'code' | 'iata_code'>[] = []
+  for (let i = 0; i < iataCodes.length; i += IATA_LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('ports')
+      .select('code, iata_code')
+      .eq('port_type', 'airport')
+      .in('iata_code', iataCodes.slice(i, i + IATA_LOOKUP_BATCH_SIZE))
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    storedAirports.push(...(data || []))
+  }
+
+  const ports = matchExistingAirports(inKnownCountries, storedAirports)
+  for (let i = 0; i < ports.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('ports')
+      .upsert(ports.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'code' })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+  }
+
+  const byType = Object.fromEntries(PORT_TYPES.map(type => [type, 0])) as Record<PortType, number>
+  ports.forEach(port => byType[port.port_type]++)
+
+  const response: ImportPortsResponse = {
+    format: parsed.format,
+    imported: ports.length,
+    skipped: parsed.ports.length - inKnownCountries.length,
+    by_type: byType,
+    countries_added: newCountries.map(c => c.code).sort(),
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Quote Charges API
+ *
+ * Endpoints for a quote's itemised charges. Replacing the lines rolls
+ * them up into the quote's charge fields and total.
+ * All endpoints require authentication and access to the parent request;
+ * viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite, type AccessContext } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { loadFxConverter } from '@/lib/fx'
+import { checkQuotes, checksFailedWarning, type CheckedRequest } from '@/lib/quote-anomalies'
+import {
+  chargeQuantities,
+  loadChargeCatalogue,
+  priceCharges,
+  replaceQuoteCharges,
+  rollupCharges,
+  validateQuoteCharges,
+  type ChargeRollup,
+} from '@/lib/quote-charges'
+import type { Quote, QuoteCharge, QuoteWarning } from '@/types/database'
+import type {
+  QuoteChargeListResponse,
+  ReplaceQuoteChargesRequest,
+  ReplaceQuoteChargesResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Loads a quote and its parent request, if the caller can access it
+ */
+async function getAccessibleQuote(
+  supabase: ReturnType<typeof createClient>,
+  quoteId: string,
+  access: AccessContext
+): Promise<{ quote: Quote; request: CheckedRequest } | null> {
+  const { data: quote } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .single()
+
+  if (!quote) {
+    return null
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id, user_id, organization_id, origin_country, dest_country, weight_kg, volume_cbm')
+    .eq('id', quote.request_id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  return requestData ? { quote: quote as Quote, request: requestData as CheckedRequest } : null
+}
+
+/**
+ * GET /api/quotes/:id/charges
+ *
+ * Returns a quote's charge lines in order. Quotes entered as a total
+ * and a few charge fields have none.
+ *
+ * @param {string} id - The quote UUID
+ *
+ * @returns {QuoteChargeListResponse} Lines and the quote's currency
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - Quote doesn't exist or user can't access its request
+ *
+ * @example
+ * GET /api/quotes/quote-uuid/charges
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<QuoteChargeListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const accessible = await getAccessibleQuote(supabase, params.id, access)
+  if (!accessible) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('quote_charges')
+    .select('*')
+    .eq('quote_id', params.id)
+    .order('position', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: QuoteChargeListResponse = {
+    charges: (data || []) as QuoteCharge[],
+    currency: accessible.quote.currency,
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * PUT /api/quotes/:id/charges
+ *
+ * Replaces a quote's charge lines. Each line is mapped to a standard
+ * code from its name through the charge aliases (see /api/charge-aliases)
+ * unless a `code` is given; names nothing matches are filed under OTH and
+ * listed in `unmapped`. Lines default to the quote's currency and a
+ * per-shipment basis; per-unit lines without an `amount` are priced at
+ * rate × quantity, the quantity defaulting to the quote's chargeable
+ * weight (per_kg), the request's volume (per_cbm) or the quote's
+ * containers (per_container).
+ *
+ * The quote's charge fields and total are rolled up from the lines in its
+ * currency, with destination lines in `destination_charges`, and its
+ * anomaly warnings are refreshed. An empty list removes the lines and
+ * leaves the quote's figures as they are.
+ *
+ * @param {string} id - The quote UUID
+ * @body {ReplaceQuoteChargesRequest} The quote's charge lines
+ *
+ * @returns {ReplaceQuoteChargesResponse} Stored lines and the updated quote
+ *
+ * @throws {400} Bad Request - Invalid lines, an unknown code, a per-unit line without a quantity,
+ *   no exchange rate for a line's currency, or charges that don't add up to more than zero
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Quote doesn't exist or user can't access its request
+ *
+ * @example
+ * PUT /api/quotes/quote-uuid/charges
+ * {
+ *   "charges": [
+ *     { "name": "Ocean Freight", "basis": "per_container", "rate": 1450 },
+ *     { "name": "Bunker Surcharge", "basis": "per_container", "rate": 210 },
+ *     { "name": "PSS", "amount": 300 },
+ *     { "name": "THC Hamburg", "code": "DTHC", "currency": "EUR", "amount": 245 }
+ *   ]
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ReplaceQuoteChargesResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: ReplaceQuoteChargesRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const chargesError = validateQuoteCharges(body.charges)
+  if (chargesError) {
+    return NextResponse.json({ error: chargesError }, { status: 400 })
+  }
+
+  const accessible = await getAccessibleQuote(supabase, params.id, access)
+  if (!accessible) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+  const { quote: existing, request: requestData } = accessible
+
+  let priced
+  let fields: ChargeRollup | null = null
+  try {
+    const catalogue = await loadChargeCatalogue(supabase, requestData.organization_id)
+    priced = priceCharges(body.charges, catalogue, {
+      currency: existing.currency,
+      forwarderId: existing.forwarder_id,
+      quantities: chargeQuantities(existing, requestData),
+    })
+    if ('error' in priced) {
+      return NextResponse.json({ error: priced.error }, { status: 400 })
+    }
+
+    if (priced.charges.length > 0) {
+      const converter = await loadFxConverter(
+        supabase,
+        requestData.organization_id,
+        existing.currency,
+        priced.charges.map(c => c.currency)
+      )
+      const rollup = rollupCharges(priced.charges, catalogue.codes, converter)
+      if ('error' in rollup) {
+        return NextResponse.json({ error: rollup.error }, { status: 400 })
+      }
+      if (!(rollup.fields.total_amount > 0)) {
+        return NextResponse.json(
+          { error: 'Charges other than destination charges must add up to more than zero' },
+          { status: 400 }
+        )
+      }
+      fields = rollup.fields
+    }
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  let charges: QuoteCharge[]
+  try {
+    charges = await replaceQuoteCharges(supabase, params.id, priced.charges)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  let quote = existing
+  if (fields) {
+    // Anomaly checks are advisory, so a failure is recorded, not raised
+    let warnings: QuoteWarning[]
+    try {
+      const [checked] = await checkQuotes(supabase, requestData, [{ ...existing, ...fields }])
+      warnings = checked
+    } catch (err) {
+      warnings = [checksFailedWarning(err)]
+    }
+
+    const { data, error } = await supabase
+      .from('quotes')
+      .update({ ...fields, warnings })
+      .eq('id', params.id)
+      .select(`
+        *,
+        forwarder:forwarders (*)
+      `)
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    quote = data as Quote
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'quote.charges_updated',
+    entityType: 'quote',
+    entityId: params.id,
+    metadata: {
+      request_id: existing.request_id,
+      charges: charges.map(c => ({ code: c.code, name: c.name, currency: c.currency, amount: c.amount })),
+      changes: fields ? diffFields<Quote>(existing, fields, Object.keys(fields) as (keyof Quote)[]) : {},
+    },
+  })
+
+  const response: ReplaceQuoteChargesResponse = {
+    charges,
+    quote,
+    unmapped: priced.unmapped,
+  }
+
+  return NextResponse.json(response)
+}
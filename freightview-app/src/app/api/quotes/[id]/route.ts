@@ -0,0 +1,479 @@
+/**
+ * @fileoverview Single Quote API
+ *
+ * Endpoints for correcting, re-statusing and removing individual quotes.
+ * All endpoints require authentication and access to the parent request;
+ * viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite, type AccessContext } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { validateLoadType } from '@/lib/containers'
+import { checkQuotes, checksFailedWarning, CHARGE_FIELDS } from '@/lib/quote-anomalies'
+import { isQuoteExpired } from '@/lib/quote-analysis'
+import { validateRoutingTerms } from '@/lib/quote-intake'
+import { loadDgClass, modeRestriction } from '@/lib/dangerous-goods'
+import {
+  validateTemperatureControl,
+  validateTemperatureRange,
+  temperatureComplianceIssue,
+} from '@/lib/temperature'
+import type { Quote, QuoteStatus, QuoteWarning } from '@/types/database'
+import type {
+  UpdateQuoteRequest,
+  UpdateQuoteResponse,
+  DeleteQuoteResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Allowed quote status transitions.
+ * Expired quotes must be re-activated (with a new validity date) before
+ * they can be selected again. Drafts parsed from email are confirmed by
+ * activating them. Quotes are only selected by recording a decision, and
+ * a selected quote only changes status once no decision selects it.
+ */
+const STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['active', 'declined'],
+  active: ['expired', 'declined'],
+  expired: ['active', 'declined'],
+  selected: ['active', 'declined'],
+  declined: ['active'],
+}
+
+/** Fields whose changes re-run the anomaly checks */
+const CHECKED_FIELDS: (keyof Quote)[] = [
+  'currency',
+  'total_amount',
+  ...CHARGE_FIELDS,
+  'load_type',
+  'containers',
+  'etd',
+  'eta',
+  'transit_days',
+]
+
+/**
+ * Loads a quote and verifies the caller can access its parent request
+ */
+async function getAccessibleQuote(
+  supabase: ReturnType<typeof createClient>,
+  quoteId: string,
+  access: AccessContext
+): Promise<Quote | null> {
+  const { data: quote } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .single()
+
+  if (!quote) {
+    return null
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', quote.request_id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  return requestData ? (quote as Quote) : null
+}
+
+/**
+ * PATCH /api/quotes/:id
+ *
+ * Updates a quote after entry. Supports corrections to charges, schedule
+ * and validity, and status changes subject to allowed transitions.
+ * Confirming a draft (status 'active') moves a request that is still
+ * awaiting quotes to 'quotes_received'.
+ * Transit days are recalculated when ETD/ETA change and no explicit
+ * transit_days is provided. On temperature-controlled requests, a quote
+ * can't be activated, nor have its temperature control or
+ * transit changed while live, unless it keeps the cargo in range. A
+ * quote for dangerous goods can't be activated on a mode their class
+ * forbids, which catches drafts read from forwarder emails.
+ * Changes to price, charges or schedule re-run the anomaly checks and
+ * replace the quote's warnings. Quotes with charge lines take their
+ * currency, charges and total from the lines; change those with
+ * PUT /api/quotes/:id/charges.
+ *
+ * @param {string} id - The quote UUID
+ * @body {UpdateQuoteRequest} Fields to update
+ *
+ * @returns {UpdateQuoteResponse} The updated quote with forwarder details
+ *
+ * @throws {400} Bad Request - No valid fields, invalid amount, containers or temperature range,
+ *   disallowed status transition, a live quote that can't keep the cargo in range, activating
+ *   a quote on a mode the request's DG class forbids, or a pricing change to a quote with charge lines
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Quote doesn't exist or user can't access its request
+ * @throws {409} Conflict - Quote is selected by a recorded decision
+ *
+ * @example
+ * PATCH /api/quotes/quote-uuid
+ * {
+ *   "fuel_surcharge": 450,
+ *   "total_amount": 3550,
+ *   "valid_until": "2024-03-15"
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<UpdateQuoteResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpdateQuoteRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const existing = await getAccessibleQuote(supabase, params.id, access)
+  if (!existing) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  // Only allow certain fields to be updated
+  const allowedFields: (keyof UpdateQuoteRequest)[] = [
+    'status',
+    'notes',
+    'currency',
+    'total_amount',
+    'freight_charge',
+    'fuel_surcharge',
+    'handling_charge',
+    'documentation_fee',
+    'terminal_handling',
+    'other_charges',
+    'destination_charges',
+    'dg_accepted',
+    'temp_control',
+    'temp_min_c',
+    'temp_max_c',
+    'load_type',
+    'containers',
+    'etd',
+    'eta',
+    'transit_days',
+    'carrier',
+    'vessel_flight',
+    'routing',
+    'transshipment_ports',
+    'valid_until',
+    'free_days_origin',
+    'free_days_dest',
+    'payment_terms',
+  ]
+
+  const updates: Partial<Quote> = {}
+  for (const field of allowedFields) {
+    if (body[field] !== undefined) {
+      (updates as Record<string, unknown>)[field] = body[field]
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No valid fields to update' },
+      { status: 400 }
+    )
+  }
+
+  if (updates.total_amount !== undefined && !(updates.total_amount > 0)) {
+    return NextResponse.json(
+      { error: 'total_amount must be greater than zero' },
+      { status: 400 }
+    )
+  }
+
+  const routingError = validateRoutingTerms(updates)
+  if (routingError) {
+    return NextResponse.json({ error: routingError }, { status: 400 })
+  }
+  if (updates.transshipment_ports) {
+    updates.transshipment_ports = updates.transshipment_ports.map(port => port.trim())
+  }
+
+  const loadTypeError = validateLoadType(updates.load_type, updates.containers)
+  if (loadTypeError) {
+    return NextResponse.json({ error: loadTypeError }, { status: 400 })
+  }
+
+  // Keep load type and containers consistent when only one is sent
+  if (updates.load_type === 'lcl' && updates.containers === undefined) {
+    updates.containers = []
+  }
+  if (updates.containers?.length && updates.load_type === undefined) {
+    updates.load_type = 'fcl'
+  }
+
+  if (updates.currency !== undefined) {
+    if (typeof updates.currency !== 'string' || !/^[A-Za-z]{3}$/.test(updates.currency)) {
+      return NextResponse.json(
+        { error: 'currency must be a 3-letter ISO 4217 code' },
+        { status: 400 }
+      )
+    }
+    updates.currency = updates.currency.toUpperCase()
+  }
+
+  // Itemised quotes are priced by their lines
+  const pricingFields = ['currency', 'total_amount', ...CHARGE_FIELDS, 'destination_charges'] as const
+  if (pricingFields.some(field => updates[field] !== undefined)) {
+    const { count } = await supabase
+      .from('quote_charges')
+      .select('id', { count: 'exact', head: true })
+      .eq('quote_id', params.id)
+    if (count) {
+      return NextResponse.json(
+        { error: 'This quote has charge lines; change its charges with PUT /api/quotes/:id/charges' },
+        { status: 400 }
+      )
+    }
+  }
+
+  // Enforce status transitions
+  if (updates.status && updates.status !== existing.status) {
+    if (updates.status === 'selected') {
+      return NextResponse.json(
+        { error: 'Select a quote with POST /api/requests/:id/decision' },
+        { status: 400 }
+      )
+    }
+
+    if (!STATUS_TRANSITIONS[existing.status].includes(updates.status)) {
+      return NextResponse.json(
+        { error: `Cannot change quote status from "${existing.status}" to "${updates.status}"` },
+        { status: 400 }
+      )
+    }
+
+    if (existing.status === 'selected') {
+      const { count } = await supabase
+        .from('decisions')
+        .select('id', { count: 'exact', head: true })
+        .eq('selected_quote_id', existing.id)
+      if (count) {
+        return NextResponse.json(
+          { error: 'This quote is selected by the request\'s decision' },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Re-activating requires a validity date that hasn't passed
+    const validUntil = updates.valid_until !== undefined ? updates.valid_until : existing.valid_until
+    if (updates.status === 'active' && isQuoteExpired({ status: 'active', valid_until: validUntil })) {
+      return NextResponse.json(
+        { error: 'Cannot re-activate a quote whose valid_until date has passed' },
+        { status: 400 }
+      )
+    }
+  }
+
+  // Recalculate transit days if schedule changed without explicit transit_days
+  if ((updates.etd !== undefined || updates.eta !== undefined) && updates.transit_days === undefined) {
+    const etd = updates.etd !== undefined ? updates.etd : existing.etd
+    const eta = updates.eta !== undefined ? updates.eta : existing.eta
+    if (etd && eta) {
+      updates.transit_days = Math.ceil(
+        (new Date(eta).getTime() - new Date(etd).getTime()) / (1000 * 60 * 60 * 24)
+      )
+    }
+  }
+
+  const merged = { ...existing, ...updates }
+  const temperatureError = validateTemperatureControl(updates.temp_control) || validateTemperatureRange(merged)
+  if (temperatureError) {
+    return NextResponse.json({ error: temperatureError }, { status: 400 })
+  }
+
+  // Temperature-controlled cargo only takes live quotes that keep it in range
+  const goesLive = updates.status === 'active' && existing.status !== 'active'
+  const changesTemperature = (['temp_control', 'temp_min_c', 'temp_max_c', 'transit_days'] as const)
+    .some(field => updates[field] !== undefined)
+  if (goesLive || (changesTemperature && (merged.status === 'active' || merged.status === 'selected'))) {
+    const { data: requestData } = await supabase
+      .from('requests')
+      .select('temp_min_c, temp_max_c, dg_class')
+      .eq('id', existing.request_id)
+      .single()
+    const complianceIssue = requestData && temperatureComplianceIssue(merged, requestData)
+    if (complianceIssue) {
+      return NextResponse.json({ error: complianceIssue }, { status: 400 })
+    }
+
+    // Dangerous goods can't go live on a mode their class forbids
+    if (goesLive && requestData?.dg_class) {
+      const dgClass = await loadDgClass(supabase, requestData.dg_class)
+      const restriction = dgClass && modeRestriction(dgClass, merged.mode)
+      if (restriction) {
+        return NextResponse.json({ error: restriction }, { status: 400 })
+      }
+    }
+  }
+
+  // Warnings are advisory, so a failure is recorded on the quote, not raised
+  let warnings: QuoteWarning[] | undefined
+  if (CHECKED_FIELDS.some(field => updates[field] !== undefined)) {
+    try {
+      const { data: requestData, error: requestError } = await supabase
+        .from('requests')
+        .select('id, user_id, organization_id, origin_country, dest_country, weight_kg, volume_cbm')
+        .eq('id', existing.request_id)
+        .single()
+      if (requestError) throw new Error(requestError.message)
+      const [checked] = await checkQuotes(supabase, requestData, [merged])
+      warnings = checked
+    } catch (err) {
+      warnings = [checksFailedWarning(err)]
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('quotes')
+    .update(warnings ? { ...updates, warnings } : updates)
+    .eq('id', params.id)
+    .select(`
+      *,
+      forwarder:forwarders (*)
+    `)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  // Confirming an emailed draft counts as receiving the quote
+  if (existing.status === 'draft' && updates.status === 'active') {
+    await supabase
+      .from('requests')
+      .update({ status: 'quotes_received' })
+      .eq('id', existing.request_id)
+      .eq('status', 'pending_quotes')
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'quote.updated',
+    entityType: 'quote',
+    entityId: params.id,
+    metadata: {
+      request_id: existing.request_id,
+      changes: diffFields<Quote>(existing, updates, Object.keys(updates) as (keyof Quote)[]),
+    },
+  })
+
+  const response: UpdateQuoteResponse = {
+    quote: data as Quote,
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * DELETE /api/quotes/:id
+ *
+ * Deletes a mistakenly entered quote.
+ * Selected quotes are referenced by a decision and cannot be deleted.
+ *
+ * @param {string} id - The quote UUID
+ *
+ * @returns {DeleteQuoteResponse} Confirmation of deletion
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Quote doesn't exist or user can't access its request
+ * @throws {409} Conflict - Quote is selected or referenced by a decision
+ *
+ * @example
+ * DELETE /api/quotes/quote-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<DeleteQuoteResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const existing = await getAccessibleQuote(supabase, params.id, access)
+  if (!existing) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  if (existing.status === 'selected') {
+    return NextResponse.json(
+      { error: 'Cannot delete a selected quote' },
+      { status: 409 }
+    )
+  }
+
+  const { error } = await supabase
+    .from('quotes')
+    .delete()
+    .eq('id', params.id)
+
+  if (error) {
+    // Foreign key violation - quote is referenced by a decision snapshot
+    if (error.code === '23503') {
+      return NextResponse.json(
+        { error: 'Quote is referenced by a recorded decision' },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'quote.deleted',
+    entityType: 'quote',
+    entityId: params.id,
+    metadata: {
+      request_id: existing.request_id,
+      forwarder_id: existing.forwarder_id,
+      mode: existing.mode,
+      total_amount: existing.total_amount,
+    },
+  })
+
+  const response: DeleteQuoteResponse = {
+    message: 'Quote deleted successfully',
+    deleted_id: params.id,
+  }
+
+  return NextResponse.json(response)
+}
@@ -1,13 +1,33 @@
 /**
  * @fileoverview Quote Analysis API
  *
- * Provides air vs sea freight comparison analysis with cost-transit tradeoffs,
- * recommendations, and visualization data for decision making.
+ * Provides comparison analysis across transport modes with cost-transit
+ * tradeoffs, recommendations, and visualization data for decision making.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import type { Quote, ShipmentRequest } from '@/types/database'
+import { getAccessContext, requestScopeFilter } from '@/lib/access'
+import {
+  analyzeQuotes,
+  isQuoteExpired,
+  daysUntilExpiry,
+  EXPIRY_WARNING_DAYS,
+} from '@/lib/quote-analysis'
+import { loadFxConverter, normalizeQuotes } from '@/lib/fx'
+import { calculateChargeableWeight, calculateUnitCosts } from '@/lib/freight-math'
+import { addLandedCosts, type LandedCostQuote } from '@/lib/landed-cost'
+import { loadScoringSettings, rankQuotes, explainRanking } from '@/lib/recommendation'
+import { suggestContainers, compareLoadTypes } from '@/lib/containers'
+import { breakdownCharges, loadChargeCatalogue } from '@/lib/quote-charges'
+import { temperatureComplianceIssue, formatTemperatureRange } from '@/lib/temperature'
+import {
+  parseIncoterm,
+  calculateIncotermCost,
+  incotermModeWarning,
+  INCOTERM_RULES,
+} from '@/lib/incoterms'
+import type { Quote, QuoteCharge, ShipmentRequest, NormalizedQuote, TransportMode } from '@/types/database'
 import type { QuoteAnalysisResponse, ApiErrorResponse } from '@/types/api'
 
 /** Route params type for dynamic [id] segment */
@@ -22,13 +42,17 @@ interface QuoteWithForwarder extends Omit<Quote, 'forwarder'> {
     name: string
     short_code: string
   }
+  charges?: Pick<QuoteCharge, 'code' | 'currency' | 'amount'>[]
 }
 
 /** Chart data point for visualization */
 interface ChartDataPoint {
   forwarder: string
   transitDays: number | null
-  cost: number
+  /** Cost in the comparison currency (null if it couldn't be converted) */
+  cost: number | null
+  /** Landed cost in the comparison currency */
+  landedCost: number | null
   eta: string | null
 }
 
@@ -38,20 +62,65 @@ type TimelineFlexibility = 'low' | 'medium' | 'high'
 /**
  * GET /api/requests/:id/analysis
  *
- * Returns comprehensive air vs sea mode analysis including:
- * - Best quotes for each mode
- * - Potential savings calculation
- * - Recommendation with reasoning
+ * Returns comprehensive mode analysis including:
+ * - Quotes grouped by mode (air, sea-air, sea, rail, road, courier),
+ *   cheapest first, with the best quote of each
+ * - Potential savings of the cheapest option over the fastest mode
+ * - Every quote ranked by a weighted score (cost, transit, deadline buffer,
+ *   forwarder reliability, transshipments, free days) with its breakdown;
+ *   the recommendation is the top-ranked quote's mode
  * - Timeline flexibility assessment
  * - Inventory carrying cost estimates
+ * - Landed cost per quote (freight, destination charges, insurance, duty,
+ *   VAT and carrying cost) used to rank options
  * - Chart data for visualization
  *
+ * Draft quotes (parsed from email, not yet confirmed) are returned
+ * separately in `draft_quotes`, and quotes past their validity date in
+ * `expired_quotes`; neither is included in the comparison. `validity`
+ * reports how many days the best quote of each mode has left so the UI
+ * can warn before they lapse.
+ *
+ * When the cargo has a temperature range, quotes that can't keep it in
+ * range (no temperature control, a wider range, or passive packaging on
+ * a long transit) are left out too and listed with the reason in
+ * `temperature.non_compliant`.
+ *
+ * Each compared quote carries `cost_per_chargeable_kg` and `cost_per_cbm`
+ * (in `fx.currency`) so rates are comparable across forwarders, plus
+ * `cost_per_container` for FCL quotes, and `factors.chargeable_weight`
+ * gives the request's chargeable weight per mode.
+ *
+ * `containers.suggestion` is the LCL or FCL container mix suggested for
+ * the cargo's volume, weight and stackability, and `containers.comparison`
+ * sets the cheapest FCL quote against the cheapest LCL quote.
+ *
+ * Each compared quote also carries `incoterm_cost`: its costs split by
+ * the request's Incoterm into what the organization pays (`buyer_cost`,
+ * e.g. freight onwards under FOB) and the full `door_to_door` cost, with
+ * each charge marked buyer or seller. `incoterms` says which components
+ * the buyer pays and warns when a sea-only rule is used for other modes.
+ *
+ * `charge_breakdown` lists each compared quote's charges by standard code
+ * in `fx.currency`, from its charge lines or, for quotes entered as a
+ * total, its charge fields with any rest as a line without a code; null
+ * when a charge can't be converted.
+ *
+ * Quotes are compared in the organization's default currency using the
+ * latest FX rate on or before `fx_date`. Each quote keeps its original
+ * `currency`/`total_amount` and gains `normalized_total_amount`; savings
+ * and chart costs are in `fx.currency`. Quotes in a currency without a
+ * rate are listed in `fx.missing_currencies` and never picked as best.
+ *
  * @param {string} id - The request UUID
+ * @query {number} [expiry_warning_days=3] - Threshold for the expiring-soon warning
+ * @query {string} [fx_date] - Convert at rates as of this date (YYYY-MM-DD, default today)
  *
  * @returns {QuoteAnalysisResponse} Complete analysis data
  *
+ * @throws {400} Bad Request - Invalid fx_date
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * GET /api/requests/123e4567-e89b-12d3-a456-426614174000/analysis
@@ -59,16 +128,37 @@ type TimelineFlexibility = 'low' | 'medium' | 'high'
  * @example Response
  * {
  *   "request": { "id": "...", "origin": "Shanghai, CN", ... },
+ *   "modes": [
+ *     { "mode": "air", "quotes": [...], "best": { ... } },
+ *     { "mode": "rail", "quotes": [...], "best": { ... } },
+ *     { "mode": "sea", "quotes": [...], "best": { ... } }
+ *   ],
  *   "analysis": {
- *     "best_air": { ... },
- *     "best_sea": { ... },
  *     "potential_savings": 8500,
  *     "savings_percentage": 73,
  *     "recommendation": "sea",
- *     "recommendation_reason": "Sea freight arrives 5 days before deadline with 73% cost savings"
+ *     "recommendation_reason": "Sea Freight scores 86/100: USD 3,500, arrives 5 days before the deadline."
  *   },
- *   "factors": { "timeline_flexibility": "high", ... },
- *   "chart_data": { "air": [...], "sea": [...] }
+ *   "ranking": [
+ *     { "quote_id": "...", "mode": "sea", "rank": 1, "score": 86, "meets_deadline": true,
+ *       "breakdown": [{ "factor": "cost", "weight": 0.4, "score": 100, "points": 40, "detail": "USD 3,500" }, ...] },
+ *     ...
+ *   ],
+ *   "factors": { "timeline_flexibility": "high", "cheapest_mode": "sea", "fastest_mode": "air",
+ *     "chargeable_weight": { "air": 5000, "rail": 8325, "sea": 25000 }, ... },
+ *   "chart_data": { "air": [...], "rail": [...], "sea": [...] },
+ *   "containers": {
+ *     "suggestion": { "load_type": "fcl", "containers": [{ "type": "40HC", "count": 1 }], "volume_utilization": 66, ... },
+ *     "comparison": { "fcl_quote_id": "...", "lcl_quote_id": "...", "cheaper": "fcl", "difference": 420 }
+ *   },
+ *   "landed_cost": { "currency": "USD", "goods_value": 250000, "tariff": { "dest_country": "US", "hs_code": "8517", "duty_rate": 0, "vat_rate": 0 }, ... },
+ *   "fx": { "currency": "USD", "as_of": "2024-03-01", "missing_currencies": [] },
+ *   "incoterms": { "code": "FOB", "name": "Free On Board", "buyer_pays": ["freight", "insurance", "destination", "duties"],
+ *     "warning": "FOB is for sea transport; FCA fits air, rail quotes" },
+ *   "validity": { "warning_days": 3, "best_expires_in_days": { "air": 12, "rail": 5, "sea": 2 } },
+ *   "temperature": { "range": "+2 to +8 °C", "non_compliant": [
+ *     { "quote_id": "...", "forwarder": "DHL", "mode": "rail", "reason": "No temperature control offered; cargo needs +2 to +8 °C" }
+ *   ] }
  * }
  */
 export async function GET(
@@ -77,8 +167,8 @@ export async function GET(
 ): Promise<NextResponse<QuoteAnalysisResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -89,11 +179,12 @@ export async function GET(
       *,
       quotes (
         *,
-        forwarder:forwarders (id, name, short_code)
+        forwarder:forwarders (id, name, short_code),
+        charges:quote_charges (code, currency, amount)
       )
     `)
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .single()
 
   if (requestError || !requestData) {
@@ -101,37 +192,93 @@ export async function GET(
   }
 
   const shipmentRequest = requestData as ShipmentRequest & { quotes: QuoteWithForwarder[] }
-  const quotes = shipmentRequest.quotes || []
-
-  // Separate and sort quotes by mode
-  const airQuotes = quotes
-    .filter(q => q.mode === 'air')
-    .sort((a, b) => a.total_amount - b.total_amount)
+  const { searchParams } = new URL(request.url)
 
-  const seaQuotes = quotes
-    .filter(q => q.mode === 'sea')
-    .sort((a, b) => a.total_amount - b.total_amount)
+  const fxDate = searchParams.get('fx_date')
+  if (fxDate && !/^\d{4}-\d{2}-\d{2}$/.test(fxDate)) {
+    return NextResponse.json({ error: 'fx_date must be YYYY-MM-DD' }, { status: 400 })
+  }
 
-  const bestAir = airQuotes[0] || null
-  const bestSea = seaQuotes[0] || null
+  const asOf = fxDate ? new Date(`${fxDate}T00:00:00`) : new Date()
+
+  let normalized
+  try {
+    normalized = await normalizeQuotes(
+      supabase,
+      shipmentRequest.organization_id,
+      shipmentRequest.quotes || [],
+      asOf
+    )
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  const allQuotes = normalized.quotes
+
+  // Drafts parsed from email aren't compared until a user confirms them,
+  // and expired quotes can't be booked so never count as the best option
+  const draftQuotes = allQuotes.filter(q => q.status === 'draft')
+  const expiredQuotes = allQuotes.filter(q => q.status !== 'draft' && isQuoteExpired(q))
+
+  // Cold-chain cargo can't go with a forwarder that won't keep it in range
+  const nonCompliant = allQuotes
+    .filter(q => q.status !== 'draft' && !isQuoteExpired(q))
+    .map(q => ({ quote: q, reason: temperatureComplianceIssue(q, shipmentRequest) }))
+    .filter(({ reason }) => reason !== null)
+  const nonCompliantIds = new Set(nonCompliant.map(({ quote }) => quote.id))
+
+  // Rank the rest on what the goods cost on arrival, not freight alone
+  let landed
+  let scoring
+  let catalogue
+  let chargeConverter
+  try {
+    [landed, scoring, catalogue, chargeConverter] = await Promise.all([
+      addLandedCosts(
+        supabase,
+        shipmentRequest,
+        allQuotes.filter(q => q.status !== 'draft' && !isQuoteExpired(q) && !nonCompliantIds.has(q.id)),
+        normalized.fx
+      ),
+      loadScoringSettings(supabase, shipmentRequest.organization_id),
+      loadChargeCatalogue(supabase, shipmentRequest.organization_id),
+      // Charge lines can be in other currencies than their quote
+      loadFxConverter(
+        supabase,
+        shipmentRequest.organization_id,
+        normalized.fx.currency,
+        allQuotes.flatMap(q => (q.charges || []).map(c => c.currency)),
+        asOf
+      ),
+    ])
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  const quotes = landed.quotes
+
+  // Compare modes, then score every quote to pick the recommendation
+  const {
+    modes,
+    cheapest,
+    fastest,
+    potentialSavings,
+    savingsPercentage,
+  } = analyzeQuotes(quotes)
 
-  // Calculate savings
-  let potentialSavings: number | null = null
-  let savingsPercentage: number | null = null
+  const loadTypes = compareLoadTypes(quotes)
 
-  if (bestAir && bestSea) {
-    potentialSavings = bestAir.total_amount - bestSea.total_amount
-    savingsPercentage = Math.round((potentialSavings / bestAir.total_amount) * 100)
-  }
+  const ranking = rankQuotes(quotes, {
+    ...scoring,
+    deliveryRequiredDate: shipmentRequest.delivery_required_date,
+    currency: normalized.fx.currency,
+  })
 
-  // Determine recommendation based on deadline and cost
-  const { recommendation, recommendationReason } = calculateRecommendation(
-    bestAir,
-    bestSea,
-    shipmentRequest.delivery_required_date,
-    savingsPercentage,
-    potentialSavings
-  )
+  const warningDays = parseInt(searchParams.get('expiry_warning_days') || '') || EXPIRY_WARNING_DAYS
 
   // Calculate timeline flexibility
   const { flexibility, availableDays } = calculateTimelineFlexibility(
@@ -139,15 +286,23 @@ export async function GET(
     shipmentRequest.delivery_required_date
   )
 
-  // Calculate inventory carrying cost (simplified: 15% annual rate)
-  const dailyCarryingCost = shipmentRequest.value_usd
-    ? Math.round((shipmentRequest.value_usd * 0.15) / 365)
-    : null
-
-  // Build chart data for visualization
-  const chartData = {
-    air: airQuotes.map(mapQuoteToChartData),
-    sea: seaQuotes.map(mapQuoteToChartData),
+  const incoterm = parseIncoterm(shipmentRequest.incoterms)
+
+  const withUnitCosts = <T extends LandedCostQuote<NormalizedQuote<QuoteWithForwarder>>>(quote: T) => ({
+    ...quote,
+    ...calculateUnitCosts(quote, quote.normalized_total_amount, shipmentRequest),
+    incoterm_cost: incoterm && calculateIncotermCost(quote, incoterm),
+    charge_breakdown: breakdownCharges(quote, quote.charges || [], catalogue.codes, chargeConverter),
+  })
+
+  // Per-mode figures for the UI, keyed by mode
+  const chartData: Partial<Record<TransportMode, ChartDataPoint[]>> = {}
+  const chargeableWeight: Partial<Record<TransportMode, number | null>> = {}
+  const bestExpiresInDays: Partial<Record<TransportMode, number | null>> = {}
+  for (const group of modes) {
+    chartData[group.mode] = group.quotes.map(mapQuoteToChartData)
+    chargeableWeight[group.mode] = calculateChargeableWeight(group.mode, shipmentRequest).chargeableKg
+    bestExpiresInDays[group.mode] = group.best ? daysUntilExpiry(group.best.valid_until) : null
   }
 
   const response: QuoteAnalysisResponse = {
@@ -167,6 +322,7 @@ export async function GET(
       dest_address: shipmentRequest.dest_address,
       cargo_type: shipmentRequest.cargo_type,
       cargo_description: shipmentRequest.cargo_description,
+      hs_code: shipmentRequest.hs_code,
       weight_kg: shipmentRequest.weight_kg,
       volume_cbm: shipmentRequest.volume_cbm,
       pieces: shipmentRequest.pieces,
@@ -174,6 +330,14 @@ export async function GET(
       is_stackable: shipmentRequest.is_stackable,
       is_hazmat: shipmentRequest.is_hazmat,
       temperature_required: shipmentRequest.temperature_required,
+      temp_min_c: shipmentRequest.temp_min_c,
+      temp_max_c: shipmentRequest.temp_max_c,
+      dg_un_number: shipmentRequest.dg_un_number,
+      dg_class: shipmentRequest.dg_class,
+      dg_packing_group: shipmentRequest.dg_packing_group,
+      msds_path: shipmentRequest.msds_path,
+      load_type: shipmentRequest.load_type,
+      containers: shipmentRequest.containers,
       cargo_ready_date: shipmentRequest.cargo_ready_date,
       delivery_required_date: shipmentRequest.delivery_required_date,
       mode_preference: shipmentRequest.mode_preference,
@@ -183,17 +347,22 @@ export async function GET(
       updated_at: shipmentRequest.updated_at,
       submitted_at: shipmentRequest.submitted_at,
     },
-    air_quotes: airQuotes as unknown as Quote[],
-    sea_quotes: seaQuotes as unknown as Quote[],
-    best_air: bestAir as unknown as Quote | null,
-    best_sea: bestSea as unknown as Quote | null,
+    modes: modes.map(group => ({
+      mode: group.mode,
+      quotes: group.quotes.map(withUnitCosts) as unknown as Quote[],
+      best: (group.best && withUnitCosts(group.best)) as unknown as Quote | null,
+    })),
+    draft_quotes: draftQuotes as unknown as Quote[],
+    expired_quotes: expiredQuotes as unknown as Quote[],
+    fx: normalized.fx,
     potential_savings: potentialSavings,
-    recommendation,
-    recommendation_reason: recommendationReason,
+    recommendation: ranking[0]?.mode ?? null,
+    recommendation_reason: explainRanking(ranking),
+    ranking,
     analysis: {
       generated_at: new Date().toISOString(),
       quotes_analyzed: quotes.length,
-      is_reliable: quotes.length >= 2 && (airQuotes.length > 0 || seaQuotes.length > 0),
+      is_reliable: quotes.length >= 2,
     },
   }
 
@@ -202,78 +371,49 @@ export async function GET(
     ...response,
     factors: {
       timeline_flexibility: flexibility,
-      daily_carrying_cost: dailyCarryingCost,
+      daily_carrying_cost: landed.landed.daily_carrying_cost,
       available_days: availableDays,
       savings_percentage: savingsPercentage,
+      cheapest_mode: cheapest?.mode ?? null,
+      fastest_mode: fastest?.mode ?? null,
+      chargeable_weight: chargeableWeight,
     },
     chart_data: chartData,
+    containers: {
+      suggestion: suggestContainers(shipmentRequest),
+      comparison: {
+        fcl_quote_id: loadTypes.fcl?.id ?? null,
+        lcl_quote_id: loadTypes.lcl?.id ?? null,
+        cheaper: loadTypes.cheaper,
+        difference: loadTypes.difference,
+      },
+    },
+    landed_cost: landed.landed,
+    weights: scoring.weights,
+    validity: {
+      warning_days: warningDays,
+      best_expires_in_days: bestExpiresInDays,
+    },
+    incoterms: incoterm && {
+      code: incoterm,
+      name: INCOTERM_RULES[incoterm].name,
+      buyer_pays: INCOTERM_RULES[incoterm].buyer_pays,
+      warning: incotermModeWarning(incoterm, modes.map(group => group.mode)),
+    },
+    temperature: {
+      range: formatTemperatureRange(shipmentRequest),
+      non_compliant: nonCompliant.map(({ quote, reason }) => ({
+        quote_id: quote.id,
+        forwarder: quote.forwarder?.name ?? null,
+        mode: quote.mode,
+        reason,
+      })),
+    },
   }
 
   return NextResponse.json(extendedResponse)
 }
 
-/**
- * Calculates the recommended transport mode based on deadline and cost
- */
-function calculateRecommendation(
-  bestAir: QuoteWithForwarder | null,
-  bestSea: QuoteWithForwarder | null,
-  deliveryRequiredDate: string | null,
-  savingsPercentage: number | null,
-  potentialSavings: number | null
-): { recommendation: 'air' | 'sea' | null; recommendationReason: string | null } {
-  // No quotes available
-  if (!bestAir && !bestSea) {
-    return { recommendation: null, recommendationReason: null }
-  }
-
-  // Only one mode available
-  if (bestSea && !bestAir) {
-    return {
-      recommendation: 'sea',
-      recommendationReason: 'Only sea freight quotes available.',
-    }
-  }
-
-  if (bestAir && !bestSea) {
-    return {
-      recommendation: 'air',
-      recommendationReason: 'Only air freight quotes available.',
-    }
-  }
-
-  // Both modes available - check deadline
-  if (bestAir && bestSea && deliveryRequiredDate) {
-    const requiredDate = new Date(deliveryRequiredDate)
-    const seaEta = bestSea.eta ? new Date(bestSea.eta) : null
-
-    if (seaEta && seaEta <= requiredDate) {
-      const bufferDays = Math.ceil(
-        (requiredDate.getTime() - seaEta.getTime()) / (1000 * 60 * 60 * 24)
-      )
-
-      if (bufferDays >= 3) {
-        return {
-          recommendation: 'sea',
-          recommendationReason: `Sea freight arrives ${bufferDays} days before deadline with ${savingsPercentage}% cost savings ($${potentialSavings?.toLocaleString()})`,
-        }
-      } else if (bufferDays >= 0) {
-        return {
-          recommendation: 'sea',
-          recommendationReason: `Sea freight meets deadline with minimal buffer (${bufferDays} days). Consider air if timing is critical.`,
-        }
-      }
-    } else {
-      return {
-        recommendation: 'air',
-        recommendationReason: 'Sea freight does not meet delivery deadline. Air freight required.',
-      }
-    }
-  }
-
-  return { recommendation: null, recommendationReason: null }
-}
-
 /**
  * Calculates timeline flexibility based on available shipping window
  */
@@ -304,11 +444,14 @@ function calculateTimelineFlexibility(
 /**
  * Maps a quote to chart-friendly data format
  */
-function mapQuoteToChartData(quote: QuoteWithForwarder): ChartDataPoint {
+function mapQuoteToChartData(
+  quote: LandedCostQuote<NormalizedQuote<QuoteWithForwarder>>
+): ChartDataPoint {
   return {
     forwarder: quote.forwarder?.short_code || 'Unknown',
     transitDays: quote.transit_days,
-    cost: quote.total_amount,
+    cost: quote.normalized_total_amount,
+    landedCost: quote.landed_cost,
     eta: quote.eta,
   }
 }
@@ -0,0 +1,346 @@
+/**
+ * @fileoverview Decision API
+ *
+ * Endpoint for recording which quote was selected for a shipment request.
+ * The comparison shown to the buyer is snapshotted alongside the decision
+ * so the audit trail reflects exactly what was on screen. Once the shipment
+ * moves, its shipped and delivered dates are recorded on the decision so
+ * forwarder scorecards can compare quoted and actual transit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { analyzeQuotes, isQuoteExpired } from '@/lib/quote-analysis'
+import { normalizeQuotes } from '@/lib/fx'
+import { addLandedCosts } from '@/lib/landed-cost'
+import { temperatureComplianceIssue } from '@/lib/temperature'
+import type { Decision, Quote, ShipmentRequest, TransportMode } from '@/types/database'
+import type {
+  CreateDecisionRequest,
+  CreateDecisionResponse,
+  UpdateDecisionRequest,
+  UpdateDecisionResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * POST /api/requests/:id/decision
+ *
+ * Records a quote selection decision, all in one transaction:
+ * - Marks the chosen quote as 'selected' and declines the other open quotes
+ * - Moves the request to 'booked' (or 'decision_pending' when not yet confirmed)
+ * - A request has at most one decision; a second one is refused
+ * - Stores the best quote of each mode and savings as computed by the analysis
+ *   endpoint, with savings in landed cost terms in the organization's default currency
+ *
+ * @param {string} id - The request UUID
+ * @body {CreateDecisionRequest} Selected quote and optional reason
+ *
+ * @returns {CreateDecisionResponse} The recorded decision and updated request
+ *
+ * @throws {400} Bad Request - Missing selected_quote_id, or quote has expired, is an unconfirmed draft,
+ *   or can't keep the cargo in its temperature range
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request or quote doesn't exist or user can't access it
+ * @throws {409} Conflict - Request is already booked or cancelled, or already has a decision
+ *
+ * @example
+ * POST /api/requests/123e4567-e89b-12d3-a456-426614174000/decision
+ * {
+ *   "selected_quote_id": "quote-uuid",
+ *   "decision_reason": "Sea freight meets deadline with 73% savings"
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<CreateDecisionResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: CreateDecisionRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.selected_quote_id) {
+    return NextResponse.json(
+      { error: 'selected_quote_id is required' },
+      { status: 400 }
+    )
+  }
+
+  // Get request with quotes, verifying access
+  const { data: requestData, error: requestError } = await supabase
+    .from('requests')
+    .select(`
+      *,
+      quotes (*)
+    `)
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (requestError || !requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const shipmentRequest = requestData as ShipmentRequest & { quotes: Quote[] }
+  const quotes = shipmentRequest.quotes || []
+
+  if (shipmentRequest.status === 'booked' || shipmentRequest.status === 'cancelled') {
+    return NextResponse.json(
+      { error: `Request is already ${shipmentRequest.status}` },
+      { status: 409 }
+    )
+  }
+
+  const selectedQuote = quotes.find(q => q.id === body.selected_quote_id)
+  if (!selectedQuote) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  if (selectedQuote.status === 'draft') {
+    return NextResponse.json(
+      { error: 'Confirm the draft quote before selecting it' },
+      { status: 400 }
+    )
+  }
+
+  if (isQuoteExpired(selectedQuote)) {
+    return NextResponse.json(
+      { error: 'Cannot select an expired quote' },
+      { status: 400 }
+    )
+  }
+
+  const complianceIssue = temperatureComplianceIssue(selectedQuote, shipmentRequest)
+  if (complianceIssue) {
+    return NextResponse.json({ error: complianceIssue }, { status: 400 })
+  }
+
+  // Snapshot the comparison exactly as the analysis endpoint computes it
+  let normalized
+  let landed
+  try {
+    normalized = await normalizeQuotes(
+      supabase,
+      shipmentRequest.organization_id,
+      quotes.filter(q =>
+        q.status !== 'draft' && !isQuoteExpired(q) && !temperatureComplianceIssue(q, shipmentRequest)
+      )
+    )
+    landed = await addLandedCosts(supabase, shipmentRequest, normalized.quotes, normalized.fx)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  const { modes, potentialSavings, savingsPercentage } = analyzeQuotes(landed.quotes)
+  const bestQuoteIds: Partial<Record<TransportMode, string>> = {}
+  for (const group of modes) {
+    if (group.best) bestQuoteIds[group.mode] = group.best.id
+  }
+
+  // Selecting, declining the rest, recording the decision and moving the
+  // request on happen in one transaction (see record_quote_decision)
+  const { data: decision, error: decisionError } = await supabase
+    .rpc('record_quote_decision', {
+      p_request_id: params.id,
+      p_selected_quote_id: selectedQuote.id,
+      p_best_quote_ids: bestQuoteIds,
+      p_savings_amount: potentialSavings,
+      p_savings_percentage: savingsPercentage,
+      p_savings_currency: normalized.fx.currency,
+      p_decision_reason: body.decision_reason ?? null,
+      p_decided_by: access.userId,
+      p_request_status: body.confirm_booking === false ? 'decision_pending' : 'booked',
+    })
+
+  if (decisionError) {
+    // Another decision got there first, or the request was closed meanwhile
+    if (decisionError.code === '23505') {
+      return NextResponse.json({ error: decisionError.message }, { status: 409 })
+    }
+    return NextResponse.json({ error: decisionError.message }, { status: 500 })
+  }
+
+  const { data: updatedRequest, error: updateError } = await supabase
+    .from('requests')
+    .select()
+    .eq('id', params.id)
+    .single()
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'decision.made',
+    entityType: 'decision',
+    entityId: decision.id,
+    metadata: {
+      request_id: params.id,
+      selected_quote_id: selectedQuote.id,
+      best_quote_ids: bestQuoteIds,
+      savings_amount: potentialSavings,
+      savings_percentage: savingsPercentage,
+      savings_currency: normalized.fx.currency,
+      request_status: updatedRequest.status,
+    },
+  })
+
+  const response: CreateDecisionResponse = {
+    decision: decision as Decision,
+    request: updatedRequest as ShipmentRequest,
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
+
+/**
+ * PATCH /api/requests/:id/decision
+ *
+ * Records when the booked shipment left and arrived. The dates are set on
+ * the request's latest decision; send null to clear one.
+ *
+ * @param {string} id - The request UUID
+ * @body {UpdateDecisionRequest} shipped_at and/or delivered_at (yyyy-MM-dd)
+ *
+ * @returns {UpdateDecisionResponse} The updated decision
+ *
+ * @throws {400} Bad Request - No dates given, a date isn't yyyy-MM-dd, or delivery is before shipment
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist, user can't access it, or it has no decision
+ *
+ * @example
+ * PATCH /api/requests/123e4567-e89b-12d3-a456-426614174000/decision
+ * {
+ *   "shipped_at": "2026-03-02",
+ *   "delivered_at": "2026-03-31"
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<UpdateDecisionResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpdateDecisionRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const allowedFields = ['shipped_at', 'delivered_at'] as const
+  const updates: Partial<Pick<Decision, 'shipped_at' | 'delivered_at'>> = {}
+  for (const field of allowedFields) {
+    if (body[field] === undefined) continue
+    const value = body[field] || null
+    if (value !== null && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+      return NextResponse.json(
+        { error: `${field} must be a date (yyyy-MM-dd)` },
+        { status: 400 }
+      )
+    }
+    updates[field] = value
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No valid fields to update' },
+      { status: 400 }
+    )
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id, decisions (*)')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const decision = ((requestData.decisions || []) as Decision[])
+    .sort((a, b) => b.decided_at.localeCompare(a.decided_at))[0]
+
+  if (!decision) {
+    return NextResponse.json({ error: 'No decision recorded for this request' }, { status: 404 })
+  }
+
+  const shippedAt = updates.shipped_at !== undefined ? updates.shipped_at : decision.shipped_at
+  const deliveredAt = updates.delivered_at !== undefined ? updates.delivered_at : decision.delivered_at
+  if (shippedAt && deliveredAt && deliveredAt < shippedAt) {
+    return NextResponse.json(
+      { error: 'delivered_at cannot be before shipped_at' },
+      { status: 400 }
+    )
+  }
+
+  const { data: updated, error } = await supabase
+    .from('decisions')
+    .update(updates)
+    .eq('id', decision.id)
+    .select()
+    .single()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'decision.updated',
+    entityType: 'decision',
+    entityId: decision.id,
+    metadata: {
+      request_id: params.id,
+      changes: diffFields<Decision>(decision, updates, Object.keys(updates) as (keyof Decision)[]),
+    },
+  })
+
+  const response: UpdateDecisionResponse = {
+    decision: updated as Decision,
+  }
+
+  return NextResponse.json(response)
+}
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview Single Request Item API
+ *
+ * Endpoints for correcting and removing lines of a request's packing
+ * list. Each change rolls the items up into the request's totals again.
+ * All endpoints require authentication and access to the parent request;
+ * viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite, type AccessContext } from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import {
+  validateRequestItem,
+  normalizeRequestItem,
+  checkItemDangerousGoods,
+  syncRequestTotals,
+} from '@/lib/request-items'
+import type { RequestItem } from '@/types/database'
+import type {
+  UpdateRequestItemRequest,
+  RequestItemResponse,
+  DeleteRequestItemResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] and [itemId] segments */
+interface RouteParams {
+  params: { id: string; itemId: string }
+}
+
+/**
+ * Loads an item of the given request and verifies the caller can access
+ * the request
+ */
+async function getAccessibleItem(
+  supabase: ReturnType<typeof createClient>,
+  params: RouteParams['params'],
+  access: AccessContext
+): Promise<RequestItem | null> {
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData) {
+    return null
+  }
+
+  const { data: item } = await supabase
+    .from('request_items')
+    .select('*')
+    .eq('id', params.itemId)
+    .eq('request_id', params.id)
+    .single()
+
+  return (item as RequestItem) || null
+}
+
+/**
+ * PATCH /api/requests/:id/items/:itemId
+ *
+ * Updates a packing list line and the request's totals.
+ *
+ * @param {string} id - The request UUID
+ * @param {string} itemId - The item UUID
+ * @body {UpdateRequestItemRequest} Fields to update
+ *
+ * @returns {RequestItemResponse} The updated item and the request's totals
+ *
+ * @throws {400} Bad Request - No valid fields, invalid description, quantity, measure or UN number, or a UN number on a request without DG details
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Item doesn't exist or user can't access its request
+ *
+ * @example
+ * PATCH /api/requests/123e4567-e89b-12d3-a456-426614174000/items/item-uuid
+ * {
+ *   "quantity": 6,
+ *   "gross_weight_kg": 295
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<RequestItemResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpdateRequestItemRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const existing = await getAccessibleItem(supabase, params, access)
+  if (!existing) {
+    return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+  }
+
+  const updates: Partial<RequestItem> = { ...normalizeRequestItem(body) }
+  if (Number.isInteger(body.position)) {
+    updates.position = body.position
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: 'No valid fields to update' },
+      { status: 400 }
+    )
+  }
+
+  const itemError = validateRequestItem(body, { partial: true })
+  if (itemError) {
+    return NextResponse.json({ error: itemError }, { status: 400 })
+  }
+
+  let dgError
+  try {
+    dgError = await checkItemDangerousGoods(supabase, params.id, updates.un_number)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  if (dgError) {
+    return NextResponse.json({ error: dgError }, { status: 400 })
+  }
+
+  const { data, error } = await supabase
+    .from('request_items')
+    .update(updates)
+    .eq('id', params.itemId)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  let totals
+  try {
+    totals = await syncRequestTotals(supabase, params.id)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'request_item.updated',
+    entityType: 'request_item',
+    entityId: params.itemId,
+    metadata: {
+      request_id: params.id,
+      changes: diffFields<RequestItem>(existing, updates, Object.keys(updates) as (keyof RequestItem)[]),
+    },
+  })
+
+  const response: RequestItemResponse = {
+    item: data as RequestItem,
+    totals,
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * DELETE /api/requests/:id/items/:itemId
+ *
+ * Removes a packing list line and updates the request's totals. Removing
+ * the last item leaves the request's totals as they were.
+ *
+ * @param {string} id - The request UUID
+ * @param {string} itemId - The item UUID
+ *
+ * @returns {DeleteRequestItemResponse} Confirmation and the request's totals
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Item doesn't exist or user can't access its request
+ *
+ * @example
+ * DELETE /api/requests/123e4567-e89b-12d3-a456-426614174000/items/item-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<DeleteRequestItemResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const existing = await getAccessibleItem(supabase, params, access)
+  if (!existing) {
+    return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+  }
+
+  const { error } = await supabase
+    .from('request_items')
+    .delete()
+    .eq('id', params.itemId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  let totals
+  try {
+    totals = await syncRequestTotals(supabase, params.id)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'request_item.deleted',
+    entityType: 'request_item',
+    entityId: params.itemId,
+    metadata: {
+      request_id: params.id,
+      description: existing.description,
+      quantity: existing.quantity,
+    },
+  })
+
+  const response: DeleteRequestItemResponse = {
+    message: 'Item deleted successfully',
+    deleted_id: params.itemId,
+    totals,
+  }
+
+  return NextResponse.json(response)
+}
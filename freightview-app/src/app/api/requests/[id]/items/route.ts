@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Request Items API
+ *
+ * Endpoints for a shipment request's itemised packing list. Adding,
+ * changing or removing an item rolls the items up into the request's
+ * weight, volume, pieces, value and hazmat flag.
+ * All endpoints require authentication and request access verification;
+ * viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { calculateChargeableWeight } from '@/lib/freight-math'
+import { TRANSPORT_MODES } from '@/lib/transport-modes'
+import { carriesDangerousGoods } from '@/lib/dangerous-goods'
+import {
+  validateRequestItem,
+  checkItemDangerousGoods,
+  normalizeRequestItem,
+  rollupItems,
+  syncRequestTotals,
+} from '@/lib/request-items'
+import type { RequestItem, TransportMode } from '@/types/database'
+import type {
+  RequestItemListResponse,
+  CreateRequestItemRequest,
+  RequestItemResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * GET /api/requests/:id/items
+ *
+ * Returns a request's packing list in order, the totals rolled up from
+ * it, and the request's chargeable weight for each transport mode.
+ *
+ * @param {string} id - The request UUID
+ *
+ * @returns {RequestItemListResponse} Items, totals and chargeable weights
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
+ *
+ * @example
+ * GET /api/requests/123e4567-e89b-12d3-a456-426614174000/items
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<RequestItemListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: requestData, error: requestError } = await supabase
+    .from('requests')
+    .select('id, weight_kg, volume_cbm, dg_class, cargo:cargo_types (is_hazmat)')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (requestError || !requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('request_items')
+    .select('*')
+    .eq('request_id', params.id)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const items = (data || []) as RequestItem[]
+
+  const chargeableWeight = {} as Record<TransportMode, number | null>
+  for (const mode of TRANSPORT_MODES) {
+    chargeableWeight[mode] = calculateChargeableWeight(mode, requestData).chargeableKg
+  }
+
+  const cargo = requestData.cargo as unknown as { is_hazmat: boolean } | null
+  const response: RequestItemListResponse = {
+    items,
+    totals: rollupItems(items, {
+      dangerous: carriesDangerousGoods({ cargoIsHazmat: cargo?.is_hazmat, dgClass: requestData.dg_class }),
+    }),
+    chargeable_weight: chargeableWeight,
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/requests/:id/items
+ *
+ * Adds a line to a request's packing list and updates the request's
+ * totals. Dimensions (cm), gross weight (kg) and value (USD) are per
+ * piece. UN numbers are stored as "UN1266"; any item with one marks the
+ * request as hazmat, and needs the request's DG UN number and class.
+ *
+ * @param {string} id - The request UUID
+ * @body {CreateRequestItemRequest} Item details
+ *
+ * @returns {RequestItemResponse} The new item and the request's totals
+ *
+ * @throws {400} Bad Request - Missing description, invalid quantity, measure or UN number, or a UN number on a request without DG details
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
+ *
+ * @example
+ * POST /api/requests/123e4567-e89b-12d3-a456-426614174000/items
+ * {
+ *   "description": "Server racks",
+ *   "hs_code": "8473.30",
+ *   "quantity": 4,
+ *   "length_cm": 120,
+ *   "width_cm": 80,
+ *   "height_cm": 200,
+ *   "gross_weight_kg": 310,
+ *   "unit_value": 12500
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<RequestItemResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: requestData, error: requestError } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (requestError || !requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  let body: CreateRequestItemRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const itemError = validateRequestItem(body)
+  if (itemError) {
+    return NextResponse.json({ error: itemError }, { status: 400 })
+  }
+
+  let dgError
+  try {
+    dgError = await checkItemDangerousGoods(supabase, params.id, body.un_number)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+  if (dgError) {
+    return NextResponse.json({ error: dgError }, { status: 400 })
+  }
+
+  // Append to the end of the list unless a position is given
+  let position = body.position
+  if (!Number.isInteger(position)) {
+    const { count } = await supabase
+      .from('request_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('request_id', params.id)
+    position = count ?? 0
+  }
+
+  const { data: item, error: insertError } = await supabase
+    .from('request_items')
+    .insert({
+      ...normalizeRequestItem(body),
+      request_id: params.id,
+      position,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    return NextResponse.json({ error: insertError.message }, { status: 500 })
+  }
+
+  let totals
+  try {
+    totals = await syncRequestTotals(supabase, params.id)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'request_item.added',
+    entityType: 'request_item',
+    entityId: item.id,
+    metadata: {
+      request_id: params.id,
+      description: item.description,
+      quantity: item.quantity,
+    },
+  })
+
+  const response: RequestItemResponse = {
+    item: item as RequestItem,
+    totals,
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
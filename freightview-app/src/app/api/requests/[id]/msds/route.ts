@@ -0,0 +1,193 @@
+/**
+ * @fileoverview MSDS API
+ *
+ * Endpoints for the material safety data sheet of a dangerous goods
+ * request. Files live in the private 'msds' storage bucket under the
+ * request's id and are served through short-lived signed URLs.
+ * All endpoints require authentication and request access verification;
+ * viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import {
+  MSDS_BUCKET,
+  MAX_MSDS_BYTES,
+  MSDS_CONTENT_TYPES,
+  msdsObjectPath,
+} from '@/lib/dangerous-goods'
+import type { UploadMsdsResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/** Lifetime of download links, in seconds */
+const SIGNED_URL_TTL = 60
+
+/**
+ * GET /api/requests/:id/msds
+ *
+ * Redirects to a signed download URL for the request's MSDS.
+ *
+ * @param {string} id - The request UUID
+ *
+ * @returns Redirect (302) to the file
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - Request doesn't exist, user can't access it, or it has no MSDS
+ *
+ * @example
+ * GET /api/requests/123e4567-e89b-12d3-a456-426614174000/msds
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id, msds_path')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData?.msds_path) {
+    return NextResponse.json({ error: 'MSDS not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase.storage
+    .from(MSDS_BUCKET)
+    .createSignedUrl(requestData.msds_path, SIGNED_URL_TTL)
+
+  if (error || !data) {
+    return NextResponse.json({ error: error?.message || 'MSDS not found' }, { status: 404 })
+  }
+
+  return NextResponse.redirect(data.signedUrl)
+}
+
+/**
+ * POST /api/requests/:id/msds
+ *
+ * Uploads the request's MSDS, replacing any earlier one. Accepts a
+ * `file` field in `multipart/form-data`: a PDF, PNG or JPEG of at most
+ * 10 MB.
+ *
+ * @param {string} id - The request UUID
+ *
+ * @returns {UploadMsdsResponse} Where the file was stored
+ *
+ * @throws {400} Bad Request - Missing, oversized or unsupported file
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
+ *
+ * @example
+ * curl -X POST https://app.example.com/api/requests/123e4567-e89b-12d3-a456-426614174000/msds \
+ *   -F "file=@acetone-sds.pdf"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<UploadMsdsResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: requestData, error: requestError } = await supabase
+    .from('requests')
+    .select('id, msds_path')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (requestError || !requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  let file: File | null = null
+  try {
+    const form = await request.formData()
+    const value = form.get('file')
+    file = value && typeof value !== 'string' ? value : null
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    )
+  }
+
+  if (!file || file.size === 0) {
+    return NextResponse.json({ error: 'File is empty' }, { status: 400 })
+  }
+
+  if (file.size > MAX_MSDS_BYTES) {
+    return NextResponse.json(
+      { error: `File is larger than ${MAX_MSDS_BYTES / (1024 * 1024)} MB` },
+      { status: 400 }
+    )
+  }
+
+  if (!MSDS_CONTENT_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: 'MSDS must be a PDF, PNG or JPEG' },
+      { status: 400 }
+    )
+  }
+
+  const path = msdsObjectPath(params.id, file.name)
+  const { error: uploadError } = await supabase.storage
+    .from(MSDS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: true })
+
+  if (uploadError) {
+    return NextResponse.json({ error: uploadError.message }, { status: 500 })
+  }
+
+  const { error: updateError } = await supabase
+    .from('requests')
+    .update({ msds_path: path })
+    .eq('id', params.id)
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+
+  // Drop the earlier sheet once the new one is recorded
+  if (requestData.msds_path && requestData.msds_path !== path) {
+    await supabase.storage.from(MSDS_BUCKET).remove([requestData.msds_path])
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'request.updated',
+    entityType: 'request',
+    entityId: params.id,
+    metadata: {
+      request_id: params.id,
+      changes: { msds_path: { from: requestData.msds_path, to: path } },
+    },
+  })
+
+  const response: UploadMsdsResponse = {
+    msds_path: path,
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Single Forwarder Portal Link API
+ *
+ * Endpoint for revoking a forwarder's portal link. Requires a role that
+ * can edit the request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import type { RevokePortalLinkResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] and [forwarderId] segments */
+interface RouteParams {
+  params: { id: string; forwarderId: string }
+}
+
+/**
+ * DELETE /api/requests/:id/portal-links/:forwarderId
+ *
+ * Revokes a forwarder's portal link at once. Quotes it already submitted
+ * are kept; issue a new link to let the forwarder quote again.
+ *
+ * @param {string} id - The request UUID
+ * @param {string} forwarderId - The forwarder UUID
+ *
+ * @returns {RevokePortalLinkResponse} Confirmation of revocation
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist, user can't access it, or the forwarder has no link
+ *
+ * @example
+ * DELETE /api/requests/123e4567-e89b-12d3-a456-426614174000/portal-links/fwd-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<RevokePortalLinkResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const { data: existing } = await supabase
+    .from('request_forwarders')
+    .select('id, portal_revoked_at')
+    .eq('request_id', params.id)
+    .eq('forwarder_id', params.forwarderId)
+    .not('portal_token_hash', 'is', null)
+    .maybeSingle()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Portal link not found' }, { status: 404 })
+  }
+
+  if (!existing.portal_revoked_at) {
+    const { error } = await supabase
+      .from('request_forwarders')
+      .update({ portal_revoked_at: new Date().toISOString() })
+      .eq('id', existing.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    await logActivity(supabase, request, access, {
+      action: 'portal_link.revoked',
+      entityType: 'forwarder',
+      entityId: params.forwarderId,
+      metadata: { request_id: params.id },
+    })
+  }
+
+  const response: RevokePortalLinkResponse = {
+    message: 'Portal link revoked successfully',
+    forwarder_id: params.forwarderId,
+  }
+
+  return NextResponse.json(response)
+}
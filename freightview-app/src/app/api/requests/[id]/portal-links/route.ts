@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Forwarder Portal Links API
+ *
+ * Endpoints for the secure links through which contacted forwarders
+ * enter their own quotes. All endpoints require authentication and
+ * access to the request; viewers are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import {
+  DEFAULT_PORTAL_EXPIRY_DAYS,
+  MAX_PORTAL_EXPIRY_DAYS,
+  describePortalLink,
+  issuePortalLink,
+  portalUrl,
+} from '@/lib/quote-portal'
+import type { RequestForwarder } from '@/types/database'
+import type {
+  PortalLinkListResponse,
+  IssuePortalLinkRequest,
+  IssuePortalLinkResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * GET /api/requests/:id/portal-links
+ *
+ * Returns the portal link status of every forwarder contacted for the
+ * request. Tokens are never returned here.
+ *
+ * @param {string} id - The request UUID
+ *
+ * @returns {PortalLinkListResponse} One entry per contacted forwarder
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
+ *
+ * @example
+ * GET /api/requests/123e4567-e89b-12d3-a456-426614174000/portal-links
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PortalLinkListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('request_forwarders')
+    .select(`
+      *,
+      forwarder:forwarders (name)
+    `)
+    .eq('request_id', params.id)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const rows = (data || []) as (RequestForwarder & { forwarder: { name: string } | null })[]
+  const response: PortalLinkListResponse = {
+    links: rows.map(row => describePortalLink(row, row.forwarder?.name ?? null)),
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/requests/:id/portal-links
+ *
+ * Issues a contacted forwarder a new portal link, replacing (and so
+ * invalidating) any link it had. The link is only returned here; pass
+ * it on to the forwarder. RFQ emails include a link of their own.
+ *
+ * @param {string} id - The request UUID
+ * @body {IssuePortalLinkRequest} The forwarder and the link's lifetime
+ *
+ * @returns {IssuePortalLinkResponse} The link's status and its URL
+ *
+ * @throws {400} Bad Request - Missing forwarder_id or an invalid expires_in_days
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist, user can't access it, or the forwarder wasn't contacted
+ *
+ * @example
+ * POST /api/requests/123e4567-e89b-12d3-a456-426614174000/portal-links
+ * {
+ *   "forwarder_id": "fwd-uuid",
+ *   "expires_in_days": 7
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<IssuePortalLinkResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: IssuePortalLinkRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!body.forwarder_id) {
+    return NextResponse.json(
+      { error: 'forwarder_id is required' },
+      { status: 400 }
+    )
+  }
+
+  const expiresInDays = body.expires_in_days ?? DEFAULT_PORTAL_EXPIRY_DAYS
+  if (!(expiresInDays > 0 && expiresInDays <= MAX_PORTAL_EXPIRY_DAYS)) {
+    return NextResponse.json(
+      { error: `expires_in_days must be between 1 and ${MAX_PORTAL_EXPIRY_DAYS}` },
+      { status: 400 }
+    )
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id')
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  if (!requestData) {
+    return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+  }
+
+  const { data: contacted } = await supabase
+    .from('request_forwarders')
+    .select('id, forwarder:forwarders (name)')
+    .eq('request_id', params.id)
+    .eq('forwarder_id', body.forwarder_id)
+    .maybeSingle()
+
+  if (!contacted) {
+    return NextResponse.json(
+      { error: 'Forwarder was not contacted for this request' },
+      { status: 404 }
+    )
+  }
+
+  let issued
+  try {
+    issued = await issuePortalLink(supabase, params.id, body.forwarder_id, expiresInDays)
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'portal_link.issued',
+    entityType: 'forwarder',
+    entityId: body.forwarder_id,
+    metadata: {
+      request_id: params.id,
+      expires_at: issued.link.portal_expires_at,
+    },
+  })
+
+  const forwarder = contacted.forwarder as unknown as { name: string } | null
+  const response: IssuePortalLinkResponse = {
+    link: describePortalLink(issued.link, forwarder?.name ?? null),
+    portal_url: portalUrl(issued.token),
+  }
+
+  return NextResponse.json(response, { status: 201 })
+}
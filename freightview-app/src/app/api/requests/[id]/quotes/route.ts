@@ -2,12 +2,19 @@
  * @fileoverview Quotes API
  *
  * Endpoints for managing freight quotes for a specific shipment request.
- * All endpoints require authentication and request ownership verification.
+ * All endpoints require authentication and request access verification;
+ * viewers are read-only.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import type { CreateQuoteInput, Quote, TransportMode } from '@/types/database'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { isTransportMode } from '@/lib/transport-modes'
+import { normalizeQuotes } from '@/lib/fx'
+import { isQuoteExpired } from '@/lib/quote-analysis'
+import { INTAKE_REQUEST_COLUMNS, prepareQuote, saveQuote, type IntakeRequest } from '@/lib/quote-intake'
+import type { Quote } from '@/types/database'
 import type {
   QuoteListResponse,
   CreateQuoteRequest,
@@ -24,14 +31,19 @@ interface RouteParams {
  * GET /api/requests/:id/quotes
  *
  * Returns all quotes for a specific shipment request, organized by transport mode.
+ * Draft quotes parsed from email and expired quotes are listed but left
+ * out of the summary, as they are from the analysis.
+ * Each quote keeps its original currency and amount and gains
+ * `normalized_total_amount` in the organization's default currency
+ * (`fx.currency`); quotes are sorted and summarised on that amount.
  *
  * @param {string} id - The request UUID
- * @query {string} [mode] - Filter by mode ('air' or 'sea')
+ * @query {string} [mode] - Filter by mode ('air', 'sea_air', 'sea', 'rail', 'road' or 'courier')
  *
  * @returns {QuoteListResponse} Quotes with summary statistics
  *
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * // Get all quotes
@@ -47,17 +59,17 @@ export async function GET(
 ): Promise<NextResponse<QuoteListResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  // Verify user owns this request
+  // Verify user can access this request
   const { data: requestData, error: requestError } = await supabase
     .from('requests')
-    .select('id')
+    .select('id, organization_id')
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .single()
 
   if (requestError || !requestData) {
@@ -65,7 +77,7 @@ export async function GET(
   }
 
   const { searchParams } = new URL(request.url)
-  const mode = searchParams.get('mode') as TransportMode | null
+  const mode = searchParams.get('mode')
 
   let query = supabase
     .from('quotes')
@@ -74,9 +86,8 @@ export async function GET(
       forwarder:forwarders (*)
     `)
     .eq('request_id', params.id)
-    .order('total_amount', { ascending: true })
 
-  if (mode && (mode === 'air' || mode === 'sea')) {
+  if (isTransportMode(mode)) {
     query = query.eq('mode', mode)
   }
 
@@ -86,20 +97,40 @@ export async function GET(
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
-  const quotes = data as Quote[]
+  let normalized
+  try {
+    normalized = await normalizeQuotes(supabase, requestData.organization_id, data as Quote[])
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    )
+  }
 
-  // Calculate summary statistics
-  const airQuotes = quotes.filter(q => q.mode === 'air')
-  const seaQuotes = quotes.filter(q => q.mode === 'sea')
+  // Cheapest first in the comparison currency; unconvertible quotes last
+  const quotes = normalized.quotes.sort(
+    (a, b) => (a.normalized_total_amount ?? Infinity) - (b.normalized_total_amount ?? Infinity)
+  )
+
+  // Calculate summary statistics over the quotes the analysis compares
+  // (drafts from email are unconfirmed)
+  const draftCount = quotes.filter(q => q.status === 'draft').length
+  const expiredCount = quotes.filter(q => q.status !== 'draft' && isQuoteExpired(q)).length
+  const comparableQuotes = quotes.filter(q => q.status !== 'draft' && !isQuoteExpired(q))
+  const byMode: QuoteListResponse['summary']['by_mode'] = {}
+  for (const quote of comparableQuotes) {
+    const entry = byMode[quote.mode] || { count: 0, lowest: quote.normalized_total_amount }
+    byMode[quote.mode] = { ...entry, count: entry.count + 1 }
+  }
 
   const response: QuoteListResponse = {
     quotes,
+    fx: normalized.fx,
     summary: {
-      total: quotes.length,
-      air_count: airQuotes.length,
-      sea_count: seaQuotes.length,
-      lowest_air: airQuotes.length > 0 ? airQuotes[0].total_amount : null,
-      lowest_sea: seaQuotes.length > 0 ? seaQuotes[0].total_amount : null,
+      total: comparableQuotes.length,
+      by_mode: byMode,
+      draft_count: draftCount,
+      expired_count: expiredCount,
     },
   }
 
@@ -111,21 +142,46 @@ export async function GET(
  *
  * Manually adds a quote to a shipment request.
  * Automatically updates request status to 'quotes_received' if this is the first quote.
+ * Chargeable weight, rate basis and rate per unit are derived from the
+ * request's weight and volume unless supplied. Air and sea-air use the
+ * IATA 1:6000 divisor and courier quotes COURIER_VOLUMETRIC_DIVISOR; set
+ * `is_courier` for express air quotes or pass `volumetric_divisor`. FCL
+ * quotes list their `containers` and are rated per container. On
+ * dangerous goods requests, quotes on a mode the DG class forbids are
+ * rejected; `dg_accepted` records whether the forwarder confirmed it
+ * will carry the DG. On temperature-controlled requests, quotes must
+ * offer `temp_control` (reefer, active or passive) holding a range within
+ * the request's; a quote that gives no range is taken to hold the
+ * request's own.
+ *
+ * Charges can be itemised in `charges`, each named as the forwarder
+ * does with its own currency and basis (see PUT /api/quotes/:id/charges).
+ * The quote's charge fields and total are then rolled up from the lines,
+ * and `total_amount` may be left out.
+ *
+ * The quote is checked for anomalies (a price far from the lane's history
+ * or the other quotes, missing charges or charges that don't add up to the
+ * total, implausible transit, ETA before ETD). Any warnings are stored on
+ * the quote and returned with it; they never stop it being added.
  *
  * @param {string} id - The request UUID
  * @body {CreateQuoteRequest} Quote details
  *
  * @returns {CreateQuoteResponse} The newly created quote with forwarder details
  *
- * @throws {400} Bad Request - Missing required fields
+ * @throws {400} Bad Request - Missing required fields, unknown mode, invalid load type/containers,
+ *   a mode the request's DG class forbids, a quote that can't keep the cargo in its temperature range,
+ *   or invalid charge lines
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * POST /api/requests/123e4567-e89b-12d3-a456-426614174000/quotes
  * {
  *   "forwarder_id": "fwd-uuid",
  *   "mode": "sea",
+ *   "currency": "EUR",
  *   "total_amount": 3500,
  *   "freight_charge": 2800,
  *   "fuel_surcharge": 400,
@@ -142,17 +198,21 @@ export async function POST(
 ): Promise<NextResponse<CreateQuoteResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  // Verify user owns this request
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  // Verify user can access this request
   const { data: requestData, error: requestError } = await supabase
     .from('requests')
-    .select('id, status')
+    .select(INTAKE_REQUEST_COLUMNS)
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .single()
 
   if (requestError || !requestData) {
@@ -169,70 +229,38 @@ export async function POST(
     )
   }
 
-  // Validate required fields
-  if (!body.forwarder_id || !body.mode || !body.total_amount) {
-    return NextResponse.json(
-      { error: 'Missing required fields: forwarder_id, mode, total_amount' },
-      { status: 400 }
-    )
-  }
-
-  // Validate mode
-  if (body.mode !== 'air' && body.mode !== 'sea') {
+  let saved
+  let prepared
+  try {
+    prepared = await prepareQuote(supabase, requestData as IntakeRequest, body)
+    if ('error' in prepared) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 })
+    }
+    saved = await saveQuote(supabase, requestData as IntakeRequest, prepared, 'manual')
+  } catch (err) {
     return NextResponse.json(
-      { error: 'Mode must be either "air" or "sea"' },
-      { status: 400 }
+      { error: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
     )
   }
 
-  // Calculate transit days if not provided
-  let transitDays = body.transit_days
-  if (!transitDays && body.etd && body.eta) {
-    const etd = new Date(body.etd)
-    const eta = new Date(body.eta)
-    transitDays = Math.ceil((eta.getTime() - etd.getTime()) / (1000 * 60 * 60 * 24))
-  }
-
-  const { data: newQuote, error: insertError } = await supabase
-    .from('quotes')
-    .insert({
+  await logActivity(supabase, request, access, {
+    action: 'quote.received',
+    entityType: 'quote',
+    entityId: saved.quote.id,
+    metadata: {
       request_id: params.id,
       forwarder_id: body.forwarder_id,
       mode: body.mode,
-      total_amount: body.total_amount,
-      freight_charge: body.freight_charge,
-      fuel_surcharge: body.fuel_surcharge,
-      handling_charge: body.handling_charge,
-      documentation_fee: body.documentation_fee,
-      terminal_handling: body.terminal_handling,
-      etd: body.etd,
-      eta: body.eta,
-      transit_days: transitDays,
-      carrier: body.carrier,
-      routing: body.routing,
-      valid_until: body.valid_until,
+      total_amount: prepared.pricing.total_amount,
       received_via: 'manual',
-    })
-    .select(`
-      *,
-      forwarder:forwarders (*)
-    `)
-    .single()
-
-  if (insertError) {
-    return NextResponse.json({ error: insertError.message }, { status: 500 })
-  }
-
-  // Update request status if this is first quote
-  if (requestData.status === 'pending_quotes') {
-    await supabase
-      .from('requests')
-      .update({ status: 'quotes_received' })
-      .eq('id', params.id)
-  }
+      warnings: prepared.warnings.map(w => w.code),
+    },
+  })
 
   const response: CreateQuoteResponse = {
-    quote: newQuote as Quote,
+    quote: saved.quote,
+    ...(prepared.priced && { charges: saved.charges, unmapped_charges: prepared.priced.unmapped }),
   }
 
   return NextResponse.json(response, { status: 201 })
@@ -2,11 +2,31 @@
  * @fileoverview Single Request API
  *
  * Endpoints for managing individual shipment requests.
- * All endpoints require authentication and ownership verification.
+ * All endpoints require authentication and organization access verification.
+ * Viewers are read-only; only owners and admins may delete organization requests.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import {
+  getAccessContext,
+  requestScopeFilter,
+  canWrite,
+  canDeleteRequest,
+} from '@/lib/access'
+import { logActivity, diffFields } from '@/lib/activity'
+import { validateLoadType } from '@/lib/containers'
+import {
+  carriesDangerousGoods,
+  validateDangerousGoods,
+  loadDgClass,
+  modeRestriction,
+  normalizeUnNumber,
+} from '@/lib/dangerous-goods'
+import { syncRequestTotals } from '@/lib/request-items'
+import { validateTemperatureRange, formatTemperatureRange } from '@/lib/temperature'
+import { validateIncoterm } from '@/lib/incoterms'
+import { loadPorts, portMismatch } from '@/lib/ports'
 import type { RequestWithQuotes, ShipmentRequest } from '@/types/database'
 import type {
   RequestDetailResponse,
@@ -24,14 +44,15 @@ interface RouteParams {
 /**
  * GET /api/requests/:id
  *
- * Returns a single shipment request with all associated quotes and forwarders.
+ * Returns a single shipment request with all associated quotes, forwarders
+ * and packing list items.
  *
  * @param {string} id - The request UUID
  *
- * @returns {RequestDetailResponse} The request with nested quotes and forwarders
+ * @returns {RequestDetailResponse} The request with nested quotes, forwarders and items
  *
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * GET /api/requests/123e4567-e89b-12d3-a456-426614174000
@@ -42,8 +63,8 @@ export async function GET(
 ): Promise<NextResponse<RequestDetailResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -59,10 +80,12 @@ export async function GET(
         forwarder_id,
         email_sent_at,
         forwarder:forwarders (*)
-      )
+      ),
+      items:request_items (*)
     `)
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
+    .order('position', { referencedTable: 'items', ascending: true })
     .single()
 
   if (error) {
@@ -90,8 +113,12 @@ export async function GET(
  *
  * @returns {UpdateRequestResponse} The updated request
  *
+ * @throws {400} Bad Request - No valid fields, invalid load type/containers or DG details,
+ *   DG details removed from cargo that is still dangerous, a preferred mode the DG class forbids, an invalid temperature range, an unknown Incoterm,
+ *   or an unknown port or one outside the request's country
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {403} Forbidden - User has a read-only role
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * PATCH /api/requests/123e4567-e89b-12d3-a456-426614174000
@@ -106,11 +133,15 @@ export async function PATCH(
 ): Promise<NextResponse<UpdateRequestResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
   let body: UpdateRequestRequest
   try {
     body = await request.json()
@@ -127,7 +158,18 @@ export async function PATCH(
     'reference',
     'special_instructions',
     'cargo_description',
+    'hs_code',
     'mode_preference',
+    'incoterms',
+    'origin_port',
+    'dest_port',
+    'load_type',
+    'containers',
+    'dg_un_number',
+    'dg_class',
+    'dg_packing_group',
+    'temp_min_c',
+    'temp_max_c',
   ]
 
   const updates: Partial<ShipmentRequest> = {}
@@ -144,11 +186,108 @@ export async function PATCH(
     )
   }
 
+  const loadTypeError = validateLoadType(updates.load_type, updates.containers)
+  if (loadTypeError) {
+    return NextResponse.json({ error: loadTypeError }, { status: 400 })
+  }
+
+  // Keep load type and containers consistent when only one is sent
+  if (updates.load_type === 'lcl' && updates.containers === undefined) {
+    updates.containers = []
+  }
+  if (updates.containers?.length && updates.load_type === undefined) {
+    updates.load_type = 'fcl'
+  }
+
+  const incotermError = validateIncoterm(updates.incoterms)
+  if (incotermError) {
+    return NextResponse.json({ error: incotermError }, { status: 400 })
+  }
+
+  const dgError = validateDangerousGoods(updates)
+  if (dgError) {
+    return NextResponse.json({ error: dgError }, { status: 400 })
+  }
+  if (updates.dg_un_number !== undefined) {
+    updates.dg_un_number = normalizeUnNumber(updates.dg_un_number)
+  }
+  const dgChanged = updates.dg_un_number !== undefined || updates.dg_class !== undefined
+
+  // Capture current values for the audit trail
+  const { data: before } = await supabase
+    .from('requests')
+    .select([...allowedFields, 'origin_country', 'dest_country', 'cargo_type'].join(', '))
+    .eq('id', params.id)
+    .or(requestScopeFilter(access))
+    .single()
+
+  const previous = (before ?? {}) as Partial<ShipmentRequest>
+
+  // Cargo that stays dangerous through its cargo type or items keeps its DG details
+  if (dgChanged) {
+    const details = {
+      dg_un_number: updates.dg_un_number !== undefined ? updates.dg_un_number : previous.dg_un_number,
+      dg_class: updates.dg_class !== undefined ? updates.dg_class : previous.dg_class,
+    }
+    if (validateDangerousGoods(details, { required: true })) {
+      const [{ data: cargoType }, { data: dgItems }] = await Promise.all([
+        supabase.from('cargo_types').select('is_hazmat').eq('code', previous.cargo_type ?? '').maybeSingle(),
+        supabase.from('request_items').select('un_number').eq('request_id', params.id).not('un_number', 'is', null),
+      ])
+      if (carriesDangerousGoods({ cargoIsHazmat: cargoType?.is_hazmat, items: dgItems ?? [] })) {
+        return NextResponse.json(
+          { error: 'This cargo is dangerous goods; it needs a UN number (dg_un_number) and class (dg_class)' },
+          { status: 400 }
+        )
+      }
+    }
+  }
+
+  // The DG class and preferred mode must stay compatible whichever changed
+  const dgClassCode = updates.dg_class !== undefined ? updates.dg_class : previous.dg_class
+  if (dgClassCode && (updates.dg_class !== undefined || updates.mode_preference !== undefined)) {
+    const dgClass = await loadDgClass(supabase, dgClassCode)
+    if (!dgClass) {
+      return NextResponse.json(
+        { error: `Unknown dangerous goods class "${dgClassCode}"` },
+        { status: 400 }
+      )
+    }
+    const restriction = modeRestriction(dgClass, updates.mode_preference ?? previous.mode_preference ?? 'any')
+    if (restriction) {
+      return NextResponse.json({ error: restriction }, { status: 400 })
+    }
+  }
+
+  // Ports must be known and in the request's countries
+  if (updates.origin_port || updates.dest_port) {
+    const ports = await loadPorts(supabase, [updates.origin_port, updates.dest_port].filter((code): code is string => !!code))
+    const portError =
+      (updates.origin_port && portMismatch('origin_port', updates.origin_port, ports.get(updates.origin_port), previous.origin_country)) ||
+      (updates.dest_port && portMismatch('dest_port', updates.dest_port, ports.get(updates.dest_port), previous.dest_country))
+    if (portError) {
+      return NextResponse.json({ error: portError }, { status: 400 })
+    }
+  }
+
+  // Check the range as it will be after the update, and keep its label in step
+  if (updates.temp_min_c !== undefined || updates.temp_max_c !== undefined) {
+    const range = {
+      temp_min_c: updates.temp_min_c !== undefined ? updates.temp_min_c : previous.temp_min_c,
+      temp_max_c: updates.temp_max_c !== undefined ? updates.temp_max_c : previous.temp_max_c,
+    }
+    const temperatureError = validateTemperatureRange(range)
+    if (temperatureError) {
+      return NextResponse.json({ error: temperatureError }, { status: 400 })
+    }
+    updates.temperature_required = formatTemperatureRange(range)
+  }
+
   const { data, error } = await supabase
     .from('requests')
     .update(updates)
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .select()
     .single()
 
@@ -159,6 +298,33 @@ export async function PATCH(
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
+  // The hazmat flag follows the DG class along with the cargo type and items
+  if (dgChanged) {
+    try {
+      const totals = await syncRequestTotals(supabase, params.id)
+      data.is_hazmat = totals.is_hazmat
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : String(err) },
+        { status: 500 }
+      )
+    }
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'request.updated',
+    entityType: 'request',
+    entityId: params.id,
+    metadata: {
+      request_id: params.id,
+      changes: diffFields<ShipmentRequest>(
+        previous,
+        updates,
+        Object.keys(updates) as (keyof ShipmentRequest)[]
+      ),
+    },
+  })
+
   const response: UpdateRequestResponse = {
     request: data as ShipmentRequest,
   }
@@ -177,7 +343,8 @@ export async function PATCH(
  * @returns {DeleteRequestResponse} Confirmation of deletion
  *
  * @throws {401} Unauthorized - User is not authenticated
- * @throws {404} Not Found - Request doesn't exist or user doesn't own it
+ * @throws {403} Forbidden - User is not an owner or admin of the request's organization
+ * @throws {404} Not Found - Request doesn't exist or user can't access it
  *
  * @example
  * DELETE /api/requests/123e4567-e89b-12d3-a456-426614174000
@@ -188,33 +355,44 @@ export async function DELETE(
 ): Promise<NextResponse<DeleteRequestResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  // First verify the request exists and belongs to user
+  // First verify the request exists and is visible to user
   const { data: existing } = await supabase
     .from('requests')
-    .select('id')
+    .select('id, user_id, organization_id, reference')
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .single()
 
   if (!existing) {
     return NextResponse.json({ error: 'Request not found' }, { status: 404 })
   }
 
+  if (!canDeleteRequest(access, existing)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
   const { error } = await supabase
     .from('requests')
     .delete()
     .eq('id', params.id)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
+  await logActivity(supabase, request, access, {
+    action: 'request.deleted',
+    entityType: 'request',
+    entityId: params.id,
+    metadata: { request_id: params.id, reference: existing.reference },
+  })
+
   const response: DeleteRequestResponse = {
     message: 'Request deleted successfully',
     deleted_id: params.id,
@@ -2,11 +2,28 @@
  * @fileoverview Shipment Requests API
  *
  * Endpoints for managing freight shipment requests.
- * All endpoints require authentication.
+ * All endpoints require authentication. Requests are scoped to the caller's
+ * organization; viewers are read-only.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, requestScopeFilter, canWrite } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { sendRfqEmails, resolveSenderName } from '@/lib/mail/rfq'
+import { validateLoadType } from '@/lib/containers'
+import {
+  carriesDangerousGoods,
+  validateDangerousGoods,
+  loadDgClass,
+  modeRestriction,
+  findForwardersWithoutDg,
+  normalizeUnNumber,
+} from '@/lib/dangerous-goods'
+import { validateRequestItems, normalizeRequestItem, syncRequestTotals, requestFieldsFromTotals } from '@/lib/request-items'
+import { validateTemperatureRange, formatTemperatureRange } from '@/lib/temperature'
+import { validateIncoterm } from '@/lib/incoterms'
+import { loadPorts, portMismatch } from '@/lib/ports'
 import type { CreateRequestInput, ShipmentRequest } from '@/types/database'
 import type {
   RequestListResponse,
@@ -17,7 +34,8 @@ import type {
 /**
  * GET /api/requests
  *
- * Returns a paginated list of shipment requests for the authenticated user.
+ * Returns a paginated list of shipment requests visible to the authenticated user:
+ * their organization's requests plus any of their own created outside an organization.
  *
  * @query {string} [status] - Filter by request status (e.g., 'pending_quotes', 'quotes_received')
  * @query {number} [limit=50] - Maximum number of requests to return (max 100)
@@ -38,8 +56,8 @@ export async function GET(
 ): Promise<NextResponse<RequestListResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -61,7 +79,7 @@ export async function GET(
         forwarder:forwarders (id, name, short_code)
       )
     `)
-    .eq('user_id', user.id)
+    .or(requestScopeFilter(access))
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1)
 
@@ -86,12 +104,38 @@ export async function GET(
 /**
  * POST /api/requests
  *
- * Creates a new shipment request and optionally notifies forwarders.
+ * Creates a new shipment request and emails an RFQ to each selected forwarder.
+ * `notified_forwarders` lists the forwarders whose RFQ was actually sent.
+ * An optional `items` packing list is saved with the request, and the
+ * request's weight, volume, pieces, value and hazmat flag are rolled up
+ * from it (see /api/requests/:id/items).
+ *
+ * Hazmat cargo types, a `dg_class` or items with UN numbers mark the
+ * request as dangerous goods. It then needs `dg_un_number` and
+ * `dg_class`; a class forbidden by air (e.g. 1, 2.3) can't prefer air,
+ * sea-air or courier, and every selected forwarder must accept DG.
+ * Upload the MSDS afterwards to /api/requests/:id/msds.
+ *
+ * Cargo types that require temperature control need a range in °C
+ * (`temp_min_c`, `temp_max_c`); only quotes that hold it are compared.
+ *
+ * `origin_port` and `dest_port` take port codes from /api/ports and must
+ * lie in the origin and destination countries.
+ *
+ * `incoterms` (an Incoterms 2020 rule) defaults to the organization's
+ * `default_incoterms` and decides which costs the analysis counts as yours.
  *
  * @body {CreateRequestInput} Request details including origin, destination, cargo, and forwarders
  *
  * @returns {CreateRequestResponse} The newly created request
  *
+ * @throws {400} Bad Request - Missing required fields, invalid load type/containers or items,
+ *   missing DG details, a mode the DG class forbids, forwarders that don't handle DG,
+ *   a missing or invalid temperature range, an unknown Incoterm, or an unknown port or one
+ *   outside its country
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User has a read-only role
+ *
  * @example
  * POST /api/requests
  * {
@@ -102,6 +146,8 @@ export async function GET(
  *   "cargo_type": "electronics",
  *   "weight_kg": 5000,
  *   "volume_cbm": 25,
+ *   "load_type": "fcl",
+ *   "containers": [{ "type": "40HC", "count": 1 }],
  *   "cargo_ready_date": "2024-02-15",
  *   "delivery_required_date": "2024-03-01",
  *   "mode_preference": "any",
@@ -113,11 +159,15 @@ export async function POST(
 ): Promise<NextResponse<CreateRequestResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
+  if (!canWrite(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
   let body: CreateRequestInput
   try {
     body = await request.json()
@@ -136,25 +186,126 @@ export async function POST(
     )
   }
 
+  const loadTypeError = validateLoadType(body.load_type, body.containers)
+  if (loadTypeError) {
+    return NextResponse.json({ error: loadTypeError }, { status: 400 })
+  }
+
+  const itemsError = body.items !== undefined ? validateRequestItems(body.items) : null
+  if (itemsError) {
+    return NextResponse.json({ error: itemsError }, { status: 400 })
+  }
+
+  const incotermError = validateIncoterm(body.incoterms)
+  if (incotermError) {
+    return NextResponse.json({ error: incotermError }, { status: 400 })
+  }
+
+  const ports = await loadPorts(supabase, [body.origin_port, body.dest_port].filter((code): code is string => !!code))
+  const portError =
+    (body.origin_port && portMismatch('origin_port', body.origin_port, ports.get(body.origin_port), body.origin_country)) ||
+    (body.dest_port && portMismatch('dest_port', body.dest_port, ports.get(body.dest_port), body.dest_country))
+  if (portError) {
+    return NextResponse.json({ error: portError }, { status: 400 })
+  }
+
+  // Requests take the organization's usual terms unless they say otherwise
+  let incoterms = body.incoterms
+  if (incoterms === undefined && access.organizationId) {
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('default_incoterms')
+      .eq('id', access.organizationId)
+      .single()
+    incoterms = organization?.default_incoterms ?? undefined
+  }
+
+  const { data: cargoType } = await supabase
+    .from('cargo_types')
+    .select('is_hazmat, requires_temp_control')
+    .eq('code', body.cargo_type)
+    .single()
+
+  const temperatureError = validateTemperatureRange(body, {
+    required: !!cargoType?.requires_temp_control,
+  })
+  if (temperatureError) {
+    return NextResponse.json({ error: temperatureError }, { status: 400 })
+  }
+
+  // Dangerous goods need their details, a mode the class may use, and
+  // forwarders that handle DG
+  const isDangerous = carriesDangerousGoods({
+    cargoIsHazmat: cargoType?.is_hazmat,
+    dgClass: body.dg_class,
+    items: body.items,
+  })
+
+  const dgError = validateDangerousGoods(body, { required: isDangerous })
+  if (dgError) {
+    return NextResponse.json({ error: dgError }, { status: 400 })
+  }
+
+  if (body.dg_class) {
+    const dgClass = await loadDgClass(supabase, body.dg_class)
+    if (!dgClass) {
+      return NextResponse.json(
+        { error: `Unknown dangerous goods class "${body.dg_class}"` },
+        { status: 400 }
+      )
+    }
+    const restriction = modeRestriction(dgClass, body.mode_preference ?? 'any')
+    if (restriction) {
+      return NextResponse.json(
+        { error: `${restriction}; choose another mode` },
+        { status: 400 }
+      )
+    }
+  }
+
+  if (isDangerous && body.forwarder_ids?.length) {
+    const incompatible = await findForwardersWithoutDg(supabase, body.forwarder_ids)
+    if (incompatible.length > 0) {
+      return NextResponse.json(
+        { error: `${incompatible.map(f => f.name).join(', ')} can't handle dangerous goods` },
+        { status: 400 }
+      )
+    }
+  }
+
   // Create the request
   const { data: newRequest, error: insertError } = await supabase
     .from('requests')
     .insert({
-      user_id: user.id,
+      user_id: access.userId,
+      organization_id: access.organizationId,
       reference: body.reference,
       status: 'pending_quotes',
       origin_country: body.origin_country,
       origin_city: body.origin_city,
+      origin_port: body.origin_port || null,
       dest_country: body.dest_country,
       dest_city: body.dest_city,
+      dest_port: body.dest_port || null,
       cargo_type: body.cargo_type,
+      hs_code: body.hs_code,
       weight_kg: body.weight_kg,
       volume_cbm: body.volume_cbm,
       pieces: body.pieces,
       value_usd: body.value_usd,
+      is_hazmat: isDangerous,
+      temp_min_c: body.temp_min_c ?? null,
+      temp_max_c: body.temp_max_c ?? null,
+      temperature_required: formatTemperatureRange(body),
+      dg_un_number: normalizeUnNumber(body.dg_un_number),
+      dg_class: body.dg_class || null,
+      dg_packing_group: body.dg_packing_group || null,
+      load_type: body.load_type ?? (body.containers?.length ? 'fcl' : null),
+      containers: body.containers ?? [],
       cargo_ready_date: body.cargo_ready_date,
       delivery_required_date: body.delivery_required_date,
       mode_preference: body.mode_preference,
+      incoterms,
       special_instructions: body.special_instructions,
       submitted_at: new Date().toISOString(),
     })
@@ -165,7 +316,31 @@ export async function POST(
     return NextResponse.json({ error: insertError.message }, { status: 500 })
   }
 
-  // Add forwarders to request
+  // Save the packing list and take the request's totals from it
+  if (body.items && body.items.length > 0) {
+    const { error: itemsInsertError } = await supabase
+      .from('request_items')
+      .insert(body.items.map((item, position) => ({
+        ...normalizeRequestItem(item),
+        request_id: newRequest.id,
+        position,
+      })))
+
+    if (itemsInsertError) {
+      return NextResponse.json({ error: itemsInsertError.message }, { status: 500 })
+    }
+
+    try {
+      Object.assign(newRequest, requestFieldsFromTotals(await syncRequestTotals(supabase, newRequest.id)))
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : String(err) },
+        { status: 500 }
+      )
+    }
+  }
+
+  // Add forwarders to request and email them the RFQ
   const notifiedForwarders: string[] = []
   if (body.forwarder_ids && body.forwarder_ids.length > 0) {
     const requestForwarders = body.forwarder_ids.map(fid => ({
@@ -178,10 +353,24 @@ export async function POST(
       .insert(requestForwarders)
 
     if (!forwarderError) {
-      notifiedForwarders.push(...body.forwarder_ids)
+      const senderName = await resolveSenderName(supabase, newRequest)
+      notifiedForwarders.push(
+        ...await sendRfqEmails(supabase, newRequest as ShipmentRequest, body.forwarder_ids, senderName)
+      )
     }
   }
 
+  await logActivity(supabase, request, access, {
+    action: 'request.created',
+    entityType: 'request',
+    entityId: newRequest.id,
+    metadata: {
+      request_id: newRequest.id,
+      reference: newRequest.reference,
+      forwarder_ids: notifiedForwarders,
+    },
+  })
+
   const response: CreateRequestResponse = {
     request: newRequest as ShipmentRequest,
     notified_forwarders: notifiedForwarders,
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Single Tariff Rate API
+ *
+ * Endpoint for removing an organization tariff rate. Requires owner or
+ * admin role; shared rates can't be deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import type { DeleteTariffRateResponse, ApiErrorResponse } from '@/types/api'
+
+/** Route params type for dynamic [id] segment */
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * DELETE /api/tariffs/:id
+ *
+ * Deletes an organization tariff rate. Landed cost falls back to a
+ * shorter HS code prefix, the country default, or the shared rates.
+ *
+ * @param {string} id - The tariff rate UUID
+ *
+ * @returns {DeleteTariffRateResponse} Confirmation of deletion
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin
+ * @throws {404} Not Found - Rate doesn't exist in the caller's organization
+ *
+ * @example
+ * DELETE /api/tariffs/tariff-uuid
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<DeleteTariffRateResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  const { data: existing } = await supabase
+    .from('tariff_rates')
+    .select('id, dest_country, hs_code')
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+    .single()
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Tariff rate not found' }, { status: 404 })
+  }
+
+  const { error } = await supabase
+    .from('tariff_rates')
+    .delete()
+    .eq('id', params.id)
+    .eq('organization_id', access.organizationId)
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  await logActivity(supabase, request, access, {
+    action: 'tariff_rates.deleted',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: { dest_country: existing.dest_country, hs_code: existing.hs_code },
+  })
+
+  const response: DeleteTariffRateResponse = {
+    message: 'Tariff rate deleted successfully',
+    deleted_id: params.id,
+  }
+
+  return NextResponse.json(response)
+}
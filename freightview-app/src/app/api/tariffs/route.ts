@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Tariff Rates API
+ *
+ * Duty and VAT rates by destination country and HS code, used to price
+ * the landed cost of quotes. Everyone can read shared and organization
+ * rates; owners and admins maintain their organization's rates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAccessContext, isOrgAdmin } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { normalizeHsCode } from '@/lib/landed-cost'
+import type { TariffRate } from '@/types/database'
+import type {
+  TariffRateListResponse,
+  UpsertTariffRatesRequest,
+  UpsertTariffRatesResponse,
+  ApiErrorResponse,
+} from '@/types/api'
+
+/**
+ * GET /api/tariffs
+ *
+ * Returns shared tariff rates and the caller's organization rates.
+ *
+ * @query {string} [country] - Only rates for this destination country (ISO 3166-1 alpha-2)
+ *
+ * @returns {TariffRateListResponse} Matching rates, by country then HS code
+ *
+ * @throws {401} Unauthorized - User is not authenticated
+ *
+ * @example
+ * GET /api/tariffs?country=DE
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<TariffRateListResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const country = searchParams.get('country')
+
+  // RLS limits rows to shared rates and the caller's organization
+  let query = supabase
+    .from('tariff_rates')
+    .select('*')
+    .order('dest_country', { ascending: true })
+    .order('hs_code', { ascending: true, nullsFirst: true })
+
+  if (country) {
+    query = query.eq('dest_country', country.toUpperCase())
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const response: TariffRateListResponse = {
+    rates: data as TariffRate[],
+  }
+
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/tariffs
+ *
+ * Creates or replaces organization tariff rates. A rate for the same
+ * country and HS code is overwritten. Omit `hs_code` for the country's
+ * default rate; otherwise the longest matching HS code prefix applies.
+ *
+ * @body {UpsertTariffRatesRequest} Rates to store (percentages)
+ *
+ * @returns {UpsertTariffRatesResponse} The stored rates
+ *
+ * @throws {400} Bad Request - Missing rates or invalid values
+ * @throws {401} Unauthorized - User is not authenticated
+ * @throws {403} Forbidden - User is not an owner or admin of an organization
+ *
+ * @example
+ * POST /api/tariffs
+ * {
+ *   "rates": [
+ *     { "dest_country": "DE", "vat_rate": 19 },
+ *     { "dest_country": "DE", "hs_code": "6205", "duty_rate": 12, "vat_rate": 19 }
+ *   ]
+ * }
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<UpsertTariffRatesResponse | ApiErrorResponse>> {
+  const supabase = createClient()
+
+  const access = await getAccessContext(supabase)
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isOrgAdmin(access)) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+  }
+
+  let body: UpsertTariffRatesRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!Array.isArray(body.rates) || body.rates.length === 0) {
+    return NextResponse.json(
+      { error: 'rates must be a non-empty array' },
+      { status: 400 }
+    )
+  }
+
+  const rows = []
+  for (const [i, rate] of Array.from(body.rates.entries())) {
+    const dutyRate = rate.duty_rate ?? 0
+    const vatRate = rate.vat_rate ?? 0
+
+    if (!rate.dest_country || !/^[A-Za-z]{2}$/.test(rate.dest_country)) {
+      return NextResponse.json(
+        { error: `rates[${i}].dest_country must be a 2-letter country code` },
+        { status: 400 }
+      )
+    }
+    if (rate.hs_code && !normalizeHsCode(rate.hs_code)) {
+      return NextResponse.json(
+        { error: `rates[${i}].hs_code must contain digits` },
+        { status: 400 }
+      )
+    }
+    if (![dutyRate, vatRate].every(r => typeof r === 'number' && r >= 0 && r <= 1000)) {
+      return NextResponse.json(
+        { error: `rates[${i}] duty_rate and vat_rate must be non-negative percentages` },
+        { status: 400 }
+      )
+    }
+
+    rows.push({
+      organization_id: access.organizationId,
+      dest_country: rate.dest_country.toUpperCase(),
+      hs_code: normalizeHsCode(rate.hs_code ?? null),
+      duty_rate: dutyRate,
+      vat_rate: vatRate,
+      description: rate.description ?? null,
+    })
+  }
+
+  const { data, error } = await supabase
+    .from('tariff_rates')
+    .upsert(rows, { onConflict: 'organization_id,dest_country,hs_code' })
+    .select()
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const rates = data as TariffRate[]
+
+  await logActivity(supabase, request, access, {
+    action: 'tariff_rates.updated',
+    entityType: 'organization',
+    entityId: access.organizationId,
+    metadata: {
+      rates: rates.map(r => ({
+        dest_country: r.dest_country,
+        hs_code: r.hs_code,
+        duty_rate: r.duty_rate,
+        vat_rate: r.vat_rate,
+      })),
+    },
+  })
+
+  const response: UpsertTariffRatesResponse = { rates }
+
+  return NextResponse.json(response, { status: 201 })
+}
@@ -7,6 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
 import type { UserForwarder } from '@/types/database'
 import type {
   UserForwarderListResponse,
@@ -50,8 +52,8 @@ export async function GET(
 ): Promise<NextResponse<UserForwarderListResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -61,7 +63,7 @@ export async function GET(
       *,
       forwarder:forwarders (*)
     `)
-    .eq('user_id', user.id)
+    .eq('user_id', access.userId)
     .order('created_at')
 
   if (error) {
@@ -103,8 +105,8 @@ export async function POST(
 ): Promise<NextResponse<AddUserForwarderResponse | ApiErrorResponse>> {
   const supabase = createClient()
 
-  const { data: { user }, error: authError } = await supabase.auth.getUser()
-  if (authError || !user) {
+  const access = await getAccessContext(supabase)
+  if (!access) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -142,7 +144,7 @@ export async function POST(
   const { data, error } = await supabase
     .from('user_forwarders')
     .insert({
-      user_id: user.id,
+      user_id: access.userId,
       forwarder_id: body.forwarder_id,
       contact_email: body.contact_email,
       contact_name: body.contact_name,
@@ -165,6 +167,16 @@ export async function POST(
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 
+  await logActivity(supabase, request, access, {
+    action: 'forwarder.added',
+    entityType: 'forwarder',
+    entityId: body.forwarder_id,
+    metadata: {
+      user_forwarder_id: data.id,
+      contact_email: body.contact_email ?? null,
+    },
+  })
+
   const response: AddUserForwarderResponse = {
     user_forwarder: data as UserForwarder,
   }
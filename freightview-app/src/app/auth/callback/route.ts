@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Auth Callback
+ *
+ * Where the email confirmation link lands. Exchanges the one-time code
+ * for a session, which makes it the user's first sign-in, and joins the
+ * organization the user was invited to at signup.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getAccessContext } from '@/lib/access'
+import { logActivity } from '@/lib/activity'
+import { acceptInvite } from '@/lib/organization'
+
+/**
+ * GET /auth/callback
+ *
+ * Signs the user in with the confirmation `code`. If the signup carried an
+ * invite (kept as `invite_token` in the user's metadata, since there was
+ * no session to accept it with), the invite is accepted now and the token
+ * cleared. Redirects to the dashboard, or to the login page with an
+ * `error` when the code or invite is rejected.
+ *
+ * @example
+ * GET /auth/callback?code=8a1c...
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { origin, searchParams } = new URL(request.url)
+  const code = searchParams.get('code')
+
+  const failed = (message: string) =>
+    NextResponse.redirect(`${origin}/login?error=${encodeURIComponent(message)}`)
+
+  if (!code) {
+    return failed('Missing confirmation code')
+  }
+
+  const supabase = createClient()
+
+  const { data: { user }, error: exchangeError } = await supabase.auth.exchangeCodeForSession(code)
+  if (exchangeError || !user) {
+    return failed(exchangeError?.message || 'Could not confirm your account')
+  }
+
+  const inviteToken = user.user_metadata?.invite_token as string | undefined
+  if (inviteToken) {
+    const access = await getAccessContext(supabase)
+    if (!access) {
+      return failed('Could not confirm your account')
+    }
+
+    let accepted
+    try {
+      accepted = await acceptInvite(createServiceClient(), access, inviteToken)
+    } catch (err) {
+      return failed(err instanceof Error ? err.message : String(err))
+    }
+
+    // Only try an invite once; a rejected one needs a fresh invite anyway
+    await supabase.auth.updateUser({ data: { invite_token: null } })
+
+    if ('error' in accepted) {
+      return failed(accepted.error)
+    }
+
+    await logActivity(supabase, request, access, {
+      action: 'invite.accepted',
+      entityType: 'invite',
+      entityId: accepted.invite.id,
+      organizationId: accepted.organization.id,
+      metadata: { email: accepted.invite.email, role: accepted.invite.role },
+    })
+  }
+
+  return NextResponse.redirect(`${origin}/dashboard`)
+}
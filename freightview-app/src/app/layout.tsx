@@ -6,7 +6,7 @@ const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
   title: 'FreightView - Transactional Freight Management',
-  description: 'Compare freight quotes and optimize air vs sea decisions',
+  description: 'Compare freight quotes and choose the right transport mode',
 }
 
 export default function RootLayout({
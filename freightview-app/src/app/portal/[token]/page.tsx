@@ -0,0 +1,476 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { TRANSPORT_MODES, MODE_LABELS, modePreferenceLabel } from '@/lib/transport-modes'
+import { describeContainers } from '@/lib/containers'
+import { TEMPERATURE_CONTROLS, TEMPERATURE_CONTROL_LABELS, formatTemperatureRange } from '@/lib/temperature'
+import type { PortalQuoteInput, TemperatureControl, TransportMode } from '@/types/database'
+import type { PortalViewResponse } from '@/types/api'
+
+/** One charge line as typed into the form */
+interface ChargeRow {
+  name: string
+  amount: string
+}
+
+/** One quote option as typed into the form */
+interface QuoteForm {
+  mode: TransportMode | ''
+  currency: string
+  total_amount: string
+  charges: ChargeRow[]
+  etd: string
+  eta: string
+  transit_days: string
+  carrier: string
+  routing: string
+  transshipment_ports: string
+  free_days_origin: string
+  free_days_dest: string
+  valid_until: string
+  temp_control: TemperatureControl | ''
+  dg_accepted: boolean
+}
+
+function emptyQuote(data: PortalViewResponse | null): QuoteForm {
+  const mode = data?.request.mode_preference
+  return {
+    mode: mode && mode !== 'any' ? mode : '',
+    currency: 'USD',
+    total_amount: '',
+    charges: [{ name: '', amount: '' }],
+    etd: '',
+    eta: '',
+    transit_days: '',
+    carrier: '',
+    routing: '',
+    transshipment_ports: '',
+    free_days_origin: '',
+    free_days_dest: '',
+    valid_until: '',
+    temp_control: '',
+    dg_accepted: false,
+  }
+}
+
+export default function ForwarderPortalPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [data, setData] = useState<PortalViewResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [forms, setForms] = useState<QuoteForm[]>([emptyQuote(null)])
+  const [submitting, setSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState(0)
+
+  async function loadPortal() {
+    try {
+      const response = await fetch(`/api/portal/${token}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to load the request')
+      setData(result)
+      return result as PortalViewResponse
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the request')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPortal().then((result) => result && setForms([emptyQuote(result)]))
+  }, [token])
+
+  function updateForm(index: number, changes: Partial<QuoteForm>) {
+    setForms((current) => current.map((form, i) => (i === index ? { ...form, ...changes } : form)))
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setSubmitError(null)
+
+    const request = data!.request
+    const quotes: PortalQuoteInput[] = forms.map((form) => {
+      const charges = form.charges
+        .filter((charge) => charge.name.trim() && charge.amount !== '')
+        .map((charge) => ({ name: charge.name.trim(), amount: parseFloat(charge.amount) }))
+
+      return {
+        mode: form.mode as TransportMode,
+        currency: form.currency.toUpperCase(),
+        ...(charges.length > 0 ? { charges } : { total_amount: parseFloat(form.total_amount) }),
+        etd: form.etd,
+        eta: form.eta,
+        transit_days: parseInt(form.transit_days) || 0,
+        carrier: form.carrier || undefined,
+        routing: form.routing || undefined,
+        transshipment_ports: form.transshipment_ports.split(',').map((port) => port.trim()).filter(Boolean),
+        ...(form.free_days_origin !== '' && { free_days_origin: parseInt(form.free_days_origin) }),
+        ...(form.free_days_dest !== '' && { free_days_dest: parseInt(form.free_days_dest) }),
+        valid_until: form.valid_until,
+        // FCL requests are quoted for the containers asked for
+        ...(request.load_type && { load_type: request.load_type, containers: request.containers }),
+        ...(form.temp_control && { temp_control: form.temp_control }),
+        ...(request.is_hazmat && { dg_accepted: form.dg_accepted }),
+      } as PortalQuoteInput
+    })
+
+    try {
+      const response = await fetch(`/api/portal/${token}/quotes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quotes }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to submit your quote')
+
+      setSubmitted(result.quotes.length)
+      const refreshed = await loadPortal()
+      setForms([emptyQuote(refreshed)])
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit your quote')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="max-w-md text-center">
+          <h1 className="text-xl font-bold text-gray-900">FreightView</h1>
+          <p className="mt-4 text-gray-600">{error}</p>
+          <p className="mt-2 text-sm text-gray-500">Please reply to the quote request email, or ask for a new link.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { request, forwarder, requested_by, quotes } = data
+  const temperatureRange = formatTemperatureRange(request)
+  const details: [string, string | null][] = [
+    ['Reference', request.reference],
+    ['Origin', formatPlace(request.origin_city, request.origin_country, request.origin_port)],
+    ['Destination', formatPlace(request.dest_city, request.dest_country, request.dest_port)],
+    ['Mode', modePreferenceLabel(request.mode_preference)],
+    ['Incoterms', request.incoterms],
+    ['Cargo', [request.cargo_type, request.cargo_description].filter(Boolean).join(' · ') || null],
+    ['Gross weight', request.weight_kg != null ? `${request.weight_kg.toLocaleString()} kg` : null],
+    ['Volume', request.volume_cbm != null ? `${request.volume_cbm} CBM` : null],
+    ['Pieces', request.pieces != null ? String(request.pieces) : null],
+    ['Load', request.load_type === 'fcl'
+      ? `FCL${request.containers?.length ? ` ${describeContainers(request.containers)}` : ''}`
+      : request.load_type === 'lcl' ? 'LCL' : null],
+    ['Stackable', request.is_stackable ? 'Yes' : 'No'],
+    ['Dangerous goods', request.is_hazmat
+      ? ['Yes', request.dg_un_number, request.dg_class && `class ${request.dg_class}`,
+          request.dg_packing_group && `PG ${request.dg_packing_group}`].filter(Boolean).join(', ')
+      : null],
+    ['Temperature', temperatureRange],
+    ['Cargo ready', formatDate(request.cargo_ready_date)],
+    ['Required delivery', formatDate(request.delivery_required_date)],
+    ['Special instructions', request.special_instructions],
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <p className="text-sm font-semibold text-primary-600">FreightView</p>
+          <h1 className="text-2xl font-bold text-gray-900">Quote request{request.reference ? ` ${request.reference}` : ''}</h1>
+          <p className="text-gray-600">
+            {requested_by || 'Our customer'} asks {forwarder.name} for a quotation. This link is valid until{' '}
+            {format(new Date(data.expires_at), 'MMM d, yyyy')}.
+          </p>
+        </div>
+
+        {/* Shipment */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Shipment</h2>
+          </div>
+          <dl className="px-6 py-4 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            {details.filter((row): row is [string, string] => !!row[1]).map(([label, value]) => (
+              <div key={label} className="flex gap-2">
+                <dt className="w-36 shrink-0 text-gray-500">{label}</dt>
+                <dd className="font-medium text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        {/* Submitted quotes */}
+        {quotes.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="font-semibold text-gray-900">Your quotes</h2>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {quotes.map((quote) => (
+                <li key={quote.id} className="px-6 py-3 flex justify-between text-sm">
+                  <span>
+                    {MODE_LABELS[quote.mode].icon} {MODE_LABELS[quote.mode].label}
+                    {quote.carrier ? ` · ${quote.carrier}` : ''}
+                    {quote.transit_days ? ` · ${quote.transit_days} days` : ''}
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {quote.currency} {quote.total_amount.toLocaleString()}
+                    <span className="ml-2 font-normal text-gray-500">{format(new Date(quote.created_at), 'MMM d')}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {submitted > 0 && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+            Thank you. {submitted === 1 ? 'Your quote has' : `Your ${submitted} quotes have`} been received.
+          </div>
+        )}
+
+        {/* Quote form */}
+        {!data.accepting_quotes ? (
+          <div className="bg-gray-100 rounded-lg p-6 text-center text-gray-600">
+            This request is no longer accepting quotes.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {forms.map((form, index) => (
+              <div key={index} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h2 className="font-semibold text-gray-900">
+                    {forms.length > 1 ? `Option ${index + 1}` : 'Your quote'}
+                  </h2>
+                  {forms.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setForms(forms.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Field label="Mode">
+                    <select
+                      required
+                      value={form.mode}
+                      onChange={(e) => updateForm(index, { mode: e.target.value as TransportMode })}
+                      className={inputClass}
+                    >
+                      <option value="">Select...</option>
+                      {TRANSPORT_MODES.map((mode) => (
+                        <option key={mode} value={mode}>{MODE_LABELS[mode].label}</option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label="Currency">
+                    <input
+                      required
+                      maxLength={3}
+                      value={form.currency}
+                      onChange={(e) => updateForm(index, { currency: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="Total (if not itemised)">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.total_amount}
+                      onChange={(e) => updateForm(index, { total_amount: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Charges</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    List each charge as you bill it, e.g. Ocean Freight, BAF, THC. The total is worked out from these.
+                  </p>
+                  <div className="space-y-2">
+                    {form.charges.map((charge, chargeIndex) => (
+                      <div key={chargeIndex} className="flex gap-2">
+                        <input
+                          placeholder="Charge"
+                          value={charge.name}
+                          onChange={(e) => updateForm(index, {
+                            charges: form.charges.map((c, i) => (i === chargeIndex ? { ...c, name: e.target.value } : c)),
+                          })}
+                          className={`${inputClass} flex-1`}
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          placeholder={`Amount (${form.currency || 'USD'})`}
+                          value={charge.amount}
+                          onChange={(e) => updateForm(index, {
+                            charges: form.charges.map((c, i) => (i === chargeIndex ? { ...c, amount: e.target.value } : c)),
+                          })}
+                          className={`${inputClass} w-40`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => updateForm(index, { charges: [...form.charges, { name: '', amount: '' }] })}
+                    className="mt-2 text-sm text-primary-600 hover:underline"
+                  >
+                    + Add charge
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Field label="ETD">
+                    <input type="date" value={form.etd} onChange={(e) => updateForm(index, { etd: e.target.value })} className={inputClass} />
+                  </Field>
+                  <Field label="ETA">
+                    <input type="date" value={form.eta} onChange={(e) => updateForm(index, { eta: e.target.value })} className={inputClass} />
+                  </Field>
+                  <Field label="Transit days">
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.transit_days}
+                      onChange={(e) => updateForm(index, { transit_days: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="Carrier">
+                    <input value={form.carrier} onChange={(e) => updateForm(index, { carrier: e.target.value })} className={inputClass} />
+                  </Field>
+                  <Field label="Routing">
+                    <input value={form.routing} onChange={(e) => updateForm(index, { routing: e.target.value })} className={inputClass} />
+                  </Field>
+                  <Field label="Transshipment ports">
+                    <input
+                      placeholder="None if direct, e.g. SGSIN, LKCMB"
+                      value={form.transshipment_ports}
+                      onChange={(e) => updateForm(index, { transshipment_ports: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="Free days at origin">
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.free_days_origin}
+                      onChange={(e) => updateForm(index, { free_days_origin: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="Free days at destination">
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.free_days_dest}
+                      onChange={(e) => updateForm(index, { free_days_dest: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="Valid until">
+                    <input
+                      type="date"
+                      required
+                      value={form.valid_until}
+                      onChange={(e) => updateForm(index, { valid_until: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  {temperatureRange && (
+                    <Field label={`Temperature control (${temperatureRange})`}>
+                      <select
+                        required
+                        value={form.temp_control}
+                        onChange={(e) => updateForm(index, { temp_control: e.target.value as TemperatureControl })}
+                        className={inputClass}
+                      >
+                        <option value="">Select...</option>
+                        {TEMPERATURE_CONTROLS.map((control) => (
+                          <option key={control} value={control}>{TEMPERATURE_CONTROL_LABELS[control]}</option>
+                        ))}
+                      </select>
+                    </Field>
+                  )}
+                </div>
+
+                {request.is_hazmat && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.dg_accepted}
+                      onChange={(e) => updateForm(index, { dg_accepted: e.target.checked })}
+                    />
+                    We accept the dangerous goods on this option
+                  </label>
+                )}
+              </div>
+            ))}
+
+            {submitError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{submitError}</div>
+            )}
+
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={() => setForms([...forms, emptyQuote(data)])}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+              >
+                Add another option
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 font-medium disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : forms.length > 1 ? `Submit ${forms.length} quotes` : 'Submit quote'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const inputClass = 'block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+function formatPlace(city: string | null, country: string | null, port: string | null): string {
+  const place = [city, country].filter(Boolean).join(', ') || '-'
+  return port ? `${place} (${port})` : place
+}
+
+function formatDate(date: string | null): string | null {
+  return date ? format(new Date(date), 'MMM d, yyyy') : null
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import type { ActivityLog } from '@/types/database'
+
+interface ActivityTimelineProps {
+  requestId: string
+}
+
+const actionLabels: Record<string, { icon: string; label: string }> = {
+  'request.created': { icon: '📦', label: 'Request created' },
+  'request.updated': { icon: '✏️', label: 'Request updated' },
+  'request.deleted': { icon: '🗑️', label: 'Request deleted' },
+  'request_item.added': { icon: '📝', label: 'Packing list item added' },
+  'request_item.updated': { icon: '📝', label: 'Packing list item updated' },
+  'request_item.deleted': { icon: '📝', label: 'Packing list item removed' },
+  'quote.received': { icon: '📋', label: 'Quote received' },
+  'quote.updated': { icon: '✏️', label: 'Quote updated' },
+  'quote.deleted': { icon: '🗑️', label: 'Quote deleted' },
+  'quote.expired': { icon: '⌛', label: 'Quote expired' },
+  'quote.charges_updated': { icon: '🧾', label: 'Quote charges itemised' },
+  'decision.made': { icon: '✅', label: 'Decision recorded' },
+  'decision.updated': { icon: '🚚', label: 'Shipment dates updated' },
+  'forwarder.reminded': { icon: '⏰', label: 'Reminder sent to forwarder' },
+  'portal_link.issued': { icon: '🔗', label: 'Quote portal link issued' },
+  'portal_link.revoked': { icon: '🔒', label: 'Quote portal link revoked' },
+  'request.escalated': { icon: '⚠️', label: 'Escalated: forwarders haven\'t quoted' },
+}
+
+export default function ActivityTimeline({ requestId }: ActivityTimelineProps) {
+  const [activities, setActivities] = useState<ActivityLog[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadActivity() {
+      try {
+        const response = await fetch(`/api/activity?request_id=${requestId}`)
+        if (!response.ok) throw new Error('Failed to load activity')
+        const result = await response.json()
+        setActivities(result.activities)
+      } catch (err) {
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadActivity()
+  }, [requestId])
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="font-semibold text-gray-900">Activity</h2>
+      </div>
+
+      {loading ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">Loading activity...</div>
+      ) : activities.length === 0 ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">No activity recorded yet</div>
+      ) : (
+        <ol className="divide-y divide-gray-100">
+          {activities.map((activity) => {
+            const { icon, label } = actionLabels[activity.action] || { icon: '•', label: activity.action }
+            const changes = activity.metadata.changes as Record<string, { from: unknown; to: unknown }> | undefined
+
+            return (
+              <li key={activity.id} className="px-6 py-3 flex gap-3">
+                <span className="text-lg">{icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between gap-4">
+                    <span className="text-sm font-medium text-gray-900">{label}</span>
+                    <span
+                      className="text-xs text-gray-500 whitespace-nowrap"
+                      title={format(new Date(activity.created_at), 'MMM d, yyyy HH:mm:ss')}
+                    >
+                      {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {activity.user?.email || (activity.metadata.received_via === 'portal' ? 'Forwarder portal' : 'System')}
+                  </div>
+                  {changes && Object.keys(changes).length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                      {Object.entries(changes).map(([field, change]) => (
+                        <li key={field}>
+                          <span className="font-medium">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  return String(value)
+}
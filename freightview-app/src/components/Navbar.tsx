@@ -25,6 +25,7 @@ export default function Navbar({ user, profile }: NavbarProps) {
   const navItems = [
     { href: '/dashboard', label: 'Dashboard' },
     { href: '/requests', label: 'Requests' },
+    { href: '/analytics', label: 'Analytics' },
     { href: '/settings', label: 'Settings' },
   ]
 
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Port, PortType } from '@/types/database'
+
+interface PortSearchProps {
+  label: string
+  /** Code of the selected port, or '' */
+  value: string
+  /** Limit suggestions to these port types; all types when empty */
+  portTypes?: PortType[]
+  /** Limit suggestions to this country */
+  country?: string
+  placeholder?: string
+  onSelect: (port: Port | null) => void
+}
+
+const typeIcons: Record<PortType, string> = {
+  seaport: '⚓',
+  airport: '✈️',
+  inland: '🚉',
+}
+
+/** Wait this long after typing stops before searching */
+const SEARCH_DELAY_MS = 250
+
+export default function PortSearch({
+  label,
+  value,
+  portTypes = [],
+  country,
+  placeholder,
+  onSelect,
+}: PortSearchProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<Port[]>([])
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const typeFilter = portTypes.join(',')
+
+  // Clearing the port elsewhere (e.g. a new country) clears the search box
+  useEffect(() => {
+    if (!value) setQuery('')
+  }, [value])
+
+  useEffect(() => {
+    if (!open || query.trim().length < 2) {
+      setResults([])
+      return
+    }
+
+    const params = new URLSearchParams({ q: query.trim(), limit: '10' })
+    if (typeFilter) params.set('type', typeFilter)
+    if (country) params.set('country', country)
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/ports?${params}`)
+        if (!response.ok) throw new Error('Failed to search ports')
+        const result = await response.json()
+        if (!cancelled) setResults(result.ports)
+      } catch (err) {
+        console.error(err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, open, typeFilter, country])
+
+  const select = (port: Port) => {
+    setQuery(`${port.name} (${port.code})`)
+    setOpen(false)
+    onSelect(port)
+  }
+
+  return (
+    <div className="relative">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setOpen(true)
+          if (value) onSelect(null)
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder={placeholder}
+        autoComplete="off"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      />
+
+      {open && query.trim().length >= 2 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-gray-500">{loading ? 'Searching...' : 'No matching ports'}</li>
+          ) : (
+            results.map(port => (
+              <li key={port.code}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(port)}
+                  className="w-full text-left px-3 py-2 hover:bg-primary-50 flex items-center gap-2"
+                >
+                  <span>{typeIcons[port.port_type]}</span>
+                  <span className="flex-1 text-gray-900">
+                    {port.name}
+                    {port.city && port.city !== port.name && (
+                      <span className="text-gray-500">, {port.city}</span>
+                    )}
+                  </span>
+                  <span className="font-mono text-xs text-gray-500">
+                    {port.code}
+                    {port.iata_code && port.iata_code !== port.code && ` / ${port.iata_code}`}
+                  </span>
+                  <span className="text-xs text-gray-400">{port.country_code}</span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
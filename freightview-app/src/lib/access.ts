@@ -0,0 +1,94 @@
+/**
+ * Organization Access Control for FreightView
+ *
+ * Resolves the caller's organization and role so API routes can scope
+ * queries the same way the RLS policies in 002_organizations.sql do:
+ * - Org members see all requests in their organization
+ * - Requests without an organization are visible only to their creator
+ * - Viewers are read-only; only owners and admins may delete
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UserRole } from '@/types/database'
+
+/** Authenticated caller with their organization membership */
+export interface AccessContext {
+  userId: string
+  email: string | null
+  organizationId: string | null
+  role: UserRole | null
+}
+
+/** Roles allowed to create and modify requests, quotes and decisions */
+const WRITE_ROLES: UserRole[] = ['owner', 'admin', 'member']
+
+/** Roles allowed to delete requests and manage the organization */
+const ADMIN_ROLES: UserRole[] = ['owner', 'admin']
+
+/**
+ * Returns the access context for the authenticated user,
+ * or null when unauthenticated or the profile has been deactivated
+ */
+export async function getAccessContext(
+  supabase: SupabaseClient
+): Promise<AccessContext | null> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('organization_id, role, is_active')
+    .eq('id', user.id)
+    .single()
+
+  if (profile && profile.is_active === false) {
+    return null
+  }
+
+  return {
+    userId: user.id,
+    email: user.email ?? null,
+    organizationId: profile?.organization_id ?? null,
+    role: profile?.role ?? null,
+  }
+}
+
+/**
+ * PostgREST `or` filter restricting requests to those the caller can see.
+ * Apply with `.or(requestScopeFilter(access))` on a `requests` query.
+ */
+export function requestScopeFilter(access: AccessContext): string {
+  if (!access.organizationId) {
+    return `user_id.eq.${access.userId}`
+  }
+  return `organization_id.eq.${access.organizationId},and(organization_id.is.null,user_id.eq.${access.userId})`
+}
+
+/**
+ * Whether the caller may create or modify requests, quotes and decisions
+ */
+export function canWrite(access: AccessContext): boolean {
+  return !access.organizationId || (access.role !== null && WRITE_ROLES.includes(access.role))
+}
+
+/**
+ * Whether the caller may delete the given request
+ */
+export function canDeleteRequest(
+  access: AccessContext,
+  request: { organization_id: string | null; user_id: string }
+): boolean {
+  if (!request.organization_id) {
+    return request.user_id === access.userId
+  }
+  return isOrgAdmin(access)
+}
+
+/**
+ * Whether the caller is an owner or admin of their organization
+ */
+export function isOrgAdmin(access: AccessContext): boolean {
+  return !!access.organizationId && access.role !== null && ADMIN_ROLES.includes(access.role)
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { diffFields, getClientIp } from './activity'
+
+const requestWith = (headers: Record<string, string>, ip?: string) =>
+  new NextRequest('http://localhost/api/portal/token', { headers, ip })
+
+describe('getClientIp', () => {
+  it('takes the last X-Forwarded-For hop, which the proxy added', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' }))).toBe('203.0.113.7')
+  })
+
+  it('prefers the platform IP', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '203.0.113.7' }, '198.51.100.2'))).toBe('198.51.100.2')
+  })
+
+  it('accepts IPv6 addresses', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '2001:db8::1' }))).toBe('2001:db8::1')
+  })
+
+  it('returns null for a malformed hop', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '203.0.113.7, not-an-ip' }))).toBeNull()
+  })
+
+  it('returns null without proxy headers', () => {
+    expect(getClientIp(requestWith({}))).toBeNull()
+  })
+})
+
+describe('diffFields', () => {
+  it('lists only the fields that changed', () => {
+    const changes = diffFields(
+      { status: 'pending_quotes', reference: 'PO-1', containers: [] },
+      { status: 'quotes_received', reference: 'PO-1', containers: [] },
+      ['status', 'reference', 'containers']
+    )
+
+    expect(changes).toEqual({ status: { from: 'pending_quotes', to: 'quotes_received' } })
+  })
+})
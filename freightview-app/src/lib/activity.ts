@@ -0,0 +1,127 @@
+/**
+ * Activity Log Writer for FreightView
+ *
+ * Records audit trail entries into `activity_log` for mutating API calls.
+ * Logging is best-effort: a failed write is reported to the server log but
+ * never fails the request that triggered it.
+ */
+
+import { isIP } from 'net'
+import type { NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AccessContext } from '@/lib/access'
+
+/** Known activity actions, named `<entity>.<verb>` */
+export type ActivityAction =
+  | 'request.created'
+  | 'request.updated'
+  | 'request.deleted'
+  | 'request_item.added'
+  | 'request_item.updated'
+  | 'request_item.deleted'
+  | 'quote.received'
+  | 'quote.updated'
+  | 'quote.deleted'
+  | 'quote.expired'
+  | 'quote.charges_updated'
+  | 'decision.made'
+  | 'decision.updated'
+  | 'forwarder.added'
+  | 'forwarder.reminded'
+  | 'portal_link.issued'
+  | 'portal_link.revoked'
+  | 'request.escalated'
+  | 'organization.created'
+  | 'organization.updated'
+  | 'fx_rates.imported'
+  | 'tariff_rates.updated'
+  | 'tariff_rates.deleted'
+  | 'charge_aliases.updated'
+  | 'charge_aliases.deleted'
+  | 'member.updated'
+  | 'invite.created'
+  | 'invite.revoked'
+  | 'invite.accepted'
+
+/** Entity types referenced by activity entries */
+export type ActivityEntityType =
+  | 'request'
+  | 'request_item'
+  | 'quote'
+  | 'decision'
+  | 'forwarder'
+  | 'organization'
+  | 'member'
+  | 'invite'
+
+/** A single field change captured in activity metadata */
+export interface FieldChange {
+  from: unknown
+  to: unknown
+}
+
+interface ActivityEntry {
+  action: ActivityAction
+  entityType: ActivityEntityType
+  entityId: string | null
+  /** Extra context; include `request_id` so the entry shows on the request timeline */
+  metadata?: Record<string, unknown>
+  /** Overrides the caller's organization (e.g. when joining one) */
+  organizationId?: string | null
+}
+
+/**
+ * Writes an activity log entry for the caller, capturing IP and user agent.
+ * Pass a null access context for system actions (webhooks, scheduled jobs);
+ * these need an explicit `organizationId` and a service client.
+ */
+export async function logActivity(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  access: AccessContext | null,
+  entry: ActivityEntry
+): Promise<void> {
+  const { error } = await supabase.from('activity_log').insert({
+    organization_id: entry.organizationId !== undefined ? entry.organizationId : access?.organizationId ?? null,
+    user_id: access?.userId ?? null,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId,
+    metadata: entry.metadata ?? {},
+    ip_address: getClientIp(request),
+    user_agent: request.headers.get('user-agent'),
+  })
+
+  if (error) {
+    console.error(`Failed to log activity ${entry.action}:`, error.message)
+  }
+}
+
+/**
+ * Returns the changed fields between two records as `{ field: { from, to } }`
+ */
+export function diffFields<T extends object>(
+  before: Partial<T>,
+  after: Partial<T>,
+  fields: (keyof T)[]
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {}
+  for (const field of fields) {
+    if (after[field] === undefined) continue
+    if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes[field as string] = { from: before[field] ?? null, to: after[field] ?? null }
+    }
+  }
+  return changes
+}
+
+/**
+ * The client IP as seen by our proxy: the platform's `request.ip`, or else
+ * the last X-Forwarded-For hop, which the proxy appended. Earlier hops come
+ * from the client and can be anything. Null unless it's a valid IP, since
+ * it's stored in INET columns.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const ip = request.ip || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return ip && isIP(ip) ? ip : null
+}
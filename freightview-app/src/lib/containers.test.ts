@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import {
+  compareLoadTypes,
+  countContainers,
+  describeContainers,
+  suggestContainers,
+  validateContainers,
+  validateLoadType,
+} from './containers'
+import type { LoadType } from '@/types/database'
+
+const cargo = (volume_cbm: number | null, weight_kg: number | null, is_stackable = true) =>
+  ({ volume_cbm, weight_kg, is_stackable })
+
+describe('validateContainers', () => {
+  it('accepts known types with whole counts', () => {
+    expect(validateContainers([{ type: '40HC', count: 2 }, { type: '20GP', count: 1 }])).toBeNull()
+    expect(validateContainers([])).toBeNull()
+  })
+
+  it('rejects anything but an array', () => {
+    expect(validateContainers({ type: '40HC', count: 1 })).toMatch(/must be an array/)
+  })
+
+  it('names the bad entry', () => {
+    expect(validateContainers([{ type: '40HC', count: 1 }, { type: '40XX', count: 1 }]))
+      .toMatch(/^containers\[1\]\.type must be one of 20GP, 40GP, 40HC, 45HC/)
+    expect(validateContainers([{ type: '20GP', count: 0 }])).toMatch(/containers\[0\]\.count/)
+    expect(validateContainers([{ type: '20GP', count: 1.5 }])).toMatch(/positive whole number/)
+  })
+})
+
+describe('validateLoadType', () => {
+  it('accepts FCL and LCL with or without containers', () => {
+    expect(validateLoadType('fcl', [{ type: '40HC', count: 1 }])).toBeNull()
+    expect(validateLoadType('lcl', [])).toBeNull()
+    expect(validateLoadType(undefined, undefined)).toBeNull()
+    expect(validateLoadType(null, [{ type: '20GP', count: 1 }])).toBeNull()
+  })
+
+  it('rejects unknown load types', () => {
+    expect(validateLoadType('bulk', undefined)).toBe('load_type must be "fcl" or "lcl"')
+  })
+
+  it('rejects containers on LCL and bad container lists', () => {
+    expect(validateLoadType('lcl', [{ type: '20GP', count: 1 }])).toBe('LCL shipments do not take containers')
+    expect(validateLoadType('fcl', [{ type: '20GP', count: -1 }])).toMatch(/count must be/)
+  })
+})
+
+describe('countContainers and describeContainers', () => {
+  const containers = [{ type: '40HC' as const, count: 2 }, { type: '20GP' as const, count: 1 }]
+
+  it('counts every unit', () => {
+    expect(countContainers(containers)).toBe(3)
+    expect(countContainers(null)).toBe(0)
+  })
+
+  it('describes the mix', () => {
+    expect(describeContainers(containers)).toBe('2 × 40HC + 1 × 20GP')
+    expect(describeContainers(undefined)).toBe('')
+  })
+})
+
+describe('suggestContainers', () => {
+  it('returns nothing without cargo measures', () => {
+    expect(suggestContainers(cargo(null, null))).toBeNull()
+  })
+
+  it('suggests LCL for small, light cargo', () => {
+    expect(suggestContainers(cargo(10, 2000))).toMatchObject({
+      load_type: 'lcl',
+      containers: [],
+      reason: '10 cbm is below 15 cbm, so LCL is usually cheaper than a full container',
+    })
+  })
+
+  it('suggests a 20\' container for small, heavy cargo', () => {
+    expect(suggestContainers(cargo(10, 8000))).toEqual({
+      load_type: 'fcl',
+      containers: [{ type: '20GP', count: 1 }],
+      volume_utilization: 36,
+      weight_utilization: 29,
+      reason: '1 × 20GP for 10 cbm / 8,000 kg',
+    })
+  })
+
+  it('floor-loads cargo that cannot be stacked', () => {
+    const suggestion = suggestContainers(cargo(10, 2000, false))
+
+    expect(suggestion?.containers).toEqual([{ type: '20GP', count: 1 }])
+    expect(suggestion?.reason).toMatch(/floor-loaded as the cargo is not stackable$/)
+  })
+
+  it('fills the largest container first and finishes with the smallest that fits', () => {
+    expect(suggestContainers(cargo(100, 20000))).toMatchObject({
+      load_type: 'fcl',
+      containers: [{ type: '40HC', count: 1 }, { type: '40GP', count: 1 }],
+      volume_utilization: 79,
+      weight_utilization: 38,
+    })
+  })
+
+  it("puts weight-heavy cargo in 20' containers", () => {
+    expect(suggestContainers(cargo(20, 60000))).toMatchObject({
+      containers: [{ type: '20GP', count: 3 }],
+      weight_utilization: 71,
+      reason: '3 × 20GP for 20 cbm / 60,000 kg, limited by payload',
+    })
+  })
+})
+
+describe('compareLoadTypes', () => {
+  const quote = (id: string, load_type: LoadType | null, normalized_total_amount: number | null) => ({
+    id,
+    mode: 'sea' as const,
+    total_amount: normalized_total_amount ?? 0,
+    normalized_total_amount,
+    eta: null,
+    transit_days: null,
+    load_type,
+  })
+
+  it('compares the cheapest quote of each load type', () => {
+    const result = compareLoadTypes([
+      quote('fcl-dear', 'fcl', 3500),
+      quote('fcl-cheap', 'fcl', 3000),
+      quote('lcl', 'lcl', 2500),
+      quote('lcl-unpriced', 'lcl', null),
+      quote('unknown', null, 100),
+    ])
+
+    expect(result.fcl?.id).toBe('fcl-cheap')
+    expect(result.lcl?.id).toBe('lcl')
+    expect(result.cheaper).toBe('lcl')
+    expect(result.difference).toBe(500)
+  })
+
+  it('has no verdict with only one load type', () => {
+    expect(compareLoadTypes([quote('fcl', 'fcl', 3000)])).toEqual({
+      fcl: expect.objectContaining({ id: 'fcl' }),
+      lcl: null,
+      cheaper: null,
+      difference: null,
+    })
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Containers for FreightView
+ *
+ * Container specifications, a loadability calculator that suggests an
+ * FCL container mix for a request, and the FCL vs LCL comparison shown
+ * in the analysis.
+ *
+ * Loadable volume is what fits in practice, below the internal cubic
+ * capacity (pallets, dunnage, door clearance). Cargo that can't be
+ * stacked only uses the floor, so it gets NON_STACKABLE_FILL of that
+ * volume. Below LCL_MAX_CBM and a quarter of a 20' payload, the
+ * calculator suggests LCL instead.
+ */
+
+import { comparableAmount, type AnalyzableQuote } from '@/lib/quote-analysis'
+import type {
+  ContainerCount,
+  ContainerType,
+  LoadType,
+  ShipmentRequest,
+} from '@/types/database'
+
+/** Capacity of one container */
+export interface ContainerSpec {
+  label: string
+  /** Cubic metres that can be loaded in practice */
+  loadableCbm: number
+  /** Maximum cargo weight in kg */
+  maxPayloadKg: number
+}
+
+export const CONTAINER_SPECS: Record<ContainerType, ContainerSpec> = {
+  '20GP': { label: "20' Standard", loadableCbm: 28, maxPayloadKg: 28000 },
+  '40GP': { label: "40' Standard", loadableCbm: 58, maxPayloadKg: 26500 },
+  '40HC': { label: "40' High Cube", loadableCbm: 68, maxPayloadKg: 26300 },
+  '45HC': { label: "45' High Cube", loadableCbm: 78, maxPayloadKg: 27600 },
+}
+
+export const CONTAINER_TYPES = Object.keys(CONTAINER_SPECS) as ContainerType[]
+
+/** Share of loadable volume usable by cargo that can't be stacked */
+export const NON_STACKABLE_FILL = 0.5
+
+/** Volume below which LCL is usually cheaper than a 20' container */
+export const LCL_MAX_CBM = 15
+
+/** Containers the calculator picks from; 45' units aren't accepted everywhere */
+const SUGGESTED_TYPES: ContainerType[] = ['20GP', '40GP', '40HC']
+
+/** Suggested way to ship a request's cargo */
+export interface ContainerSuggestion {
+  load_type: LoadType
+  containers: ContainerCount[]
+  /** Percent of the suggested containers' loadable volume and payload used */
+  volume_utilization: number | null
+  weight_utilization: number | null
+  reason: string
+}
+
+/** Cheapest FCL and LCL quote, and which is cheaper */
+export interface LoadTypeComparison<T extends AnalyzableQuote> {
+  fcl: T | null
+  lcl: T | null
+  cheaper: LoadType | null
+  /** How much the cheaper option saves, in the comparison currency */
+  difference: number | null
+}
+
+/**
+ * Checks a user-supplied container list, returning an error message or null
+ */
+export function validateContainers(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'containers must be an array of { type, count }'
+  }
+  for (const [i, entry] of Array.from(value.entries())) {
+    if (!entry || !CONTAINER_TYPES.includes(entry.type)) {
+      return `containers[${i}].type must be one of ${CONTAINER_TYPES.join(', ')}`
+    }
+    if (!Number.isInteger(entry.count) || entry.count < 1) {
+      return `containers[${i}].count must be a positive whole number`
+    }
+  }
+  return null
+}
+
+/**
+ * Checks a load type and container list given together, returning an
+ * error message or null. Either may be omitted.
+ */
+export function validateLoadType(loadType: unknown, containers: unknown): string | null {
+  if (loadType !== undefined && loadType !== null && loadType !== 'fcl' && loadType !== 'lcl') {
+    return 'load_type must be "fcl" or "lcl"'
+  }
+  if (containers === undefined) return null
+
+  const error = validateContainers(containers)
+  if (error) return error
+  if (loadType === 'lcl' && (containers as ContainerCount[]).length > 0) {
+    return 'LCL shipments do not take containers'
+  }
+  return null
+}
+
+/**
+ * Total number of containers in a list
+ */
+export function countContainers(containers: ContainerCount[] | null | undefined): number {
+  return (containers || []).reduce((sum, c) => sum + c.count, 0)
+}
+
+/**
+ * Short description such as "2 × 40HC + 1 × 20GP"
+ */
+export function describeContainers(containers: ContainerCount[] | null | undefined): string {
+  return (containers || []).map(c => `${c.count} × ${c.type}`).join(' + ')
+}
+
+/**
+ * Suggests LCL or an FCL container mix for a request's cargo. Fills the
+ * largest container first, then finishes with the smallest container
+ * that takes the rest. Weight-heavy cargo goes in 20' containers, which
+ * carry the most payload.
+ */
+export function suggestContainers(
+  cargo: Pick<ShipmentRequest, 'weight_kg' | 'volume_cbm' | 'is_stackable'>
+): ContainerSuggestion | null {
+  const volumeCbm = Number(cargo.volume_cbm) || 0
+  const weightKg = Number(cargo.weight_kg) || 0
+  if (volumeCbm <= 0 && weightKg <= 0) return null
+
+  const fill = cargo.is_stackable === false ? NON_STACKABLE_FILL : 1
+
+  if (volumeCbm / fill < LCL_MAX_CBM && weightKg < CONTAINER_SPECS['20GP'].maxPayloadKg / 4) {
+    return {
+      load_type: 'lcl',
+      containers: [],
+      volume_utilization: null,
+      weight_utilization: null,
+      reason: `${volumeCbm} cbm is below ${LCL_MAX_CBM} cbm, so LCL is usually cheaper than a full container`,
+    }
+  }
+
+  const capacity = (type: ContainerType) => ({
+    cbm: CONTAINER_SPECS[type].loadableCbm * fill,
+    kg: CONTAINER_SPECS[type].maxPayloadKg,
+  })
+  const fits = (type: ContainerType, cbm: number, kg: number) =>
+    capacity(type).cbm >= cbm && capacity(type).kg >= kg
+
+  const counts: Partial<Record<ContainerType, number>> = {}
+  let remainingCbm = volumeCbm
+  let remainingKg = weightKg
+
+  while (remainingCbm > 0 || remainingKg > 0) {
+    const type = SUGGESTED_TYPES.find(t => fits(t, remainingCbm, remainingKg)) ||
+      (remainingKg / capacity('20GP').kg > remainingCbm / capacity('40HC').cbm ? '20GP' : '40HC')
+    counts[type] = (counts[type] || 0) + 1
+    remainingCbm -= capacity(type).cbm
+    remainingKg -= capacity(type).kg
+  }
+
+  const containers = SUGGESTED_TYPES
+    .filter(type => counts[type])
+    .reverse()
+    .map(type => ({ type, count: counts[type] as number }))
+  const totalCbm = containers.reduce((sum, c) => sum + capacity(c.type).cbm * c.count, 0)
+  const totalKg = containers.reduce((sum, c) => sum + capacity(c.type).kg * c.count, 0)
+  const weightBound = weightKg / totalKg > volumeCbm / totalCbm
+
+  return {
+    load_type: 'fcl',
+    containers,
+    volume_utilization: Math.round((volumeCbm / (totalCbm / fill)) * 100),
+    weight_utilization: Math.round((weightKg / totalKg) * 100),
+    reason: `${describeContainers(containers)} for ${volumeCbm} cbm / ${weightKg.toLocaleString()} kg` +
+      (weightBound ? ', limited by payload' : '') +
+      (fill < 1 ? ', floor-loaded as the cargo is not stackable' : ''),
+  }
+}
+
+/**
+ * Compares the cheapest FCL quote with the cheapest LCL quote
+ */
+export function compareLoadTypes<T extends AnalyzableQuote & { load_type: LoadType | null }>(
+  quotes: T[]
+): LoadTypeComparison<T> {
+  const cheapestOf = (loadType: LoadType) =>
+    quotes
+      .filter(q => q.load_type === loadType && comparableAmount(q) !== null)
+      .sort((a, b) => (comparableAmount(a) as number) - (comparableAmount(b) as number))[0] || null
+
+  const fcl = cheapestOf('fcl')
+  const lcl = cheapestOf('lcl')
+
+  if (!fcl || !lcl) {
+    return { fcl, lcl, cheaper: null, difference: null }
+  }
+
+  const fclAmount = comparableAmount(fcl) as number
+  const lclAmount = comparableAmount(lcl) as number
+  return {
+    fcl,
+    lcl,
+    cheaper: fclAmount <= lclAmount ? 'fcl' : 'lcl',
+    difference: Math.round(Math.abs(fclAmount - lclAmount) * 100) / 100,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Dangerous Goods for FreightView
+ *
+ * Validation of a request's DG details (UN number, class, packing group)
+ * and the checks that keep DG cargo off modes and forwarders that can't
+ * carry it:
+ * - Classes with `air_allowed = false` in `dg_classes` (explosives,
+ *   toxic gases) can't be requested or quoted by air, sea-air or courier
+ * - Classes with `sea_allowed = false` can't go by sea or sea-air
+ * - Forwarders without `accepts_dangerous_goods` can't be sent the RFQ
+ *
+ * A request carries dangerous goods when its cargo type is hazmat, it
+ * gives a DG class or one of its items has a UN number; any way the UN
+ * number and class are required.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  DgClass,
+  Forwarder,
+  ModePreference,
+  PackingGroup,
+  ShipmentRequest,
+  TransportMode,
+} from '@/types/database'
+
+/** Modes with an air leg */
+export const AIR_MODES: TransportMode[] = ['air', 'sea_air', 'courier']
+
+/** Modes with an ocean leg */
+export const SEA_MODES: TransportMode[] = ['sea', 'sea_air']
+
+export const PACKING_GROUPS: PackingGroup[] = ['I', 'II', 'III']
+
+/** Storage bucket for safety data sheets, keyed by request */
+export const MSDS_BUCKET = 'msds'
+
+/** Largest MSDS upload accepted */
+export const MAX_MSDS_BYTES = 10 * 1024 * 1024
+
+/** File types accepted as an MSDS */
+export const MSDS_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg']
+
+/** DG fields on a request */
+export type DangerousGoodsFields = Partial<Pick<ShipmentRequest, 'dg_un_number' | 'dg_class' | 'dg_packing_group'>>
+
+/**
+ * Whether a value reads as a UN number: "UN1266", "un 1266" or "1266"
+ */
+export function isUnNumber(value: unknown): boolean {
+  return typeof value === 'string' && /^(UN)?\s?\d{4}$/i.test(value.trim())
+}
+
+/**
+ * Writes a UN number as "UN1266", or null when empty
+ */
+export function normalizeUnNumber(value: string | null | undefined): string | null {
+  const digits = value?.replace(/\D/g, '')
+  return digits ? `UN${digits}` : null
+}
+
+/**
+ * Whether a request carries dangerous goods: its cargo type is hazmat, it
+ * gives a DG class, or an item on its packing list has a UN number
+ */
+export function carriesDangerousGoods({
+  cargoIsHazmat,
+  dgClass,
+  items = [],
+}: {
+  cargoIsHazmat?: boolean | null
+  dgClass?: string | null
+  items?: { un_number?: string | null }[]
+}): boolean {
+  return !!cargoIsHazmat || !!dgClass || items.some(item => !!item.un_number)
+}
+
+/**
+ * Checks DG details, returning an error message or null. With `required`
+ * (dangerous cargo), the UN number and class must be given.
+ */
+export function validateDangerousGoods(
+  dg: DangerousGoodsFields,
+  { required = false }: { required?: boolean } = {}
+): string | null {
+  if (required && (!dg.dg_un_number || !dg.dg_class)) {
+    return 'Dangerous goods need a UN number (dg_un_number) and class (dg_class)'
+  }
+  if (dg.dg_un_number && !isUnNumber(dg.dg_un_number)) {
+    return 'dg_un_number must be a 4-digit UN number, e.g. UN1266'
+  }
+  if (dg.dg_packing_group && !PACKING_GROUPS.includes(dg.dg_packing_group)) {
+    return `dg_packing_group must be one of ${PACKING_GROUPS.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Object name for a request's MSDS: "<request id>/<file name>", with the
+ * file name reduced to safe characters
+ */
+export function msdsObjectPath(requestId: string, fileName: string): string {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '') || 'msds.pdf'
+  return `${requestId}/${safeName}`
+}
+
+/**
+ * Loads a DG class by code, or null if there's no such class
+ */
+export async function loadDgClass(
+  supabase: SupabaseClient,
+  code: string
+): Promise<DgClass | null> {
+  const { data } = await supabase
+    .from('dg_classes')
+    .select('*')
+    .eq('code', code)
+    .single()
+
+  return (data as DgClass) || null
+}
+
+/**
+ * Why a DG class can't travel by a mode, or null if it can.
+ * 'any' is always allowed; forwarders quote only what they can carry.
+ */
+export function modeRestriction(dgClass: DgClass, mode: ModePreference): string | null {
+  if (mode === 'any') return null
+  if (!dgClass.air_allowed && AIR_MODES.includes(mode)) {
+    return `Class ${dgClass.code} (${dgClass.name}) dangerous goods are forbidden by air`
+  }
+  if (!dgClass.sea_allowed && SEA_MODES.includes(mode)) {
+    return `Class ${dgClass.code} (${dgClass.name}) dangerous goods are forbidden by sea`
+  }
+  return null
+}
+
+/**
+ * Forwarders among the given IDs that don't handle dangerous goods
+ */
+export async function findForwardersWithoutDg(
+  supabase: SupabaseClient,
+  forwarderIds: string[]
+): Promise<Pick<Forwarder, 'id' | 'name'>[]> {
+  if (forwarderIds.length === 0) return []
+
+  const { data } = await supabase
+    .from('forwarders')
+    .select('id, name')
+    .in('id', forwarderIds)
+    .eq('accepts_dangerous_goods', false)
+
+  return data || []
+}
@@ -14,6 +14,8 @@ import type {
   Quote,
   UserRole,
   OrganizationPlan,
+  TransportMode,
+  ModePreference,
 } from '@/types/database'
 
 // =====================
@@ -39,6 +41,9 @@ export const demoOrganizations: Organization[] = [
     default_currency: 'USD',
     default_incoterms: 'FOB',
     fiscal_year_start: 1,
+    insurance_rate: 0.3,
+    carrying_cost_rate: 15,
+    recommendation_weights: {},
     created_at: new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
     created_by: 'user-001',
@@ -61,6 +66,9 @@ export const demoOrganizations: Organization[] = [
     default_currency: 'GBP',
     default_incoterms: 'CIF',
     fiscal_year_start: 4,
+    insurance_rate: 0.3,
+    carrying_cost_rate: 15,
+    recommendation_weights: {},
     created_at: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
     created_by: 'user-003',
@@ -83,6 +91,9 @@ export const demoOrganizations: Organization[] = [
     default_currency: 'USD',
     default_incoterms: 'DDP',
     fiscal_year_start: 1,
+    insurance_rate: 0.3,
+    carrying_cost_rate: 15,
+    recommendation_weights: {},
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
     created_by: 'user-005',
@@ -188,6 +199,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@dhl.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -197,6 +209,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@kuehne-nagel.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -206,6 +219,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@maersk.com',
     api_enabled: true,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -215,6 +229,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@cma-cgm.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -224,6 +239,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@fedex.com',
     api_enabled: true,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -233,6 +249,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@hapag-lloyd.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -242,6 +259,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@evergreen-line.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
   {
@@ -251,6 +269,7 @@ export const demoForwarders: Forwarder[] = [
     logo_url: null,
     default_quote_email: 'quotes@dbschenker.com',
     api_enabled: false,
+    accepts_dangerous_goods: true,
     created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
   },
 ]
@@ -276,6 +295,7 @@ export const demoRequests: DemoRequest[] = [
     dest_address: '1234 Commerce Way, Long Beach, CA 90802',
     cargo_type: 'electronics',
     cargo_description: 'Consumer electronics - smartphones and tablets',
+    hs_code: '8517.13',
     weight_kg: 5000,
     volume_cbm: 25,
     pieces: 200,
@@ -283,6 +303,14 @@ export const demoRequests: DemoRequest[] = [
     is_stackable: true,
     is_hazmat: false,
     temperature_required: null,
+    dg_un_number: null,
+    dg_class: null,
+    dg_packing_group: null,
+    msds_path: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    load_type: null,
+    containers: [],
     cargo_ready_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     delivery_required_date: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     mode_preference: 'any',
@@ -308,6 +336,7 @@ export const demoRequests: DemoRequest[] = [
     dest_address: 'Europoort Terminal, Rotterdam 3199',
     cargo_type: 'machinery',
     cargo_description: 'Industrial machinery parts and components',
+    hs_code: '8487.90',
     weight_kg: 12000,
     volume_cbm: 45,
     pieces: 50,
@@ -315,6 +344,14 @@ export const demoRequests: DemoRequest[] = [
     is_stackable: false,
     is_hazmat: false,
     temperature_required: null,
+    dg_un_number: null,
+    dg_class: null,
+    dg_packing_group: null,
+    msds_path: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    load_type: 'fcl',
+    containers: [{ type: '40HC', count: 1 }],
     cargo_ready_date: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     delivery_required_date: new Date(Date.now() + 35 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     mode_preference: 'sea',
@@ -340,6 +377,7 @@ export const demoRequests: DemoRequest[] = [
     dest_address: 'Speicherstadt 15, 20457 Hamburg',
     cargo_type: 'apparel',
     cargo_description: 'Cotton textiles and garments',
+    hs_code: '6205.20',
     weight_kg: 8500,
     volume_cbm: 55,
     pieces: 1200,
@@ -347,6 +385,14 @@ export const demoRequests: DemoRequest[] = [
     is_stackable: true,
     is_hazmat: false,
     temperature_required: null,
+    dg_un_number: null,
+    dg_class: null,
+    dg_packing_group: null,
+    msds_path: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    load_type: null,
+    containers: [],
     cargo_ready_date: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     delivery_required_date: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     mode_preference: 'sea',
@@ -372,6 +418,7 @@ export const demoRequests: DemoRequest[] = [
     dest_address: '5678 Harbor Blvd, Long Beach, CA 90802',
     cargo_type: 'general',
     cargo_description: 'Furniture - wooden tables and chairs',
+    hs_code: '9403.60',
     weight_kg: 15000,
     volume_cbm: 85,
     pieces: 300,
@@ -379,6 +426,14 @@ export const demoRequests: DemoRequest[] = [
     is_stackable: false,
     is_hazmat: false,
     temperature_required: null,
+    dg_un_number: null,
+    dg_class: null,
+    dg_packing_group: null,
+    msds_path: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    load_type: 'fcl',
+    containers: [{ type: '40HC', count: 2 }],
     cargo_ready_date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     delivery_required_date: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     mode_preference: 'sea',
@@ -404,6 +459,7 @@ export const demoRequests: DemoRequest[] = [
     dest_address: '100 Port Newark, Elizabeth, NJ 07201',
     cargo_type: 'general',
     cargo_description: 'Consumer goods - home appliances',
+    hs_code: '8516.60',
     weight_kg: 3200,
     volume_cbm: 18,
     pieces: 150,
@@ -411,6 +467,14 @@ export const demoRequests: DemoRequest[] = [
     is_stackable: true,
     is_hazmat: false,
     temperature_required: null,
+    dg_un_number: null,
+    dg_class: null,
+    dg_packing_group: null,
+    msds_path: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    load_type: null,
+    containers: [],
     cargo_ready_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     delivery_required_date: new Date(Date.now() + 28 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     mode_preference: 'any',
@@ -442,9 +506,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 250,
     terminal_handling: 250,
     other_charges: 0,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
     rate_basis: 'per_kg',
     rate_per_unit: 2.5,
     chargeable_weight: 5000,
+    load_type: null,
+    containers: [],
     etd: new Date(Date.now() + 9 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 12 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 3,
@@ -459,6 +530,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'manual',
     raw_email_id: null,
     notes: 'Express service available',
+    warnings: [],
     created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[0],
@@ -477,9 +549,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 200,
     terminal_handling: 250,
     other_charges: 0,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
     rate_basis: 'per_kg',
     rate_per_unit: 2.36,
     chargeable_weight: 5000,
+    load_type: null,
+    containers: [],
     etd: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 13 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 3,
@@ -494,6 +573,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'email',
     raw_email_id: null,
     notes: null,
+    warnings: [],
     created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[1],
@@ -512,9 +592,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 100,
     terminal_handling: 150,
     other_charges: 0,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
     rate_basis: 'per_cbm',
     rate_per_unit: 128,
     chargeable_weight: null,
+    load_type: 'lcl',
+    containers: [],
     etd: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 28 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 18,
@@ -529,6 +616,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'api',
     raw_email_id: null,
     notes: 'Full container load recommended',
+    warnings: [],
     created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[2],
@@ -547,9 +635,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 100,
     terminal_handling: 150,
     other_charges: 0,
-    rate_basis: 'per_cbm',
-    rate_per_unit: 118,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    rate_basis: 'per_container',
+    rate_per_unit: 2950,
     chargeable_weight: null,
+    load_type: 'fcl',
+    containers: [{ type: '40GP', count: 1 }],
     etd: new Date(Date.now() + 12 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 32 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 20,
@@ -564,6 +659,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'email',
     raw_email_id: null,
     notes: null,
+    warnings: [],
     created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[3],
@@ -583,9 +679,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 300,
     terminal_handling: 400,
     other_charges: 0,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
     rate_basis: 'per_kg',
     rate_per_unit: 2.375,
     chargeable_weight: 12000,
+    load_type: null,
+    containers: [],
     etd: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 3,
@@ -600,6 +703,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'api',
     raw_email_id: null,
     notes: 'Heavy cargo surcharge applied',
+    warnings: [],
     created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[4],
@@ -618,9 +722,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 150,
     terminal_handling: 250,
     other_charges: 0,
-    rate_basis: 'per_cbm',
-    rate_per_unit: 151.11,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    rate_basis: 'per_container',
+    rate_per_unit: 6800,
     chargeable_weight: null,
+    load_type: 'fcl',
+    containers: [{ type: '40HC', count: 1 }],
     etd: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 35 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 28,
@@ -635,10 +746,54 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'email',
     raw_email_id: null,
     notes: '40ft container - fits machinery',
+    warnings: [],
     created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[5],
   },
+  {
+    id: 'quote-008',
+    request_id: 'req-002',
+    forwarder_id: 'fwd-008',
+    mode: 'rail',
+    status: 'active',
+    currency: 'USD',
+    total_amount: 9400,
+    freight_charge: 8100,
+    fuel_surcharge: 0,
+    handling_charge: 600,
+    documentation_fee: 200,
+    terminal_handling: 500,
+    other_charges: 0,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    rate_basis: 'per_container',
+    rate_per_unit: 9400,
+    chargeable_weight: 14985,
+    load_type: 'fcl',
+    containers: [{ type: '40HC', count: 1 }],
+    etd: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    eta: new Date(Date.now() + 24 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    transit_days: 18,
+    carrier: 'DB Cargo',
+    vessel_flight: null,
+    routing: 'SZX-XIY-MAL-DUI-RTM',
+    transshipment_ports: null,
+    valid_until: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    free_days_origin: 3,
+    free_days_dest: 3,
+    payment_terms: 'Net 30',
+    received_via: 'email',
+    raw_email_id: null,
+    notes: 'Block train via Xi\'an and Duisburg, 40ft container',
+    warnings: [],
+    created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    updated_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    forwarder: demoForwarders[7],
+  },
   // Quote for req-004 (HCMC -> Long Beach - booked)
   {
     id: 'quote-007',
@@ -654,9 +809,16 @@ export const demoQuotes: DemoQuote[] = [
     documentation_fee: 110,
     terminal_handling: 150,
     other_charges: 0,
-    rate_basis: 'per_cbm',
-    rate_per_unit: 52.94,
+    destination_charges: null,
+    dg_accepted: null,
+    temp_control: null,
+    temp_min_c: null,
+    temp_max_c: null,
+    rate_basis: 'per_container',
+    rate_per_unit: 2250,
     chargeable_weight: null,
+    load_type: 'fcl',
+    containers: [{ type: '40HC', count: 2 }],
     etd: new Date(Date.now() - 25 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     eta: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     transit_days: 30,
@@ -671,6 +833,7 @@ export const demoQuotes: DemoQuote[] = [
     received_via: 'email',
     raw_email_id: null,
     notes: 'Booking confirmed - BL issued',
+    warnings: [],
     created_at: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
     forwarder: demoForwarders[6],
@@ -687,7 +850,7 @@ export const demoQuotes: DemoQuote[] = [
  */
 export interface DemoRequest extends Omit<ShipmentRequest, 'cargo_type' | 'mode_preference'> {
   cargo_type: string | null
-  mode_preference: 'air' | 'sea' | 'any'
+  mode_preference: ModePreference
   quotes?: DemoQuoteSimple[]
 }
 
@@ -696,8 +859,10 @@ export interface DemoRequest extends Omit<ShipmentRequest, 'cargo_type' | 'mode_
  */
 export interface DemoQuoteSimple {
   id: string
-  mode: 'air' | 'sea'
+  mode: TransportMode
   total_amount: number
+  transit_days: number | null
+  eta: string | null
   forwarder?: {
     short_code: string
   }
@@ -708,7 +873,7 @@ export interface DemoQuoteSimple {
  */
 export interface DemoQuote extends Omit<Quote, 'forwarder_id' | 'mode' | 'status' | 'received_via'> {
   forwarder_id: string
-  mode: 'air' | 'sea'
+  mode: TransportMode
   status: 'active' | 'expired' | 'selected' | 'declined'
   received_via: 'manual' | 'email' | 'api'
   forwarder?: Forwarder
@@ -731,6 +896,8 @@ export function getDemoRequestsWithQuotes(): DemoRequest[] {
         id: q.id,
         mode: q.mode,
         total_amount: q.total_amount,
+        transit_days: q.transit_days,
+        eta: q.eta,
         forwarder: q.forwarder ? { short_code: q.forwarder.short_code } : undefined,
       })),
   }))
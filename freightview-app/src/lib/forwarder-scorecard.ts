@@ -0,0 +1,227 @@
+/**
+ * Forwarder Scorecards for FreightView
+ *
+ * Measures how one forwarder has performed on an organization's requests:
+ * - Responsiveness: share of emailed RFQs quoted on, and the median time
+ *   from the RFQ email to the first quote
+ * - Wins: share of decided requests it quoted on where its quote was selected
+ * - Price: its rank among the forwarders quoting the same request and mode
+ *   (1 is cheapest), per lane and by month, compared on amounts in the
+ *   organization's currency (see `normalizeQuotes` in lib/fx)
+ * - Transit: quoted transit days against the shipped and delivered dates
+ *   recorded on won bookings
+ *
+ * Draft quotes count as responses but aren't priced or selectable, so they
+ * are left out of the price and win figures.
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import type {
+  Decision,
+  ForwarderScorecard,
+  Quote,
+  RequestForwarder,
+  ScorecardLane,
+  ScorecardTrendPoint,
+} from '@/types/database'
+
+/** Quote fields a scorecard reads, with the amount in the comparison currency */
+export type ScorecardQuote = Pick<Quote, 'id' | 'forwarder_id' | 'mode' | 'status' | 'transit_days' | 'created_at'> & {
+  normalized_total_amount: number | null
+}
+
+/** A request with every forwarder's quotes, the scored forwarder's RFQ and its decisions */
+export interface ScorecardRequest {
+  id: string
+  origin_country: string
+  dest_country: string
+  created_at: string
+  request_forwarders: Pick<RequestForwarder, 'forwarder_id' | 'email_sent_at'>[]
+  quotes: ScorecardQuote[]
+  decisions: Pick<Decision, 'selected_quote_id' | 'decided_at' | 'shipped_at' | 'delivered_at'>[]
+}
+
+/** Scorecard figures; the caller adds the forwarder, period and currency */
+export type ScorecardMetrics = Omit<ForwarderScorecard, 'forwarder' | 'from' | 'to' | 'currency'>
+
+/** The forwarder's price position on one request and mode */
+interface PricePosition {
+  lane: string
+  month: string
+  rank: number
+  competitors: number
+  premiumPct: number
+}
+
+/**
+ * Computes a forwarder's scorecard from the requests it was sent or quoted on
+ */
+export function buildScorecard(forwarderId: string, requests: ScorecardRequest[]): ScorecardMetrics {
+  const responseHours: number[] = []
+  const positions: PricePosition[] = []
+  const lanes = new Map<string, ScorecardLane>()
+  const transit: { quoted: number; actual: number }[] = []
+  let invitations = 0
+  let responses = 0
+  let decisions = 0
+  let wins = 0
+
+  for (const request of requests) {
+    const own = request.quotes.filter(q => q.forwarder_id === forwarderId)
+    const offered = own.filter(q => q.status !== 'draft')
+
+    const sentAt = request.request_forwarders.find(rf => rf.forwarder_id === forwarderId)?.email_sent_at
+    if (sentAt) {
+      invitations++
+      if (own.length > 0) {
+        responses++
+        const firstQuoteAt = Math.min(...own.map(q => parseISO(q.created_at).getTime()))
+        responseHours.push(Math.max(0, (firstQuoteAt - parseISO(sentAt).getTime()) / 3600000))
+      }
+    }
+
+    if (offered.length === 0) continue
+
+    const laneKey = `${request.origin_country}-${request.dest_country}`
+    const lane = lanes.get(laneKey) ?? {
+      origin_country: request.origin_country,
+      dest_country: request.dest_country,
+      quotes: 0,
+      avg_price_rank: null,
+      avg_competitors: null,
+      wins: 0,
+    }
+    lanes.set(laneKey, lane)
+
+    for (const position of pricePositions(forwarderId, request.quotes)) {
+      positions.push({ ...position, lane: laneKey, month: format(parseISO(request.created_at), 'yyyy-MM') })
+    }
+
+    const decision = latestDecision(request.decisions)
+    if (!decision) continue
+
+    decisions++
+    const won = offered.find(q => q.id === decision.selected_quote_id)
+    if (!won) continue
+
+    wins++
+    lane.wins++
+    if (decision.shipped_at && decision.delivered_at && won.transit_days != null) {
+      transit.push({
+        quoted: won.transit_days,
+        actual: actualTransitDays(decision.shipped_at, decision.delivered_at),
+      })
+    }
+  }
+
+  for (const [key, lane] of Array.from(lanes.entries())) {
+    const lanePositions = positions.filter(p => p.lane === key)
+    lane.quotes = lanePositions.length
+    lane.avg_price_rank = average(lanePositions.map(p => p.rank))
+    lane.avg_competitors = average(lanePositions.map(p => p.competitors))
+  }
+
+  return {
+    invitations,
+    responses,
+    response_rate: percent(responses, invitations),
+    median_hours_to_quote: median(responseHours),
+    decisions,
+    wins,
+    win_rate: percent(wins, decisions),
+    avg_price_rank: average(positions.map(p => p.rank)),
+    lanes: Array.from(lanes.values()).sort((a, b) => b.quotes - a.quotes || b.wins - a.wins),
+    transit: {
+      shipments: transit.length,
+      avg_quoted_days: average(transit.map(t => t.quoted)),
+      avg_actual_days: average(transit.map(t => t.actual)),
+      avg_delay_days: average(transit.map(t => t.actual - t.quoted)),
+      on_time_rate: percent(transit.filter(t => t.actual <= t.quoted).length, transit.length),
+    },
+    trend: priceTrend(positions),
+  }
+}
+
+/**
+ * Days a booked shipment actually took, from its shipped and delivered
+ * dates. A shipment is on time when this is no more than the quoted
+ * transit days.
+ */
+export function actualTransitDays(shippedAt: string, deliveredAt: string): number {
+  return differenceInCalendarDays(parseISO(deliveredAt), parseISO(shippedAt))
+}
+
+/**
+ * The forwarder's rank and premium for each mode of a request that at
+ * least one other forwarder also quoted, using each forwarder's cheapest
+ * priced quote for the mode
+ */
+function pricePositions(
+  forwarderId: string,
+  quotes: ScorecardQuote[]
+): Omit<PricePosition, 'lane' | 'month'>[] {
+  const cheapest = new Map<string, Map<string, number>>()
+  for (const quote of quotes) {
+    if (quote.status === 'draft' || quote.normalized_total_amount === null) continue
+    const byForwarder = cheapest.get(quote.mode) ?? new Map<string, number>()
+    const current = byForwarder.get(quote.forwarder_id)
+    if (current === undefined || quote.normalized_total_amount < current) {
+      byForwarder.set(quote.forwarder_id, quote.normalized_total_amount)
+    }
+    cheapest.set(quote.mode, byForwarder)
+  }
+
+  const positions: Omit<PricePosition, 'lane' | 'month'>[] = []
+  for (const byForwarder of Array.from(cheapest.values())) {
+    const own = byForwarder.get(forwarderId)
+    if (own === undefined || byForwarder.size < 2) continue
+
+    const amounts = Array.from(byForwarder.values())
+    const best = Math.min(...amounts)
+    positions.push({
+      rank: 1 + amounts.filter(amount => amount < own).length,
+      competitors: amounts.length,
+      premiumPct: best > 0 ? ((own - best) / best) * 100 : 0,
+    })
+  }
+  return positions
+}
+
+/**
+ * Average rank and premium by month, oldest first
+ */
+function priceTrend(positions: PricePosition[]): ScorecardTrendPoint[] {
+  const months = Array.from(new Set(positions.map(p => p.month))).sort()
+  return months.map(month => {
+    const inMonth = positions.filter(p => p.month === month)
+    return {
+      month,
+      quotes: inMonth.length,
+      avg_price_rank: average(inMonth.map(p => p.rank)),
+      avg_premium_pct: average(inMonth.map(p => p.premiumPct)),
+    }
+  })
+}
+
+function latestDecision<T extends Pick<Decision, 'decided_at'>>(decisions: T[]): T | null {
+  return [...decisions].sort((a, b) => b.decided_at.localeCompare(a.decided_at))[0] ?? null
+}
+
+function percent(count: number, total: number): number | null {
+  return total > 0 ? round((count / total) * 100) : null
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
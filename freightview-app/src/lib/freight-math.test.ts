@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  calculateChargeableWeight,
+  calculateUnitCosts,
+  deriveQuoteRateFields,
+  getVolumetricDivisors,
+  volumetricWeight,
+  type VolumetricDivisors,
+} from './freight-math'
+
+const divisors: VolumetricDivisors = {
+  air: 6000,
+  courier: 5000,
+  seaKgPerCbm: 1000,
+  railKgPerCbm: 333,
+  roadKgPerCbm: 333,
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getVolumetricDivisors', () => {
+  it('defaults to the IATA and W/M ratios', () => {
+    expect(getVolumetricDivisors()).toEqual(divisors)
+  })
+
+  it('reads overrides from the environment', () => {
+    vi.stubEnv('AIR_VOLUMETRIC_DIVISOR', '7000')
+    vi.stubEnv('SEA_KG_PER_CBM', '500')
+
+    expect(getVolumetricDivisors()).toMatchObject({ air: 7000, seaKgPerCbm: 500 })
+  })
+})
+
+describe('volumetricWeight', () => {
+  it('divides cm³ by the divisor', () => {
+    expect(volumetricWeight(1, 6000)).toBe(166.67)
+    expect(volumetricWeight(0.3, 5000)).toBe(60)
+  })
+})
+
+describe('calculateChargeableWeight', () => {
+  it('charges light air cargo on volume', () => {
+    expect(calculateChargeableWeight('air', { weight_kg: 100, volume_cbm: 1 }, { divisors })).toEqual({
+      actualKg: 100,
+      volumetricKg: 166.67,
+      chargeableKg: 166.67,
+      basis: 'volume',
+    })
+  })
+
+  it('charges dense air cargo on weight', () => {
+    const result = calculateChargeableWeight('air', { weight_kg: 200, volume_cbm: 1 }, { divisors })
+
+    expect(result.chargeableKg).toBe(200)
+    expect(result.basis).toBe('weight')
+  })
+
+  it('uses the courier divisor for courier quotes', () => {
+    expect(calculateChargeableWeight('courier', { weight_kg: 10, volume_cbm: 1 }, { divisors }).chargeableKg).toBe(200)
+    expect(
+      calculateChargeableWeight('air', { weight_kg: 10, volume_cbm: 1 }, { divisors, courier: true }).chargeableKg
+    ).toBe(200)
+  })
+
+  it('lets an explicit divisor win over the courier one', () => {
+    const result = calculateChargeableWeight('air', { weight_kg: 10, volume_cbm: 1 }, {
+      divisors,
+      courier: true,
+      divisor: 4000,
+    })
+
+    expect(result.chargeableKg).toBe(250)
+  })
+
+  it('rates sea, rail and road per kg per cbm', () => {
+    const cargo = { weight_kg: 400, volume_cbm: 2 }
+
+    expect(calculateChargeableWeight('sea', cargo, { divisors }).chargeableKg).toBe(2000)
+    expect(calculateChargeableWeight('rail', cargo, { divisors }).chargeableKg).toBe(666)
+    expect(calculateChargeableWeight('road', { weight_kg: 800, volume_cbm: 2 }, { divisors })).toMatchObject({
+      chargeableKg: 800,
+      basis: 'weight',
+    })
+  })
+
+  it('falls back to whichever measure is known', () => {
+    expect(calculateChargeableWeight('air', { weight_kg: 50, volume_cbm: null }, { divisors })).toMatchObject({
+      chargeableKg: 50,
+      basis: 'weight',
+    })
+    expect(calculateChargeableWeight('air', { weight_kg: 0, volume_cbm: 0.6 }, { divisors })).toMatchObject({
+      chargeableKg: 100,
+      basis: 'volume',
+    })
+  })
+
+  it('returns nothing without weight or volume', () => {
+    expect(calculateChargeableWeight('air', { weight_kg: null, volume_cbm: null }, { divisors })).toEqual({
+      actualKg: null,
+      volumetricKg: null,
+      chargeableKg: null,
+      basis: null,
+    })
+  })
+})
+
+describe('deriveQuoteRateFields', () => {
+  it('rates air per chargeable kg', () => {
+    expect(deriveQuoteRateFields({ mode: 'air', total_amount: 500 }, { weight_kg: 100, volume_cbm: 1 })).toEqual({
+      chargeable_weight: 166.67,
+      rate_basis: 'per_kg',
+      rate_per_unit: 2.9999,
+    })
+  })
+
+  it('rates sea per revenue ton', () => {
+    expect(deriveQuoteRateFields({ mode: 'sea', total_amount: 300 }, { weight_kg: 1000, volume_cbm: 2 })).toEqual({
+      chargeable_weight: 2000,
+      rate_basis: 'per_cbm',
+      rate_per_unit: 150,
+    })
+  })
+
+  it('rates FCL per container', () => {
+    const fields = deriveQuoteRateFields(
+      { mode: 'sea', total_amount: 4000, containers: [{ type: '40HC', count: 2 }] },
+      { weight_kg: 12000, volume_cbm: 100 }
+    )
+
+    expect(fields.rate_basis).toBe('per_container')
+    expect(fields.rate_per_unit).toBe(2000)
+  })
+
+  it('keeps values the forwarder supplied', () => {
+    const fields = deriveQuoteRateFields(
+      { mode: 'air', total_amount: 500, chargeable_weight: 180, rate_basis: 'per_kg', rate_per_unit: 3 },
+      { weight_kg: 100, volume_cbm: 1 }
+    )
+
+    expect(fields).toEqual({ chargeable_weight: 180, rate_basis: 'per_kg', rate_per_unit: 3 })
+  })
+
+  it('leaves the rate empty without a total or chargeable weight', () => {
+    expect(deriveQuoteRateFields({ mode: 'air', total_amount: null }, { weight_kg: 100, volume_cbm: 1 }).rate_per_unit)
+      .toBeNull()
+    expect(deriveQuoteRateFields({ mode: 'air', total_amount: 500 }, { weight_kg: null, volume_cbm: null }).rate_per_unit)
+      .toBeNull()
+  })
+})
+
+describe('calculateUnitCosts', () => {
+  it('returns nothing without an amount', () => {
+    expect(calculateUnitCosts({ mode: 'air', chargeable_weight: 100 }, null, { weight_kg: 100, volume_cbm: 1 }))
+      .toEqual({ cost_per_chargeable_kg: null, cost_per_cbm: null, cost_per_container: null })
+  })
+
+  it("prefers the quote's own chargeable weight", () => {
+    expect(calculateUnitCosts({ mode: 'air', chargeable_weight: 250 }, 500, { weight_kg: 100, volume_cbm: 2 }))
+      .toEqual({ cost_per_chargeable_kg: 2, cost_per_cbm: 250, cost_per_container: null })
+  })
+
+  it('derives chargeable weight from the cargo otherwise', () => {
+    const costs = calculateUnitCosts({ mode: 'sea', chargeable_weight: null }, 300, { weight_kg: 1000, volume_cbm: 2 })
+
+    expect(costs.cost_per_chargeable_kg).toBe(0.15)
+  })
+
+  it('splits FCL amounts per container', () => {
+    const costs = calculateUnitCosts(
+      { mode: 'sea', chargeable_weight: null, containers: [{ type: '20GP', count: 1 }, { type: '40HC', count: 2 }] },
+      3000,
+      { weight_kg: 20000, volume_cbm: 90 }
+    )
+
+    expect(costs.cost_per_container).toBe(1000)
+  })
+})
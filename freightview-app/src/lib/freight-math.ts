@@ -0,0 +1,194 @@
+/**
+ * Freight Math for FreightView
+ *
+ * Chargeable weight and unit rates, so quotes priced on different bases
+ * can be compared like for like:
+ * - Air: the greater of actual and volumetric weight, with volumetric
+ *   weight = cm³ / divisor (IATA 1:6000, i.e. 1 cbm = 166.67 kg)
+ * - Sea-air: rated like air, per chargeable kg at the air divisor
+ * - Courier/express: same rule with a smaller divisor (commonly 5000)
+ * - Sea LCL: weight or measure (W/M), 1 cbm = 1000 kg; charged per
+ *   revenue ton, the greater of tonnes and cbm
+ * - Rail and road: per chargeable kg, with 1 cbm = 333 kg (1:3)
+ * - FCL: per container, whatever the mode
+ *
+ * Configuration:
+ * - AIR_VOLUMETRIC_DIVISOR: cm³ per kg for air and sea-air (default 6000)
+ * - COURIER_VOLUMETRIC_DIVISOR: cm³ per kg for courier quotes (default 5000)
+ * - SEA_KG_PER_CBM: W/M ratio for sea (default 1000)
+ * - RAIL_KG_PER_CBM: kg per cbm for rail (default 333)
+ * - ROAD_KG_PER_CBM: kg per cbm for road (default 333)
+ */
+
+import { countContainers } from '@/lib/containers'
+import type { Quote, ShipmentRequest, TransportMode } from '@/types/database'
+
+/** Divisors used to turn volume into weight */
+export interface VolumetricDivisors {
+  air: number
+  courier: number
+  seaKgPerCbm: number
+  railKgPerCbm: number
+  roadKgPerCbm: number
+}
+
+/** Cargo dimensions from a request */
+export type CargoMeasures = Pick<ShipmentRequest, 'weight_kg' | 'volume_cbm'>
+
+/** How a shipment is charged for one mode */
+export interface ChargeableWeight {
+  actualKg: number | null
+  volumetricKg: number | null
+  /** Greater of actual and volumetric weight, in kg */
+  chargeableKg: number | null
+  /** Whether volume or weight decided the chargeable weight */
+  basis: 'weight' | 'volume' | null
+}
+
+/** Quote fields derived from chargeable weight */
+export type QuoteRateFields = Pick<Quote, 'chargeable_weight' | 'rate_basis' | 'rate_per_unit'>
+
+/** Cost per unit of cargo, for comparing quotes across forwarders */
+export interface UnitCosts {
+  cost_per_chargeable_kg: number | null
+  cost_per_cbm: number | null
+  /** Only for quotes priced on containers */
+  cost_per_container: number | null
+}
+
+const CM3_PER_CBM = 1000000
+
+/**
+ * Reads volumetric divisors from the environment
+ */
+export function getVolumetricDivisors(): VolumetricDivisors {
+  return {
+    air: parseFloat(process.env.AIR_VOLUMETRIC_DIVISOR || '6000'),
+    courier: parseFloat(process.env.COURIER_VOLUMETRIC_DIVISOR || '5000'),
+    seaKgPerCbm: parseFloat(process.env.SEA_KG_PER_CBM || '1000'),
+    railKgPerCbm: parseFloat(process.env.RAIL_KG_PER_CBM || '333'),
+    roadKgPerCbm: parseFloat(process.env.ROAD_KG_PER_CBM || '333'),
+  }
+}
+
+/**
+ * Volumetric weight in kg for a volume and a cm³-per-kg divisor
+ */
+export function volumetricWeight(volumeCbm: number, divisor: number): number {
+  return round((volumeCbm * CM3_PER_CBM) / divisor)
+}
+
+/** Overrides for the air, sea-air and courier volumetric divisor */
+export interface DivisorOptions {
+  /** Use the courier divisor instead of the air one (implied for courier mode) */
+  courier?: boolean
+  /** Explicit cm³-per-kg divisor; wins over `courier` */
+  divisor?: number
+}
+
+/**
+ * Chargeable weight for a mode. Air and sea-air use the IATA divisor
+ * unless the quote is a courier quote or names its own divisor.
+ */
+export function calculateChargeableWeight(
+  mode: TransportMode,
+  cargo: CargoMeasures,
+  options: DivisorOptions & { divisors?: VolumetricDivisors } = {}
+): ChargeableWeight {
+  const divisors = options.divisors ?? getVolumetricDivisors()
+  const airDivisor = options.divisor ?? (options.courier || mode === 'courier' ? divisors.courier : divisors.air)
+  const actualKg = cargo.weight_kg && cargo.weight_kg > 0 ? Number(cargo.weight_kg) : null
+  const volumeCbm = cargo.volume_cbm && cargo.volume_cbm > 0 ? Number(cargo.volume_cbm) : null
+
+  const volumetricKg = volumeCbm === null
+    ? null
+    : mode === 'sea'
+      ? round(volumeCbm * divisors.seaKgPerCbm)
+      : mode === 'rail'
+        ? round(volumeCbm * divisors.railKgPerCbm)
+        : mode === 'road'
+          ? round(volumeCbm * divisors.roadKgPerCbm)
+          : volumetricWeight(volumeCbm, airDivisor)
+
+  if (actualKg === null && volumetricKg === null) {
+    return { actualKg, volumetricKg, chargeableKg: null, basis: null }
+  }
+
+  const byVolume = volumetricKg !== null && (actualKg === null || volumetricKg > actualKg)
+  return {
+    actualKg,
+    volumetricKg,
+    chargeableKg: byVolume ? volumetricKg : actualKg,
+    basis: byVolume ? 'volume' : 'weight',
+  }
+}
+
+/**
+ * Fills in chargeable weight, rate basis and all-in rate per unit for a
+ * new quote. Values the forwarder supplied are kept; only missing ones
+ * are derived. FCL quotes are rated per container; otherwise sea is rated
+ * per W/M revenue ton (recorded as 'per_cbm') and every other mode per
+ * chargeable kg.
+ */
+export function deriveQuoteRateFields(
+  quote: Pick<Quote, 'mode'> & { total_amount: number | null } & Partial<QuoteRateFields> &
+    Partial<Pick<Quote, 'containers'>>,
+  cargo: CargoMeasures,
+  options: DivisorOptions = {}
+): QuoteRateFields {
+  const chargeable = calculateChargeableWeight(quote.mode, cargo, options)
+  const chargeableWeight = quote.chargeable_weight ?? chargeable.chargeableKg
+  const containerCount = countContainers(quote.containers)
+  const rateBasis = quote.rate_basis ??
+    (containerCount > 0 ? 'per_container' : quote.mode === 'sea' ? 'per_cbm' : 'per_kg')
+
+  let ratePerUnit = quote.rate_per_unit ?? null
+  if (ratePerUnit === null && quote.total_amount) {
+    const units = rateBasis === 'per_container'
+      ? containerCount
+      : rateBasis === 'per_kg'
+        ? chargeableWeight
+        : rateBasis === 'per_cbm' && chargeableWeight
+          ? chargeableWeight / getVolumetricDivisors().seaKgPerCbm
+          : null
+    ratePerUnit = units ? round(quote.total_amount / units, 4) : null
+  }
+
+  return {
+    chargeable_weight: chargeableWeight,
+    rate_basis: rateBasis,
+    rate_per_unit: ratePerUnit,
+  }
+}
+
+/**
+ * Cost per chargeable kg, per cbm and per container of an amount. Uses
+ * the quote's own chargeable weight when present, otherwise derives it
+ * from the cargo.
+ */
+export function calculateUnitCosts(
+  quote: Pick<Quote, 'mode' | 'chargeable_weight'> & Partial<Pick<Quote, 'containers'>>,
+  amount: number | null,
+  cargo: CargoMeasures
+): UnitCosts {
+  if (amount === null) {
+    return { cost_per_chargeable_kg: null, cost_per_cbm: null, cost_per_container: null }
+  }
+
+  const containerCount = countContainers(quote.containers)
+
+  const chargeableKg = quote.chargeable_weight
+    ? Number(quote.chargeable_weight)
+    : calculateChargeableWeight(quote.mode, cargo).chargeableKg
+
+  return {
+    cost_per_chargeable_kg: chargeableKg ? round(amount / chargeableKg) : null,
+    cost_per_cbm: cargo.volume_cbm && cargo.volume_cbm > 0 ? round(amount / Number(cargo.volume_cbm)) : null,
+    cost_per_container: containerCount > 0 ? round(amount / containerCount) : null,
+  }
+}
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
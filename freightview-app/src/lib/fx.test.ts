@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { createFxConverter, parseEcbXml, parseFxCsv, parseFxFile } from './fx'
+import type { FxRate } from '@/types/database'
+
+const rate = (
+  base_currency: string,
+  quote_currency: string,
+  value: number,
+  rate_date: string,
+  organization_id: string | null = null
+) => ({ base_currency, quote_currency, rate: value, rate_date, organization_id }) as FxRate
+
+describe('createFxConverter', () => {
+  it('uses a direct rate into the target', () => {
+    const converter = createFxConverter('USD', [rate('EUR', 'USD', 1.1, '2024-03-01')])
+
+    expect(converter.rateFor('eur')).toEqual({ rate: 1.1, rateDate: '2024-03-01' })
+  })
+
+  it('inverts a rate quoted the other way', () => {
+    const converter = createFxConverter('EUR', [rate('EUR', 'USD', 1.25, '2024-03-01')])
+
+    expect(converter.rateFor('USD')?.rate).toBeCloseTo(0.8)
+  })
+
+  it('takes the latest rate whatever the order', () => {
+    const converter = createFxConverter('USD', [
+      rate('EUR', 'USD', 1.05, '2024-01-01'),
+      rate('EUR', 'USD', 1.1, '2024-03-01'),
+      rate('EUR', 'USD', 1.08, '2024-02-01'),
+    ])
+
+    expect(converter.rateFor('EUR')).toEqual({ rate: 1.1, rateDate: '2024-03-01' })
+  })
+
+  it('prefers the organization rate on the same day', () => {
+    const converter = createFxConverter('USD', [
+      rate('EUR', 'USD', 1.1, '2024-03-01', 'org-1'),
+      rate('EUR', 'USD', 1.2, '2024-03-01'),
+    ])
+
+    expect(converter.rateFor('EUR')?.rate).toBe(1.1)
+  })
+
+  it('crosses through a common base and reports the older date', () => {
+    const converter = createFxConverter('USD', [
+      rate('EUR', 'CNY', 8, '2024-02-28'),
+      rate('EUR', 'USD', 1.1, '2024-03-01'),
+    ])
+
+    const resolved = converter.rateFor('CNY')
+    expect(resolved?.rate).toBeCloseTo(1.1 / 8)
+    expect(resolved?.rateDate).toBe('2024-02-28')
+  })
+
+  it('returns null when no path exists', () => {
+    expect(createFxConverter('USD', [rate('EUR', 'GBP', 0.85, '2024-03-01')]).rateFor('JPY')).toBeNull()
+  })
+
+  it('converts the target currency at 1', () => {
+    expect(createFxConverter('USD', []).rateFor('USD')?.rate).toBe(1)
+  })
+})
+
+describe('parseFxCsv', () => {
+  it('reads rates with a base currency column', () => {
+    expect(parseFxCsv('date,base,quote,rate\n2024-03-01,usd,cny,7.19\n')).toEqual([
+      { base_currency: 'USD', quote_currency: 'CNY', rate: 7.19, rate_date: '2024-03-01' },
+    ])
+  })
+
+  it('defaults the base to EUR and reads semicolon-separated files', () => {
+    expect(parseFxCsv('Date;Currency;Rate\r\n2024-03-01;USD;1.0834')).toEqual([
+      { base_currency: 'EUR', quote_currency: 'USD', rate: 1.0834, rate_date: '2024-03-01' },
+    ])
+  })
+
+  it('rejects a header without a rate column', () => {
+    expect(() => parseFxCsv('date,currency\n2024-03-01,USD')).toThrow('header')
+  })
+
+  it('rejects invalid rows with their line number', () => {
+    expect(() => parseFxCsv('date,currency,rate\n2024-03-01,USD,1.08\n2024-03-01,USD,-1')).toThrow('line 3')
+  })
+})
+
+describe('parseEcbXml', () => {
+  const xml = `<?xml version="1.0"?>
+<gesmes:Envelope>
+  <Cube>
+    <Cube time="2024-03-01">
+      <Cube currency="USD" rate="1.0834"/>
+      <Cube currency="JPY" rate="162.53"/>
+    </Cube>
+    <Cube time="2024-02-29">
+      <Cube currency="USD" rate="1.0813"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+  it('reads each day of EUR rates', () => {
+    expect(parseEcbXml(xml)).toEqual([
+      { base_currency: 'EUR', quote_currency: 'USD', rate: 1.0834, rate_date: '2024-03-01' },
+      { base_currency: 'EUR', quote_currency: 'JPY', rate: 162.53, rate_date: '2024-03-01' },
+      { base_currency: 'EUR', quote_currency: 'USD', rate: 1.0813, rate_date: '2024-02-29' },
+    ])
+  })
+
+  it('is picked for XML content', () => {
+    expect(parseFxFile(`  ${xml}`)).toHaveLength(3)
+  })
+
+  it('rejects XML without dated rates', () => {
+    expect(() => parseEcbXml('<Cube></Cube>')).toThrow('No rates found')
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * Foreign Exchange for FreightView
+ *
+ * Converts quotes in different currencies into one comparison currency
+ * (the organization's `default_currency`) using dated rates from
+ * `fx_rates`, and parses rate files for import:
+ * - CSV with date, base, quote and rate columns
+ * - ECB-style XML (`<Cube time="..."><Cube currency="USD" rate="..."/>`),
+ *   where every rate is against EUR
+ *
+ * The most recent rate on or before the as-of date is used. When an
+ * organization and the shared set both have a rate for the same day,
+ * the organization's rate wins. Currencies without a direct or inverse
+ * rate are crossed through a common base (e.g. CNY → EUR → USD).
+ */
+
+import { format } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Quote, FxRate, NormalizedQuote, CurrencyNormalization } from '@/types/database'
+
+/** Comparison currency for users without an organization */
+export const DEFAULT_CURRENCY = 'USD'
+
+/** A parsed rate ready to store: 1 base_currency = rate quote_currency */
+export type FxRateInput = Pick<FxRate, 'base_currency' | 'quote_currency' | 'rate' | 'rate_date'>
+
+/** Rate used to convert one currency into the comparison currency */
+interface ResolvedRate {
+  rate: number
+  rateDate: string
+}
+
+/**
+ * Converts amounts into a single target currency
+ */
+export interface FxConverter {
+  currency: string
+  /** Rate from `currency` into the target, or null if no path exists */
+  rateFor(currency: string): ResolvedRate | null
+}
+
+/**
+ * Returns the currency quotes are compared in for an organization
+ */
+export async function getComparisonCurrency(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<string> {
+  if (!organizationId) return DEFAULT_CURRENCY
+
+  const { data } = await supabase
+    .from('organizations')
+    .select('default_currency')
+    .eq('id', organizationId)
+    .single()
+
+  return data?.default_currency || DEFAULT_CURRENCY
+}
+
+/**
+ * Loads the rates needed to convert `currencies` into `target` as of a date
+ */
+export async function loadFxConverter(
+  supabase: SupabaseClient,
+  organizationId: string | null,
+  target: string,
+  currencies: string[],
+  asOf: Date = new Date()
+): Promise<FxConverter> {
+  const needed = Array.from(new Set(currencies.map(c => c.toUpperCase()))).filter(c => c !== target)
+  if (needed.length === 0) {
+    return createFxConverter(target, [])
+  }
+
+  // Only the latest rate per pair; crossing may need pairs beyond `needed`
+  const { data, error } = await supabase.rpc('latest_fx_rates', {
+    p_organization_id: organizationId,
+    p_as_of: format(asOf, 'yyyy-MM-dd'),
+  })
+
+  if (error) {
+    throw new Error(`Failed to load FX rates: ${error.message}`)
+  }
+
+  return createFxConverter(target, (data || []) as FxRate[])
+}
+
+/**
+ * Builds a converter from rates, in any order
+ */
+export function createFxConverter(target: string, rates: FxRate[]): FxConverter {
+  // Latest rate per ordered pair; org rates win ties with shared rates
+  const latest = new Map<string, FxRate>()
+  for (const rate of rates) {
+    const key = `${rate.base_currency}:${rate.quote_currency}`
+    const existing = latest.get(key)
+    if (
+      !existing ||
+      rate.rate_date > existing.rate_date ||
+      (rate.rate_date === existing.rate_date && !existing.organization_id && rate.organization_id)
+    ) {
+      latest.set(key, rate)
+    }
+  }
+
+  const pairRate = (from: string, to: string): ResolvedRate | null => {
+    const direct = latest.get(`${from}:${to}`)
+    const inverse = latest.get(`${to}:${from}`)
+    // Prefer whichever is more recent
+    if (direct && (!inverse || direct.rate_date >= inverse.rate_date)) {
+      return { rate: Number(direct.rate), rateDate: direct.rate_date }
+    }
+    if (inverse) {
+      return { rate: 1 / Number(inverse.rate), rateDate: inverse.rate_date }
+    }
+    return null
+  }
+
+  const pivots = Array.from(new Set(rates.flatMap(r => [r.base_currency, r.quote_currency])))
+
+  return {
+    currency: target,
+    rateFor(currency: string): ResolvedRate | null {
+      const from = currency.toUpperCase()
+      if (from === target) {
+        return { rate: 1, rateDate: format(new Date(), 'yyyy-MM-dd') }
+      }
+
+      const direct = pairRate(from, target)
+      if (direct) return direct
+
+      for (const pivot of pivots) {
+        if (pivot === from || pivot === target) continue
+        const first = pairRate(from, pivot)
+        const second = first && pairRate(pivot, target)
+        if (first && second) {
+          return {
+            rate: first.rate * second.rate,
+            // Report the older of the two rates so staleness is visible
+            rateDate: first.rateDate < second.rateDate ? first.rateDate : second.rateDate,
+          }
+        }
+      }
+
+      return null
+    },
+  }
+}
+
+/**
+ * Adds amounts in the organization's comparison currency to each quote.
+ * Quotes whose currency can't be converted get a null normalised amount.
+ */
+export async function normalizeQuotes<T extends Pick<Quote, 'currency' | 'total_amount'>>(
+  supabase: SupabaseClient,
+  organizationId: string | null,
+  quotes: T[],
+  asOf: Date = new Date()
+): Promise<{ quotes: NormalizedQuote<T>[]; fx: CurrencyNormalization }> {
+  const currency = await getComparisonCurrency(supabase, organizationId)
+  const converter = await loadFxConverter(
+    supabase,
+    organizationId,
+    currency,
+    quotes.map(q => q.currency || currency),
+    asOf
+  )
+
+  const missing = new Set<string>()
+  const normalized = quotes.map(quote => {
+    const quoteCurrency = (quote.currency || currency).toUpperCase()
+    const resolved = converter.rateFor(quoteCurrency)
+    if (!resolved) missing.add(quoteCurrency)
+
+    return {
+      ...quote,
+      normalized_currency: currency,
+      normalized_total_amount: resolved
+        ? Math.round(quote.total_amount * resolved.rate * 100) / 100
+        : null,
+      fx_rate: resolved && quoteCurrency !== currency ? resolved.rate : null,
+      fx_rate_date: resolved && quoteCurrency !== currency ? resolved.rateDate : null,
+    }
+  })
+
+  return {
+    quotes: normalized,
+    fx: {
+      currency,
+      as_of: format(asOf, 'yyyy-MM-dd'),
+      missing_currencies: Array.from(missing),
+    },
+  }
+}
+
+/**
+ * Parses a rate file, detecting ECB-style XML or CSV
+ */
+export function parseFxFile(content: string): FxRateInput[] {
+  return content.trimStart().startsWith('<') ? parseEcbXml(content) : parseFxCsv(content)
+}
+
+/**
+ * Parses ECB-style XML. All rates are quoted against EUR.
+ *
+ * @throws {Error} When no dated rates are found
+ */
+export function parseEcbXml(content: string): FxRateInput[] {
+  const rates: FxRateInput[] = []
+  // Rate cubes are self-closing, so the first </Cube> closes the day
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g
+  const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g
+
+  for (const day of Array.from(content.matchAll(dayPattern))) {
+    for (const rate of Array.from(day[2].matchAll(ratePattern))) {
+      rates.push({
+        base_currency: 'EUR',
+        quote_currency: rate[1],
+        rate: parseFloat(rate[2]),
+        rate_date: day[1],
+      })
+    }
+  }
+
+  if (rates.length === 0) {
+    throw new Error('No rates found in XML; expected ECB-style <Cube time="..."> elements')
+  }
+
+  return rates
+}
+
+/**
+ * Parses a CSV of rates. Requires a header row with date, rate and quote
+ * currency columns; the base currency column is optional and defaults
+ * to EUR, matching ECB exports.
+ *
+ * Recognised headers: date/rate_date, base/base_currency/from,
+ * quote/quote_currency/currency/to, rate
+ *
+ * @throws {Error} On a missing column or an invalid row
+ */
+export function parseFxCsv(content: string): FxRateInput[] {
+  const lines = content
+    .replace(/^﻿/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+
+  if (lines.length < 2) {
+    throw new Error('CSV must have a header row and at least one rate')
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const header = lines[0].split(delimiter).map(h => h.trim().toLowerCase().replace(/"/g, ''))
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h))
+
+  const dateCol = column('date', 'rate_date')
+  const baseCol = column('base', 'base_currency', 'from')
+  const quoteCol = column('quote', 'quote_currency', 'currency', 'to')
+  const rateCol = column('rate')
+
+  if (dateCol < 0 || quoteCol < 0 || rateCol < 0) {
+    throw new Error('CSV header must include date, currency and rate columns')
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(delimiter).map(c => c.trim().replace(/"/g, ''))
+    const row = {
+      base_currency: (baseCol >= 0 ? cells[baseCol] : 'EUR').toUpperCase(),
+      quote_currency: (cells[quoteCol] || '').toUpperCase(),
+      rate: parseFloat(cells[rateCol]),
+      rate_date: cells[dateCol],
+    }
+
+    if (
+      !/^[A-Z]{3}$/.test(row.base_currency) ||
+      !/^[A-Z]{3}$/.test(row.quote_currency) ||
+      row.base_currency === row.quote_currency ||
+      !(row.rate > 0) ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(row.rate_date)
+    ) {
+      throw new Error(`Invalid rate on line ${i + 2}: ${line}`)
+    }
+
+    return row
+  })
+}
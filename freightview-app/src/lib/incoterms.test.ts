@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import {
+  INCOTERMS,
+  buyerPays,
+  calculateIncotermCost,
+  incotermModeWarning,
+  isIncoterm,
+  parseIncoterm,
+  validateIncoterm,
+} from './incoterms'
+
+type ChargeableQuote = Parameters<typeof calculateIncotermCost>[0]
+
+// Charges in EUR, converted at 0.5 into the comparison currency
+const quote = {
+  handling_charge: 100,
+  documentation_fee: 50,
+  terminal_handling: 200,
+  freight_charge: 1000,
+  fuel_surcharge: 100,
+  other_charges: null,
+  normalized_currency: 'USD',
+  normalized_total_amount: 1000,
+  fx_rate: 0.5,
+  fx_rate_date: '2024-03-01',
+  landed_cost: 1440,
+  landed_cost_breakdown: {
+    freight: 1000,
+    destination_charges: 150,
+    insurance: 30,
+    duty: 50,
+    vat: 200,
+    carrying_cost: 10,
+    total: 1440,
+  },
+} as ChargeableQuote
+
+describe('isIncoterm and parseIncoterm', () => {
+  it('recognises the Incoterms 2020 rules', () => {
+    expect(INCOTERMS.every(isIncoterm)).toBe(true)
+    expect(isIncoterm('DDU')).toBe(false)
+    expect(isIncoterm('fob')).toBe(false)
+  })
+
+  it('reads stored values case-insensitively', () => {
+    expect(parseIncoterm(' fob ')).toBe('FOB')
+    expect(parseIncoterm('DDU')).toBeNull()
+    expect(parseIncoterm(null)).toBeNull()
+  })
+})
+
+describe('validateIncoterm', () => {
+  it('allows a rule or no value', () => {
+    expect(validateIncoterm('CIF')).toBeNull()
+    expect(validateIncoterm(undefined)).toBeNull()
+  })
+
+  it('names the field and the rules', () => {
+    expect(validateIncoterm('DDU', 'incoterm')).toBe(
+      'incoterm must be an Incoterms 2020 rule: EXW, FCA, FAS, FOB, CFR, CIF, CPT, CIP, DAP, DPU, DDP'
+    )
+    expect(validateIncoterm(null)).toMatch(/^incoterms must be/)
+  })
+})
+
+describe('buyerPays', () => {
+  it('follows the rule', () => {
+    expect(buyerPays('EXW', 'origin')).toBe(true)
+    expect(buyerPays('FCA', 'origin')).toBe(false)
+    expect(buyerPays('FCA', 'origin_terminal')).toBe(true)
+    expect(buyerPays('FOB', 'origin_terminal')).toBe(false)
+    expect(buyerPays('CFR', 'insurance')).toBe(true)
+    expect(buyerPays('CIF', 'insurance')).toBe(false)
+    expect(buyerPays('DAP', 'duties')).toBe(true)
+    expect(buyerPays('DDP', 'duties')).toBe(false)
+  })
+})
+
+describe('incotermModeWarning', () => {
+  it('suggests the any-mode equivalent of a sea-only rule', () => {
+    expect(incotermModeWarning('FOB', ['sea', 'air'])).toBe('FOB is for sea transport; FCA fits air quotes')
+    expect(incotermModeWarning('CFR', ['road'])).toBe('CFR is for sea transport; CPT fits road quotes')
+    expect(incotermModeWarning('CIF', ['rail', 'courier'])).toBe('CIF is for sea transport; CIP fits rail, courier quotes')
+  })
+
+  it('stays quiet for sea quotes and any-mode rules', () => {
+    expect(incotermModeWarning('FOB', ['sea', 'sea_air'])).toBeNull()
+    expect(incotermModeWarning('DAP', ['air'])).toBeNull()
+  })
+})
+
+describe('calculateIncotermCost', () => {
+  it('converts itemised charges and counts the rest of the total as freight', () => {
+    const cost = calculateIncotermCost(quote, 'FOB')
+
+    expect(cost?.charges.map(line => [line.charge, line.amount])).toEqual([
+      ['handling_charge', 50],
+      ['documentation_fee', 25],
+      ['terminal_handling', 100],
+      ['freight_charge', 500],
+      ['fuel_surcharge', 50],
+      ['unitemised', 275],
+      ['destination_charges', 150],
+      ['insurance', 30],
+      ['duty', 50],
+      ['vat', 200],
+    ])
+  })
+
+  it('splits costs between buyer and seller by the rule', () => {
+    expect(calculateIncotermCost(quote, 'FOB')).toMatchObject({
+      incoterm: 'FOB',
+      buyer_cost: 1255,
+      seller_cost: 175,
+      door_to_door: 1430,
+    })
+    expect(calculateIncotermCost(quote, 'EXW')).toMatchObject({ buyer_cost: 1430, seller_cost: 0 })
+    expect(calculateIncotermCost(quote, 'DDP')).toMatchObject({ buyer_cost: 0, seller_cost: 1430 })
+  })
+
+  it('marks who pays each line', () => {
+    const payers = Object.fromEntries(
+      (calculateIncotermCost(quote, 'CIF')?.charges || []).map(line => [line.charge, line.payer])
+    )
+
+    expect(payers).toMatchObject({ freight_charge: 'seller', insurance: 'seller', destination_charges: 'buyer', vat: 'buyer' })
+  })
+
+  it('returns null for a quote that could not be priced', () => {
+    expect(calculateIncotermCost({ ...quote, landed_cost: null, landed_cost_breakdown: null }, 'FOB')).toBeNull()
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Incoterms for FreightView
+ *
+ * Incoterms 2020 rules for who pays each part of a shipment. The
+ * organization is taken to be the buyer (importer); the rule on the
+ * request decides which of these cost components fall to it:
+ * - origin: pickup, export clearance and origin handling/documents
+ * - origin_terminal: terminal handling at the port or airport of loading
+ * - freight: main carriage, including fuel and other surcharges
+ * - insurance: cargo insurance for the main carriage
+ * - destination: destination terminal handling and delivery
+ * - duties: import duty and VAT
+ *
+ * FCA is read as delivery at the origin terminal. FAS, FOB, CFR and CIF
+ * are for sea transport; quotes on other modes under them are flagged.
+ */
+
+import { SEA_MODES } from '@/lib/dangerous-goods'
+import type { LandedCostQuote } from '@/lib/landed-cost'
+import type {
+  Incoterm,
+  NormalizedQuote,
+  Quote,
+  TransportMode,
+} from '@/types/database'
+
+export type CostComponent = 'origin' | 'origin_terminal' | 'freight' | 'insurance' | 'destination' | 'duties'
+
+/** Every rule, from least to most the seller's responsibility */
+export const INCOTERMS: Incoterm[] = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP']
+
+export const COMPONENT_LABELS: Record<CostComponent, string> = {
+  origin: 'Origin handling',
+  origin_terminal: 'Origin terminal handling',
+  freight: 'Freight',
+  insurance: 'Insurance',
+  destination: 'Destination charges',
+  duties: 'Duties & VAT',
+}
+
+/** What each rule leaves the buyer to pay */
+export const INCOTERM_RULES: Record<Incoterm, { name: string; sea_only: boolean; buyer_pays: CostComponent[] }> = {
+  EXW: { name: 'Ex Works', sea_only: false, buyer_pays: ['origin', 'origin_terminal', 'freight', 'insurance', 'destination', 'duties'] },
+  FCA: { name: 'Free Carrier', sea_only: false, buyer_pays: ['origin_terminal', 'freight', 'insurance', 'destination', 'duties'] },
+  FAS: { name: 'Free Alongside Ship', sea_only: true, buyer_pays: ['origin_terminal', 'freight', 'insurance', 'destination', 'duties'] },
+  FOB: { name: 'Free On Board', sea_only: true, buyer_pays: ['freight', 'insurance', 'destination', 'duties'] },
+  CFR: { name: 'Cost and Freight', sea_only: true, buyer_pays: ['insurance', 'destination', 'duties'] },
+  CIF: { name: 'Cost, Insurance and Freight', sea_only: true, buyer_pays: ['destination', 'duties'] },
+  CPT: { name: 'Carriage Paid To', sea_only: false, buyer_pays: ['insurance', 'destination', 'duties'] },
+  CIP: { name: 'Carriage and Insurance Paid To', sea_only: false, buyer_pays: ['destination', 'duties'] },
+  DAP: { name: 'Delivered at Place', sea_only: false, buyer_pays: ['duties'] },
+  DPU: { name: 'Delivered at Place Unloaded', sea_only: false, buyer_pays: ['duties'] },
+  DDP: { name: 'Delivered Duty Paid', sea_only: false, buyer_pays: [] },
+}
+
+/** Quote charge fields and the component each belongs to */
+const QUOTE_CHARGES: { charge: QuoteChargeField; component: CostComponent }[] = [
+  { charge: 'handling_charge', component: 'origin' },
+  { charge: 'documentation_fee', component: 'origin' },
+  { charge: 'terminal_handling', component: 'origin_terminal' },
+  { charge: 'freight_charge', component: 'freight' },
+  { charge: 'fuel_surcharge', component: 'freight' },
+  { charge: 'other_charges', component: 'freight' },
+]
+
+type QuoteChargeField =
+  | 'handling_charge'
+  | 'documentation_fee'
+  | 'terminal_handling'
+  | 'freight_charge'
+  | 'fuel_surcharge'
+  | 'other_charges'
+
+/** One charge on a quote, in the comparison currency, and who pays it */
+export interface ChargeLine {
+  /** Quote field, 'unitemised' for the part of the total not broken down, or insurance/duty/vat */
+  charge: QuoteChargeField | 'unitemised' | 'destination_charges' | 'insurance' | 'duty' | 'vat'
+  component: CostComponent
+  amount: number
+  payer: 'buyer' | 'seller'
+}
+
+/** A quote's costs split by the request's Incoterm */
+export interface IncotermCost {
+  incoterm: Incoterm
+  /** What the organization pays under the rule */
+  buyer_cost: number
+  /** What the rule leaves to the seller */
+  seller_cost: number
+  /** Every cost from pickup to delivered and cleared, whoever pays */
+  door_to_door: number
+  charges: ChargeLine[]
+}
+
+type ChargeableQuote = LandedCostQuote<NormalizedQuote<Pick<Quote, QuoteChargeField>>>
+
+/**
+ * Whether a value is an Incoterms 2020 rule
+ */
+export function isIncoterm(value: unknown): value is Incoterm {
+  return typeof value === 'string' && INCOTERMS.includes(value as Incoterm)
+}
+
+/**
+ * Reads a stored rule, e.g. "fob" → "FOB", or null if it isn't one
+ */
+export function parseIncoterm(value: string | null | undefined): Incoterm | null {
+  const code = value?.trim().toUpperCase()
+  return isIncoterm(code) ? code : null
+}
+
+/**
+ * Checks an Incoterm value, returning an error message or null
+ */
+export function validateIncoterm(value: unknown, field = 'incoterms'): string | null {
+  if (value === undefined) return null
+  if (!isIncoterm(value)) {
+    return `${field} must be an Incoterms 2020 rule: ${INCOTERMS.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Whether the buyer pays a cost component under a rule
+ */
+export function buyerPays(incoterm: Incoterm, component: CostComponent): boolean {
+  return INCOTERM_RULES[incoterm].buyer_pays.includes(component)
+}
+
+/**
+ * Warns when a sea-only rule is used for quotes on other modes, or null
+ */
+export function incotermModeWarning(incoterm: Incoterm, modes: TransportMode[]): string | null {
+  if (!INCOTERM_RULES[incoterm].sea_only) return null
+  const otherModes = modes.filter(mode => !SEA_MODES.includes(mode))
+  if (otherModes.length === 0) return null
+  const suggestion = incoterm === 'FAS' || incoterm === 'FOB' ? 'FCA' : incoterm === 'CFR' ? 'CPT' : 'CIP'
+  return `${incoterm} is for sea transport; ${suggestion} fits ${otherModes.join(', ')} quotes`
+}
+
+/**
+ * Splits a priced quote's costs between buyer and seller. Charges the
+ * quote itemises are assigned by field; the rest of its total counts as
+ * freight. Null when the quote couldn't be priced.
+ */
+export function calculateIncotermCost(quote: ChargeableQuote, incoterm: Incoterm): IncotermCost | null {
+  const breakdown = quote.landed_cost_breakdown
+  if (!breakdown) return null
+
+  // Charges are in the quote's currency, like destination charges
+  const quoteRate = quote.fx_rate ?? 1
+  const lines: Omit<ChargeLine, 'payer'>[] = []
+  for (const { charge, component } of QUOTE_CHARGES) {
+    const amount = round(Number(quote[charge] ?? 0) * quoteRate)
+    if (amount > 0) lines.push({ charge, component, amount })
+  }
+
+  const itemised = lines.reduce((sum, line) => sum + line.amount, 0)
+  const unitemised = round(breakdown.freight - itemised)
+  if (unitemised > 0) lines.push({ charge: 'unitemised', component: 'freight', amount: unitemised })
+
+  const extras: Omit<ChargeLine, 'payer'>[] = [
+    { charge: 'destination_charges', component: 'destination', amount: breakdown.destination_charges },
+    { charge: 'insurance', component: 'insurance', amount: breakdown.insurance },
+    { charge: 'duty', component: 'duties', amount: breakdown.duty },
+    { charge: 'vat', component: 'duties', amount: breakdown.vat },
+  ]
+  lines.push(...extras.filter(line => line.amount > 0))
+
+  const charges: ChargeLine[] = lines.map(line => ({
+    ...line,
+    payer: buyerPays(incoterm, line.component) ? 'buyer' : 'seller',
+  }))
+  const sum = (payer?: ChargeLine['payer']) => round(
+    charges.filter(line => !payer || line.payer === payer).reduce((total, line) => total + line.amount, 0)
+  )
+
+  return {
+    incoterm,
+    buyer_cost: sum('buyer'),
+    seller_cost: sum('seller'),
+    door_to_door: sum(),
+    charges,
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
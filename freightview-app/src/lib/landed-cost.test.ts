@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_LANDED_COST_SETTINGS,
+  calculateLandedCost,
+  dailyCarryingCost,
+  findTariff,
+  normalizeHsCode,
+} from './landed-cost'
+import type { TariffRate } from '@/types/database'
+
+const tariff = (
+  id: string,
+  dest_country: string,
+  hs_code: string | null,
+  duty_rate: number,
+  organization_id: string | null = null
+) => ({ id, dest_country, hs_code, duty_rate, vat_rate: 20, organization_id }) as TariffRate
+
+describe('calculateLandedCost', () => {
+  it('adds insurance, duty on CIF, VAT on CIF plus duty and carrying cost', () => {
+    expect(calculateLandedCost({
+      freight: 1000,
+      destinationCharges: 200,
+      goodsValue: 10000,
+      transitDays: 30,
+      dutyRate: 5,
+      vatRate: 20,
+      settings: DEFAULT_LANDED_COST_SETTINGS,
+    })).toEqual({
+      freight: 1000,
+      destination_charges: 200,
+      insurance: 30,
+      duty: 551.5,
+      vat: 2316.3,
+      carrying_cost: 123.29,
+      total: 4221.09,
+    })
+  })
+
+  it('counts only freight and destination charges without a goods value', () => {
+    const breakdown = calculateLandedCost({
+      freight: 1000,
+      destinationCharges: 200,
+      goodsValue: null,
+      transitDays: 30,
+      dutyRate: 5,
+      vatRate: 20,
+      settings: DEFAULT_LANDED_COST_SETTINGS,
+    })
+
+    expect(breakdown).toMatchObject({ insurance: 0, duty: 0, vat: 0, carrying_cost: 0, total: 1200 })
+  })
+
+  it('charges no carrying cost without a transit time', () => {
+    const breakdown = calculateLandedCost({
+      freight: 500,
+      destinationCharges: 0,
+      goodsValue: 10000,
+      transitDays: null,
+      dutyRate: 0,
+      vatRate: 0,
+      settings: { insuranceRate: 0, carryingCostRate: 15 },
+    })
+
+    expect(breakdown.carrying_cost).toBe(0)
+    expect(breakdown.total).toBe(500)
+  })
+
+  it('ranks a slower cheaper quote behind a faster one on valuable goods', () => {
+    const cost = (freight: number, transitDays: number) => calculateLandedCost({
+      freight,
+      destinationCharges: 0,
+      goodsValue: 500000,
+      transitDays,
+      dutyRate: 0,
+      vatRate: 0,
+      settings: DEFAULT_LANDED_COST_SETTINGS,
+    }).total
+
+    expect(cost(4000, 5)).toBeLessThan(cost(2000, 35))
+  })
+})
+
+describe('dailyCarryingCost', () => {
+  it('spreads the annual rate over 365 days', () => {
+    expect(dailyCarryingCost(36500, { insuranceRate: 0, carryingCostRate: 10 })).toBeCloseTo(10)
+  })
+})
+
+describe('normalizeHsCode', () => {
+  it('keeps only digits', () => {
+    expect(normalizeHsCode('8471.30')).toBe('847130')
+    expect(normalizeHsCode(' 8471 30 00 ')).toBe('84713000')
+  })
+
+  it('returns null for empty codes', () => {
+    expect(normalizeHsCode(null)).toBeNull()
+    expect(normalizeHsCode('')).toBeNull()
+    expect(normalizeHsCode('n/a')).toBeNull()
+  })
+})
+
+describe('findTariff', () => {
+  const rates = [
+    tariff('default', 'GB', null, 2),
+    tariff('chapter', 'GB', '84', 3),
+    tariff('heading', 'GB', '8471.30', 0),
+    tariff('other-country', 'DE', '8471', 4),
+  ]
+
+  it('picks the longest matching HS prefix', () => {
+    expect(findTariff(rates, 'GB', '847130.00')?.id).toBe('heading')
+    expect(findTariff(rates, 'GB', '8450')?.id).toBe('chapter')
+  })
+
+  it('falls back to the country default', () => {
+    expect(findTariff(rates, 'gb', '6109')?.id).toBe('default')
+    expect(findTariff(rates, 'GB', null)?.id).toBe('default')
+  })
+
+  it('prefers the organization row over a shared one', () => {
+    const withOrg = [...rates, tariff('org-chapter', 'GB', '84', 1, 'org-1')]
+
+    expect(findTariff(withOrg, 'GB', '8450')?.id).toBe('org-chapter')
+  })
+
+  it('returns null when nothing applies', () => {
+    expect(findTariff(rates, 'US', '8471')).toBeNull()
+    expect(findTariff(rates, 'DE', '6109')).toBeNull()
+  })
+})
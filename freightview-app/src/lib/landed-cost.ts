@@ -0,0 +1,258 @@
+/**
+ * Landed Cost for FreightView
+ *
+ * Ranks quotes by what the goods cost on arrival rather than freight
+ * alone. For each quote, in the organization's comparison currency:
+ * - freight: the quoted total
+ * - destination charges not included in the quote
+ * - cargo insurance: `insurance_rate`% of the goods value
+ * - duty: `duty_rate`% of the CIF value (goods + freight + insurance)
+ * - VAT: `vat_rate`% of CIF value plus duty
+ * - carrying cost: `carrying_cost_rate`% a year of the goods value for
+ *   each day in transit
+ *
+ * Duty and VAT come from `tariff_rates` by destination country and the
+ * longest matching HS code prefix. Insurance and carrying cost rates are
+ * organization settings. Without a goods value only freight and
+ * destination charges count, which still ranks quotes consistently.
+ */
+
+import { parseISO } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadFxConverter } from '@/lib/fx'
+import type {
+  Quote,
+  ShipmentRequest,
+  TariffRate,
+  NormalizedQuote,
+  CurrencyNormalization,
+} from '@/types/database'
+
+/** Organization rates used for insurance and inventory carrying cost */
+export interface LandedCostSettings {
+  /** Percent of goods value */
+  insuranceRate: number
+  /** Annual percent of goods value */
+  carryingCostRate: number
+}
+
+/** Defaults matching the organizations table */
+export const DEFAULT_LANDED_COST_SETTINGS: LandedCostSettings = {
+  insuranceRate: 0.3,
+  carryingCostRate: 15,
+}
+
+/** Cost components of a quote, in the comparison currency */
+export interface LandedCostBreakdown {
+  freight: number
+  destination_charges: number
+  insurance: number
+  duty: number
+  vat: number
+  carrying_cost: number
+  total: number
+}
+
+/** Quote with its landed cost; null when its freight couldn't be converted */
+export type LandedCostQuote<T> = T & {
+  landed_cost: number | null
+  landed_cost_breakdown: LandedCostBreakdown | null
+}
+
+/** Inputs shared by every quote on a request, returned with the analysis */
+export interface LandedCostContext {
+  currency: string
+  /** Goods value in the comparison currency (null if unknown or unconvertible) */
+  goods_value: number | null
+  hs_code: string | null
+  tariff: Pick<TariffRate, 'dest_country' | 'hs_code' | 'duty_rate' | 'vat_rate'> | null
+  insurance_rate: number
+  carrying_cost_rate: number
+  daily_carrying_cost: number | null
+}
+
+/** Quote fields needed to price landed cost */
+type PriceableQuote = NormalizedQuote<
+  Pick<Quote, 'currency' | 'total_amount' | 'transit_days' | 'destination_charges'>
+>
+
+/**
+ * Adds up the landed cost of one option
+ */
+export function calculateLandedCost(input: {
+  freight: number
+  destinationCharges: number
+  goodsValue: number | null
+  transitDays: number | null
+  dutyRate: number
+  vatRate: number
+  settings: LandedCostSettings
+}): LandedCostBreakdown {
+  const goodsValue = input.goodsValue ?? 0
+  const insurance = round(goodsValue * input.settings.insuranceRate / 100)
+  const customsValue = goodsValue + input.freight + insurance
+  const duty = input.goodsValue === null ? 0 : round(customsValue * input.dutyRate / 100)
+  const vat = input.goodsValue === null ? 0 : round((customsValue + duty) * input.vatRate / 100)
+  const carryingCost = round(dailyCarryingCost(goodsValue, input.settings) * (input.transitDays ?? 0))
+
+  return {
+    freight: input.freight,
+    destination_charges: input.destinationCharges,
+    insurance,
+    duty,
+    vat,
+    carrying_cost: carryingCost,
+    total: round(input.freight + input.destinationCharges + insurance + duty + vat + carryingCost),
+  }
+}
+
+/**
+ * Cost of holding goods of this value for one day
+ */
+export function dailyCarryingCost(goodsValue: number, settings: LandedCostSettings): number {
+  return (goodsValue * settings.carryingCostRate) / 100 / 365
+}
+
+/**
+ * Picks the tariff for a destination and HS code: the longest matching
+ * prefix, then the country default; organization rows beat shared rows
+ */
+export function findTariff(
+  rates: TariffRate[],
+  destCountry: string,
+  hsCode: string | null
+): TariffRate | null {
+  const code = normalizeHsCode(hsCode)
+  const candidates = rates
+    .filter(r => r.dest_country === destCountry.toUpperCase())
+    .filter(r => r.hs_code === null || (code !== null && code.startsWith(normalizeHsCode(r.hs_code) || '')))
+    .sort((a, b) =>
+      (normalizeHsCode(b.hs_code)?.length ?? -1) - (normalizeHsCode(a.hs_code)?.length ?? -1) ||
+      Number(!!b.organization_id) - Number(!!a.organization_id)
+    )
+
+  return candidates[0] || null
+}
+
+/**
+ * Strips dots and spaces so "8471.30" and "847130" match
+ */
+export function normalizeHsCode(hsCode: string | null): string | null {
+  if (!hsCode) return null
+  const digits = hsCode.replace(/[^0-9]/g, '')
+  return digits || null
+}
+
+/**
+ * Reads insurance and carrying cost rates for an organization
+ */
+export async function loadLandedCostSettings(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<LandedCostSettings> {
+  if (!organizationId) return DEFAULT_LANDED_COST_SETTINGS
+
+  const { data } = await supabase
+    .from('organizations')
+    .select('insurance_rate, carrying_cost_rate')
+    .eq('id', organizationId)
+    .single()
+
+  return {
+    insuranceRate: Number(data?.insurance_rate ?? DEFAULT_LANDED_COST_SETTINGS.insuranceRate),
+    carryingCostRate: Number(data?.carrying_cost_rate ?? DEFAULT_LANDED_COST_SETTINGS.carryingCostRate),
+  }
+}
+
+/**
+ * Loads the tariff rates that could apply to a destination country
+ */
+export async function loadTariff(
+  supabase: SupabaseClient,
+  organizationId: string | null,
+  destCountry: string | null,
+  hsCode: string | null
+): Promise<TariffRate | null> {
+  if (!destCountry) return null
+
+  let query = supabase
+    .from('tariff_rates')
+    .select('*')
+    .eq('dest_country', destCountry.toUpperCase())
+
+  query = organizationId
+    ? query.or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+    : query.is('organization_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load tariff rates: ${error.message}`)
+  }
+
+  return findTariff((data || []) as TariffRate[], destCountry, hsCode)
+}
+
+/**
+ * Prices the landed cost of normalised quotes for a request.
+ * Quotes whose freight couldn't be converted get a null landed cost.
+ */
+export async function addLandedCosts<T extends PriceableQuote>(
+  supabase: SupabaseClient,
+  request: Pick<ShipmentRequest, 'organization_id' | 'dest_country' | 'hs_code' | 'value_usd'>,
+  quotes: T[],
+  fx: CurrencyNormalization
+): Promise<{ quotes: LandedCostQuote<T>[]; landed: LandedCostContext }> {
+  const [settings, tariff, converter] = await Promise.all([
+    loadLandedCostSettings(supabase, request.organization_id),
+    loadTariff(supabase, request.organization_id, request.dest_country, request.hs_code),
+    loadFxConverter(supabase, request.organization_id, fx.currency, ['USD'], parseISO(fx.as_of)),
+  ])
+
+  const usdRate = converter.rateFor('USD')
+  const goodsValue = request.value_usd && usdRate
+    ? round(Number(request.value_usd) * usdRate.rate)
+    : null
+
+  const priced = quotes.map(quote => {
+    if (quote.normalized_total_amount === null) {
+      return { ...quote, landed_cost: null, landed_cost_breakdown: null }
+    }
+
+    // Destination charges are quoted in the same currency as the freight
+    const quoteRate = quote.fx_rate ?? 1
+    const breakdown = calculateLandedCost({
+      freight: quote.normalized_total_amount,
+      destinationCharges: round(Number(quote.destination_charges ?? 0) * quoteRate),
+      goodsValue,
+      transitDays: quote.transit_days,
+      dutyRate: Number(tariff?.duty_rate ?? 0),
+      vatRate: Number(tariff?.vat_rate ?? 0),
+      settings,
+    })
+
+    return { ...quote, landed_cost: breakdown.total, landed_cost_breakdown: breakdown }
+  })
+
+  return {
+    quotes: priced,
+    landed: {
+      currency: fx.currency,
+      goods_value: goodsValue,
+      hs_code: request.hs_code,
+      tariff: tariff && {
+        dest_country: tariff.dest_country,
+        hs_code: tariff.hs_code,
+        duty_rate: Number(tariff.duty_rate),
+        vat_rate: Number(tariff.vat_rate),
+      },
+      insurance_rate: settings.insuranceRate,
+      carrying_cost_rate: settings.carryingCostRate,
+      daily_carrying_cost: goodsValue === null ? null : round(dailyCarryingCost(goodsValue, settings)),
+    },
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,200 @@
+/**
+ * Lane Rate Analytics for FreightView
+ *
+ * Aggregates past quotes into rate history per lane, mode and month so a
+ * new quote can be judged against what the market has charged before:
+ * - Lanes are origin and destination countries, or ports when grouping
+ *   by port (requests without both ports are left out)
+ * - Costs per chargeable kg and per cbm use the quote amount in the
+ *   organization's currency (see `normalizeQuotes` in lib/fx) and the
+ *   request's cargo (see `calculateUnitCosts` in lib/freight-math)
+ * - Spread is the gap between the cheapest and dearest forwarder on the
+ *   same request and mode, as a percentage of the cheapest
+ *
+ * Draft quotes are unconfirmed, so only quotes that reached the
+ * comparison are counted.
+ */
+
+import { format, parseISO } from 'date-fns'
+import { calculateUnitCosts } from '@/lib/freight-math'
+import { TRANSPORT_MODES } from '@/lib/transport-modes'
+import type {
+  LaneGrouping,
+  LaneRateHistory,
+  LaneRateMonth,
+  LaneRatePeriod,
+  Quote,
+  RateStats,
+  ShipmentRequest,
+} from '@/types/database'
+
+/** Request fields lane analytics read */
+export type LaneRequest = Pick<
+  ShipmentRequest,
+  'id' | 'origin_country' | 'dest_country' | 'origin_port' | 'dest_port' | 'weight_kg' | 'volume_cbm'
+>
+
+/** Quote fields lane analytics read, with the amount in the comparison currency */
+export type LaneQuote = Pick<
+  Quote,
+  'id' | 'forwarder_id' | 'mode' | 'status' | 'transit_days' | 'chargeable_weight' | 'containers' | 'created_at'
+> & {
+  normalized_total_amount: number | null
+}
+
+/** Where a rate sits against a lane's history */
+export type RatePosition = 'low' | 'below_median' | 'above_median' | 'high'
+
+export interface RateBenchmark {
+  position: RatePosition
+  /** Percent above (positive) or below the historical median */
+  vs_median_pct: number
+}
+
+export const RATE_POSITION_LABELS: Record<RatePosition, string> = {
+  low: 'Cheaper than three quarters of past quotes',
+  below_median: 'Below the historical median',
+  above_median: 'Above the historical median',
+  high: 'Dearer than three quarters of past quotes',
+}
+
+/** One quote's contribution to a lane */
+interface LaneSample {
+  laneKey: string
+  origin: string
+  dest: string
+  quote: LaneQuote
+  requestId: string
+  month: string
+  costPerKg: number | null
+  costPerCbm: number | null
+}
+
+/**
+ * Builds rate history for every lane and mode, busiest first
+ */
+export function buildLaneHistory(
+  requests: (LaneRequest & { quotes: LaneQuote[] })[],
+  groupBy: LaneGrouping = 'country'
+): LaneRateHistory[] {
+  const samples: LaneSample[] = []
+
+  for (const request of requests) {
+    const origin = groupBy === 'port' ? request.origin_port : request.origin_country
+    const dest = groupBy === 'port' ? request.dest_port : request.dest_country
+    if (!origin || !dest) continue
+
+    for (const quote of request.quotes) {
+      if (quote.status === 'draft') continue
+      const units = calculateUnitCosts(quote, quote.normalized_total_amount, request)
+      samples.push({
+        laneKey: `${origin}|${dest}|${quote.mode}`,
+        origin,
+        dest,
+        quote,
+        requestId: request.id,
+        month: format(parseISO(quote.created_at), 'yyyy-MM'),
+        costPerKg: units.cost_per_chargeable_kg,
+        costPerCbm: units.cost_per_cbm,
+      })
+    }
+  }
+
+  const lanes = new Map<string, LaneSample[]>()
+  for (const sample of samples) {
+    lanes.set(sample.laneKey, [...(lanes.get(sample.laneKey) || []), sample])
+  }
+
+  return Array.from(lanes.values())
+    .map(laneSamples => {
+      const months = Array.from(new Set(laneSamples.map(s => s.month))).sort()
+      return {
+        origin: laneSamples[0].origin,
+        dest: laneSamples[0].dest,
+        mode: laneSamples[0].quote.mode,
+        summary: summarizePeriod(laneSamples),
+        months: months.map((month): LaneRateMonth => ({
+          month,
+          ...summarizePeriod(laneSamples.filter(s => s.month === month)),
+        })),
+      }
+    })
+    .sort((a, b) =>
+      b.summary.quotes - a.summary.quotes ||
+      TRANSPORT_MODES.indexOf(a.mode) - TRANSPORT_MODES.indexOf(b.mode)
+    )
+}
+
+function summarizePeriod(samples: LaneSample[]): LaneRatePeriod {
+  // Spread needs at least two forwarders quoting the same request; each
+  // is represented by its cheapest quote
+  const byRequest = new Map<string, Map<string, number>>()
+  for (const sample of samples) {
+    const amount = sample.quote.normalized_total_amount
+    if (amount === null) continue
+    const byForwarder = byRequest.get(sample.requestId) ?? new Map<string, number>()
+    byForwarder.set(sample.quote.forwarder_id, Math.min(amount, byForwarder.get(sample.quote.forwarder_id) ?? Infinity))
+    byRequest.set(sample.requestId, byForwarder)
+  }
+  const spreads = Array.from(byRequest.values())
+    .map(byForwarder => Array.from(byForwarder.values()))
+    .filter(amounts => amounts.length >= 2 && Math.min(...amounts) > 0)
+    .map(amounts => ((Math.max(...amounts) - Math.min(...amounts)) / Math.min(...amounts)) * 100)
+
+  return {
+    quotes: samples.length,
+    requests: new Set(samples.map(s => s.requestId)).size,
+    forwarders: new Set(samples.map(s => s.quote.forwarder_id)).size,
+    cost_per_kg: rateStats(samples.map(s => s.costPerKg)),
+    cost_per_cbm: rateStats(samples.map(s => s.costPerCbm)),
+    transit_days: rateStats(samples.map(s => s.quote.transit_days)),
+    spread_pct: spreads.length > 0 ? round(quantile([...spreads].sort((a, b) => a - b), 0.5)) : null,
+  }
+}
+
+/**
+ * Distribution of the known values, or null when there are none
+ */
+export function rateStats(values: (number | null)[]): RateStats | null {
+  const known = values.filter((v): v is number => v !== null && Number.isFinite(v)).sort((a, b) => a - b)
+  if (known.length === 0) return null
+
+  return {
+    count: known.length,
+    min: round(known[0]),
+    p25: round(quantile(known, 0.25)),
+    median: round(quantile(known, 0.5)),
+    p75: round(quantile(known, 0.75)),
+    max: round(known[known.length - 1]),
+  }
+}
+
+/**
+ * Where a rate sits against a lane's history
+ */
+export function benchmarkRate(value: number, stats: RateStats): RateBenchmark {
+  const position: RatePosition = value < stats.p25
+    ? 'low'
+    : value > stats.p75
+      ? 'high'
+      : value <= stats.median
+        ? 'below_median'
+        : 'above_median'
+
+  return {
+    position,
+    vs_median_pct: stats.median > 0 ? round(((value - stats.median) / stats.median) * 100) : 0,
+  }
+}
+
+/** Linear interpolation between the nearest ranks of sorted values */
+function quantile(sorted: number[], q: number): number {
+  const index = (sorted.length - 1) * q
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,29 @@
+/**
+ * File Capture Mail Transport
+ *
+ * Writes each message as an .eml file instead of sending it. Used for
+ * local development and testing so RFQs can be inspected without a relay.
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { toNodemailerOptions, type MailTransport } from './transport'
+
+export function createFileTransport(directory: string): MailTransport {
+  // Stream transport composes the raw RFC 822 message without sending it
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(toNodemailerOptions(message))
+
+      await mkdir(directory, { recursive: true })
+      const fileName = `${Date.now()}-${message.messageId.replace(/[^A-Za-z0-9.-]/g, '_')}.eml`
+      await writeFile(path.join(directory, fileName), info.message as Buffer)
+
+      return { messageId: message.messageId }
+    },
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Inbound Quote Emails
+ *
+ * Parses raw MIME replies from forwarders and matches them to the request
+ * and forwarder they answer, either by the Message-ID of the RFQ they reply
+ * to or by the reference token kept in the subject line.
+ */
+
+import { simpleParser, type AddressObject } from 'mailparser'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { QuoteAttachment } from '@/lib/quote-extraction'
+import { resolveForwarderRecipients } from './rfq'
+import { parseReferenceToken } from './index'
+
+/** The parts of an inbound message used for matching and extraction */
+export interface InboundMessage {
+  messageId: string | null
+  from: string | null
+  subject: string
+  /** Body text with the quoted original message removed */
+  text: string
+  inReplyTo: string | null
+  references: string[]
+  attachments: QuoteAttachment[]
+}
+
+/** The request and forwarder an inbound message belongs to */
+export interface InboundMatch {
+  requestId: string
+  forwarderId: string | null
+  matchedBy: 'reference' | 'thread'
+}
+
+/**
+ * Parses a raw RFC 822 message. HTML-only bodies are converted to text.
+ */
+export async function parseInboundMessage(raw: string | Buffer): Promise<InboundMessage> {
+  const parsed = await simpleParser(raw)
+
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references
+      ? parsed.references.split(/\s+/)
+      : []
+
+  return {
+    messageId: parsed.messageId || null,
+    from: firstAddress(parsed.from),
+    subject: parsed.subject || '',
+    text: stripQuotedReply(parsed.text || ''),
+    inReplyTo: parsed.inReplyTo || null,
+    references,
+    attachments: parsed.attachments.map(attachment => ({
+      filename: attachment.filename || '',
+      contentType: attachment.contentType,
+      content: attachment.content,
+    })),
+  }
+}
+
+/**
+ * Finds the request an inbound message replies to.
+ * Threading headers identify both request and forwarder; a subject
+ * reference token identifies the request, and the forwarder is then
+ * matched on the sender's address or domain.
+ */
+export async function matchInboundMessage(
+  supabase: SupabaseClient,
+  message: InboundMessage
+): Promise<InboundMatch | null> {
+  const threadIds = [message.inReplyTo, ...message.references].filter(
+    (id): id is string => !!id
+  )
+
+  if (threadIds.length > 0) {
+    const { data: thread } = await supabase
+      .from('request_forwarders')
+      .select('request_id, forwarder_id')
+      .in('email_message_id', threadIds)
+      .limit(1)
+      .maybeSingle()
+
+    if (thread) {
+      return {
+        requestId: thread.request_id,
+        forwarderId: thread.forwarder_id,
+        matchedBy: 'thread',
+      }
+    }
+  }
+
+  const requestId = parseReferenceToken(message.subject)
+  if (!requestId) {
+    return null
+  }
+
+  const { data: requestData } = await supabase
+    .from('requests')
+    .select('id, user_id, request_forwarders (forwarder_id)')
+    .eq('id', requestId)
+    .single()
+
+  if (!requestData) {
+    return null
+  }
+
+  const forwarderIds = (requestData.request_forwarders as { forwarder_id: string }[])
+    .map(rf => rf.forwarder_id)
+
+  return {
+    requestId,
+    forwarderId: await matchSenderToForwarder(supabase, requestData.user_id, forwarderIds, message.from),
+    matchedBy: 'reference',
+  }
+}
+
+/**
+ * Matches a sender to one of the request's forwarders by exact address,
+ * then by domain when only one forwarder shares it
+ */
+async function matchSenderToForwarder(
+  supabase: SupabaseClient,
+  userId: string,
+  forwarderIds: string[],
+  from: string | null
+): Promise<string | null> {
+  if (!from || forwarderIds.length === 0) {
+    return null
+  }
+
+  const sender = from.toLowerCase()
+  const recipients = await resolveForwarderRecipients(supabase, userId, forwarderIds)
+
+  const exact = recipients.find(r => r.email?.toLowerCase() === sender)
+  if (exact) {
+    return exact.forwarderId
+  }
+
+  const domain = sender.split('@')[1]
+  const sameDomain = recipients.filter(r => r.email?.toLowerCase().split('@')[1] === domain)
+  return sameDomain.length === 1 ? sameDomain[0].forwarderId : null
+}
+
+/**
+ * Removes the quoted original message from a reply so the RFQ's own
+ * "Label: value" lines aren't read as quote fields
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split(/\r?\n/)
+  const cutoff = lines.findIndex(line =>
+    /^\s*>/.test(line) ||
+    /^\s*On .+wrote:\s*$/.test(line) ||
+    /^\s*-{2,}\s*Original Message\s*-{2,}/i.test(line) ||
+    /^\s*From:\s.+/.test(line)
+  )
+  return (cutoff >= 0 ? lines.slice(0, cutoff) : lines).join('\n').trim()
+}
+
+function firstAddress(address: AddressObject | AddressObject[] | undefined): string | null {
+  const first = Array.isArray(address) ? address[0] : address
+  return first?.value[0]?.address || null
+}
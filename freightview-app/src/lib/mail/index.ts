@@ -0,0 +1,97 @@
+/**
+ * Mail Subsystem for FreightView
+ *
+ * Selects the configured transport and provides helpers shared by all
+ * outbound emails (sender address, Message-IDs, request reference tokens).
+ *
+ * Configuration:
+ * - MAIL_TRANSPORT: 'smtp' or 'file' (defaults to 'smtp' when SMTP_HOST is set,
+ *   and to 'file' in development; production must send or opt into 'file')
+ * - MAIL_FROM: sender address for all outbound mail
+ * - MAIL_REPLY_TO: inbound address forwarders reply to
+ * - MAIL_CAPTURE_DIR: where the file transport writes .eml files
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ */
+
+import { randomBytes } from 'crypto'
+import { createSmtpTransport } from './smtp'
+import { createFileTransport } from './file'
+import type { MailTransport } from './transport'
+
+export type { MailMessage, MailTransport, MailDeliveryResult } from './transport'
+
+let transport: MailTransport | null = null
+
+/**
+ * Returns the configured mail transport (created once per process).
+ * Throws outside development when no transport is configured, so mail
+ * fails visibly instead of piling up on disk.
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  const kind = process.env.MAIL_TRANSPORT ||
+    (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'development' ? 'file' : null)
+
+  if (!kind) {
+    throw new Error('Mail is not configured: set SMTP_HOST, or MAIL_TRANSPORT=file to write mail to disk')
+  }
+
+  if (kind === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is "smtp"')
+    }
+    transport = createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    })
+  } else if (kind === 'file') {
+    transport = createFileTransport(process.env.MAIL_CAPTURE_DIR || '.mail-outbox')
+  } else {
+    throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`)
+  }
+
+  return transport
+}
+
+/**
+ * Sender address for outbound mail
+ */
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'quotes@freightview.com'
+}
+
+/**
+ * Address forwarders should reply to (falls back to the sender)
+ */
+export function getMailReplyTo(): string {
+  return process.env.MAIL_REPLY_TO || getMailFrom()
+}
+
+/**
+ * Generates a unique RFC 5322 Message-ID on the sender's domain
+ */
+export function createMessageId(kind: string): string {
+  const domain = getMailFrom().split('@')[1] || 'freightview.com'
+  return `<${kind}.${Date.now()}.${randomBytes(6).toString('hex')}@${domain}>`
+}
+
+/**
+ * Reference token placed in email subjects so replies can be matched
+ * back to their request
+ */
+export function requestReferenceToken(requestId: string): string {
+  return `[FV-${requestId}]`
+}
+
+/**
+ * Extracts the request ID from a reference token in a subject line,
+ * or null if there isn't one
+ */
+export function parseReferenceToken(subject: string): string | null {
+  const match = subject.match(/\[FV-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\]/i)
+  return match ? match[1].toLowerCase() : null
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendAndLog, PORTAL_LINK_PLACEHOLDER } from './outbox'
+import { buildReminderEmail, buildRfqEmail } from './templates'
+import type { ShipmentRequest } from '@/types/database'
+
+const send = vi.fn(async () => ({ messageId: '<sent@example.com>' }))
+
+vi.mock('./index', async importOriginal => ({
+  ...(await importOriginal<typeof import('./index')>()),
+  getMailTransport: () => ({ send }),
+}))
+
+const request = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  reference: 'PO-1',
+  origin_city: 'Shanghai',
+  origin_country: 'CN',
+  dest_city: 'Hamburg',
+  dest_country: 'DE',
+  mode_preference: 'sea',
+  cargo_type: 'general',
+  is_stackable: true,
+  is_hazmat: false,
+} as ShipmentRequest
+
+const LINK = `http://localhost:3000/portal/${'a'.repeat(64)}`
+
+function loggingSupabase() {
+  const rows: Record<string, unknown>[] = []
+  const supabase = {
+    from: () => ({
+      insert: async (row: Record<string, unknown>) => {
+        rows.push(row)
+        return { error: null }
+      },
+    }),
+  } as unknown as SupabaseClient
+  return { supabase, rows }
+}
+
+describe('sendAndLog', () => {
+  it('sends the portal link but logs a placeholder', async () => {
+    const { supabase, rows } = loggingSupabase()
+    const email = buildRfqEmail({ request, forwarderName: 'Acme Logistics', portalUrl: LINK })
+
+    const outcome = await sendAndLog(supabase, {
+      requestId: request.id,
+      forwarderId: 'fwd-1',
+      emailType: 'quote_request',
+      portalUrl: LINK,
+      message: { from: 'a@example.com', to: 'b@example.com', messageId: '<m@example.com>', ...email },
+    })
+
+    expect(outcome).toEqual({ sent: true, messageId: '<sent@example.com>' })
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ text: expect.stringContaining(LINK) }))
+    expect(rows[0].body).not.toContain('a'.repeat(64))
+    expect(rows[0].body).toContain(PORTAL_LINK_PLACEHOLDER)
+  })
+})
+
+describe('buildReminderEmail', () => {
+  it('points to the earlier link when there is no new one', () => {
+    const { text, html } = buildReminderEmail({ request, forwarderName: 'Acme Logistics', earlierPortalLink: true })
+
+    expect(text).toContain('with the portal link in our earlier email')
+    expect(html).toContain('with the portal link in our earlier email')
+    expect(text).not.toContain('/portal/')
+  })
+
+  it('carries a new link when given one', () => {
+    const { subject, text } = buildReminderEmail({ request, forwarderName: 'Acme Logistics', portalUrl: LINK })
+
+    expect(subject).toMatch(/^Reminder: Quote request PO-1/)
+    expect(text).toContain(LINK)
+  })
+
+  it('leaves the portal out otherwise', () => {
+    expect(buildReminderEmail({ request, forwarderName: 'Acme Logistics' }).text).not.toContain('online')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Logged Mail Delivery
+ *
+ * Sends a message through the configured transport and records the
+ * attempt in `email_logs`, whether or not delivery succeeded. Organization
+ * members can read the log, so portal links are logged as a placeholder:
+ * a link is a credential for submitting quotes as the forwarder.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getMailTransport } from './index'
+import type { MailMessage } from './transport'
+
+/** Kinds of email recorded in `email_logs.email_type` */
+export type EmailType = 'quote_request' | 'reminder' | 'escalation' | 'selection_notice'
+
+/** Stands in for a portal link in logged bodies */
+export const PORTAL_LINK_PLACEHOLDER = '[portal link]'
+
+interface LoggedMail {
+  requestId: string
+  forwarderId: string | null
+  emailType: EmailType
+  message: MailMessage
+  /** Portal link the message carries, kept out of the log */
+  portalUrl?: string | null
+}
+
+/** Outcome of a logged delivery attempt */
+export interface DeliveryOutcome {
+  sent: boolean
+  messageId: string
+  error?: string
+}
+
+/**
+ * Sends a message and writes an `email_logs` row for it
+ */
+export async function sendAndLog(
+  supabase: SupabaseClient,
+  { requestId, forwarderId, emailType, message, portalUrl }: LoggedMail
+): Promise<DeliveryOutcome> {
+  let outcome: DeliveryOutcome
+  try {
+    const result = await getMailTransport().send(message)
+    outcome = { sent: true, messageId: result.messageId }
+  } catch (err) {
+    outcome = {
+      sent: false,
+      messageId: message.messageId,
+      error: err instanceof Error ? err.message : String(err),
+    }
+  }
+
+  const { error: logError } = await supabase.from('email_logs').insert({
+    request_id: requestId,
+    forwarder_id: forwarderId,
+    email_type: emailType,
+    to_email: message.to,
+    subject: message.subject,
+    body: portalUrl ? message.text.split(portalUrl).join(PORTAL_LINK_PLACEHOLDER) : message.text,
+    message_id: outcome.messageId,
+    status: outcome.sent ? 'sent' : 'failed',
+  })
+
+  if (logError) {
+    console.error(`Failed to log ${emailType} email:`, logError.message)
+  }
+
+  return outcome
+}
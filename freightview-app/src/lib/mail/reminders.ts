@@ -0,0 +1,281 @@
+/**
+ * Quote Reminders
+ *
+ * Chases forwarders that were sent an RFQ but haven't quoted while the
+ * request is still awaiting quotes. The first miss sends the forwarder a
+ * reminder in the RFQ's thread; a second miss escalates to the request
+ * owner. Run periodically by the cron route.
+ *
+ * Only hashes of portal tokens are stored, so a reminder can't repeat a
+ * link. Forwarders with a working link are pointed to the earlier email,
+ * and those never given one get a new link. Expired and revoked links
+ * aren't replaced: that's for the request owner to decide.
+ *
+ * Configuration:
+ * - REMINDER_AFTER_HOURS: hours after the RFQ before reminding (default 48)
+ * - ESCALATE_AFTER_HOURS: hours after the reminder before escalating (default 24)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RequestForwarder, ShipmentRequest } from '@/types/database'
+import { issuePortalLink, portalLinkStatus, portalUrl } from '@/lib/quote-portal'
+import { buildReminderEmail, buildEscalationEmail } from './templates'
+import { sendAndLog } from './outbox'
+import { resolveForwarderRecipients, resolveSenderName } from './rfq'
+import { createMessageId, getMailFrom, getMailReplyTo } from './index'
+
+/** Thresholds for chasing forwarders */
+export interface ReminderSchedule {
+  reminderAfterHours: number
+  escalateAfterHours: number
+}
+
+/** A reminder or escalation sent by a run, for audit logging */
+export interface ReminderEvent {
+  kind: 'reminder' | 'escalation'
+  requestId: string
+  organizationId: string | null
+  forwarderIds: string[]
+}
+
+/** Outcome of a reminder run */
+export interface ReminderRunResult {
+  reminders_sent: number
+  escalations_sent: number
+  failed: number
+  events: ReminderEvent[]
+}
+
+type PendingForwarder = RequestForwarder & { request: ShipmentRequest }
+
+/**
+ * Reads the reminder schedule from the environment
+ */
+export function getReminderSchedule(): ReminderSchedule {
+  return {
+    reminderAfterHours: parseFloat(process.env.REMINDER_AFTER_HOURS || '48'),
+    escalateAfterHours: parseFloat(process.env.ESCALATE_AFTER_HOURS || '24'),
+  }
+}
+
+/**
+ * Sends due reminders and escalations.
+ * Needs a service client: it works across all organizations.
+ */
+export async function runQuoteReminders(
+  supabase: SupabaseClient,
+  schedule: ReminderSchedule = getReminderSchedule(),
+  now: Date = new Date()
+): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { reminders_sent: 0, escalations_sent: 0, failed: 0, events: [] }
+
+  const { data, error } = await supabase
+    .from('request_forwarders')
+    .select(`
+      *,
+      request:requests!inner (*)
+    `)
+    .eq('request.status', 'pending_quotes')
+    .not('email_sent_at', 'is', null)
+    .is('escalated_at', null)
+
+  if (error) {
+    throw new Error(`Failed to load pending forwarders: ${error.message}`)
+  }
+
+  const pending = await withoutQuotes(supabase, data as PendingForwarder[])
+
+  const remindBefore = hoursBefore(now, schedule.reminderAfterHours)
+  const escalateBefore = hoursBefore(now, schedule.escalateAfterHours)
+
+  const toRemind = pending.filter(rf =>
+    !rf.reminder_sent_at && new Date(rf.email_sent_at!) <= remindBefore
+  )
+  const toEscalate = pending.filter(rf =>
+    rf.reminder_sent_at && new Date(rf.reminder_sent_at) <= escalateBefore
+  )
+
+  for (const forwarders of Array.from(groupByRequest(toRemind).values())) {
+    await sendReminders(supabase, forwarders, now, result)
+  }
+
+  for (const forwarders of Array.from(groupByRequest(toEscalate).values())) {
+    await sendEscalation(supabase, forwarders, now, result)
+  }
+
+  return result
+}
+
+/**
+ * Drops forwarders that have already quoted (including unconfirmed drafts)
+ */
+async function withoutQuotes(
+  supabase: SupabaseClient,
+  forwarders: PendingForwarder[]
+): Promise<PendingForwarder[]> {
+  if (forwarders.length === 0) return []
+
+  const requestIds = Array.from(new Set(forwarders.map(rf => rf.request_id)))
+  const { data: quotes, error } = await supabase
+    .from('quotes')
+    .select('request_id, forwarder_id')
+    .in('request_id', requestIds)
+
+  if (error) {
+    throw new Error(`Failed to load quotes: ${error.message}`)
+  }
+
+  const quoted = new Set((quotes || []).map(q => `${q.request_id}:${q.forwarder_id}`))
+  return forwarders.filter(rf => !quoted.has(`${rf.request_id}:${rf.forwarder_id}`))
+}
+
+async function sendReminders(
+  supabase: SupabaseClient,
+  forwarders: PendingForwarder[],
+  now: Date,
+  result: ReminderRunResult
+): Promise<void> {
+  const request = forwarders[0].request
+  const [recipients, senderName] = await Promise.all([
+    resolveForwarderRecipients(supabase, request.user_id, forwarders.map(rf => rf.forwarder_id)),
+    resolveSenderName(supabase, request),
+  ])
+
+  const reminded: string[] = []
+  for (const rf of forwarders) {
+    const recipient = recipients.find(r => r.forwarderId === rf.forwarder_id)
+    if (!recipient?.email) {
+      result.failed++
+      continue
+    }
+
+    const linkStatus = portalLinkStatus(rf, now)
+    let link: string | null = null
+    if (linkStatus === 'none') {
+      try {
+        link = portalUrl((await issuePortalLink(supabase, request.id, rf.forwarder_id)).token)
+      } catch (err) {
+        console.error(`Portal link for forwarder ${rf.forwarder_id} not issued:`, err instanceof Error ? err.message : err)
+      }
+    }
+
+    const { subject, text, html } = buildReminderEmail({
+      request,
+      forwarderName: recipient.forwarderName,
+      contactName: recipient.contactName,
+      senderName,
+      portalUrl: link,
+      earlierPortalLink: linkStatus === 'active',
+    })
+
+    const outcome = await sendAndLog(supabase, {
+      requestId: request.id,
+      forwarderId: rf.forwarder_id,
+      emailType: 'reminder',
+      portalUrl: link,
+      message: {
+        from: getMailFrom(),
+        to: recipient.email,
+        replyTo: getMailReplyTo(),
+        subject,
+        text,
+        html,
+        messageId: createMessageId('reminder'),
+        // Thread under the original RFQ so replies match it
+        inReplyTo: rf.email_message_id ?? undefined,
+      },
+    })
+
+    if (!outcome.sent) {
+      result.failed++
+      continue
+    }
+
+    await supabase
+      .from('request_forwarders')
+      .update({ reminder_sent_at: now.toISOString() })
+      .eq('id', rf.id)
+
+    reminded.push(rf.forwarder_id)
+    result.reminders_sent++
+  }
+
+  if (reminded.length > 0) {
+    result.events.push({
+      kind: 'reminder',
+      requestId: request.id,
+      organizationId: request.organization_id,
+      forwarderIds: reminded,
+    })
+  }
+}
+
+async function sendEscalation(
+  supabase: SupabaseClient,
+  forwarders: PendingForwarder[],
+  now: Date,
+  result: ReminderRunResult
+): Promise<void> {
+  const request = forwarders[0].request
+
+  const [{ data: owner }, { data: forwarderRows }] = await Promise.all([
+    supabase.from('profiles').select('email').eq('id', request.user_id).single(),
+    supabase.from('forwarders').select('id, name').in('id', forwarders.map(rf => rf.forwarder_id)),
+  ])
+
+  if (!owner?.email) {
+    result.failed++
+    return
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  const { subject, text, html } = buildEscalationEmail({
+    request,
+    forwarderNames: (forwarderRows || []).map(f => f.name),
+    requestUrl: `${appUrl}/requests/${request.id}/quotes`,
+  })
+
+  const outcome = await sendAndLog(supabase, {
+    requestId: request.id,
+    forwarderId: null,
+    emailType: 'escalation',
+    message: {
+      from: getMailFrom(),
+      to: owner.email,
+      subject,
+      text,
+      html,
+      messageId: createMessageId('escalation'),
+    },
+  })
+
+  if (!outcome.sent) {
+    result.failed++
+    return
+  }
+
+  await supabase
+    .from('request_forwarders')
+    .update({ escalated_at: now.toISOString() })
+    .in('id', forwarders.map(rf => rf.id))
+
+  result.escalations_sent++
+  result.events.push({
+    kind: 'escalation',
+    requestId: request.id,
+    organizationId: request.organization_id,
+    forwarderIds: forwarders.map(rf => rf.forwarder_id),
+  })
+}
+
+function groupByRequest(forwarders: PendingForwarder[]): Map<string, PendingForwarder[]> {
+  const groups = new Map<string, PendingForwarder[]>()
+  for (const rf of forwarders) {
+    groups.set(rf.request_id, [...(groups.get(rf.request_id) || []), rf])
+  }
+  return groups
+}
+
+function hoursBefore(now: Date, hours: number): Date {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000)
+}
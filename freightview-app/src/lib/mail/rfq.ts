@@ -0,0 +1,140 @@
+/**
+ * RFQ Emails
+ *
+ * Sends request-for-quotation emails to the forwarders selected on a
+ * shipment request and records delivery on `request_forwarders`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ShipmentRequest } from '@/types/database'
+import { issuePortalLink, portalUrl } from '@/lib/quote-portal'
+import { buildRfqEmail } from './templates'
+import { sendAndLog } from './outbox'
+import { createMessageId, getMailFrom, getMailReplyTo } from './index'
+
+/** Where to email a forwarder for a given request owner */
+export interface ForwarderRecipient {
+  forwarderId: string
+  forwarderName: string
+  email: string | null
+  contactName: string | null
+}
+
+/**
+ * Resolves recipient addresses, preferring the request owner's designated
+ * contact (`user_forwarders.contact_email`) over the forwarder's default
+ * quote inbox
+ */
+export async function resolveForwarderRecipients(
+  supabase: SupabaseClient,
+  userId: string,
+  forwarderIds: string[]
+): Promise<ForwarderRecipient[]> {
+  const [{ data: forwarders }, { data: userForwarders }] = await Promise.all([
+    supabase
+      .from('forwarders')
+      .select('id, name, default_quote_email')
+      .in('id', forwarderIds),
+    supabase
+      .from('user_forwarders')
+      .select('forwarder_id, contact_email, contact_name')
+      .eq('user_id', userId)
+      .in('forwarder_id', forwarderIds),
+  ])
+
+  return (forwarders || []).map(forwarder => {
+    const contact = userForwarders?.find(uf => uf.forwarder_id === forwarder.id)
+    return {
+      forwarderId: forwarder.id,
+      forwarderName: forwarder.name,
+      email: contact?.contact_email || forwarder.default_quote_email,
+      contactName: contact?.contact_name ?? null,
+    }
+  })
+}
+
+/**
+ * Name RFQs are signed with: the organization name, or the request
+ * owner's company name for requests outside an organization
+ */
+export async function resolveSenderName(
+  supabase: SupabaseClient,
+  request: Pick<ShipmentRequest, 'organization_id' | 'user_id'>
+): Promise<string | null> {
+  const { data: sender } = request.organization_id
+    ? await supabase.from('organizations').select('name').eq('id', request.organization_id).single()
+    : await supabase.from('profiles').select('name:company_name').eq('id', request.user_id).single()
+
+  return sender?.name ?? null
+}
+
+/**
+ * Emails an RFQ to each forwarder and stamps `email_sent_at` and
+ * `email_message_id` on the matching `request_forwarders` row. Each RFQ
+ * carries a new portal link for entering the quote online; if the link
+ * can't be issued the RFQ goes without it.
+ *
+ * @returns IDs of forwarders that were successfully emailed
+ */
+export async function sendRfqEmails(
+  supabase: SupabaseClient,
+  request: ShipmentRequest,
+  forwarderIds: string[],
+  senderName?: string | null
+): Promise<string[]> {
+  const recipients = await resolveForwarderRecipients(supabase, request.user_id, forwarderIds)
+  const notified: string[] = []
+
+  for (const recipient of recipients) {
+    if (!recipient.email) {
+      console.error(`No quote email for forwarder ${recipient.forwarderId}; RFQ not sent`)
+      continue
+    }
+
+    let link: string | null = null
+    try {
+      link = portalUrl((await issuePortalLink(supabase, request.id, recipient.forwarderId)).token)
+    } catch (err) {
+      console.error(`Portal link for forwarder ${recipient.forwarderId} not issued:`, err instanceof Error ? err.message : err)
+    }
+
+    const { subject, text, html } = buildRfqEmail({
+      request,
+      forwarderName: recipient.forwarderName,
+      contactName: recipient.contactName,
+      senderName,
+      portalUrl: link,
+    })
+
+    const outcome = await sendAndLog(supabase, {
+      requestId: request.id,
+      forwarderId: recipient.forwarderId,
+      emailType: 'quote_request',
+      portalUrl: link,
+      message: {
+        from: getMailFrom(),
+        to: recipient.email,
+        replyTo: getMailReplyTo(),
+        subject,
+        text,
+        html,
+        messageId: createMessageId('rfq'),
+      },
+    })
+
+    if (!outcome.sent) continue
+
+    await supabase
+      .from('request_forwarders')
+      .update({
+        email_sent_at: new Date().toISOString(),
+        email_message_id: outcome.messageId,
+      })
+      .eq('request_id', request.id)
+      .eq('forwarder_id', recipient.forwarderId)
+
+    notified.push(recipient.forwarderId)
+  }
+
+  return notified
+}
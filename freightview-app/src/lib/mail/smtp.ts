@@ -0,0 +1,34 @@
+/**
+ * SMTP Mail Transport
+ *
+ * Delivers messages through any SMTP relay (SendGrid, SES, Postmark,
+ * or a company mail server) using nodemailer.
+ */
+
+import nodemailer from 'nodemailer'
+import { toNodemailerOptions, type MailTransport } from './transport'
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(toNodemailerOptions(message))
+      return { messageId: info.messageId || message.messageId }
+    },
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Email Templates for FreightView
+ *
+ * Plain-text bodies with a simple HTML rendering for outbound mail.
+ */
+
+import { format } from 'date-fns'
+import { describeContainers } from '@/lib/containers'
+import { modePreferenceLabel } from '@/lib/transport-modes'
+import type { ShipmentRequest } from '@/types/database'
+import { requestReferenceToken } from './index'
+
+/** A rendered email subject and body */
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+interface RfqTemplateData {
+  request: ShipmentRequest
+  forwarderName: string
+  contactName?: string | null
+  /** Name of the requesting company */
+  senderName?: string | null
+  /** Forwarder's portal page for entering the quote online */
+  portalUrl?: string | null
+  /** Whether an earlier email's portal link still works, when there's no new one */
+  earlierPortalLink?: boolean
+}
+
+interface EscalationTemplateData {
+  request: ShipmentRequest
+  /** Forwarders that were reminded and still haven't quoted */
+  forwarderNames: string[]
+  /** Link to the request's quotes page */
+  requestUrl: string
+}
+
+/**
+ * Builds the request-for-quotation email sent to a forwarder
+ */
+export function buildRfqEmail(data: RfqTemplateData): RenderedEmail {
+  const intro = `${data.senderName || 'We'} would like to request a freight quotation for the following shipment:`
+  return renderRfq(data, '', intro)
+}
+
+/**
+ * Builds the reminder sent to a forwarder that hasn't replied to an RFQ.
+ * Keeps the original subject (and reference token) so replies still match.
+ */
+export function buildReminderEmail(data: RfqTemplateData): RenderedEmail {
+  const intro = `This is a friendly reminder that ${data.senderName || 'we'} haven't yet received your quotation for the following shipment:`
+  return renderRfq(data, 'Reminder: ', intro)
+}
+
+/**
+ * Builds the email telling a request owner that reminded forwarders
+ * still haven't quoted
+ */
+export function buildEscalationEmail({
+  request,
+  forwarderNames,
+  requestUrl,
+}: EscalationTemplateData): RenderedEmail {
+  const label = request.reference || `${formatPlace(request.origin_city, request.origin_country)} → ${formatPlace(request.dest_city, request.dest_country)}`
+  const subject = `No quote yet from ${forwarderNames.length === 1 ? forwarderNames[0] : `${forwarderNames.length} forwarders`}: ${label}`
+  const intro = `The following forwarders were sent a reminder but still haven't quoted on ${label}:`
+  const closing = 'You may want to follow up with them directly or invite other forwarders to quote.'
+
+  const text = [
+    intro,
+    '',
+    ...forwarderNames.map(name => `- ${name}`),
+    '',
+    closing,
+    '',
+    `View the request: ${requestUrl}`,
+  ].join('\n')
+
+  const html = [
+    `<p>${escapeHtml(intro)}</p>`,
+    '<ul>',
+    ...forwarderNames.map(name => `<li>${escapeHtml(name)}</li>`),
+    '</ul>',
+    `<p>${escapeHtml(closing)}</p>`,
+    `<p><a href="${escapeHtml(requestUrl)}">View the request</a></p>`,
+  ].join('\n')
+
+  return { subject, text, html }
+}
+
+function renderRfq(
+  { request, forwarderName, contactName, senderName, portalUrl, earlierPortalLink }: RfqTemplateData,
+  subjectPrefix: string,
+  intro: string
+): RenderedEmail {
+  const route = `${formatPlace(request.origin_city, request.origin_country)} → ${formatPlace(request.dest_city, request.dest_country)}`
+  const reference = request.reference ? ` ${request.reference}` : ''
+  const subject = `${subjectPrefix}Quote request${reference}: ${route} ${requestReferenceToken(request.id)}`
+
+  const details: [string, string | null][] = [
+    ['Reference', request.reference],
+    ['Origin', formatPlace(request.origin_city, request.origin_country, request.origin_port)],
+    ['Destination', formatPlace(request.dest_city, request.dest_country, request.dest_port)],
+    ['Mode', request.mode_preference === 'any'
+      ? `${modePreferenceLabel('any')} (please quote each option you offer)`
+      : modePreferenceLabel(request.mode_preference)],
+    ['Incoterms', request.incoterms],
+    ['Cargo type', request.cargo_type],
+    ['Description', request.cargo_description],
+    ['Gross weight', request.weight_kg != null ? `${request.weight_kg.toLocaleString()} kg` : null],
+    ['Volume', request.volume_cbm != null ? `${request.volume_cbm} CBM` : null],
+    ['Pieces', request.pieces != null ? String(request.pieces) : null],
+    ['Load', request.load_type === 'lcl'
+      ? 'LCL'
+      : request.load_type === 'fcl'
+        ? `FCL${request.containers?.length ? ` ${describeContainers(request.containers)}` : ''}`
+        : null],
+    ['Stackable', request.is_stackable ? 'Yes' : 'No'],
+    ['Dangerous goods', request.is_hazmat
+      ? ['Yes', request.dg_un_number, request.dg_class && `class ${request.dg_class}`,
+          request.dg_packing_group && `PG ${request.dg_packing_group}`].filter(Boolean).join(', ')
+      : 'No'],
+    ['Temperature', request.temperature_required],
+    ['Cargo ready', formatDate(request.cargo_ready_date)],
+    ['Required delivery', formatDate(request.delivery_required_date)],
+    ['Special instructions', request.special_instructions],
+  ]
+  const rows = details.filter((row): row is [string, string] => !!row[1])
+
+  const greeting = `Dear ${contactName || `${forwarderName} team`},`
+  const closing = [
+    'Please reply to this email with your quotation, including:',
+    '- Total cost and currency, with a breakdown of freight, fuel surcharge, handling, documentation and terminal charges',
+    '- ETD, ETA and transit time, carrier and routing',
+    '- Quote validity date and free days at origin/destination',
+    '',
+    'CSV or Excel rate sheets may be attached. Please keep the reference in the subject line.',
+  ]
+  const portal = portalUrl
+    ? 'Or enter your quotation online, without replying:'
+    : earlierPortalLink ? 'Or enter your quotation online with the portal link in our earlier email.' : null
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    '',
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    '',
+    ...closing,
+    '',
+    ...(portal ? [portal, ...(portalUrl ? [portalUrl] : []), ''] : []),
+    'Kind regards,',
+    senderName || 'FreightView',
+  ].join('\n')
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    '<table cellpadding="4" style="border-collapse:collapse">',
+    ...rows.map(([label, value]) =>
+      `<tr><td style="color:#6b7280">${escapeHtml(label)}</td><td><strong>${escapeHtml(value)}</strong></td></tr>`
+    ),
+    '</table>',
+    `<p>${escapeHtml(closing[0])}</p>`,
+    '<ul>',
+    ...closing.slice(1, 4).map(line => `<li>${escapeHtml(line.replace(/^- /, ''))}</li>`),
+    '</ul>',
+    `<p>${escapeHtml(closing[5])}</p>`,
+    ...(portal && portalUrl ? [`<p>${escapeHtml(portal)} <a href="${escapeHtml(portalUrl)}">${escapeHtml(portalUrl)}</a></p>`] : []),
+    ...(portal && !portalUrl ? [`<p>${escapeHtml(portal)}</p>`] : []),
+    `<p>Kind regards,<br>${escapeHtml(senderName || 'FreightView')}</p>`,
+  ].join('\n')
+
+  return { subject, text, html }
+}
+
+function formatPlace(city: string | null, country: string | null, port?: string | null): string {
+  const place = [city, country].filter(Boolean).join(', ') || '-'
+  return port ? `${place} (${port})` : place
+}
+
+function formatDate(date: string | null): string | null {
+  return date ? format(new Date(date), 'MMM d, yyyy') : null
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,53 @@
+/**
+ * Mail Transport Interface for FreightView
+ *
+ * Transports deliver fully composed messages. The application picks one
+ * at runtime via `getMailTransport()` so routes never depend on a specific
+ * provider.
+ */
+
+/** An outbound email message */
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html?: string
+  replyTo?: string
+  /** RFC 5322 Message-ID, including angle brackets */
+  messageId: string
+  /** Message-ID this message replies to, for threading */
+  inReplyTo?: string
+  headers?: Record<string, string>
+}
+
+/** Result of handing a message to a transport */
+export interface MailDeliveryResult {
+  /** Message-ID as accepted by the transport */
+  messageId: string
+}
+
+/** A pluggable mail delivery mechanism */
+export interface MailTransport {
+  /** Transport name recorded in logs */
+  readonly name: string
+  send(message: MailMessage): Promise<MailDeliveryResult>
+}
+
+/**
+ * Maps a message to nodemailer send options
+ */
+export function toNodemailerOptions(message: MailMessage) {
+  return {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    replyTo: message.replyTo,
+    messageId: message.messageId,
+    inReplyTo: message.inReplyTo,
+    references: message.inReplyTo,
+    headers: message.headers,
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Organization Helpers for FreightView
+ *
+ * Seat accounting and invite utilities shared by the organization
+ * member and invite endpoints.
+ */
+
+import { randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AccessContext } from '@/lib/access'
+import type { Organization, OrganizationInvite } from '@/types/database'
+
+/** Default lifetime of an organization invite */
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7
+
+/**
+ * Counts seats taken in an organization: active members plus
+ * pending invites that haven't expired yet
+ */
+export async function countSeatsUsed(
+  supabase: SupabaseClient,
+  organizationId: string,
+  { includePendingInvites = true }: { includePendingInvites?: boolean } = {}
+): Promise<number> {
+  const { count: memberCount } = await supabase
+    .from('profiles')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  if (!includePendingInvites) {
+    return memberCount ?? 0
+  }
+
+  const { count: inviteCount } = await supabase
+    .from('organization_invites')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+
+  return (memberCount ?? 0) + (inviteCount ?? 0)
+}
+
+/**
+ * Generates an unguessable invite token
+ */
+export function generateInviteToken(): string {
+  return randomBytes(32).toString('hex')
+}
+
+/**
+ * Converts a company name to a URL-friendly slug
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100)
+}
+
+/**
+ * Joins a signed-in user to the organization an invite is for, with the
+ * invited role, and marks the invite accepted. The invitee can't read
+ * invites under RLS, so this takes the service client.
+ */
+export async function acceptInvite(
+  serviceClient: SupabaseClient,
+  access: AccessContext,
+  token: string
+): Promise<
+  | { invite: OrganizationInvite; organization: Organization }
+  | { error: string; code?: string; status: 403 | 404 | 409 | 410 }
+> {
+  const { data: inviteData } = await serviceClient
+    .from('organization_invites')
+    .select('*')
+    .eq('token', token)
+    .single()
+
+  if (!inviteData) {
+    return { error: 'Invite not found', status: 404 }
+  }
+
+  const invite = inviteData as OrganizationInvite
+
+  if (invite.accepted_at) {
+    return { error: 'Invite has already been used', status: 409 }
+  }
+
+  if (new Date(invite.expires_at) <= new Date()) {
+    return { error: 'Invite has expired', code: 'INVITE_EXPIRED', status: 410 }
+  }
+
+  if (!access.email || access.email.toLowerCase() !== invite.email.toLowerCase()) {
+    return { error: 'This invite was sent to a different email address', status: 403 }
+  }
+
+  if (access.organizationId && access.organizationId !== invite.organization_id) {
+    return { error: 'You already belong to another organization', status: 409 }
+  }
+
+  const { data: organizationData } = await serviceClient
+    .from('organizations')
+    .select('*')
+    .eq('id', invite.organization_id)
+    .single()
+
+  if (!organizationData) {
+    return { error: 'Organization not found', status: 404 }
+  }
+
+  const organization = organizationData as Organization
+
+  // The pending invite already held a seat; make sure members haven't filled it since
+  const activeMembers = await countSeatsUsed(serviceClient, organization.id, {
+    includePendingInvites: false,
+  })
+  if (activeMembers >= organization.plan_seats) {
+    return { error: 'No seats available on this organization\'s plan', code: 'SEAT_LIMIT', status: 403 }
+  }
+
+  const { error: profileError } = await serviceClient
+    .from('profiles')
+    .update({
+      organization_id: organization.id,
+      role: invite.role,
+      is_active: true,
+      invited_by: invite.invited_by,
+      invited_at: invite.created_at,
+    })
+    .eq('id', access.userId)
+
+  if (profileError) {
+    throw new Error(`Failed to join organization: ${profileError.message}`)
+  }
+
+  const { error: inviteError } = await serviceClient
+    .from('organization_invites')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', invite.id)
+
+  if (inviteError) {
+    throw new Error(`Failed to accept invite: ${inviteError.message}`)
+  }
+
+  return { invite, organization }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import {
+  matchExistingAirports,
+  parsePortFile,
+  parseUnLocodeCoordinates,
+  portMismatch,
+  rankPorts,
+  sanitizeSearchTerm,
+  unLocodeFunctionType,
+} from './ports'
+import type { Port } from '@/types/database'
+
+const UNLOCODE = [
+  ',"CN","",".CHINA","","","","","","","",""',
+  ',"CN","SHA","Shanghai","Shanghai","SH","AI","12345---","0701","","3114N 12129E",""',
+  ',"CN","PVG","Pudong Apt","Pudong Apt","SH","AI","---4----","0701","PVG","3109N 12148E",""',
+  ',"CN","XYZ","Postal Only","Postal Only","","RL","-------B","0701","","",""',
+  'X,"CN","OLD","Old Port","Old Port","","RL","1-------","0701","","",""',
+].join('\n')
+
+const AIRPORTS = [
+  'id,ident,type,name,latitude_deg,longitude_deg,iso_country,municipality,iata_code',
+  '1,ZSPD,large_airport,Shanghai Pudong International Airport,31.1434,121.805,CN,Shanghai,PVG',
+  '2,ZSSS,large_airport,Shanghai Hongqiao International Airport,31.1979,121.336,CN,Shanghai,SHA',
+  '3,CN-0001,heliport,Pudong Heliport,31.2,121.5,CN,Shanghai,PDH',
+  '4,ZZZZ,small_airport,No Code Field,0,0,CN,,',
+].join('\n')
+
+describe('parsePortFile', () => {
+  it('reads UN/LOCODE rows by function, with country names', () => {
+    const parsed = parsePortFile(UNLOCODE)
+
+    expect(parsed.format).toBe('unlocode')
+    expect(parsed.countries).toEqual({ CN: 'China' })
+    expect(parsed.ports.map(port => [port.code, port.port_type, port.iata_code])).toEqual([
+      ['CNSHA', 'seaport', null],
+      ['CNPVG', 'airport', 'PVG'],
+    ])
+    expect(parsed.ports[0]).toMatchObject({ subdivision: 'SH', latitude: 31.23333, longitude: 121.48333 })
+  })
+
+  it('reads IATA airport lists, skipping heliports and rows without a code', () => {
+    const parsed = parsePortFile(AIRPORTS)
+
+    expect(parsed.format).toBe('iata')
+    expect(parsed.ports.map(port => port.code)).toEqual(['PVG', 'SHA'])
+    expect(parsed.ports[0]).toMatchObject({
+      name: 'Shanghai Pudong International Airport',
+      country_code: 'CN',
+      port_type: 'airport',
+      city: 'Shanghai',
+      iata_code: 'PVG',
+      source: 'iata',
+    })
+  })
+
+  it('rejects files without ports', () => {
+    expect(() => parsePortFile('iata_code,name,iso_country\n')).toThrow('No airports found')
+    expect(() => parsePortFile('not,a,port,file')).toThrow('No locations found')
+  })
+})
+
+describe('matchExistingAirports', () => {
+  const [pudong] = parsePortFile(AIRPORTS).ports
+
+  it('updates the UN/LOCODE airport an IATA row matches', () => {
+    const [matched] = matchExistingAirports([pudong], [{ code: 'CNPVG', iata_code: 'PVG' }])
+
+    expect(matched).toMatchObject({ code: 'CNPVG', iata_code: 'PVG', source: 'iata' })
+  })
+
+  it('updates the IATA airport a UN/LOCODE row matches', () => {
+    const locode = parsePortFile(UNLOCODE).ports.find(port => port.port_type === 'airport')!
+
+    expect(matchExistingAirports([locode], [{ code: 'PVG', iata_code: 'PVG' }])[0].code).toBe('PVG')
+  })
+
+  it('keeps ports already stored under their own code', () => {
+    const existing = [{ code: 'CNPVG', iata_code: 'PVG' }, { code: 'PVG', iata_code: 'PVG' }]
+
+    expect(matchExistingAirports([pudong], existing)[0].code).toBe('PVG')
+  })
+
+  it('leaves new airports and other ports alone', () => {
+    const ports = parsePortFile(UNLOCODE).ports
+
+    expect(matchExistingAirports(ports, []).map(port => port.code)).toEqual(['CNSHA', 'CNPVG'])
+  })
+
+  it('drops later rows for a code the file already gave', () => {
+    const matched = matchExistingAirports([pudong, { ...pudong, name: 'Duplicate' }], [])
+
+    expect(matched).toHaveLength(1)
+    expect(matched[0].name).toBe('Shanghai Pudong International Airport')
+  })
+})
+
+describe('unLocodeFunctionType', () => {
+  it('prefers seaport, then airport, then inland', () => {
+    expect(unLocodeFunctionType('1--4----')).toBe('seaport')
+    expect(unLocodeFunctionType('---4----')).toBe('airport')
+    expect(unLocodeFunctionType('-23-----')).toBe('inland')
+    expect(unLocodeFunctionType('-------B')).toBeNull()
+  })
+})
+
+describe('parseUnLocodeCoordinates', () => {
+  it('reads degrees and minutes with hemispheres', () => {
+    expect(parseUnLocodeCoordinates('3352S 07040W')).toEqual({ latitude: -33.86667, longitude: -70.66667 })
+  })
+
+  it('returns nulls for missing or malformed values', () => {
+    expect(parseUnLocodeCoordinates('')).toEqual({ latitude: null, longitude: null })
+    expect(parseUnLocodeCoordinates('31N 121E')).toEqual({ latitude: null, longitude: null })
+  })
+})
+
+describe('sanitizeSearchTerm', () => {
+  it('strips characters that would break a PostgREST filter', () => {
+    expect(sanitizeSearchTerm('  São,Paulo)(*  ')).toBe('São Paulo')
+  })
+})
+
+describe('rankPorts', () => {
+  const port = (code: string, name: string, iata_code: string | null = null) =>
+    ({ code, name, city: name, iata_code }) as Pick<Port, 'code' | 'iata_code' | 'name' | 'city'>
+
+  it('puts exact codes first, then prefix matches, then the rest by name', () => {
+    const ranked = rankPorts([
+      port('CNNGB', 'Ningbo'),
+      port('CNSHA', 'Shanghai'),
+      port('CNPVG', 'Pudong Apt', 'PVG'),
+      port('CNSHK', 'Shekou'),
+    ], 'sh')
+
+    expect(ranked.map(p => p.code)).toEqual(['CNSHA', 'CNSHK', 'CNNGB', 'CNPVG'])
+    expect(rankPorts([port('CNSHA', 'Shanghai'), port('CNPVG', 'Pudong Apt', 'PVG')], 'pvg')[0].code).toBe('CNPVG')
+  })
+})
+
+describe('portMismatch', () => {
+  const shanghai = { code: 'CNSHA', country_code: 'CN' } as Port
+
+  it('accepts a port in the country', () => {
+    expect(portMismatch('origin_port', 'CNSHA', shanghai, 'cn')).toBeNull()
+  })
+
+  it('names unknown ports and ports in another country', () => {
+    expect(portMismatch('dest_port', 'XXXXX', undefined, 'DE')).toBe('Unknown dest_port "XXXXX"')
+    expect(portMismatch('dest_port', 'CNSHA', shanghai, 'DE')).toBe('dest_port CNSHA is in CN, not DE')
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * Ports for FreightView
+ *
+ * Reads the files that fill the `ports` table and ranks port searches:
+ * - UN/LOCODE code lists (the CSV parts of the UNECE release). Places
+ *   with a seaport function become seaports, then airports, then rail,
+ *   road or multimodal places as inland; postal-only codes are skipped.
+ *   Country rows (".CHINA") name any countries not yet in `countries`.
+ * - IATA airport lists with a header row, such as OurAirports'
+ *   airports.csv; airports are stored under their 3-letter IATA code.
+ *
+ * An airport in both kinds of file (CNPVG and PVG) is one port: imports
+ * match airports on their IATA code and keep the code stored first.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseCsv } from '@/lib/quote-extraction'
+import type { Port, PortType } from '@/types/database'
+
+export const PORT_TYPES: PortType[] = ['seaport', 'airport', 'inland']
+
+export type PortFileFormat = 'unlocode' | 'iata'
+
+/** A port read from an import file */
+export type PortInput = Omit<Port, 'updated_at'>
+
+/** What an import file holds */
+export interface ParsedPortFile {
+  format: PortFileFormat
+  ports: PortInput[]
+  /** Country names given by the file, by ISO code */
+  countries: Record<string, string>
+}
+
+/** OurAirports types that aren't cargo airports */
+const SKIPPED_AIRPORT_TYPES = ['closed', 'heliport', 'seaplane_base', 'balloonport']
+
+/**
+ * Whether a value is a known port type
+ */
+export function isPortType(value: unknown): value is PortType {
+  return typeof value === 'string' && PORT_TYPES.includes(value as PortType)
+}
+
+/**
+ * Parses a port file, detecting its format unless given
+ *
+ * @throws {Error} When the file can't be read or holds no ports
+ */
+export function parsePortFile(content: string, format?: PortFileFormat): ParsedPortFile {
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''))
+  const detected = format ?? detectPortFileFormat(rows)
+
+  const parsed = detected === 'iata' ? parseIataAirports(rows) : parseUnLocode(rows)
+  if (parsed.ports.length === 0) {
+    throw new Error(
+      detected === 'iata'
+        ? 'No airports found; expected a header with iata_code, name and iso_country columns'
+        : 'No locations found; expected UN/LOCODE rows (change, country, location, name, ...)'
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * IATA lists have a header naming an IATA column; UN/LOCODE parts don't
+ */
+function detectPortFileFormat(rows: string[][]): PortFileFormat {
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase())
+  return header.includes('iata_code') || header.includes('iata') ? 'iata' : 'unlocode'
+}
+
+/**
+ * Reads UN/LOCODE rows: change, country, location, name, name without
+ * diacritics, subdivision, status, function, date, IATA, coordinates,
+ * remarks. Rows marked for deletion ("X") are skipped.
+ */
+export function parseUnLocode(rows: string[][]): ParsedPortFile {
+  const ports: PortInput[] = []
+  const countries: Record<string, string> = {}
+
+  for (const cells of rows) {
+    const [change, country, location, name, plainName, subdivision, , functions = '', , iata, coordinates] =
+      cells.map(cell => cell.trim())
+    if (!/^[A-Z]{2}$/.test(country || '') || change === 'X') continue
+
+    // Country rows carry the name, e.g. ".CHINA", and no location
+    if (!location) {
+      if (name?.startsWith('.')) countries[country] = titleCase(name.slice(1))
+      continue
+    }
+
+    const portType = unLocodeFunctionType(functions)
+    if (!portType || !/^[A-Z0-9]{3}$/.test(location)) continue
+
+    // Official files are Latin-1, so prefer the plain name when decoding went wrong
+    const placeName = (plainName || name || '').trim()
+    const { latitude, longitude } = parseUnLocodeCoordinates(coordinates)
+    ports.push({
+      code: `${country}${location}`,
+      name: placeName,
+      country_code: country,
+      port_type: portType,
+      city: placeName,
+      subdivision: subdivision || null,
+      iata_code: portType === 'airport' ? (/^[A-Z]{3}$/.test(iata || '') ? iata : location) : null,
+      latitude,
+      longitude,
+      source: 'unlocode',
+    })
+  }
+
+  return { format: 'unlocode', ports, countries }
+}
+
+/**
+ * Reads an airport list with a header row. Recognised headers:
+ * iata_code/iata, name, iso_country/country_code/country,
+ * municipality/city, latitude_deg/latitude/lat, longitude_deg/longitude/lon,
+ * type. Rows without an IATA code are skipped.
+ */
+export function parseIataAirports(rows: string[][]): ParsedPortFile {
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase())
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h))
+
+  const codeCol = column('iata_code', 'iata')
+  const nameCol = column('name', 'airport', 'airport_name')
+  const countryCol = column('iso_country', 'country_code', 'country')
+  const cityCol = column('municipality', 'city')
+  const latCol = column('latitude_deg', 'latitude', 'lat')
+  const lonCol = column('longitude_deg', 'longitude', 'lon')
+  const typeCol = column('type')
+
+  if (codeCol < 0 || nameCol < 0 || countryCol < 0) {
+    throw new Error('Airport file header must include iata_code, name and iso_country columns')
+  }
+
+  const ports: PortInput[] = []
+  for (const cells of rows.slice(1)) {
+    const cell = (index: number) => (index >= 0 ? (cells[index] || '').trim() : '')
+    const code = cell(codeCol).toUpperCase()
+    const country = cell(countryCol).toUpperCase()
+    if (!/^[A-Z]{3}$/.test(code) || !/^[A-Z]{2}$/.test(country)) continue
+    if (SKIPPED_AIRPORT_TYPES.includes(cell(typeCol))) continue
+
+    const latitude = parseFloat(cell(latCol))
+    const longitude = parseFloat(cell(lonCol))
+    ports.push({
+      code,
+      name: cell(nameCol),
+      country_code: country,
+      port_type: 'airport',
+      city: cell(cityCol) || cell(nameCol),
+      subdivision: null,
+      iata_code: code,
+      latitude: Number.isFinite(latitude) ? round(latitude) : null,
+      longitude: Number.isFinite(longitude) ? round(longitude) : null,
+      source: 'iata',
+    })
+  }
+
+  return { format: 'iata', ports, countries: {} }
+}
+
+/**
+ * Gives imported airports the code of the port already stored for their
+ * IATA code, so importing the other kind of file updates that port rather
+ * than adding a second one. Ports already stored under their own code
+ * keep it. Later rows for a code the file already gave are dropped.
+ */
+export function matchExistingAirports(
+  ports: PortInput[],
+  existing: Pick<Port, 'code' | 'iata_code'>[]
+): PortInput[] {
+  const storedCodes = new Set(existing.map(port => port.code))
+  const codeByIata = new Map<string, string>()
+  for (const port of existing) {
+    if (port.iata_code && !codeByIata.has(port.iata_code)) {
+      codeByIata.set(port.iata_code, port.code)
+    }
+  }
+
+  const seen = new Set<string>()
+  const matched: PortInput[] = []
+  for (const port of ports) {
+    const code = port.port_type === 'airport' && port.iata_code && !storedCodes.has(port.code)
+      ? codeByIata.get(port.iata_code) ?? port.code
+      : port.code
+    if (seen.has(code)) continue
+    seen.add(code)
+    matched.push({ ...port, code })
+  }
+
+  return matched
+}
+
+/**
+ * Port type for a UN/LOCODE function string such as "1-3-----":
+ * 1 port, 2 rail, 3 road, 4 airport, 6 multimodal
+ */
+export function unLocodeFunctionType(functions: string): PortType | null {
+  if (functions.includes('1')) return 'seaport'
+  if (functions.includes('4')) return 'airport'
+  if (/[236]/.test(functions)) return 'inland'
+  return null
+}
+
+/**
+ * Reads UN/LOCODE coordinates, e.g. "3114N 12129E" (degrees and minutes)
+ */
+export function parseUnLocodeCoordinates(
+  value: string | undefined
+): { latitude: number | null; longitude: number | null } {
+  const match = value?.match(/^(\d{2})(\d{2})([NS])\s+(\d{3})(\d{2})([EW])$/)
+  if (!match) return { latitude: null, longitude: null }
+
+  const latitude = (Number(match[1]) + Number(match[2]) / 60) * (match[3] === 'S' ? -1 : 1)
+  const longitude = (Number(match[4]) + Number(match[5]) / 60) * (match[6] === 'W' ? -1 : 1)
+  return { latitude: round(latitude), longitude: round(longitude) }
+}
+
+/**
+ * Keeps (Latin) letters, digits, spaces, dots, hyphens and apostrophes so a
+ * search term can be embedded in a PostgREST filter
+ */
+export function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[^A-Za-z0-9\u00C0-\u024F .'-]+/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Orders search results: exact code matches, then names and cities
+ * starting with the term, then the rest by name
+ */
+export function rankPorts<T extends Pick<Port, 'code' | 'iata_code' | 'name' | 'city'>>(
+  ports: T[],
+  term: string
+): T[] {
+  const q = term.toLowerCase()
+  const score = (port: T) => {
+    if (port.code.toLowerCase() === q || port.iata_code?.toLowerCase() === q) return 0
+    if (port.name.toLowerCase().startsWith(q) || port.city?.toLowerCase().startsWith(q)) return 1
+    return 2
+  }
+  return [...ports].sort((a, b) => score(a) - score(b) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Label for pickers, e.g. "Shanghai (CNSHA), CN"
+ */
+export function describePort(port: Pick<Port, 'code' | 'name' | 'country_code'>): string {
+  return `${port.name} (${port.code}), ${port.country_code}`
+}
+
+/**
+ * Loads ports by code, keyed by code
+ */
+export async function loadPorts(
+  supabase: SupabaseClient,
+  codes: string[]
+): Promise<Map<string, Port>> {
+  if (codes.length === 0) return new Map()
+
+  const { data } = await supabase
+    .from('ports')
+    .select('*')
+    .in('code', codes)
+
+  return new Map(((data || []) as Port[]).map(port => [port.code, port]))
+}
+
+/**
+ * Why a port can't be used for a place in a country, or null if it can
+ */
+export function portMismatch(
+  field: 'origin_port' | 'dest_port',
+  code: string,
+  port: Port | undefined,
+  countryCode: string | null | undefined
+): string | null {
+  if (!port) return `Unknown ${field} "${code}"`
+  if (countryCode && port.country_code !== countryCode.toUpperCase()) {
+    return `${field} ${code} is in ${port.country_code}, not ${countryCode.toUpperCase()}`
+  }
+  return null
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s,(-])([a-z\u00E0-\u024F])/g, (_, lead, letter) => lead + letter.toUpperCase())
+}
+
+function round(value: number): number {
+  return Math.round(value * 100000) / 100000
+}
@@ -0,0 +1,130 @@
+/**
+ * Quote Analysis for FreightView
+ *
+ * Shared comparison logic across transport modes. Used by the analysis
+ * endpoint to build the comparison view and by the decision endpoint to
+ * snapshot the same comparison at the moment a quote is selected. Also decides which
+ * quotes are still bookable based on their validity date. Which option
+ * to recommend is decided by the scoring engine in lib/recommendation.
+ *
+ * Quotes are ranked on their landed cost (see lib/landed-cost) when it
+ * has been priced, otherwise on their normalised freight amount (see
+ * `normalizeQuotes` in lib/fx), otherwise on their own total.
+ */
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { TRANSPORT_MODES } from '@/lib/transport-modes'
+import type { Quote, TransportMode } from '@/types/database'
+
+/** Minimal quote shape needed for comparison */
+export type AnalyzableQuote = Pick<Quote, 'id' | 'mode' | 'total_amount' | 'eta' | 'transit_days'> & {
+  /** Amount in the comparison currency; null when it couldn't be converted */
+  normalized_total_amount?: number | null
+  /** Total landed cost in the comparison currency */
+  landed_cost?: number | null
+}
+
+/** Days before `valid_until` at which a quote is flagged as expiring soon */
+export const EXPIRY_WARNING_DAYS = 3
+
+/** Quotes for one mode, cheapest first */
+export interface ModeGroup<T extends AnalyzableQuote> {
+  mode: TransportMode
+  quotes: T[]
+  /** Cheapest quote with a comparable amount */
+  best: T | null
+}
+
+/** Result of comparing quotes across modes */
+export interface QuoteAnalysis<T extends AnalyzableQuote> {
+  /** Modes that have quotes, in TRANSPORT_MODES order */
+  modes: ModeGroup<T>[]
+  /** Cheapest quote of any mode */
+  cheapest: T | null
+  /** Best quote of the mode with the shortest transit */
+  fastest: T | null
+  /** What the cheapest quote saves over the fastest option */
+  potentialSavings: number | null
+  savingsPercentage: number | null
+}
+
+/**
+ * Amount a quote is compared on: landed cost when priced, else the
+ * normalised amount when quotes have been normalised, else its own total
+ */
+export function comparableAmount(quote: AnalyzableQuote): number | null {
+  if (quote.landed_cost !== undefined) return quote.landed_cost
+  return quote.normalized_total_amount !== undefined
+    ? quote.normalized_total_amount
+    : quote.total_amount
+}
+
+/**
+ * Groups quotes by mode, picks the cheapest of each, and derives the
+ * savings of the cheapest option over the fastest one. Quotes that
+ * couldn't be converted sort last and are never picked as best.
+ */
+export function analyzeQuotes<T extends AnalyzableQuote>(quotes: T[]): QuoteAnalysis<T> {
+  const byAmount = (a: T, b: T) =>
+    (comparableAmount(a) ?? Infinity) - (comparableAmount(b) ?? Infinity)
+
+  const modes = TRANSPORT_MODES
+    .map(mode => {
+      const modeQuotes = quotes.filter(q => q.mode === mode).sort(byAmount)
+      return {
+        mode,
+        quotes: modeQuotes,
+        best: modeQuotes.find(q => comparableAmount(q) !== null) || null,
+      }
+    })
+    .filter(group => group.quotes.length > 0)
+
+  const bests = modes
+    .map(group => group.best)
+    .filter((q): q is T => q !== null)
+
+  const cheapest = [...bests].sort(byAmount)[0] || null
+  const fastest = bests
+    .filter(q => q.transit_days !== null)
+    .sort((a, b) => (a.transit_days as number) - (b.transit_days as number) || byAmount(b, a))[0] || null
+
+  // Calculate savings
+  let potentialSavings: number | null = null
+  let savingsPercentage: number | null = null
+
+  if (cheapest && fastest && cheapest.mode !== fastest.mode) {
+    const fastestAmount = comparableAmount(fastest) as number
+    potentialSavings = Math.round((fastestAmount - (comparableAmount(cheapest) as number)) * 100) / 100
+    savingsPercentage = Math.round((potentialSavings / fastestAmount) * 100)
+  }
+
+  return {
+    modes,
+    cheapest,
+    fastest,
+    potentialSavings,
+    savingsPercentage,
+  }
+}
+
+/**
+ * Whether a quote can no longer be booked: marked expired, or an active
+ * quote whose validity date has passed but hasn't been swept yet.
+ * A quote is valid through the whole of its `valid_until` day.
+ */
+export function isQuoteExpired(
+  quote: Pick<Quote, 'status' | 'valid_until'>,
+  today: Date = new Date()
+): boolean {
+  if (quote.status === 'expired') return true
+  return quote.status === 'active' && !!quote.valid_until && quote.valid_until < format(today, 'yyyy-MM-dd')
+}
+
+/**
+ * Days left until a validity date (0 = last valid day, negative = expired),
+ * or null for quotes without one
+ */
+export function daysUntilExpiry(validUntil: string | null, today: Date = new Date()): number | null {
+  if (!validUntil) return null
+  return differenceInCalendarDays(parseISO(validUntil), parseISO(format(today, 'yyyy-MM-dd')))
+}
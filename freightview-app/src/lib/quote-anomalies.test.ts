@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { checksFailedWarning, detectQuoteAnomalies, type AnomalyContext, type CheckedQuote } from './quote-anomalies'
+
+const quote = (overrides: Partial<CheckedQuote> = {}): CheckedQuote => ({
+  mode: 'air',
+  currency: 'USD',
+  total_amount: 1000,
+  etd: '2024-03-01',
+  eta: '2024-03-04',
+  transit_days: 3,
+  chargeable_weight: 200,
+  freight_charge: null,
+  fuel_surcharge: null,
+  handling_charge: null,
+  documentation_fee: null,
+  terminal_handling: null,
+  other_charges: null,
+  ...overrides,
+})
+
+const cargo = { weight_kg: 200, volume_cbm: 1 }
+const noContext: AnomalyContext = { currency: 'USD', laneCostPerKg: {}, peers: [] }
+const codes = (warnings: { code: string }[]) => warnings.map(w => w.code)
+
+describe('detectQuoteAnomalies', () => {
+  it('passes a plausible quote with nothing to compare', () => {
+    expect(detectQuoteAnomalies(quote(), 1000, cargo, noContext)).toEqual([])
+  })
+
+  it('flags a cost per kg far from the lane history', () => {
+    const context = { ...noContext, laneCostPerKg: { air: [4.8, 5, 5, 5.1, 5.2] } }
+
+    const warnings = detectQuoteAnomalies(quote({ total_amount: 4000 }), 4000, cargo, context)
+    expect(codes(warnings)).toEqual(['lane_price_outlier'])
+    expect(warnings[0].message).toContain('USD 20.00')
+  })
+
+  it('needs enough lane history before judging the price', () => {
+    const context = { ...noContext, laneCostPerKg: { air: [5, 5, 5] } }
+
+    expect(detectQuoteAnomalies(quote({ total_amount: 4000 }), 4000, cargo, context)).toEqual([])
+  })
+
+  it('flags a total far below the other quotes on the request', () => {
+    const peer = { forwarder_id: 'f', mode: 'air' as const, freight_charge: null, fuel_surcharge: null,
+      handling_charge: null, documentation_fee: null, terminal_handling: null, other_charges: null }
+    const context = { ...noContext, peers: [{ ...peer, amount: 3000 }, { ...peer, amount: 3200 }] }
+
+    const warnings = detectQuoteAnomalies(quote(), 1000, cargo, context)
+    expect(codes(warnings)).toEqual(['request_price_outlier'])
+    expect(warnings[0].message).toContain('68% below')
+  })
+
+  it('flags missing expected charges and charges that do not add up', () => {
+    const warnings = detectQuoteAnomalies(quote({ freight_charge: 800 }), 1000, cargo, noContext)
+
+    expect(codes(warnings)).toEqual(['missing_charge', 'charges_mismatch'])
+    expect(warnings[0].message).toBe('No fuel surcharge itemised; air freight quotes usually list one')
+  })
+
+  it('flags an ETA before the ETD, or else an implausible transit', () => {
+    expect(codes(detectQuoteAnomalies(quote({ eta: '2024-02-28' }), 1000, cargo, noContext))).toEqual(['eta_before_etd'])
+    expect(codes(detectQuoteAnomalies(quote({ transit_days: 30 }), 1000, cargo, noContext))).toEqual(['implausible_transit'])
+  })
+})
+
+describe('checksFailedWarning', () => {
+  it('records why the checks could not run', () => {
+    expect(checksFailedWarning(new Error('Failed to load lane history'))).toEqual({
+      code: 'checks_failed',
+      message: "Anomaly checks couldn't run (Failed to load lane history); review this quote by hand",
+    })
+  })
+})
@@ -0,0 +1,319 @@
+/**
+ * Quote Anomaly Checks for FreightView
+ *
+ * Flags quotes that look wrong so they get a second look before anyone
+ * books them. Checks run when a quote is entered (manually or from an
+ * email) and again when its price or schedule changes, and their warnings
+ * are stored on the quote:
+ * - Price against the lane: cost per chargeable kg compared with the
+ *   organization's quotes for the same countries and mode over the last
+ *   LANE_HISTORY_MONTHS, by z-score and by multiple of the median
+ * - Price against the request: total compared with the other forwarders'
+ *   quotes for the same request and mode
+ * - Missing charges: an itemised quote without a charge its mode usually
+ *   carries, or that other quotes on the request itemise
+ * - Transit outside the plausible range for the mode, and ETA before ETD
+ * - Itemised charges that don't add up to the total
+ *
+ * Prices are compared in the organization's currency (see lib/fx).
+ * Warnings never block a quote. When the checks can't run, the quote
+ * carries a 'checks_failed' warning instead, so it doesn't pass for clean.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { subMonths } from 'date-fns'
+import { normalizeQuotes } from '@/lib/fx'
+import { calculateUnitCosts } from '@/lib/freight-math'
+import { MODE_LABELS } from '@/lib/transport-modes'
+import type { Quote, QuoteWarning, ShipmentRequest, TransportMode } from '@/types/database'
+
+/** Months of lane history a price is compared with */
+export const LANE_HISTORY_MONTHS = 12
+
+/** Fewest past quotes on a lane before its price history is trusted */
+const MIN_LANE_SAMPLES = 5
+
+/** |z-score| at which a price is an outlier */
+const OUTLIER_Z_SCORE = 3
+
+/** Multiple of (or fraction of) the lane median at which a price is an outlier */
+const LANE_OUTLIER_RATIO = 3
+
+/** Multiple of (or fraction of) the other quotes' median at which a price is an outlier */
+const REQUEST_OUTLIER_RATIO = 2
+
+/** Least gap from the median for a high z-score to count, so tight histories don't flag small moves */
+const MIN_OUTLIER_DEVIATION = 0.25
+
+/** Charges that make up total_amount; destination charges are billed separately */
+export const CHARGE_FIELDS = [
+  'freight_charge',
+  'fuel_surcharge',
+  'handling_charge',
+  'documentation_fee',
+  'terminal_handling',
+  'other_charges',
+] as const
+
+export type ChargeField = typeof CHARGE_FIELDS[number]
+
+const CHARGE_LABELS: Record<ChargeField, string> = {
+  freight_charge: 'freight charge',
+  fuel_surcharge: 'fuel surcharge',
+  handling_charge: 'handling charge',
+  documentation_fee: 'documentation fee',
+  terminal_handling: 'terminal handling',
+  other_charges: 'other charges',
+}
+
+/** Charges an itemised quote is expected to list for each mode */
+const EXPECTED_CHARGES: Record<TransportMode, ChargeField[]> = {
+  air: ['freight_charge', 'fuel_surcharge'],
+  sea_air: ['freight_charge', 'fuel_surcharge'],
+  sea: ['freight_charge', 'fuel_surcharge', 'terminal_handling'],
+  rail: ['freight_charge'],
+  road: ['freight_charge', 'fuel_surcharge'],
+  courier: ['freight_charge', 'fuel_surcharge'],
+}
+
+/** Door-to-door transit days that are believable for each mode */
+export const PLAUSIBLE_TRANSIT_DAYS: Record<TransportMode, { min: number; max: number }> = {
+  air: { min: 1, max: 10 },
+  sea_air: { min: 10, max: 40 },
+  sea: { min: 5, max: 75 },
+  rail: { min: 10, max: 45 },
+  road: { min: 1, max: 21 },
+  courier: { min: 1, max: 7 },
+}
+
+/** Quote fields the checks read */
+export type CheckedQuote = Pick<
+  Quote,
+  'mode' | 'currency' | 'total_amount' | 'etd' | 'eta' | 'transit_days' | 'chargeable_weight' | ChargeField
+> & Partial<Pick<Quote, 'id' | 'containers'>>
+
+/** Request fields the checks read */
+export type CheckedRequest = Pick<
+  ShipmentRequest,
+  'id' | 'user_id' | 'organization_id' | 'origin_country' | 'dest_country' | 'weight_kg' | 'volume_cbm'
+>
+
+/** What a quote is compared with, in the comparison currency */
+export interface AnomalyContext {
+  currency: string
+  /** Past costs per chargeable kg on the lane, by mode */
+  laneCostPerKg: Partial<Record<TransportMode, number[]>>
+  /** Other quotes on the request */
+  peers: (Pick<Quote, 'forwarder_id' | 'mode' | ChargeField> & { amount: number | null })[]
+}
+
+/**
+ * Warning stored in place of a quote's checks when they couldn't run
+ */
+export function checksFailedWarning(err: unknown): QuoteWarning {
+  return {
+    code: 'checks_failed',
+    message: `Anomaly checks couldn't run (${err instanceof Error ? err.message : String(err)}); review this quote by hand`,
+  }
+}
+
+/**
+ * Runs every check on quotes for a request, loading the lane history and
+ * the request's other quotes once. Returns warnings in the order given.
+ */
+export async function checkQuotes(
+  supabase: SupabaseClient,
+  request: CheckedRequest,
+  quotes: CheckedQuote[]
+): Promise<QuoteWarning[][]> {
+  if (quotes.length === 0) return []
+
+  const since = subMonths(new Date(), LANE_HISTORY_MONTHS).toISOString()
+  const checkedIds = quotes.map(q => q.id).filter((id): id is string => !!id)
+
+  let historyQuery = supabase
+    .from('requests')
+    .select(`
+      id,
+      weight_kg,
+      volume_cbm,
+      quotes!inner (id, mode, status, currency, total_amount, chargeable_weight, containers)
+    `)
+    .eq('origin_country', request.origin_country)
+    .eq('dest_country', request.dest_country)
+    .neq('id', request.id)
+    .neq('quotes.status', 'draft')
+    .gte('quotes.created_at', since)
+  historyQuery = request.organization_id
+    ? historyQuery.eq('organization_id', request.organization_id)
+    : historyQuery.is('organization_id', null).eq('user_id', request.user_id)
+
+  const [history, peers] = await Promise.all([
+    historyQuery,
+    supabase
+      .from('quotes')
+      .select(`forwarder_id, mode, status, currency, total_amount, id, ${CHARGE_FIELDS.join(', ')}`)
+      .eq('request_id', request.id)
+      .neq('status', 'draft'),
+  ])
+
+  if (history.error) throw new Error(history.error.message)
+  if (peers.error) throw new Error(peers.error.message)
+
+  type HistoryQuote = Pick<Quote, 'id' | 'mode' | 'currency' | 'total_amount' | 'chargeable_weight' | 'containers'>
+  type PeerQuote = Pick<Quote, 'id' | 'forwarder_id' | 'mode' | 'currency' | 'total_amount' | ChargeField>
+  const pastRequests = (history.data || []) as unknown as (Pick<ShipmentRequest, 'id' | 'weight_kg' | 'volume_cbm'> & {
+    quotes: HistoryQuote[]
+  })[]
+  const peerQuotes = ((peers.data || []) as unknown as PeerQuote[]).filter(q => !checkedIds.includes(q.id))
+
+  // Convert everything in one pass so every amount uses the same rates
+  const pastQuotes = pastRequests.flatMap(r => r.quotes.map(quote => ({ quote, request: r })))
+  const normalized = await normalizeQuotes(supabase, request.organization_id, [
+    ...quotes,
+    ...peerQuotes,
+    ...pastQuotes.map(p => p.quote),
+  ])
+  const amounts = normalized.quotes.map(q => q.normalized_total_amount)
+  const checkedAmounts = amounts.slice(0, quotes.length)
+  const peerAmounts = amounts.slice(quotes.length, quotes.length + peerQuotes.length)
+  const pastAmounts = amounts.slice(quotes.length + peerQuotes.length)
+
+  const laneCostPerKg: AnomalyContext['laneCostPerKg'] = {}
+  pastQuotes.forEach(({ quote, request: past }, i) => {
+    const costPerKg = calculateUnitCosts(quote, pastAmounts[i], past).cost_per_chargeable_kg
+    if (costPerKg !== null) {
+      laneCostPerKg[quote.mode] = [...(laneCostPerKg[quote.mode] || []), costPerKg]
+    }
+  })
+
+  const context: AnomalyContext = {
+    currency: normalized.fx.currency,
+    laneCostPerKg,
+    peers: peerQuotes.map((q, i) => ({ ...q, amount: peerAmounts[i] })),
+  }
+
+  return quotes.map((quote, i) => detectQuoteAnomalies(quote, checkedAmounts[i], request, context))
+}
+
+/**
+ * Checks one quote against its lane and request. `amount` is the quote's
+ * total in the context's currency, or null when it couldn't be converted.
+ */
+export function detectQuoteAnomalies(
+  quote: CheckedQuote,
+  amount: number | null,
+  cargo: Pick<ShipmentRequest, 'weight_kg' | 'volume_cbm'>,
+  context: AnomalyContext
+): QuoteWarning[] {
+  const warnings: QuoteWarning[] = []
+  const modeLabel = MODE_LABELS[quote.mode].label.toLowerCase()
+  const money = (value: number) => `${context.currency} ${value.toFixed(2)}`
+
+  // Price against the lane's history
+  const costPerKg = calculateUnitCosts(quote, amount, cargo).cost_per_chargeable_kg
+  const lane = context.laneCostPerKg[quote.mode] || []
+  if (costPerKg !== null && lane.length >= MIN_LANE_SAMPLES) {
+    const outlier = findOutlier(costPerKg, lane, LANE_OUTLIER_RATIO)
+    if (outlier) {
+      warnings.push({
+        code: 'lane_price_outlier',
+        message: `Cost per kg of ${money(costPerKg)} is ${describeRatio(outlier.ratio)} the lane median of ` +
+          `${money(outlier.median)} (z-score ${outlier.z.toFixed(1)} over ${lane.length} past ${modeLabel} quotes)`,
+      })
+    }
+  }
+
+  // Price against the other forwarders on this request
+  const peers = context.peers.filter(p => p.mode === quote.mode)
+  const peerAmounts = peers.map(p => p.amount).filter((a): a is number => a !== null)
+  if (amount !== null && peerAmounts.length >= 2) {
+    const outlier = findOutlier(amount, peerAmounts, REQUEST_OUTLIER_RATIO)
+    if (outlier) {
+      warnings.push({
+        code: 'request_price_outlier',
+        message: `Total of ${money(amount)} is ${describeRatio(outlier.ratio)} the median of the other ` +
+          `${peerAmounts.length} ${modeLabel} quotes on this request (${money(outlier.median)})`,
+      })
+    }
+  }
+
+  // Charges an itemised quote leaves out
+  const itemised = CHARGE_FIELDS.filter(field => quote[field] != null)
+  if (itemised.length > 0) {
+    const expected = new Set<ChargeField>(EXPECTED_CHARGES[quote.mode])
+    peers.forEach(peer => CHARGE_FIELDS.forEach(field => {
+      if (field !== 'other_charges' && peer[field] != null) expected.add(field)
+    }))
+    for (const field of CHARGE_FIELDS.filter(f => expected.has(f) && quote[f] == null)) {
+      const othersItemise = peers.some(peer => peer[field] != null)
+      warnings.push({
+        code: 'missing_charge',
+        message: `No ${CHARGE_LABELS[field]} itemised` + (othersItemise
+          ? `, though other ${modeLabel} quotes on this request list one`
+          : `; ${modeLabel} quotes usually list one`),
+      })
+    }
+
+    const sum = itemised.reduce((total, field) => total + Number(quote[field]), 0)
+    const tolerance = Math.max(1, quote.total_amount * 0.005)
+    if (Math.abs(sum - quote.total_amount) > tolerance) {
+      warnings.push({
+        code: 'charges_mismatch',
+        message: `Itemised charges add up to ${quote.currency} ${sum.toFixed(2)} but the total is ` +
+          `${quote.currency} ${Number(quote.total_amount).toFixed(2)}`,
+      })
+    }
+  }
+
+  // Schedule
+  if (quote.etd && quote.eta && quote.eta < quote.etd) {
+    warnings.push({
+      code: 'eta_before_etd',
+      message: `ETA ${quote.eta} is before ETD ${quote.etd}`,
+    })
+  } else if (quote.transit_days != null) {
+    const { min, max } = PLAUSIBLE_TRANSIT_DAYS[quote.mode]
+    if (quote.transit_days < min || quote.transit_days > max) {
+      warnings.push({
+        code: 'implausible_transit',
+        message: `Transit of ${quote.transit_days} days is unusual for ${modeLabel} (expected ${min}–${max} days)`,
+      })
+    }
+  }
+
+  return warnings
+}
+
+/**
+ * How a value compares with a sample, when it's an outlier: a z-score of
+ * at least OUTLIER_Z_SCORE (and some way from the median), or at least
+ * `ratio` times (or at most 1/ratio of) the median
+ */
+function findOutlier(
+  value: number,
+  sample: number[],
+  ratio: number
+): { median: number; ratio: number; z: number } | null {
+  const sorted = [...sample].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  const mean = sample.reduce((sum, v) => sum + v, 0) / sample.length
+  const sd = Math.sqrt(sample.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sample.length)
+  const z = sd > 0 ? (value - mean) / sd : 0
+
+  if (median <= 0) return null
+  const valueRatio = value / median
+  const zOutlier = Math.abs(z) >= OUTLIER_Z_SCORE && Math.abs(valueRatio - 1) >= MIN_OUTLIER_DEVIATION
+  if (zOutlier || valueRatio >= ratio || valueRatio <= 1 / ratio) {
+    return { median, ratio: valueRatio, z }
+  }
+  return null
+}
+
+/** "3.1× the" or "72% below" */
+function describeRatio(ratio: number): string {
+  return ratio >= 1
+    ? `${(Math.round(ratio * 10) / 10).toFixed(1)}×`
+    : `${Math.round((1 - ratio) * 100)}% below`
+}
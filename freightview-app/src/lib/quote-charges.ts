@@ -0,0 +1,360 @@
+/**
+ * Quote Charge Lines for FreightView
+ *
+ * Itemised quote charges mapped to the standard catalogue in
+ * `charge_codes`, so surcharges from different forwarders can be compared
+ * like for like:
+ * - Names as quoted ("Bunker surcharge", "LSS") are mapped to codes
+ *   through `charge_aliases`: the organization's aliases for the quoting
+ *   forwarder first, then its general aliases, then the shared ones. A
+ *   name that is a code maps to it; otherwise an exact alias wins, then
+ *   the longest alias found as whole words in the name. Names nothing
+ *   matches are filed under FALLBACK_CHARGE_CODE.
+ * - Each line has its own currency and basis. Per-unit lines are priced
+ *   at rate × quantity, the quantity defaulting to the quote's chargeable
+ *   weight, the request's volume or the quote's container count.
+ * - Lines roll up into the quote's charge fields and total_amount in the
+ *   quote's currency; destination lines go to destination_charges, which
+ *   isn't part of the total.
+ *
+ * Quotes without lines are broken down from their charge fields (see
+ * FIELD_CHARGE_CODES), so every quote can be compared on the same codes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { countContainers } from '@/lib/containers'
+import type { FxConverter } from '@/lib/fx'
+import type {
+  ChargeAlias,
+  ChargeBasis,
+  ChargeBreakdownLine,
+  ChargeCode,
+  ChargeQuoteField,
+  NormalizedQuote,
+  Quote,
+  QuoteCharge,
+  QuoteChargeInput,
+  ShipmentRequest,
+} from '@/types/database'
+
+export const CHARGE_BASES: ChargeBasis[] = ['per_shipment', 'per_kg', 'per_cbm', 'per_container', 'per_document']
+
+/** Code for charges no alias matches */
+export const FALLBACK_CHARGE_CODE = 'OTH'
+
+/** Code each charge field stands for on quotes without lines */
+export const FIELD_CHARGE_CODES: Record<ChargeQuoteField, string> = {
+  freight_charge: 'FRT',
+  fuel_surcharge: 'FSC',
+  handling_charge: 'ORG',
+  documentation_fee: 'DOC',
+  terminal_handling: 'OTHC',
+  other_charges: 'OTH',
+  destination_charges: 'DHC',
+}
+
+const CHARGE_QUOTE_FIELDS = Object.keys(FIELD_CHARGE_CODES) as ChargeQuoteField[]
+
+/** Codes and the aliases visible to an organization */
+export interface ChargeCatalogue {
+  codes: ChargeCode[]
+  aliases: ChargeAlias[]
+}
+
+/** A line ready to store, before it belongs to a quote */
+export type PricedCharge = Omit<QuoteCharge, 'id' | 'quote_id' | 'created_at'>
+
+/** Quote fields rolled up from its lines */
+export type ChargeRollup = Pick<Quote, ChargeQuoteField | 'total_amount'>
+
+/** Units a quote is charged on, for each basis; null when unknown */
+export type ChargeQuantities = Record<ChargeBasis, number | null>
+
+/**
+ * Writes a charge name the way aliases are stored: lower-cased, single
+ * spaces, without trailing punctuation
+ */
+export function normalizeChargeAlias(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.:;,]+$/, '').trim()
+}
+
+/**
+ * Checks user-supplied charge lines, returning the first error with its
+ * line number, or null
+ */
+export function validateQuoteCharges(charges: unknown): string | null {
+  if (!Array.isArray(charges)) {
+    return 'charges must be an array'
+  }
+  for (const [i, charge] of Array.from(charges.entries()) as [number, Partial<QuoteChargeInput>][]) {
+    if (!charge || typeof charge.name !== 'string' || !charge.name.trim() || charge.name.length > 100) {
+      return `charges[${i}]: name is required (up to 100 characters)`
+    }
+    if (charge.code !== undefined && typeof charge.code !== 'string') {
+      return `charges[${i}]: code must be a charge code`
+    }
+    if (charge.currency !== undefined && !/^[A-Za-z]{3}$/.test(String(charge.currency))) {
+      return `charges[${i}]: currency must be a 3-letter ISO 4217 code`
+    }
+    if (charge.basis !== undefined && !CHARGE_BASES.includes(charge.basis)) {
+      return `charges[${i}]: basis must be one of ${CHARGE_BASES.join(', ')}`
+    }
+    if (charge.quantity !== undefined && !(typeof charge.quantity === 'number' && charge.quantity > 0)) {
+      return `charges[${i}]: quantity must be greater than zero`
+    }
+    if (charge.rate !== undefined && typeof charge.rate !== 'number') {
+      return `charges[${i}]: rate must be a number`
+    }
+    if (charge.amount !== undefined && typeof charge.amount !== 'number') {
+      return `charges[${i}]: amount must be a number`
+    }
+    if (charge.amount === undefined && charge.rate === undefined) {
+      return `charges[${i}]: give an amount, or a rate to multiply by the quantity`
+    }
+  }
+  return null
+}
+
+/**
+ * Loads the charge codes and the shared and organization aliases
+ */
+export async function loadChargeCatalogue(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<ChargeCatalogue> {
+  let aliasQuery = supabase.from('charge_aliases').select('*')
+  aliasQuery = organizationId
+    ? aliasQuery.or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+    : aliasQuery.is('organization_id', null)
+
+  const [codes, aliases] = await Promise.all([
+    supabase.from('charge_codes').select('*').order('position', { ascending: true }),
+    aliasQuery,
+  ])
+
+  if (codes.error) throw new Error(`Failed to load charge codes: ${codes.error.message}`)
+  if (aliases.error) throw new Error(`Failed to load charge aliases: ${aliases.error.message}`)
+
+  return {
+    codes: (codes.data || []) as ChargeCode[],
+    aliases: (aliases.data || []) as ChargeAlias[],
+  }
+}
+
+/**
+ * Maps a charge name to a standard code, or null if nothing matches
+ */
+export function resolveChargeCode(
+  name: string,
+  catalogue: ChargeCatalogue,
+  forwarderId: string | null
+): string | null {
+  const normalized = normalizeChargeAlias(name)
+  const asCode = catalogue.codes.find(c => c.code.toLowerCase() === normalized)
+  if (asCode) return asCode.code
+
+  // Most specific aliases first: this forwarder's, the organization's, then shared
+  const tiers = [
+    catalogue.aliases.filter(a => a.organization_id && forwarderId && a.forwarder_id === forwarderId),
+    catalogue.aliases.filter(a => a.organization_id && !a.forwarder_id),
+    catalogue.aliases.filter(a => !a.organization_id),
+  ]
+
+  for (const aliases of tiers) {
+    const exact = aliases.find(a => a.alias === normalized)
+    if (exact) return exact.code
+  }
+
+  const words = ` ${normalized.replace(/[^a-z0-9/&-]+/g, ' ')} `
+  for (const aliases of tiers) {
+    const contained = aliases
+      .filter(a => words.includes(` ${a.alias} `))
+      .sort((a, b) => b.alias.length - a.alias.length)[0]
+    if (contained) return contained.code
+  }
+
+  return null
+}
+
+/**
+ * Units for each basis: one shipment or document, the quote's chargeable
+ * weight, the request's volume and the quote's container count
+ */
+export function chargeQuantities(
+  quote: Pick<Quote, 'chargeable_weight'> & Partial<Pick<Quote, 'containers'>>,
+  request: Pick<ShipmentRequest, 'volume_cbm'>
+): ChargeQuantities {
+  const containers = countContainers(quote.containers)
+  return {
+    per_shipment: 1,
+    per_document: 1,
+    per_kg: quote.chargeable_weight != null ? Number(quote.chargeable_weight) : null,
+    per_cbm: request.volume_cbm != null ? Number(request.volume_cbm) : null,
+    per_container: containers > 0 ? containers : null,
+  }
+}
+
+/**
+ * Maps and prices charge lines. Lines without a currency take the
+ * quote's. Returns an error for an unknown code or a per-unit line whose
+ * quantity can't be worked out; `unmapped` lists names filed under
+ * FALLBACK_CHARGE_CODE.
+ */
+export function priceCharges(
+  charges: QuoteChargeInput[],
+  catalogue: ChargeCatalogue,
+  context: { currency: string; forwarderId: string | null; quantities: ChargeQuantities }
+): { charges: PricedCharge[]; unmapped: string[] } | { error: string } {
+  const priced: PricedCharge[] = []
+  const unmapped: string[] = []
+
+  for (const [i, charge] of Array.from(charges.entries())) {
+    let code = charge.code?.trim().toUpperCase() || null
+    if (code && !catalogue.codes.some(c => c.code === code)) {
+      return { error: `charges[${i}]: unknown charge code ${charge.code}` }
+    }
+    if (!code) {
+      code = resolveChargeCode(charge.name, catalogue, context.forwarderId)
+      if (!code) {
+        code = FALLBACK_CHARGE_CODE
+        unmapped.push(charge.name.trim())
+      }
+    }
+
+    const basis = charge.basis ?? 'per_shipment'
+    const quantity = charge.quantity ?? (charge.rate !== undefined ? context.quantities[basis] : null)
+    if (charge.amount === undefined && quantity === null) {
+      return { error: `charges[${i}]: give a quantity for ${basis.replace('_', ' ')} charges` }
+    }
+
+    priced.push({
+      position: i,
+      code,
+      name: charge.name.trim(),
+      currency: (charge.currency || context.currency).toUpperCase(),
+      basis,
+      rate: charge.rate ?? null,
+      quantity,
+      amount: charge.amount ?? round((charge.rate as number) * (quantity as number)),
+    })
+  }
+
+  return { charges: priced, unmapped }
+}
+
+/**
+ * Sums lines into the quote's charge fields and total, in the quote's
+ * currency. Fields without lines are null.
+ */
+export function rollupCharges(
+  charges: Pick<QuoteCharge, 'code' | 'currency' | 'amount'>[],
+  codes: ChargeCode[],
+  converter: FxConverter
+): { fields: ChargeRollup } | { error: string } {
+  const sums: Partial<Record<ChargeQuoteField, number>> = {}
+  for (const charge of charges) {
+    const resolved = converter.rateFor(charge.currency)
+    if (!resolved) {
+      return { error: `No exchange rate from ${charge.currency} to ${converter.currency} for the charges` }
+    }
+    const field = codes.find(c => c.code === charge.code)?.quote_field ?? 'other_charges'
+    sums[field] = (sums[field] ?? 0) + Number(charge.amount) * resolved.rate
+  }
+
+  const fields = {} as ChargeRollup
+  for (const field of CHARGE_QUOTE_FIELDS) {
+    fields[field] = sums[field] !== undefined ? round(sums[field] as number) : null
+  }
+  fields.total_amount = round(
+    CHARGE_QUOTE_FIELDS
+      .filter(field => field !== 'destination_charges')
+      .reduce((sum, field) => sum + (fields[field] ?? 0), 0)
+  )
+
+  return { fields }
+}
+
+/**
+ * Replaces a quote's lines with priced ones
+ */
+export async function replaceQuoteCharges(
+  supabase: SupabaseClient,
+  quoteId: string,
+  charges: PricedCharge[]
+): Promise<QuoteCharge[]> {
+  const { error: deleteError } = await supabase
+    .from('quote_charges')
+    .delete()
+    .eq('quote_id', quoteId)
+
+  if (deleteError) {
+    throw new Error(`Failed to remove quote charges: ${deleteError.message}`)
+  }
+
+  if (charges.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('quote_charges')
+    .insert(charges.map(charge => ({ ...charge, quote_id: quoteId })))
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to save quote charges: ${error.message}`)
+  }
+
+  return ((data || []) as QuoteCharge[]).sort((a, b) => a.position - b.position)
+}
+
+/**
+ * A quote's charges by code in the comparison currency, in catalogue
+ * order. Lines are used when the quote has them; otherwise its charge
+ * fields, with any rest of the total as a line without a code. Null when
+ * an amount can't be converted.
+ */
+export function breakdownCharges(
+  quote: NormalizedQuote<Pick<Quote, 'total_amount' | ChargeQuoteField>>,
+  lines: Pick<QuoteCharge, 'code' | 'currency' | 'amount'>[],
+  codes: ChargeCode[],
+  converter: FxConverter
+): ChargeBreakdownLine[] | null {
+  const amounts = new Map<string | null, number>()
+  const add = (code: string | null, amount: number) => amounts.set(code, (amounts.get(code) ?? 0) + amount)
+
+  if (lines.length > 0) {
+    for (const line of lines) {
+      const resolved = converter.rateFor(line.currency)
+      if (!resolved) return null
+      add(line.code, Number(line.amount) * resolved.rate)
+    }
+  } else {
+    if (quote.normalized_total_amount === null) return null
+    const quoteRate = quote.fx_rate ?? 1
+    let itemised = 0
+    for (const field of CHARGE_QUOTE_FIELDS) {
+      const amount = Number(quote[field] ?? 0)
+      if (amount === 0) continue
+      add(FIELD_CHARGE_CODES[field], amount * quoteRate)
+      if (field !== 'destination_charges') itemised += amount
+    }
+    const rest = Number(quote.total_amount) - itemised
+    if (rest > 0.005) add(null, rest * quoteRate)
+  }
+
+  const position = (code: string | null) => codes.find(c => c.code === code)?.position ?? Infinity
+  return Array.from(amounts.entries())
+    .filter(([, amount]) => round(amount) !== 0)
+    .sort(([a], [b]) => position(a) - position(b))
+    .map(([code, amount]) => {
+      const chargeCode = codes.find(c => c.code === code)
+      return {
+        code,
+        name: chargeCode?.name ?? 'Not itemised',
+        amount: round(amount),
+        destination: chargeCode?.quote_field === 'destination_charges',
+      }
+    })
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,43 @@
+/**
+ * Quote Expiry for FreightView
+ *
+ * Sweeps active quotes whose validity date has passed to 'expired' so
+ * lists, filters and reports agree with the comparison, which already
+ * treats them as unbookable. Run periodically by the cron route.
+ */
+
+import { format } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Quote } from '@/types/database'
+
+/** A quote flipped to expired by a sweep */
+export type ExpiredQuote = Pick<Quote, 'id' | 'request_id' | 'forwarder_id' | 'mode' | 'valid_until'> & {
+  request: { organization_id: string | null } | null
+}
+
+/**
+ * Marks active quotes valid until before `today` as expired.
+ * Needs a service client: it works across all organizations.
+ *
+ * @returns The quotes that were expired
+ */
+export async function expireStaleQuotes(
+  supabase: SupabaseClient,
+  today: Date = new Date()
+): Promise<ExpiredQuote[]> {
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ status: 'expired' })
+    .eq('status', 'active')
+    .lt('valid_until', format(today, 'yyyy-MM-dd'))
+    .select(`
+      id, request_id, forwarder_id, mode, valid_until,
+      request:requests (organization_id)
+    `)
+
+  if (error) {
+    throw new Error(`Failed to expire quotes: ${error.message}`)
+  }
+
+  return (data || []) as unknown as ExpiredQuote[]
+}
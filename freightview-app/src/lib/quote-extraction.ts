@@ -0,0 +1,484 @@
+/**
+ * Quote Extraction for FreightView
+ *
+ * Pulls charges, currency, schedule and validity out of forwarder replies.
+ * Handles labelled lines in an email body ("Total: USD 4,250") and rate
+ * sheets attached as CSV or XLSX, either as label/value pairs or as a
+ * header row with one quote per row.
+ *
+ * Extraction is heuristic: results are stored as draft quotes and any
+ * assumptions are listed in `warnings` for the user to review.
+ */
+
+import { parse, isValid, format } from 'date-fns'
+import ExcelJS from 'exceljs'
+import type { TransportMode } from '@/types/database'
+
+/** Quote fields recovered from an email or attachment */
+export interface ExtractedQuote {
+  mode: TransportMode | null
+  currency: string | null
+  total_amount: number | null
+  freight_charge: number | null
+  fuel_surcharge: number | null
+  handling_charge: number | null
+  documentation_fee: number | null
+  terminal_handling: number | null
+  other_charges: number | null
+  etd: string | null
+  eta: string | null
+  transit_days: number | null
+  carrier: string | null
+  routing: string | null
+  valid_until: string | null
+  /** Assumptions made while extracting, for the reviewer */
+  warnings: string[]
+}
+
+/** An email attachment that may contain a rate sheet */
+export interface QuoteAttachment {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+type ExtractedField = Exclude<keyof ExtractedQuote, 'warnings'>
+
+const CHARGE_FIELDS: ExtractedField[] = [
+  'freight_charge',
+  'fuel_surcharge',
+  'handling_charge',
+  'documentation_fee',
+  'terminal_handling',
+  'other_charges',
+]
+
+/**
+ * Label patterns, checked in order against a lower-cased label.
+ * More specific labels come first ("terminal handling" before "handling").
+ */
+const FIELD_LABELS: [ExtractedField, RegExp][] = [
+  ['total_amount', /^(grand |all[- ]in |quote )?total\b|^all[- ]in\b|^(total )?(price|amount|cost)$/],
+  ['terminal_handling', /terminal|\bthc\b/],
+  ['fuel_surcharge', /fuel|\bbaf\b|\bfsc\b|bunker/],
+  ['documentation_fee', /^doc|documentation|\bb\/?l fee|\bawb fee/],
+  ['handling_charge', /handling/],
+  ['freight_charge', /freight|base rate|ocean rate|air rate/],
+  ['other_charges', /^other|misc|additional|surcharges?$/],
+  ['currency', /^(currency|ccy|curr)$/],
+  ['mode', /^(mode|service|transport mode|shipping mode)$/],
+  ['transit_days', /transit|^t\/?t$/],
+  ['etd', /^etd\b|departure|sailing date|^sailing$/],
+  ['eta', /^eta\b|arrival/],
+  ['valid_until', /valid|expir/],
+  ['carrier', /carrier|airline|shipping line|^line$/],
+  ['routing', /^rout(e|ing)$|^via$/],
+]
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'CNY',
+}
+
+/** ISO codes recognised next to amounts */
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CNY', 'RMB', 'HKD', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'INR', 'AED']
+
+/** Day-first formats are assumed for numeric dates, as is usual in freight */
+const DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'd MMM yyyy',
+  'd MMMM yyyy',
+  'MMM d, yyyy',
+  'MMMM d, yyyy',
+  'MMM d yyyy',
+  'd-MMM-yyyy',
+  'd-MMM-yy',
+  'dd/MM/yyyy',
+  'dd.MM.yyyy',
+  'dd-MM-yyyy',
+]
+
+/**
+ * Extracts quotes from the text of an email body.
+ * A body with "Air option" / "Sea option" style headings yields one quote
+ * per section; otherwise the whole body is read as a single quote.
+ */
+export function extractQuotesFromText(text: string): ExtractedQuote[] {
+  const sections = splitModeSections(text)
+  return sections
+    .map(({ mode, lines }) => {
+      const quote = extractFromLabelledLines(lines)
+      if (mode && !quote.mode) quote.mode = mode
+      if (!quote.mode) quote.mode = detectMode(lines.join('\n'))
+      return finalizeQuote(quote)
+    })
+    .filter(hasAmount)
+}
+
+/**
+ * Extracts quotes from spreadsheet rows.
+ * A header row of recognised labels yields one quote per data row;
+ * otherwise rows are read as label/value pairs describing a single quote.
+ */
+export function extractQuotesFromTable(rows: string[][]): ExtractedQuote[] {
+  const cleaned = rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''))
+
+  const headerIndex = cleaned.findIndex(row =>
+    row.filter(cell => cell && matchLabel(cell)).length >= 2
+  )
+
+  if (headerIndex >= 0 && cleaned[headerIndex].length > 2) {
+    const header = cleaned[headerIndex].map(cell => (cell ? matchLabel(cell) : null))
+    return cleaned
+      .slice(headerIndex + 1)
+      .map(row => {
+        const quote = emptyQuote()
+        row.forEach((cell, i) => {
+          const field = header[i]
+          if (field && cell) assignField(quote, field, cell)
+        })
+        if (!quote.mode) quote.mode = detectMode(row.join(' '))
+        return finalizeQuote(quote)
+      })
+      .filter(hasAmount)
+  }
+
+  const lines = cleaned
+    .filter(row => row.length >= 2)
+    .map(row => `${row[0]}: ${row.slice(1).filter(Boolean).join(' ')}`)
+  return extractQuotesFromText(lines.join('\n'))
+}
+
+/**
+ * Extracts quotes from a CSV or XLSX attachment.
+ * Other attachment types are ignored.
+ */
+export async function extractQuotesFromAttachment(
+  attachment: QuoteAttachment
+): Promise<ExtractedQuote[]> {
+  const filename = attachment.filename.toLowerCase()
+  const contentType = attachment.contentType.toLowerCase()
+
+  if (filename.endsWith('.csv') || contentType === 'text/csv') {
+    return extractQuotesFromTable(parseCsv(attachment.content.toString('utf8')))
+  }
+
+  if (
+    filename.endsWith('.xlsx') ||
+    contentType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ) {
+    const sheets = await readXlsxRows(attachment.content)
+    return sheets.flatMap(rows => extractQuotesFromTable(rows))
+  }
+
+  return []
+}
+
+/**
+ * Parses CSV content into rows of cells, detecting comma, semicolon or
+ * tab delimiters and honouring quoted fields
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '')
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Reads every worksheet of an XLSX workbook as rows of cell text.
+ * Date cells are rendered as ISO dates.
+ */
+async function readXlsxRows(content: Buffer): Promise<string[][][]> {
+  const workbook = new ExcelJS.Workbook()
+  // exceljs declares its own Buffer type that Node's Buffer doesn't satisfy
+  await workbook.xlsx.load(content as unknown as Parameters<typeof workbook.xlsx.load>[0])
+
+  return workbook.worksheets.map(sheet => {
+    const rows: string[][] = []
+    sheet.eachRow(row => {
+      const cells: string[] = []
+      row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+        cells[colNumber - 1] = cell.value instanceof Date
+          ? format(cell.value, 'yyyy-MM-dd')
+          : cell.text
+      })
+      rows.push(Array.from(cells, cell => cell ?? ''))
+    })
+    return rows
+  })
+}
+
+/**
+ * Splits a body into sections introduced by mode headings such as
+ * "Air freight option:", "OCEAN" or "Rail quote". Text before the first
+ * heading is shared context and is ignored when headings are present.
+ */
+function splitModeSections(text: string): { mode: TransportMode | null; lines: string[] }[] {
+  const lines = text.split(/\r?\n/)
+  const sections: { mode: TransportMode | null; lines: string[] }[] = []
+
+  for (const line of lines) {
+    const heading = line
+      .trim()
+      .toLowerCase()
+      .match(/^(?:option \d+\s*[-:]?\s*)?(sea[-\/ ]?air|air|sea|ocean|rail|road|truck(?:ing)?|courier|express)(?: ?freight)?(?: option| quote| quotation| rate)?\s*:?$/)
+
+    if (heading) {
+      sections.push({ mode: detectMode(heading[1]), lines: [] })
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line)
+    }
+  }
+
+  return sections.length > 0 ? sections : [{ mode: null, lines }]
+}
+
+/**
+ * Reads `Label: value` lines (also `Label = value` or label and value
+ * separated by a tab or a run of spaces)
+ */
+function extractFromLabelledLines(lines: string[]): ExtractedQuote {
+  const quote = emptyQuote()
+
+  for (const line of lines) {
+    const match = line.match(/^\s*[-*•]?\s*([A-Za-z][A-Za-z0-9 /&().'-]{0,40}?)\s*(?::|=|\t|\s{2,})\s*(.+?)\s*$/)
+    if (!match) continue
+
+    const field = matchLabel(match[1])
+    // First occurrence wins; later lines are often repeats in signatures or footers
+    if (field && quote[field] === null) {
+      assignField(quote, field, match[2])
+    }
+  }
+
+  return quote
+}
+
+function matchLabel(label: string): ExtractedField | null {
+  const normalized = label.toLowerCase().replace(/[()]/g, '').replace(/\s+/g, ' ').trim()
+  for (const [field, pattern] of FIELD_LABELS) {
+    if (pattern.test(normalized)) return field
+  }
+  return null
+}
+
+function assignField(quote: ExtractedQuote, field: ExtractedField, raw: string): void {
+  const value = raw.trim()
+
+  switch (field) {
+    case 'total_amount':
+    case 'freight_charge':
+    case 'fuel_surcharge':
+    case 'handling_charge':
+    case 'documentation_fee':
+    case 'terminal_handling':
+    case 'other_charges': {
+      const money = parseMoney(value)
+      if (money.amount !== null) {
+        quote[field] = money.amount
+        if (money.currency && !quote.currency) quote.currency = money.currency
+      }
+      break
+    }
+    case 'currency':
+      quote.currency = parseCurrency(value)
+      break
+    case 'mode':
+      quote.mode = detectMode(value)
+      break
+    case 'transit_days':
+      quote.transit_days = parseTransitDays(value)
+      break
+    case 'etd':
+    case 'eta':
+    case 'valid_until':
+      quote[field] = parseDate(value)
+      break
+    case 'carrier':
+    case 'routing':
+      quote[field] = value.slice(0, 100)
+      break
+  }
+}
+
+/**
+ * Parses an amount like "USD 4,250.00", "$4250", "3.500,00 EUR" or "4250"
+ */
+function parseMoney(value: string): { amount: number | null; currency: string | null } {
+  const currency = parseCurrency(value)
+  const numberMatch = value.match(/\d[\d.,' ]*/)
+  if (!numberMatch) return { amount: null, currency }
+
+  let digits = numberMatch[0].replace(/['\s]/g, '')
+  if (/^\d{1,3}(\.\d{3})+(,\d{1,2})?$/.test(digits) || /^\d+,\d{1,2}$/.test(digits)) {
+    // European format: dots for thousands, comma for decimals
+    digits = digits.replace(/\./g, '').replace(',', '.')
+  } else {
+    digits = digits.replace(/,/g, '')
+  }
+
+  const amount = parseFloat(digits)
+  return { amount: isNaN(amount) ? null : Math.round(amount * 100) / 100, currency }
+}
+
+function parseCurrency(value: string): string | null {
+  const code = value.toUpperCase().match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`))
+  if (code) return code[1] === 'RMB' ? 'CNY' : code[1]
+
+  for (const [symbol, iso] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (value.includes(symbol)) return iso
+  }
+  return null
+}
+
+/**
+ * Parses "28 days", "25-30 days" (upper bound) or "4 weeks"
+ */
+function parseTransitDays(value: string): number | null {
+  const match = value.match(/(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(day|d\b|week|wk)?/i)
+  if (!match) return null
+
+  const days = parseInt(match[2] || match[1])
+  return match[3] && /^w/i.test(match[3]) ? days * 7 : days
+}
+
+function parseDate(value: string): string | null {
+  const candidate = value.replace(/^(on|by|until|till)\s+/i, '').replace(/(\d)(st|nd|rd|th)\b/, '$1').trim()
+  const reference = new Date()
+
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(candidate, dateFormat, reference)
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd')
+  }
+
+  // Allow trailing text such as "2024-03-15 (subject to space)"
+  const iso = candidate.match(/\d{4}-\d{2}-\d{2}/)
+  if (iso && isValid(parse(iso[0], 'yyyy-MM-dd', reference))) return iso[0]
+
+  return null
+}
+
+/**
+ * Infers the transport mode from keywords, or null when ambiguous.
+ * Containers and FCL/LCL only suggest sea when rail or road isn't named.
+ */
+function detectMode(text: string): TransportMode | null {
+  const lower = text.toLowerCase()
+  if (/\bsea[-\/ ]?air\b|seaair/.test(lower)) return 'sea_air'
+
+  const matches: Record<Exclude<TransportMode, 'sea_air'>, boolean> = {
+    courier: /\bcourier\b|\bexpress\b|\bparcel\b/.test(lower),
+    rail: /\brail\b|railway|\btrain\b/.test(lower),
+    road: /\broad\b|\btruck|\blorry\b|\bftl\b|\bltl\b|\bcmr\b/.test(lower),
+    air: /\bair\b|airfreight|airport|\bawb\b|flight|airline/.test(lower),
+    sea: /\bsea\b|ocean|vessel|\bb\/l\b|shipping line|seafreight/.test(lower),
+  }
+  if (!matches.rail && !matches.road && /container|\bfcl\b|\blcl\b/.test(lower)) {
+    matches.sea = true
+  }
+  // Express air services are courier quotes
+  if (matches.courier) matches.air = false
+
+  const found = (Object.keys(matches) as (keyof typeof matches)[]).filter(mode => matches[mode])
+  return found.length === 1 ? found[0] : null
+}
+
+function emptyQuote(): ExtractedQuote {
+  return {
+    mode: null,
+    currency: null,
+    total_amount: null,
+    freight_charge: null,
+    fuel_surcharge: null,
+    handling_charge: null,
+    documentation_fee: null,
+    terminal_handling: null,
+    other_charges: null,
+    etd: null,
+    eta: null,
+    transit_days: null,
+    carrier: null,
+    routing: null,
+    valid_until: null,
+    warnings: [],
+  }
+}
+
+/**
+ * Fills derived fields and records the assumptions made
+ */
+function finalizeQuote(quote: ExtractedQuote): ExtractedQuote {
+  if (quote.total_amount === null) {
+    const charges = CHARGE_FIELDS
+      .map(field => quote[field] as number | null)
+      .filter((amount): amount is number => amount !== null)
+    if (charges.length > 0) {
+      quote.total_amount = Math.round(charges.reduce((sum, amount) => sum + amount, 0) * 100) / 100
+      quote.warnings.push('Total calculated from the listed charges')
+    }
+  }
+
+  if (quote.transit_days === null && quote.etd && quote.eta) {
+    quote.transit_days = Math.ceil(
+      (new Date(quote.eta).getTime() - new Date(quote.etd).getTime()) / (1000 * 60 * 60 * 24)
+    )
+  }
+
+  if (!quote.currency) {
+    quote.warnings.push('Currency not stated')
+  }
+  if (!quote.valid_until) {
+    quote.warnings.push('Validity date not stated')
+  }
+
+  return quote
+}
+
+function hasAmount(quote: ExtractedQuote): boolean {
+  return quote.total_amount !== null && quote.total_amount > 0
+}
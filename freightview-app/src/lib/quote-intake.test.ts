@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { prepareQuote, validateRoutingTerms, type IntakeRequest } from './quote-intake'
+import type { CreateQuoteInput } from '@/types/database'
+
+const requestData = {
+  id: 'req-1',
+  status: 'pending_quotes',
+  dg_class: null,
+} as IntakeRequest
+
+// Validation fails before any query, so no client is needed
+const noClient = {} as SupabaseClient
+
+const input = (overrides: Partial<CreateQuoteInput>) =>
+  ({ forwarder_id: 'fwd-1', mode: 'air', total_amount: 1000, ...overrides }) as Omit<CreateQuoteInput, 'request_id'>
+
+describe('prepareQuote', () => {
+  it('rejects totals that are not positive numbers', async () => {
+    for (const total of [-500, '900']) {
+      expect(await prepareQuote(noClient, requestData, input({ total_amount: total as number })))
+        .toEqual({ error: 'total_amount must be greater than zero' })
+    }
+  })
+
+  it('still asks for a total or charges first', async () => {
+    expect(await prepareQuote(noClient, requestData, input({ total_amount: 0 })))
+      .toEqual({ error: 'Missing required fields: forwarder_id, mode, total_amount (or charges)' })
+  })
+})
+
+describe('validateRoutingTerms', () => {
+  it('accepts port lists and whole free days', () => {
+    expect(validateRoutingTerms({ transshipment_ports: ['SGSIN'], free_days_origin: 0, free_days_dest: 14 })).toBeNull()
+  })
+
+  it('rejects blank ports and fractional or negative days', () => {
+    expect(validateRoutingTerms({ transshipment_ports: [' '] })).toBe('transshipment_ports must be a list of ports')
+    expect(validateRoutingTerms({ free_days_dest: 2.5 })).toBe('free_days_dest must be a whole number of days')
+    expect(validateRoutingTerms({ free_days_origin: -1 })).toBe('free_days_origin must be a whole number of days')
+  })
+})
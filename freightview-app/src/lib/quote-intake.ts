@@ -0,0 +1,305 @@
+/**
+ * Quote Intake for FreightView
+ *
+ * Validation, pricing and storage of a structured quote, shared by the
+ * manual quote endpoint and the forwarder portal. A quote is prepared
+ * first (checked against the request's dangerous goods and temperature
+ * range, its charges priced and rolled up, its anomalies checked) and
+ * saved afterwards, so several quotes can be checked before any is stored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { deriveQuoteRateFields } from '@/lib/freight-math'
+import { TRANSPORT_MODES, isTransportMode } from '@/lib/transport-modes'
+import { validateLoadType } from '@/lib/containers'
+import { loadDgClass, modeRestriction } from '@/lib/dangerous-goods'
+import {
+  validateTemperatureControl,
+  validateTemperatureRange,
+  temperatureComplianceIssue,
+} from '@/lib/temperature'
+import { loadFxConverter } from '@/lib/fx'
+import { checkQuotes, checksFailedWarning } from '@/lib/quote-anomalies'
+import {
+  chargeQuantities,
+  loadChargeCatalogue,
+  priceCharges,
+  replaceQuoteCharges,
+  rollupCharges,
+  validateQuoteCharges,
+  type ChargeRollup,
+  type PricedCharge,
+} from '@/lib/quote-charges'
+import type {
+  CreateQuoteInput,
+  Quote,
+  QuoteCharge,
+  QuoteSource,
+  QuoteWarning,
+  ShipmentRequest,
+} from '@/types/database'
+
+/** Request columns quote intake reads */
+export const INTAKE_REQUEST_COLUMNS =
+  'id, user_id, organization_id, status, origin_country, dest_country, weight_kg, volume_cbm, dg_class, temp_min_c, temp_max_c'
+
+export type IntakeRequest = Pick<
+  ShipmentRequest,
+  | 'id'
+  | 'user_id'
+  | 'organization_id'
+  | 'status'
+  | 'origin_country'
+  | 'dest_country'
+  | 'weight_kg'
+  | 'volume_cbm'
+  | 'dg_class'
+  | 'temp_min_c'
+  | 'temp_max_c'
+>
+
+/** A checked quote ready to store */
+export interface PreparedQuote {
+  fields: Partial<Quote>
+  pricing: ChargeRollup
+  /** Priced charge lines, when the quote is itemised */
+  priced: { charges: PricedCharge[]; unmapped: string[] } | null
+  warnings: QuoteWarning[]
+}
+
+/**
+ * Checks transshipment ports and free days, returning an error message or null
+ */
+export function validateRoutingTerms(
+  input: Partial<Pick<Quote, 'transshipment_ports' | 'free_days_origin' | 'free_days_dest'>>
+): string | null {
+  const ports = input.transshipment_ports
+  if (ports != null && (!Array.isArray(ports) || ports.some(port => typeof port !== 'string' || !port.trim()))) {
+    return 'transshipment_ports must be a list of ports'
+  }
+  for (const field of ['free_days_origin', 'free_days_dest'] as const) {
+    const days = input[field]
+    if (days !== undefined && !(Number.isInteger(days) && days >= 0)) {
+      return `${field} must be a whole number of days`
+    }
+  }
+  return null
+}
+
+/**
+ * Checks a quote against the request and works out its pricing, rate
+ * fields and anomaly warnings. Returns the first validation error, or
+ * throws when reference data can't be loaded.
+ */
+export async function prepareQuote(
+  supabase: SupabaseClient,
+  requestData: IntakeRequest,
+  input: Omit<CreateQuoteInput, 'request_id'>
+): Promise<PreparedQuote | { error: string }> {
+  if (!input.forwarder_id || !input.mode || (!input.total_amount && !input.charges?.length)) {
+    return { error: 'Missing required fields: forwarder_id, mode, total_amount (or charges)' }
+  }
+
+  if (!isTransportMode(input.mode)) {
+    return { error: `Mode must be one of: ${TRANSPORT_MODES.join(', ')}` }
+  }
+
+  // Itemised quotes are checked once their lines are priced
+  if (!input.charges?.length && !(typeof input.total_amount === 'number' && input.total_amount > 0)) {
+    return { error: 'total_amount must be greater than zero' }
+  }
+
+  if (input.currency !== undefined && !/^[A-Za-z]{3}$/.test(input.currency)) {
+    return { error: 'currency must be a 3-letter ISO 4217 code' }
+  }
+
+  const loadTypeError = validateLoadType(input.load_type, input.containers)
+  if (loadTypeError) {
+    return { error: loadTypeError }
+  }
+
+  // Dangerous goods can't be quoted on a mode their class forbids
+  if (requestData.dg_class) {
+    const dgClass = await loadDgClass(supabase, requestData.dg_class)
+    const restriction = dgClass && modeRestriction(dgClass, input.mode)
+    if (restriction) {
+      return { error: restriction }
+    }
+  }
+
+  const routingError = validateRoutingTerms(input)
+  if (routingError) {
+    return { error: routingError }
+  }
+
+  if (input.volumetric_divisor !== undefined && !(input.volumetric_divisor > 0)) {
+    return { error: 'volumetric_divisor must be greater than zero' }
+  }
+
+  const divisorOptions = { courier: input.is_courier, divisor: input.volumetric_divisor }
+  const currency = input.currency?.toUpperCase() || 'USD'
+
+  let pricing: ChargeRollup = {
+    total_amount: input.total_amount,
+    freight_charge: input.freight_charge ?? null,
+    fuel_surcharge: input.fuel_surcharge ?? null,
+    handling_charge: input.handling_charge ?? null,
+    documentation_fee: input.documentation_fee ?? null,
+    terminal_handling: input.terminal_handling ?? null,
+    other_charges: input.other_charges ?? null,
+    destination_charges: input.destination_charges ?? null,
+  }
+
+  // Itemised quotes take their charge fields and total from the lines
+  let priced: PreparedQuote['priced'] = null
+  if (input.charges?.length) {
+    const chargesError = validateQuoteCharges(input.charges)
+    if (chargesError) {
+      return { error: chargesError }
+    }
+
+    const catalogue = await loadChargeCatalogue(supabase, requestData.organization_id)
+    const { chargeable_weight } = deriveQuoteRateFields({ ...input, total_amount: null }, requestData, divisorOptions)
+    const result = priceCharges(input.charges, catalogue, {
+      currency,
+      forwarderId: input.forwarder_id,
+      quantities: chargeQuantities({ chargeable_weight, containers: input.containers }, requestData),
+    })
+    if ('error' in result) {
+      return { error: result.error }
+    }
+
+    const converter = await loadFxConverter(
+      supabase,
+      requestData.organization_id,
+      currency,
+      result.charges.map(c => c.currency)
+    )
+    const rollup = rollupCharges(result.charges, catalogue.codes, converter)
+    if ('error' in rollup) {
+      return { error: rollup.error }
+    }
+    if (!(rollup.fields.total_amount > 0)) {
+      return { error: 'Charges other than destination charges must add up to more than zero' }
+    }
+
+    priced = result
+    pricing = rollup.fields
+  }
+
+  const rateFields = deriveQuoteRateFields(
+    { ...input, total_amount: pricing.total_amount },
+    requestData,
+    divisorOptions
+  )
+
+  // Calculate transit days if not provided
+  let transitDays = input.transit_days
+  if (!transitDays && input.etd && input.eta) {
+    const etd = new Date(input.etd)
+    const eta = new Date(input.eta)
+    transitDays = Math.ceil((eta.getTime() - etd.getTime()) / (1000 * 60 * 60 * 24))
+  }
+
+  const temperatureError = validateTemperatureControl(input.temp_control) || validateTemperatureRange(input)
+  if (temperatureError) {
+    return { error: temperatureError }
+  }
+
+  // Temperature-controlled cargo only takes quotes that keep it in range
+  const temperature = {
+    temp_control: input.temp_control ?? null,
+    temp_min_c: input.temp_min_c ?? (input.temp_control ? requestData.temp_min_c : null),
+    temp_max_c: input.temp_max_c ?? (input.temp_control ? requestData.temp_max_c : null),
+  }
+  const complianceIssue = temperatureComplianceIssue(
+    { ...temperature, transit_days: transitDays ?? null },
+    requestData
+  )
+  if (complianceIssue) {
+    return { error: complianceIssue }
+  }
+
+  // Anomaly checks are advisory, so a failure is recorded, not raised
+  let warnings: QuoteWarning[] = []
+  try {
+    [warnings] = await checkQuotes(supabase, requestData, [{
+      mode: input.mode,
+      currency,
+      ...pricing,
+      etd: input.etd ?? null,
+      eta: input.eta ?? null,
+      transit_days: transitDays ?? null,
+      chargeable_weight: rateFields.chargeable_weight,
+      containers: input.containers ?? [],
+    }])
+  } catch (err) {
+    warnings = [checksFailedWarning(err)]
+  }
+
+  return {
+    fields: {
+      request_id: requestData.id,
+      forwarder_id: input.forwarder_id,
+      mode: input.mode,
+      currency: input.currency?.toUpperCase(),
+      ...pricing,
+      dg_accepted: input.dg_accepted,
+      load_type: input.load_type ?? (input.containers?.length ? 'fcl' : null),
+      containers: input.containers ?? [],
+      ...temperature,
+      ...rateFields,
+      etd: input.etd,
+      eta: input.eta,
+      transit_days: transitDays,
+      carrier: input.carrier,
+      routing: input.routing,
+      transshipment_ports: input.transshipment_ports?.map(port => port.trim()) ?? null,
+      free_days_origin: input.free_days_origin,
+      free_days_dest: input.free_days_dest,
+      valid_until: input.valid_until,
+      warnings,
+    },
+    pricing,
+    priced,
+    warnings,
+  }
+}
+
+/**
+ * Stores a prepared quote with its charge lines and moves a request
+ * waiting for quotes on to 'quotes_received'
+ */
+export async function saveQuote(
+  supabase: SupabaseClient,
+  requestData: Pick<IntakeRequest, 'id' | 'status'>,
+  prepared: PreparedQuote,
+  receivedVia: QuoteSource
+): Promise<{ quote: Quote; charges?: QuoteCharge[] }> {
+  const { data, error } = await supabase
+    .from('quotes')
+    .insert({ ...prepared.fields, received_via: receivedVia })
+    .select(`
+      *,
+      forwarder:forwarders (*)
+    `)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save quote: ${error.message}`)
+  }
+
+  const quote = data as Quote
+  const charges = prepared.priced
+    ? await replaceQuoteCharges(supabase, quote.id, prepared.priced.charges)
+    : undefined
+
+  if (requestData.status === 'pending_quotes') {
+    await supabase
+      .from('requests')
+      .update({ status: 'quotes_received' })
+      .eq('id', requestData.id)
+  }
+
+  return { quote, charges }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  getPortalRateLimit,
+  hashPortalToken,
+  openPortalLink,
+  portalLinkStatus,
+  portalUrl,
+  toPortalQuote,
+} from './quote-portal'
+import type { Quote, RequestForwarder } from '@/types/database'
+
+const NOW = new Date('2024-03-01T12:00:00Z')
+
+const link = (overrides: Partial<RequestForwarder> = {}) => ({
+  id: 'rf-1',
+  request_id: 'req-1',
+  forwarder_id: 'fwd-1',
+  portal_token_hash: hashPortalToken('secret'),
+  portal_expires_at: '2024-03-10T00:00:00Z',
+  portal_revoked_at: null,
+  portal_last_used_at: null,
+  ...overrides,
+}) as RequestForwarder
+
+/**
+ * Just enough of the Supabase client for openPortalLink: the link lookup,
+ * hit counts, the miss bucket and the writes it makes
+ */
+function fakeSupabase({ found = null as RequestForwarder | null, hits = 0, misses = 0 } = {}) {
+  const inserts: { table: string; row: unknown }[] = []
+  const rpcs: { name: string; args: unknown }[] = []
+
+  const from = (table: string) => {
+    const result =
+      table === 'portal_hits' ? { count: hits, error: null }
+        : table === 'portal_misses' ? { data: misses ? { misses } : null, error: null }
+          : { data: found, error: null }
+    const chain: any = {
+      select: () => chain,
+      eq: () => chain,
+      gt: () => chain,
+      gte: () => chain,
+      update: () => chain,
+      maybeSingle: () => Promise.resolve(result),
+      insert: (row: unknown) => {
+        inserts.push({ table, row })
+        return Promise.resolve({ error: null })
+      },
+      then: (resolve: (value: unknown) => void) => resolve(result),
+    }
+    return chain
+  }
+
+  const rpc = (name: string, args: unknown) => {
+    rpcs.push({ name, args })
+    return Promise.resolve({ data: misses + 1, error: null })
+  }
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, inserts, rpcs }
+}
+
+describe('portal tokens', () => {
+  it('stores tokens as SHA-256 hashes', () => {
+    expect(hashPortalToken('secret')).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashPortalToken('secret')).toBe(hashPortalToken('secret'))
+    expect(hashPortalToken('secret')).not.toBe(hashPortalToken('secret2'))
+  })
+
+  it('builds the portal page URL', () => {
+    expect(portalUrl('abc')).toBe('http://localhost:3000/portal/abc')
+  })
+})
+
+describe('portalLinkStatus', () => {
+  it('reads none, revoked, expired and active', () => {
+    expect(portalLinkStatus(link({ portal_token_hash: null }), NOW)).toBe('none')
+    expect(portalLinkStatus(link({ portal_revoked_at: '2024-02-28T00:00:00Z' }), NOW)).toBe('revoked')
+    expect(portalLinkStatus(link({ portal_expires_at: '2024-03-01T12:00:00Z' }), NOW)).toBe('expired')
+    expect(portalLinkStatus(link(), NOW)).toBe('active')
+  })
+})
+
+describe('toPortalQuote', () => {
+  it('keeps anomaly warnings from the forwarder', () => {
+    const quote = { id: 'q-1', total_amount: 1200, warnings: [{ code: 'lane_price_outlier', message: 'x' }] } as unknown as Quote
+
+    expect(toPortalQuote(quote)).not.toHaveProperty('warnings')
+  })
+})
+
+describe('openPortalLink', () => {
+  it('records a hit on an active link', async () => {
+    const { supabase, inserts, rpcs } = fakeSupabase({ found: link() })
+
+    expect(await openPortalLink(supabase, 'secret', '203.0.113.7', NOW)).toEqual({ link: link() })
+    expect(inserts).toEqual([{
+      table: 'portal_hits',
+      row: { request_forwarder_id: 'rf-1', ip_address: '203.0.113.7', created_at: NOW.toISOString() },
+    }])
+    expect(rpcs).toEqual([])
+  })
+
+  it('counts unknown tokens only in the IP bucket', async () => {
+    const { supabase, inserts, rpcs } = fakeSupabase()
+
+    expect(await openPortalLink(supabase, 'guess', '203.0.113.7', NOW)).toMatchObject({ status: 404 })
+    expect(inserts).toEqual([])
+    expect(rpcs).toEqual([{
+      name: 'record_portal_miss',
+      args: { p_ip_address: '203.0.113.7', p_now: NOW.toISOString() },
+    }])
+  })
+
+  it('limits an IP that keeps guessing tokens', async () => {
+    const { supabase } = fakeSupabase({ misses: getPortalRateLimit() })
+
+    expect(await openPortalLink(supabase, 'guess', '203.0.113.7', NOW)).toMatchObject({ code: 'RATE_LIMITED', status: 429 })
+  })
+
+  it('limits a real link once its IP has used the allowance on misses', async () => {
+    const { supabase, inserts } = fakeSupabase({ found: link(), misses: getPortalRateLimit() })
+
+    expect(await openPortalLink(supabase, 'secret', '203.0.113.7', NOW)).toMatchObject({ status: 429 })
+    expect(inserts).toEqual([])
+  })
+
+  it('limits a link that has used its allowance', async () => {
+    const { supabase } = fakeSupabase({ found: link(), hits: getPortalRateLimit() })
+
+    expect(await openPortalLink(supabase, 'secret', null, NOW)).toMatchObject({ status: 429 })
+  })
+
+  it('refuses revoked and expired links', async () => {
+    const revoked = fakeSupabase({ found: link({ portal_revoked_at: '2024-02-28T00:00:00Z' }) })
+    const expired = fakeSupabase({ found: link({ portal_expires_at: '2024-02-28T00:00:00Z' }) })
+
+    expect(await openPortalLink(revoked.supabase, 'secret', null, NOW)).toMatchObject({ code: 'PORTAL_REVOKED', status: 410 })
+    expect(await openPortalLink(expired.supabase, 'secret', null, NOW)).toMatchObject({ code: 'PORTAL_EXPIRED', status: 410 })
+  })
+})
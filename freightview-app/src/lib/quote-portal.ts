@@ -0,0 +1,305 @@
+/**
+ * Forwarder Quote Portal for FreightView
+ *
+ * Secure links that let a contacted forwarder see a request and enter
+ * its own quotes without an account:
+ * - Each `request_forwarders` row carries at most one link. Only a
+ *   SHA-256 hash of the token is stored, so the link is shown once when
+ *   issued (and in the RFQ email); issuing again replaces it
+ * - Links expire, can be revoked by the request's organization, and only
+ *   take quotes while the request is collecting them
+ * - Every call counts against an hourly limit per link and per client
+ *   IP (PORTAL_RATE_LIMIT, default 60). Calls on a link are kept in
+ *   `portal_hits`; calls with unknown tokens only add to the IP's count
+ *   in `portal_misses`
+ *
+ * Portal routes have no signed-in user, so they use the service client.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  PortalLink,
+  PortalLinkStatus,
+  PortalQuote,
+  Quote,
+  RequestForwarder,
+  RequestStatus,
+} from '@/types/database'
+
+/** Default lifetime of a portal link */
+export const DEFAULT_PORTAL_EXPIRY_DAYS = 14
+
+/** Longest lifetime a portal link can be issued for */
+export const MAX_PORTAL_EXPIRY_DAYS = 90
+
+/** Most quotes a forwarder can submit in one go */
+export const MAX_PORTAL_QUOTES = 20
+
+/** Request statuses in which the portal takes quotes */
+export const PORTAL_OPEN_STATUSES: RequestStatus[] = ['pending_quotes', 'quotes_received']
+
+/** Request columns shown to the forwarder (see PortalRequest) */
+export const PORTAL_REQUEST_COLUMNS = [
+  'id', 'reference',
+  'origin_city', 'origin_country', 'origin_port', 'dest_city', 'dest_country', 'dest_port',
+  'mode_preference', 'incoterms', 'cargo_type', 'cargo_description',
+  'weight_kg', 'volume_cbm', 'pieces', 'load_type', 'containers', 'is_stackable',
+  'is_hazmat', 'dg_un_number', 'dg_class', 'dg_packing_group',
+  'temperature_required', 'temp_min_c', 'temp_max_c',
+  'cargo_ready_date', 'delivery_required_date', 'special_instructions',
+].join(', ')
+
+/** Quote fields shown back to the forwarder */
+const PORTAL_QUOTE_FIELDS: (keyof PortalQuote)[] = [
+  'id', 'mode', 'status', 'currency', 'total_amount',
+  'freight_charge', 'fuel_surcharge', 'handling_charge', 'documentation_fee',
+  'terminal_handling', 'other_charges', 'destination_charges',
+  'load_type', 'containers', 'etd', 'eta', 'transit_days', 'carrier', 'routing',
+  'transshipment_ports', 'free_days_origin', 'free_days_dest', 'valid_until', 'created_at',
+]
+
+export const PORTAL_QUOTE_COLUMNS = PORTAL_QUOTE_FIELDS.join(', ')
+
+/**
+ * Most portal calls allowed per link, and per client IP, in an hour
+ */
+export function getPortalRateLimit(): number {
+  return parseInt(process.env.PORTAL_RATE_LIMIT || '60')
+}
+
+/**
+ * Hash a portal token is stored and looked up by
+ */
+export function hashPortalToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Portal page for a token
+ */
+export function portalUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${appUrl}/portal/${token}`
+}
+
+/**
+ * Gives a contacted forwarder a new portal link, replacing any earlier
+ * one, and returns its token
+ */
+export async function issuePortalLink(
+  supabase: SupabaseClient,
+  requestId: string,
+  forwarderId: string,
+  expiresInDays: number = DEFAULT_PORTAL_EXPIRY_DAYS
+): Promise<{ token: string; link: RequestForwarder }> {
+  const token = randomBytes(32).toString('hex')
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+  const { data, error } = await supabase
+    .from('request_forwarders')
+    .update({
+      portal_token_hash: hashPortalToken(token),
+      portal_expires_at: expiresAt.toISOString(),
+      portal_revoked_at: null,
+      portal_last_used_at: null,
+    })
+    .eq('request_id', requestId)
+    .eq('forwarder_id', forwarderId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to issue portal link: ${error.message}`)
+  }
+
+  return { token, link: data as RequestForwarder }
+}
+
+/**
+ * Whether a forwarder's link can be used
+ */
+export function portalLinkStatus(
+  link: Pick<RequestForwarder, 'portal_token_hash' | 'portal_expires_at' | 'portal_revoked_at'>,
+  now: Date = new Date()
+): PortalLinkStatus {
+  if (!link.portal_token_hash) return 'none'
+  if (link.portal_revoked_at) return 'revoked'
+  if (!link.portal_expires_at || new Date(link.portal_expires_at) <= now) return 'expired'
+  return 'active'
+}
+
+/**
+ * A forwarder's link as the request owner sees it
+ */
+export function describePortalLink(link: RequestForwarder, forwarderName: string | null): PortalLink {
+  return {
+    forwarder_id: link.forwarder_id,
+    forwarder_name: forwarderName,
+    status: portalLinkStatus(link),
+    expires_at: link.portal_expires_at,
+    revoked_at: link.portal_revoked_at,
+    last_used_at: link.portal_last_used_at,
+  }
+}
+
+/**
+ * A quote as the forwarder may see it: anomaly warnings compare it with
+ * other forwarders' quotes, so they stay with the buyer
+ */
+export function toPortalQuote(quote: Quote): PortalQuote {
+  return Object.fromEntries(PORTAL_QUOTE_FIELDS.map(field => [field, quote[field]])) as unknown as PortalQuote
+}
+
+/**
+ * Looks up a portal token, counts the call against the rate limits and
+ * returns the link if it can be used. Unknown, expired and revoked
+ * tokens still count against the caller's IP.
+ */
+export async function openPortalLink(
+  supabase: SupabaseClient,
+  token: string,
+  ip: string | null,
+  now: Date = new Date()
+): Promise<{ link: RequestForwarder } | { error: string; code?: string; status: 404 | 410 | 429 }> {
+  const { data, error } = token
+    ? await supabase
+      .from('request_forwarders')
+      .select('*')
+      .eq('portal_token_hash', hashPortalToken(token))
+      .maybeSingle()
+    : { data: null, error: null }
+
+  if (error) {
+    throw new Error(`Failed to look up portal link: ${error.message}`)
+  }
+
+  const link = data as RequestForwarder | null
+  const allowed = link
+    ? await recordPortalHit(supabase, link.id, ip, now)
+    : await recordPortalMiss(supabase, ip, now)
+  if (!allowed) {
+    return { error: 'Too many requests; please try again later', code: 'RATE_LIMITED', status: 429 }
+  }
+
+  if (!link) {
+    return { error: 'Portal link not found', status: 404 }
+  }
+
+  const status = portalLinkStatus(link, now)
+  if (status === 'revoked') {
+    return { error: 'This portal link has been revoked', code: 'PORTAL_REVOKED', status: 410 }
+  }
+  if (status === 'expired') {
+    return { error: 'This portal link has expired', code: 'PORTAL_EXPIRED', status: 410 }
+  }
+
+  await supabase
+    .from('request_forwarders')
+    .update({ portal_last_used_at: now.toISOString() })
+    .eq('id', link.id)
+
+  return { link }
+}
+
+/**
+ * Records a portal call on a link unless the link or IP has used up its
+ * hourly allowance; returns whether the call is allowed
+ */
+async function recordPortalHit(
+  supabase: SupabaseClient,
+  linkId: string,
+  ip: string | null,
+  now: Date
+): Promise<boolean> {
+  const [linkHits, ipCalls] = await Promise.all([
+    countPortalHits(supabase, 'request_forwarder_id', linkId, now),
+    ip ? countPortalCalls(supabase, ip, now) : 0,
+  ])
+
+  const limit = getPortalRateLimit()
+  if (linkHits >= limit || ipCalls >= limit) return false
+
+  const { error } = await supabase
+    .from('portal_hits')
+    .insert({ request_forwarder_id: linkId, ip_address: ip, created_at: now.toISOString() })
+
+  if (error) {
+    throw new Error(`Failed to record portal call: ${error.message}`)
+  }
+
+  return true
+}
+
+/**
+ * Counts a call with an unknown token against the client IP; returns
+ * whether the IP is still within its hourly allowance
+ */
+async function recordPortalMiss(
+  supabase: SupabaseClient,
+  ip: string | null,
+  now: Date
+): Promise<boolean> {
+  if (!ip) return true
+
+  const { data: misses, error } = await supabase
+    .rpc('record_portal_miss', { p_ip_address: ip, p_now: now.toISOString() })
+
+  if (error) {
+    throw new Error(`Failed to record portal call: ${error.message}`)
+  }
+
+  const hits = await countPortalHits(supabase, 'ip_address', ip, now)
+  return hits + (misses as number) <= getPortalRateLimit()
+}
+
+/**
+ * Calls from an IP in the last hour, on links and with unknown tokens
+ */
+async function countPortalCalls(
+  supabase: SupabaseClient,
+  ip: string,
+  now: Date
+): Promise<number> {
+  const [hits, { data, error }] = await Promise.all([
+    countPortalHits(supabase, 'ip_address', ip, now),
+    supabase
+      .from('portal_misses')
+      .select('misses')
+      .eq('ip_address', ip)
+      .gt('window_started_at', hourBefore(now))
+      .maybeSingle(),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to check portal rate limit: ${error.message}`)
+  }
+
+  return hits + (data?.misses ?? 0)
+}
+
+/**
+ * Portal calls on links in the last hour, by link or by IP
+ */
+async function countPortalHits(
+  supabase: SupabaseClient,
+  column: 'request_forwarder_id' | 'ip_address',
+  value: string,
+  now: Date
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('portal_hits')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+    .gte('created_at', hourBefore(now))
+
+  if (error) {
+    throw new Error(`Failed to check portal rate limit: ${error.message}`)
+  }
+
+  return count ?? 0
+}
+
+function hourBefore(now: Date): string {
+  return new Date(now.getTime() - 60 * 60 * 1000).toISOString()
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  NEUTRAL_RELIABILITY,
+  explainRanking,
+  rankQuotes,
+  resolveWeights,
+  validateWeights,
+  type ScorableQuote,
+  type ScoringContext,
+} from './recommendation'
+
+const quote = (id: string, fields: Partial<ScorableQuote> = {}) => ({
+  id,
+  mode: 'sea',
+  total_amount: 1000,
+  eta: null,
+  transit_days: null,
+  forwarder_id: `fw-${id}`,
+  transshipment_ports: null,
+  free_days_origin: null,
+  free_days_dest: null,
+  ...fields,
+}) as ScorableQuote
+
+const context = (fields: Partial<ScoringContext> = {}): ScoringContext => ({
+  deliveryRequiredDate: null,
+  weights: DEFAULT_RECOMMENDATION_WEIGHTS,
+  reliability: {},
+  currency: 'USD',
+  ...fields,
+})
+
+const costOnly = { cost: 100, transit: 0, deadline: 0, reliability: 0, transshipment: 0, free_days: 0 }
+
+const component = (ranking: ReturnType<typeof rankQuotes>, quoteId: string, factor: string) =>
+  ranking.find(r => r.quote_id === quoteId)?.breakdown.find(c => c.factor === factor)
+
+describe('resolveWeights', () => {
+  it('merges stored weights over the defaults', () => {
+    expect(resolveWeights({ cost: 70 })).toEqual({ ...DEFAULT_RECOMMENDATION_WEIGHTS, cost: 70 })
+    expect(resolveWeights(null)).toEqual(DEFAULT_RECOMMENDATION_WEIGHTS)
+  })
+
+  it('ignores negative weights', () => {
+    expect(resolveWeights({ transit: -5 }).transit).toBe(DEFAULT_RECOMMENDATION_WEIGHTS.transit)
+  })
+})
+
+describe('validateWeights', () => {
+  it('accepts a partial set of weights', () => {
+    expect(validateWeights({ cost: 60, free_days: 0 })).toBeNull()
+  })
+
+  it('rejects anything but an object', () => {
+    expect(validateWeights(null)).toMatch(/must be an object/)
+    expect(validateWeights([40])).toMatch(/must be an object/)
+  })
+
+  it('rejects unknown factors and negative weights', () => {
+    expect(validateWeights({ price: 10 })).toMatch(/Unknown recommendation factor "price"/)
+    expect(validateWeights({ cost: -1 })).toMatch(/non-negative number/)
+    expect(validateWeights({ cost: '40' })).toMatch(/non-negative number/)
+  })
+
+  it('rejects weights that are all zero', () => {
+    expect(validateWeights(costOnly)).toBeNull()
+    expect(validateWeights({ ...costOnly, cost: 0 })).toMatch(/greater than zero/)
+  })
+})
+
+describe('rankQuotes', () => {
+  it('scores cost from the cheapest to the dearest quote', () => {
+    const ranking = rankQuotes(
+      [quote('a', { total_amount: 2000 }), quote('b', { total_amount: 1000 }), quote('c', { total_amount: 1500 })],
+      context({ weights: costOnly })
+    )
+
+    expect(ranking.map(r => [r.quote_id, r.rank, r.score])).toEqual([
+      ['b', 1, 100],
+      ['c', 2, 50],
+      ['a', 3, 0],
+    ])
+  })
+
+  it('ranks on landed cost when it is known', () => {
+    const ranking = rankQuotes(
+      [quote('a', { total_amount: 1000, landed_cost: 5000 }), quote('b', { total_amount: 2000, landed_cost: 4000 })],
+      context({ weights: costOnly })
+    )
+
+    expect(ranking[0].quote_id).toBe('b')
+  })
+
+  it('rescales weights over the factors it could assess', () => {
+    const [ranked] = rankQuotes([quote('a')], context())
+
+    expect(ranked.breakdown.map(c => c.factor)).toEqual(['cost', 'reliability', 'transshipment', 'free_days'])
+    expect(ranked.breakdown.find(c => c.factor === 'cost')?.weight).toBe(0.6154)
+    expect(ranked.score).toBe(88.46)
+  })
+
+  it('scores buffer before the deadline', () => {
+    const ranking = rankQuotes(
+      [
+        quote('early', { eta: '2024-06-01' }),
+        quote('on-the-day', { eta: '2024-06-10' }),
+        quote('late', { eta: '2024-06-12' }),
+      ],
+      context({ deliveryRequiredDate: '2024-06-10' })
+    )
+
+    expect(component(ranking, 'early', 'deadline')?.score).toBe(100)
+    expect(component(ranking, 'on-the-day', 'deadline')?.score).toBe(40)
+    expect(component(ranking, 'late', 'deadline')).toMatchObject({
+      score: 0,
+      detail: 'Arrives 2 days after the deadline',
+    })
+  })
+
+  it('ranks quotes that miss the deadline below those that meet it', () => {
+    const ranking = rankQuotes(
+      [
+        quote('cheap-late', { total_amount: 500, eta: '2024-06-12' }),
+        quote('dear-on-time', { total_amount: 5000, eta: '2024-06-09' }),
+      ],
+      context({ deliveryRequiredDate: '2024-06-10' })
+    )
+
+    expect(ranking.map(r => [r.quote_id, r.meets_deadline])).toEqual([
+      ['dear-on-time', true],
+      ['cheap-late', false],
+    ])
+  })
+
+  it('ranks quotes without a comparable cost last', () => {
+    const ranking = rankQuotes(
+      [
+        quote('unconverted', { normalized_total_amount: null, transshipment_ports: [] }),
+        quote('dear', { total_amount: 9000, transshipment_ports: ['SGSIN', 'LKCMB'] }),
+      ],
+      context()
+    )
+
+    expect(ranking.map(r => r.quote_id)).toEqual(['dear', 'unconverted'])
+    expect(component(ranking, 'unconverted', 'cost')?.detail).toBe('Cost could not be compared')
+  })
+
+  it("uses the forwarder's reliability and a neutral score without one", () => {
+    const ranking = rankQuotes(
+      [quote('rated'), quote('unrated')],
+      context({ reliability: { 'fw-rated': { score: 90, detail: 'Reliability rating 90/100' } } })
+    )
+
+    expect(component(ranking, 'rated', 'reliability')?.score).toBe(90)
+    expect(component(ranking, 'unrated', 'reliability')).toMatchObject({
+      score: NEUTRAL_RELIABILITY,
+      detail: 'Forwarder not rated',
+    })
+    expect(ranking[0].quote_id).toBe('rated')
+  })
+
+  it('scores transshipments and free days', () => {
+    const ranking = rankQuotes(
+      [
+        quote('direct', { free_days_origin: 7, free_days_dest: 7 }),
+        quote('two-stops', { transshipment_ports: ['SGSIN', 'LKCMB'], free_days_dest: 7 }),
+      ],
+      context()
+    )
+
+    expect(component(ranking, 'direct', 'transshipment')?.score).toBe(100)
+    expect(component(ranking, 'two-stops', 'transshipment')).toMatchObject({ score: 33.33, detail: '2 transshipments' })
+    expect(component(ranking, 'two-stops', 'free_days')?.score).toBe(50)
+  })
+})
+
+describe('explainRanking', () => {
+  it('cites the strongest factors of the top quote', () => {
+    const ranking = rankQuotes(
+      [quote('a', { mode: 'rail', total_amount: 6200, transit_days: 20, eta: '2024-06-01' })],
+      context({ deliveryRequiredDate: '2024-06-10' })
+    )
+
+    expect(explainRanking(ranking)).toBe(
+      'Rail Freight scores 93/100: USD 6,200, arrives 9 days before the deadline.'
+    )
+  })
+
+  it('says when no quote meets the deadline', () => {
+    const ranking = rankQuotes([quote('a', { eta: '2024-06-12' })], context({ deliveryRequiredDate: '2024-06-10' }))
+
+    expect(explainRanking(ranking)).toMatch(/ No quote meets the delivery deadline\.$/)
+  })
+
+  it('returns null without quotes', () => {
+    expect(explainRanking([])).toBeNull()
+  })
+})
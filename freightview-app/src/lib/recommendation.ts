@@ -0,0 +1,341 @@
+/**
+ * Recommendation Engine for FreightView
+ *
+ * Scores every quote on a request from 0 to 100 and ranks them. Each
+ * factor is scored 0-100 and weighted by the organization's
+ * `recommendation_weights`:
+ * - cost: landed/normalised cost relative to the cheapest and dearest quote
+ * - transit: transit days relative to the fastest and slowest quote
+ * - deadline: days of buffer before the required delivery date; 0 when
+ *   late, 40 when arriving on the day, rising to 100 at DEADLINE_COMFORT_DAYS
+ * - reliability: the organization's 0-100 rating of the forwarder or,
+ *   without one, its on-time rate on delivered shipments (as on its
+ *   scorecard) once it has MIN_RELIABILITY_SHIPMENTS of them
+ * - transshipment: 100 for direct, 50 with one stop, 33 with two (100 / (1 + stops))
+ * - free_days: origin plus destination free days relative to the most offered
+ *
+ * Factors that can't be assessed (no deadline, no transit days) are left
+ * out and the remaining weights rescaled. Quotes that miss the deadline
+ * always rank below quotes that meet it, and quotes without a comparable
+ * cost rank last.
+ */
+
+import { differenceInCalendarDays, parseISO, subMonths } from 'date-fns'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { comparableAmount, type AnalyzableQuote } from '@/lib/quote-analysis'
+import { actualTransitDays } from '@/lib/forwarder-scorecard'
+import { MODE_LABELS } from '@/lib/transport-modes'
+import type {
+  Decision,
+  Quote,
+  ScoreFactor,
+  ScoreComponent,
+  RankedQuote,
+  RecommendationWeights,
+} from '@/types/database'
+
+/** Weights used when an organization hasn't set its own */
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  cost: 40,
+  transit: 15,
+  deadline: 20,
+  reliability: 15,
+  transshipment: 5,
+  free_days: 5,
+}
+
+/** Buffer before the deadline that earns a full deadline score */
+export const DEADLINE_COMFORT_DAYS = 7
+
+/** Reliability assumed for forwarders the organization hasn't rated */
+export const NEUTRAL_RELIABILITY = 50
+
+/** Delivered shipments needed before on-time performance stands in for a rating */
+export const MIN_RELIABILITY_SHIPMENTS = 3
+
+/** How far back delivered shipments count towards reliability */
+const RELIABILITY_PERIOD_MONTHS = 12
+
+/** A forwarder's 0-100 reliability and how it was arrived at */
+export interface ForwarderReliability {
+  score: number
+  detail: string
+}
+
+/** Quote fields the engine scores on */
+export type ScorableQuote = AnalyzableQuote &
+  Pick<Quote, 'forwarder_id' | 'transshipment_ports' | 'free_days_origin' | 'free_days_dest'>
+
+/** Everything outside the quotes that affects scoring */
+export interface ScoringContext {
+  deliveryRequiredDate: string | null
+  weights: RecommendationWeights
+  /** Forwarder ID → reliability */
+  reliability: Record<string, ForwarderReliability>
+  currency: string
+}
+
+export const SCORE_FACTORS: ScoreFactor[] = [
+  'cost',
+  'transit',
+  'deadline',
+  'reliability',
+  'transshipment',
+  'free_days',
+]
+
+/**
+ * Merges stored weights over the defaults
+ */
+export function resolveWeights(stored: Partial<RecommendationWeights> | null | undefined): RecommendationWeights {
+  const weights = { ...DEFAULT_RECOMMENDATION_WEIGHTS }
+  for (const factor of SCORE_FACTORS) {
+    const value = stored?.[factor]
+    if (typeof value === 'number' && value >= 0) weights[factor] = value
+  }
+  return weights
+}
+
+/**
+ * Checks user-supplied weights, returning an error message or null
+ */
+export function validateWeights(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'recommendation_weights must be an object'
+  }
+  for (const [factor, weight] of Object.entries(value)) {
+    if (!SCORE_FACTORS.includes(factor as ScoreFactor)) {
+      return `Unknown recommendation factor "${factor}"; expected one of ${SCORE_FACTORS.join(', ')}`
+    }
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      return `Weight for "${factor}" must be a non-negative number`
+    }
+  }
+  if (!SCORE_FACTORS.some(f => resolveWeights(value as Partial<RecommendationWeights>)[f] > 0)) {
+    return 'At least one recommendation weight must be greater than zero'
+  }
+  return null
+}
+
+/**
+ * Loads an organization's weights and its forwarders' reliability: the
+ * organization's own rating where it has one, otherwise the on-time rate
+ * of the forwarder's delivered shipments over the last year
+ */
+export async function loadScoringSettings(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<Pick<ScoringContext, 'weights' | 'reliability'>> {
+  if (!organizationId) {
+    return { weights: DEFAULT_RECOMMENDATION_WEIGHTS, reliability: {} }
+  }
+
+  const [{ data: organization }, { data: forwarders }, { data: booked, error: bookedError }] = await Promise.all([
+    supabase
+      .from('organizations')
+      .select('recommendation_weights')
+      .eq('id', organizationId)
+      .single(),
+    supabase
+      .from('organization_forwarders')
+      .select('forwarder_id, reliability_score')
+      .eq('organization_id', organizationId)
+      .not('reliability_score', 'is', null),
+    // Quotes won on the organization's requests, with the dates recorded
+    // on their decisions
+    supabase
+      .from('quotes')
+      .select('id, forwarder_id, transit_days, request:requests!inner (organization_id, decisions (selected_quote_id, shipped_at, delivered_at))')
+      .eq('status', 'selected')
+      .eq('request.organization_id', organizationId)
+      .not('transit_days', 'is', null)
+      .gte('created_at', subMonths(new Date(), RELIABILITY_PERIOD_MONTHS).toISOString()),
+  ])
+
+  if (bookedError) {
+    throw new Error(`Failed to load delivered shipments: ${bookedError.message}`)
+  }
+
+  const deliveries: Record<string, { shipments: number; onTime: number }> = {}
+  for (const quote of (booked || []) as unknown as BookedQuote[]) {
+    const decision = quote.request.decisions.find(d => d.selected_quote_id === quote.id)
+    if (!decision?.shipped_at || !decision.delivered_at) continue
+    const entry = deliveries[quote.forwarder_id] ?? { shipments: 0, onTime: 0 }
+    entry.shipments++
+    if (actualTransitDays(decision.shipped_at, decision.delivered_at) <= quote.transit_days) entry.onTime++
+    deliveries[quote.forwarder_id] = entry
+  }
+
+  const reliability: Record<string, ForwarderReliability> = {}
+  for (const [forwarderId, { shipments, onTime }] of Object.entries(deliveries)) {
+    if (shipments < MIN_RELIABILITY_SHIPMENTS) continue
+    reliability[forwarderId] = {
+      score: round((onTime / shipments) * 100),
+      detail: `On time on ${onTime} of ${shipments} delivered shipments`,
+    }
+  }
+  for (const row of forwarders || []) {
+    const score = Number(row.reliability_score)
+    reliability[row.forwarder_id] = { score, detail: `Reliability rating ${score}/100` }
+  }
+
+  return {
+    weights: resolveWeights(organization?.recommendation_weights),
+    reliability,
+  }
+}
+
+/** A won quote with the decisions on its request */
+interface BookedQuote {
+  id: string
+  forwarder_id: string
+  transit_days: number
+  request: { decisions: Pick<Decision, 'selected_quote_id' | 'shipped_at' | 'delivered_at'>[] }
+}
+
+/**
+ * Scores and ranks quotes, best first
+ */
+export function rankQuotes(quotes: ScorableQuote[], context: ScoringContext): RankedQuote[] {
+  const amounts = quotes.map(comparableAmount).filter((a): a is number => a !== null)
+  const transits = quotes.map(q => q.transit_days).filter((t): t is number => t !== null)
+  const maxFreeDays = Math.max(0, ...quotes.map(freeDays))
+
+  const scored = quotes.map(quote => {
+    const components: Omit<ScoreComponent, 'weight' | 'points'>[] = []
+    const amount = comparableAmount(quote)
+
+    components.push({
+      factor: 'cost',
+      score: amount === null ? 0 : invertedRange(amount, amounts),
+      detail: amount === null
+        ? 'Cost could not be compared'
+        : `${context.currency} ${amount.toLocaleString()}`,
+    })
+
+    if (quote.transit_days !== null && transits.length > 0) {
+      components.push({
+        factor: 'transit',
+        score: invertedRange(quote.transit_days, transits),
+        detail: `${quote.transit_days} days in transit`,
+      })
+    }
+
+    const bufferDays = context.deliveryRequiredDate && quote.eta
+      ? differenceInCalendarDays(parseISO(context.deliveryRequiredDate), parseISO(quote.eta))
+      : null
+    if (bufferDays !== null) {
+      components.push({
+        factor: 'deadline',
+        score: bufferDays < 0 ? 0 : Math.min(100, 40 + (60 * bufferDays) / DEADLINE_COMFORT_DAYS),
+        detail: bufferDays < 0
+          ? `Arrives ${-bufferDays} days after the deadline`
+          : `Arrives ${bufferDays} days before the deadline`,
+      })
+    }
+
+    const reliability = context.reliability[quote.forwarder_id]
+    components.push({
+      factor: 'reliability',
+      score: reliability?.score ?? NEUTRAL_RELIABILITY,
+      detail: reliability?.detail ?? 'Forwarder not rated',
+    })
+
+    const stops = quote.transshipment_ports?.length ?? 0
+    components.push({
+      factor: 'transshipment',
+      score: 100 / (1 + stops),
+      detail: stops === 0 ? 'Direct' : `${stops} transshipment${stops === 1 ? '' : 's'}`,
+    })
+
+    components.push({
+      factor: 'free_days',
+      score: maxFreeDays === 0 ? 100 : (freeDays(quote) / maxFreeDays) * 100,
+      detail: `${freeDays(quote)} free days`,
+    })
+
+    // Rescale weights over the factors that could be assessed
+    const totalWeight = components.reduce((sum, c) => sum + context.weights[c.factor], 0)
+    const breakdown: ScoreComponent[] = components.map(c => {
+      const weight = totalWeight > 0 ? context.weights[c.factor] / totalWeight : 0
+      return {
+        ...c,
+        score: round(c.score),
+        weight: round(weight, 4),
+        points: round(weight * c.score),
+      }
+    })
+
+    return {
+      quote,
+      amount,
+      meetsDeadline: bufferDays === null ? null : bufferDays >= 0,
+      score: round(breakdown.reduce((sum, c) => sum + c.points, 0)),
+      breakdown,
+    }
+  })
+
+  scored.sort((a, b) =>
+    Number(a.amount === null) - Number(b.amount === null) ||
+    Number(a.meetsDeadline === false) - Number(b.meetsDeadline === false) ||
+    b.score - a.score
+  )
+
+  return scored.map((entry, i) => ({
+    quote_id: entry.quote.id,
+    forwarder_id: entry.quote.forwarder_id,
+    mode: entry.quote.mode,
+    rank: i + 1,
+    score: entry.score,
+    meets_deadline: entry.meetsDeadline,
+    breakdown: entry.breakdown,
+  }))
+}
+
+/**
+ * One-line reason for the top-ranked quote, citing its strongest factors,
+ * e.g. "Rail Freight scores 81/100: USD 6,200, arrives 9 days before the deadline."
+ */
+export function explainRanking(ranking: RankedQuote[]): string | null {
+  const top = ranking[0]
+  if (!top) return null
+
+  const mode = MODE_LABELS[top.mode].label
+  const strengths = [...top.breakdown]
+    .filter(c => c.weight > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 2)
+    .map(c => lowerFirst(c.detail))
+
+  const caveat = top.meets_deadline === false
+    ? ' No quote meets the delivery deadline.'
+    : ''
+
+  return `${mode} scores ${Math.round(top.score)}/100: ${strengths.join(', ')}.${caveat}`
+}
+
+/**
+ * Score 100 for the lowest value in the range and 0 for the highest
+ */
+function invertedRange(value: number, values: number[]): number {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (max === min) return 100
+  return ((max - value) / (max - min)) * 100
+}
+
+/**
+ * Lower-cases a leading word for use mid-sentence, leaving codes like "USD" alone
+ */
+function lowerFirst(text: string): string {
+  return /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text
+}
+
+function freeDays(quote: ScorableQuote): number {
+  return (quote.free_days_origin || 0) + (quote.free_days_dest || 0)
+}
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
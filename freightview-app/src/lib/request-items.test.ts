@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { requestFieldsFromTotals, rollupItems } from './request-items'
+
+const item = (overrides: Partial<Parameters<typeof rollupItems>[0][number]> = {}) => ({
+  quantity: 2,
+  length_cm: 100,
+  width_cm: 50,
+  height_cm: 40,
+  gross_weight_kg: 25,
+  unit_value: 10,
+  un_number: null,
+  ...overrides,
+})
+
+describe('rollupItems', () => {
+  it('sums items by quantity', () => {
+    const totals = rollupItems([item(), item({ quantity: 1 })])
+
+    expect(totals).toMatchObject({
+      pieces: 3,
+      weight_kg: 75,
+      volume_cbm: 0.6,
+      value_usd: 30,
+    })
+  })
+
+  it('marks the request hazmat when an item has a UN number', () => {
+    expect(rollupItems([item(), item({ un_number: 'UN1266' })]).is_hazmat).toBe(true)
+  })
+
+  it('keeps a dangerous request hazmat when no item has a UN number', () => {
+    const totals = rollupItems([item()], { dangerous: true })
+
+    expect(totals.is_hazmat).toBe(true)
+    expect(requestFieldsFromTotals(totals).is_hazmat).toBe(true)
+  })
+
+  it('leaves other requests non-hazmat', () => {
+    expect(rollupItems([item()]).is_hazmat).toBe(false)
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * Request Items for FreightView
+ *
+ * Validation for packing list lines and the rollup of a request's items
+ * into its weight, volume, piece count, value and hazmat flag. Dimensions,
+ * weight and value on an item are per piece and multiplied by its
+ * quantity. Items missing a measure are left out of that total; a total
+ * is null when no item has it, and the request keeps the figure entered
+ * on it. Requests without items keep all their entered totals. The hazmat
+ * flag is always recalculated: items with UN numbers set it, as do a
+ * hazmat cargo type and a DG class, and items can only be given UN numbers
+ * once the request has its DG details.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  carriesDangerousGoods,
+  isUnNumber,
+  normalizeUnNumber,
+  validateDangerousGoods,
+} from '@/lib/dangerous-goods'
+import type {
+  RequestItem,
+  RequestItemInput,
+  RequestItemTotals,
+  ShipmentRequest,
+} from '@/types/database'
+
+const CM3_PER_CBM = 1000000
+
+/** Optional numeric item fields, all of which must be positive when set */
+const MEASURE_FIELDS = ['length_cm', 'width_cm', 'height_cm', 'gross_weight_kg'] as const
+
+/** Item fields accepted from the API */
+export const ITEM_FIELDS: (keyof RequestItemInput)[] = [
+  'description',
+  'hs_code',
+  'quantity',
+  'length_cm',
+  'width_cm',
+  'height_cm',
+  'gross_weight_kg',
+  'unit_value',
+  'un_number',
+]
+
+/**
+ * Checks a user-supplied item, returning an error message or null.
+ * With `partial`, only the fields present are checked.
+ */
+export function validateRequestItem(
+  item: Partial<RequestItemInput>,
+  { partial = false }: { partial?: boolean } = {}
+): string | null {
+  if (!partial || item.description !== undefined) {
+    if (typeof item.description !== 'string' || !item.description.trim()) {
+      return 'Item description is required'
+    }
+  }
+  if (!partial || item.quantity !== undefined) {
+    if (!Number.isInteger(item.quantity) || (item.quantity as number) < 1) {
+      return 'Item quantity must be a positive whole number'
+    }
+  }
+  for (const field of MEASURE_FIELDS) {
+    const value = item[field]
+    if (value !== undefined && value !== null && !(typeof value === 'number' && value > 0)) {
+      return `${field} must be greater than zero`
+    }
+  }
+  if (item.unit_value !== undefined && item.unit_value !== null && !(typeof item.unit_value === 'number' && item.unit_value >= 0)) {
+    return 'unit_value must not be negative'
+  }
+  if (item.un_number !== undefined && item.un_number !== null && item.un_number !== '' &&
+      !isUnNumber(item.un_number)) {
+    return 'un_number must be a 4-digit UN number, e.g. UN1266'
+  }
+  return null
+}
+
+/**
+ * Checks a list of items, returning the first error with its line number
+ */
+export function validateRequestItems(items: unknown): string | null {
+  if (!Array.isArray(items)) {
+    return 'items must be an array'
+  }
+  for (const [i, item] of Array.from(items.entries())) {
+    const error = validateRequestItem(item || {})
+    if (error) return `items[${i}]: ${error}`
+  }
+  return null
+}
+
+/**
+ * Tidies user-supplied item fields for storage: trims text and writes UN
+ * numbers as "UN1266". Only the fields present are returned.
+ */
+export function normalizeRequestItem(item: Partial<RequestItemInput>): Partial<RequestItemInput> {
+  const row: Partial<RequestItemInput> = {}
+  for (const field of ITEM_FIELDS) {
+    if (item[field] !== undefined) {
+      (row as Record<string, unknown>)[field] = item[field]
+    }
+  }
+  if (typeof row.description === 'string') {
+    row.description = row.description.trim()
+  }
+  if (row.hs_code !== undefined) {
+    row.hs_code = row.hs_code?.trim() || null
+  }
+  if (row.un_number !== undefined) {
+    row.un_number = normalizeUnNumber(row.un_number)
+  }
+  return row
+}
+
+/**
+ * Volume of one line in cbm, or null without all three dimensions
+ */
+export function itemVolumeCbm(
+  item: Pick<RequestItem, 'quantity' | 'length_cm' | 'width_cm' | 'height_cm'>
+): number | null {
+  if (!item.length_cm || !item.width_cm || !item.height_cm) return null
+  return (Number(item.length_cm) * Number(item.width_cm) * Number(item.height_cm) * item.quantity) / CM3_PER_CBM
+}
+
+/**
+ * Sums a packing list into request totals. `dangerous` says whether the
+ * request carries dangerous goods regardless of its items (a hazmat cargo
+ * type or a DG class).
+ */
+export function rollupItems(
+  items: Pick<RequestItem, 'quantity' | 'length_cm' | 'width_cm' | 'height_cm' | 'gross_weight_kg' | 'unit_value' | 'un_number'>[],
+  { dangerous = false }: { dangerous?: boolean } = {}
+): RequestItemTotals {
+  const sumOf = (values: (number | null)[]) => {
+    const known = values.filter((v): v is number => v !== null)
+    return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) : null
+  }
+
+  const weight = sumOf(items.map(i => (i.gross_weight_kg ? Number(i.gross_weight_kg) * i.quantity : null)))
+  const volume = sumOf(items.map(itemVolumeCbm))
+  const value = sumOf(items.map(i => (i.unit_value !== null ? Number(i.unit_value) * i.quantity : null)))
+
+  return {
+    pieces: items.reduce((sum, i) => sum + i.quantity, 0),
+    weight_kg: weight === null ? null : round(weight, 2),
+    volume_cbm: volume === null ? null : round(volume, 3),
+    value_usd: value === null ? null : round(value, 2),
+    is_hazmat: dangerous || carriesDangerousGoods({ items }),
+  }
+}
+
+/**
+ * Request fields to save from item totals: those the items provide
+ */
+export function requestFieldsFromTotals(totals: RequestItemTotals): Partial<ShipmentRequest> {
+  return Object.fromEntries(
+    Object.entries(totals).filter(([, value]) => value !== null)
+  )
+}
+
+/**
+ * Checks that a request can take an item with the given UN number: like a
+ * new request listing such items, it needs its own UN number and class.
+ * Returns an error message or null.
+ */
+export async function checkItemDangerousGoods(
+  supabase: SupabaseClient,
+  requestId: string,
+  unNumber: string | null | undefined
+): Promise<string | null> {
+  if (!unNumber) return null
+
+  const { data: request, error } = await supabase
+    .from('requests')
+    .select('dg_un_number, dg_class')
+    .eq('id', requestId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to load request: ${error.message}`)
+  }
+
+  return validateDangerousGoods(request, { required: true })
+    ? 'Add the request\'s dangerous goods details (dg_un_number and dg_class) before items with a UN number'
+    : null
+}
+
+/**
+ * Recalculates a request's totals from its items and saves those the
+ * items provide, along with the hazmat flag. Requests without items only
+ * have their hazmat flag recalculated.
+ */
+export async function syncRequestTotals(
+  supabase: SupabaseClient,
+  requestId: string
+): Promise<RequestItemTotals> {
+  const [{ data: items, error }, { data: request, error: requestError }] = await Promise.all([
+    supabase
+      .from('request_items')
+      .select('quantity, length_cm, width_cm, height_cm, gross_weight_kg, unit_value, un_number')
+      .eq('request_id', requestId),
+    supabase
+      .from('requests')
+      .select('dg_class, cargo:cargo_types (is_hazmat)')
+      .eq('id', requestId)
+      .single(),
+  ])
+
+  if (error || requestError) {
+    throw new Error(`Failed to load request items: ${(error || requestError)!.message}`)
+  }
+
+  const cargo = request.cargo as unknown as { is_hazmat: boolean } | null
+  const totals = rollupItems(items || [], {
+    dangerous: carriesDangerousGoods({ cargoIsHazmat: cargo?.is_hazmat, dgClass: request.dg_class }),
+  })
+
+  const { error: updateError } = await supabase
+    .from('requests')
+    .update(items?.length ? requestFieldsFromTotals(totals) : { is_hazmat: totals.is_hazmat })
+    .eq('id', requestId)
+
+  if (updateError) {
+    throw new Error(`Failed to update request totals: ${updateError.message}`)
+  }
+
+  return totals
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,146 @@
+/**
+ * Temperature Control for FreightView
+ *
+ * Structured temperature ranges for cold-chain cargo and the check that
+ * a quote will actually keep it in range:
+ * - The quote must offer temperature control (reefer, active or passive)
+ * - The range it holds must sit inside the range the cargo needs
+ * - Passive packaging only lasts so long, so transit must be within
+ *   `PASSIVE_MAX_TRANSIT_DAYS` (default 4)
+ *
+ * Requests whose cargo type has `requires_temp_control` must give a range.
+ */
+
+import type {
+  Quote,
+  ShipmentRequest,
+  TemperatureControl,
+} from '@/types/database'
+
+export const TEMPERATURE_CONTROLS: TemperatureControl[] = ['reefer', 'active', 'passive']
+
+export const TEMPERATURE_CONTROL_LABELS: Record<TemperatureControl, string> = {
+  reefer: 'Reefer',
+  active: 'Active container',
+  passive: 'Passive packaging',
+}
+
+/** Common ranges, in °C */
+export const TEMPERATURE_PRESETS = [
+  { id: 'frozen', label: 'Frozen', min: -25, max: -15 },
+  { id: 'chilled', label: 'Chilled', min: 2, max: 8 },
+  { id: 'ambient', label: 'Controlled ambient', min: 15, max: 25 },
+] as const
+
+/** Coldest and warmest settings accepted, in °C */
+const MIN_TEMPERATURE_C = -70
+const MAX_TEMPERATURE_C = 40
+
+/** A temperature range; either end may be open */
+export interface TemperatureRange {
+  temp_min_c?: number | null
+  temp_max_c?: number | null
+}
+
+type QuoteTemperature = Pick<Quote, 'temp_control' | 'temp_min_c' | 'temp_max_c' | 'transit_days'>
+
+/**
+ * Reads the longest transit passive packaging is trusted for, in days
+ */
+export function getPassiveMaxTransitDays(): number {
+  return parseFloat(process.env.PASSIVE_MAX_TRANSIT_DAYS || '4')
+}
+
+/**
+ * Whether a request has a temperature range to keep to
+ */
+export function hasTemperatureRange(range: TemperatureRange): boolean {
+  return range.temp_min_c != null || range.temp_max_c != null
+}
+
+/**
+ * Checks a temperature range, returning an error message or null. With
+ * `required` (the cargo type needs temperature control), at least one
+ * end must be given.
+ */
+export function validateTemperatureRange(
+  range: TemperatureRange,
+  { required = false }: { required?: boolean } = {}
+): string | null {
+  if (required && !hasTemperatureRange(range)) {
+    return 'This cargo type needs a temperature range (temp_min_c, temp_max_c)'
+  }
+  for (const field of ['temp_min_c', 'temp_max_c'] as const) {
+    const value = range[field]
+    if (value == null) continue
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `${field} must be a number`
+    }
+    if (value < MIN_TEMPERATURE_C || value > MAX_TEMPERATURE_C) {
+      return `${field} must be between ${MIN_TEMPERATURE_C} and ${MAX_TEMPERATURE_C} °C`
+    }
+  }
+  if (range.temp_min_c != null && range.temp_max_c != null && range.temp_min_c > range.temp_max_c) {
+    return 'temp_min_c must not be above temp_max_c'
+  }
+  return null
+}
+
+/**
+ * Checks a quote's temperature control value, returning an error message or null
+ */
+export function validateTemperatureControl(value: unknown): string | null {
+  if (value == null) return null
+  if (!TEMPERATURE_CONTROLS.includes(value as TemperatureControl)) {
+    return `temp_control must be one of ${TEMPERATURE_CONTROLS.join(', ')}`
+  }
+  return null
+}
+
+function formatDegrees(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}`
+}
+
+/**
+ * Writes a range for display, e.g. "+2 to +8 °C", "below -18 °C"
+ */
+export function formatTemperatureRange(range: TemperatureRange): string | null {
+  const { temp_min_c: min, temp_max_c: max } = range
+  if (min != null && max != null) return `${formatDegrees(min)} to ${formatDegrees(max)} °C`
+  if (min != null) return `above ${formatDegrees(min)} °C`
+  if (max != null) return `below ${formatDegrees(max)} °C`
+  return null
+}
+
+/**
+ * Why a quote can't be trusted with a request's cargo, or null if it
+ * complies (or the cargo doesn't need temperature control). A quote that
+ * states no range is taken to hold the requested one.
+ */
+export function temperatureComplianceIssue(
+  quote: QuoteTemperature,
+  request: Pick<ShipmentRequest, 'temp_min_c' | 'temp_max_c'>
+): string | null {
+  if (!hasTemperatureRange(request)) return null
+
+  const needed = formatTemperatureRange(request)
+  if (!quote.temp_control) {
+    return `No temperature control offered; cargo needs ${needed}`
+  }
+
+  const holdsMin = quote.temp_min_c ?? request.temp_min_c
+  const holdsMax = quote.temp_max_c ?? request.temp_max_c
+  const tooCold = request.temp_min_c != null && (holdsMin == null || holdsMin < request.temp_min_c)
+  const tooWarm = request.temp_max_c != null && (holdsMax == null || holdsMax > request.temp_max_c)
+  if (tooCold || tooWarm) {
+    const holds = formatTemperatureRange({ temp_min_c: holdsMin, temp_max_c: holdsMax })
+    return `Holds ${holds ?? 'an unstated range'}; cargo needs ${needed}`
+  }
+
+  const passiveLimit = getPassiveMaxTransitDays()
+  if (quote.temp_control === 'passive' && quote.transit_days != null && quote.transit_days > passiveLimit) {
+    return `Passive packaging is only trusted for ${passiveLimit} days; transit is ${quote.transit_days} days`
+  }
+
+  return null
+}
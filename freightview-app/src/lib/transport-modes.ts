@@ -0,0 +1,49 @@
+/**
+ * Transport Modes for FreightView
+ *
+ * The modes a quote can be for, in display order, with their labels.
+ * Shared by the API (validation, grouping) and the UI (filters, badges).
+ * - air, sea: port-to-port air and ocean freight
+ * - sea_air: ocean to a hub, then air on (e.g. via Dubai or Singapore)
+ * - rail: block trains such as the China–Europe corridor
+ * - road: FTL/LTL trucking
+ * - courier: express parcel services
+ */
+
+import type { ModePreference, TransportMode } from '@/types/database'
+
+/** Every mode, in the order modes are listed in comparisons */
+export const TRANSPORT_MODES: TransportMode[] = ['air', 'sea_air', 'sea', 'rail', 'road', 'courier']
+
+/** Display label and icon for each mode */
+export const MODE_LABELS: Record<TransportMode, { label: string; icon: string }> = {
+  air: { label: 'Air Freight', icon: '✈️' },
+  sea_air: { label: 'Sea-Air', icon: '🛳️' },
+  sea: { label: 'Sea Freight', icon: '🚢' },
+  rail: { label: 'Rail Freight', icon: '🚆' },
+  road: { label: 'Road Freight', icon: '🚚' },
+  courier: { label: 'Courier', icon: '📦' },
+}
+
+/**
+ * Label for a request's mode preference, e.g. "Rail Freight" or
+ * "Any suitable mode"
+ */
+export function modePreferenceLabel(preference: ModePreference): string {
+  return preference === 'any' ? 'Any suitable mode' : MODE_LABELS[preference].label
+}
+
+/**
+ * Whether a value is a known transport mode
+ */
+export function isTransportMode(value: unknown): value is TransportMode {
+  return typeof value === 'string' && TRANSPORT_MODES.includes(value as TransportMode)
+}
+
+/**
+ * Label with icon, e.g. "🚆 Rail Freight"
+ */
+export function describeMode(mode: TransportMode): string {
+  const { icon, label } = MODE_LABELS[mode]
+  return `${icon} ${label}`
+}
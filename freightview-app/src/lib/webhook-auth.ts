@@ -0,0 +1,30 @@
+/**
+ * Shared-Secret Authentication for FreightView
+ *
+ * Endpoints called by infrastructure rather than a signed-in user (mail
+ * provider webhooks, cron schedulers) authenticate with a shared secret,
+ * sent as a bearer token or, for callers that can't set headers, a
+ * `token` query parameter.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+
+/**
+ * Checks the request carries the given secret. Always false when the
+ * secret isn't configured, so unconfigured endpoints stay closed.
+ */
+export function hasSharedSecret(request: NextRequest, secret: string | undefined): boolean {
+  if (!secret) {
+    return false
+  }
+
+  const provided =
+    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ||
+    request.nextUrl.searchParams.get('token') ||
+    ''
+
+  const expected = Buffer.from(secret)
+  const actual = Buffer.from(provided)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
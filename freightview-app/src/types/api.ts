@@ -16,6 +16,41 @@ import type {
   Decision,
   CreateRequestInput,
   CreateQuoteInput,
+  Organization,
+  OrganizationInvite,
+  Profile,
+  UserRole,
+  ActivityLog,
+  InboundEmailStatus,
+  FxRate,
+  TariffRate,
+  RankedQuote,
+  RecommendationWeights,
+  NormalizedQuote,
+  CurrencyNormalization,
+  ModePreference,
+  TransportMode,
+  LoadType,
+  ContainerCount,
+  RequestItem,
+  RequestItemInput,
+  RequestItemTotals,
+  PackingGroup,
+  TemperatureControl,
+  Incoterm,
+  Port,
+  PortType,
+  ForwarderScorecard,
+  LaneGrouping,
+  LaneRateHistory,
+  ChargeAlias,
+  ChargeCode,
+  QuoteCharge,
+  QuoteChargeInput,
+  PortalLink,
+  PortalQuote,
+  PortalQuoteInput,
+  PortalRequest,
 } from './database'
 
 // =====================
@@ -108,15 +143,26 @@ export interface UpdateRequestRequest {
   origin_country?: string
   dest_city?: string
   dest_country?: string
+  origin_port?: string | null
+  dest_port?: string | null
   cargo_type?: string
   cargo_description?: string
+  hs_code?: string | null
   weight_kg?: number
   volume_cbm?: number
   pieces?: number
   value_usd?: number
+  temp_min_c?: number | null
+  temp_max_c?: number | null
+  dg_un_number?: string | null
+  dg_class?: string | null
+  dg_packing_group?: PackingGroup | null
+  load_type?: LoadType | null
+  containers?: ContainerCount[]
   cargo_ready_date?: string
   delivery_required_date?: string
-  mode_preference?: 'air' | 'sea' | 'any'
+  mode_preference?: ModePreference
+  incoterms?: Incoterm
   special_instructions?: string
 }
 
@@ -138,6 +184,70 @@ export interface DeleteRequestResponse {
   deleted_id: string
 }
 
+/**
+ * POST /api/requests/:id/msds - Response
+ */
+export interface UploadMsdsResponse {
+  /** Object name in the 'msds' bucket */
+  msds_path: string
+}
+
+// =====================
+// REQUEST ITEM ENDPOINTS
+// =====================
+
+/**
+ * GET /api/requests/:id/items
+ * Returns a request's packing list with its totals
+ */
+export interface RequestItemListResponse {
+  /** Items in packing list order */
+  items: RequestItem[]
+  /** Totals rolled up from the items */
+  totals: RequestItemTotals
+  /** Chargeable weight in kg of the totals, for each mode */
+  chargeable_weight: Record<TransportMode, number | null>
+}
+
+/**
+ * POST /api/requests/:id/items
+ * Adds a line to a request's packing list
+ */
+export interface CreateRequestItemRequest extends RequestItemInput {
+  /** Position in the list; defaults to the end */
+  position?: number
+}
+
+/**
+ * PATCH /api/requests/:id/items/:itemId
+ * Updates a packing list line (partial)
+ */
+export interface UpdateRequestItemRequest extends Partial<RequestItemInput> {
+  position?: number
+}
+
+/**
+ * POST /api/requests/:id/items and PATCH /api/requests/:id/items/:itemId - Response
+ */
+export interface RequestItemResponse {
+  /** The created or updated item */
+  item: RequestItem
+  /** The request's totals after the change */
+  totals: RequestItemTotals
+}
+
+/**
+ * DELETE /api/requests/:id/items/:itemId - Response
+ */
+export interface DeleteRequestItemResponse {
+  /** Confirmation message */
+  message: string
+  /** ID of the deleted item */
+  deleted_id: string
+  /** The request's totals after the change */
+  totals: RequestItemTotals
+}
+
 // =====================
 // QUOTE ENDPOINTS
 // =====================
@@ -147,20 +257,20 @@ export interface DeleteRequestResponse {
  * Returns all quotes for a specific request
  */
 export interface QuoteListResponse {
-  /** Array of quotes with forwarder details */
-  quotes: Quote[]
+  /** Array of quotes with forwarder details and amounts in the comparison currency */
+  quotes: NormalizedQuote[]
+  /** Currency the summary amounts are in, and currencies that couldn't be converted */
+  fx: CurrencyNormalization
   /** Summary statistics */
   summary: {
-    /** Total number of quotes */
+    /** Number of quotes compared: not drafts and not expired */
     total: number
-    /** Number of air freight quotes */
-    air_count: number
-    /** Number of sea freight quotes */
-    sea_count: number
-    /** Lowest air quote amount (null if no air quotes) */
-    lowest_air: number | null
-    /** Lowest sea quote amount (null if no sea quotes) */
-    lowest_sea: number | null
+    /** Count and lowest amount (in the comparison currency) for each mode quoted */
+    by_mode: Partial<Record<TransportMode, { count: number; lowest: number | null }>>
+    /** Number of draft quotes awaiting confirmation (excluded from the counts above) */
+    draft_count: number
+    /** Number of expired quotes (excluded from the counts above) */
+    expired_count: number
   }
 }
 
@@ -176,15 +286,45 @@ export interface CreateQuoteRequest extends CreateQuoteInput {}
 export interface CreateQuoteResponse {
   /** The newly created quote */
   quote: Quote
+  /** Its charge lines, when itemised */
+  charges?: QuoteCharge[]
+  /** Charge names no alias matched, filed under OTH */
+  unmapped_charges?: string[]
 }
 
 /**
  * PATCH /api/quotes/:id
- * Updates a quote (e.g., mark as selected)
+ * Updates a quote (corrections to charges, schedule, validity, or status)
  */
 export interface UpdateQuoteRequest {
   status?: Quote['status']
   notes?: string
+  currency?: string
+  total_amount?: number
+  freight_charge?: number | null
+  fuel_surcharge?: number | null
+  handling_charge?: number | null
+  documentation_fee?: number | null
+  terminal_handling?: number | null
+  other_charges?: number | null
+  destination_charges?: number | null
+  dg_accepted?: boolean | null
+  load_type?: LoadType | null
+  containers?: ContainerCount[]
+  temp_control?: TemperatureControl | null
+  temp_min_c?: number | null
+  temp_max_c?: number | null
+  etd?: string | null
+  eta?: string | null
+  transit_days?: number | null
+  carrier?: string | null
+  vessel_flight?: string | null
+  routing?: string | null
+  transshipment_ports?: string[] | null
+  valid_until?: string | null
+  free_days_origin?: number
+  free_days_dest?: number
+  payment_terms?: string | null
 }
 
 /**
@@ -195,15 +335,111 @@ export interface UpdateQuoteResponse {
   quote: Quote
 }
 
+/**
+ * DELETE /api/quotes/:id - Response
+ */
+export interface DeleteQuoteResponse {
+  /** Confirmation message */
+  message: string
+  /** ID of the deleted quote */
+  deleted_id: string
+}
+
+// =====================
+// QUOTE CHARGE ENDPOINTS
+// =====================
+
+/**
+ * GET /api/quotes/:id/charges - Response
+ */
+export interface QuoteChargeListResponse {
+  /** Lines in quote order; empty when the quote isn't itemised */
+  charges: QuoteCharge[]
+  /** The quote's currency, which the lines roll up into */
+  currency: string
+}
+
+/**
+ * PUT /api/quotes/:id/charges
+ * Replaces a quote's charge lines
+ */
+export interface ReplaceQuoteChargesRequest {
+  charges: QuoteChargeInput[]
+}
+
+/**
+ * PUT /api/quotes/:id/charges - Response
+ */
+export interface ReplaceQuoteChargesResponse {
+  /** The stored lines */
+  charges: QuoteCharge[]
+  /** The quote with its charge fields and total rolled up from the lines */
+  quote: Quote
+  /** Charge names no alias matched, filed under OTH */
+  unmapped: string[]
+}
+
+/**
+ * GET /api/charge-aliases - Response
+ * The standard charge catalogue and the aliases that map to it
+ */
+export interface ChargeAliasListResponse {
+  /** Standard charges in display order */
+  codes: ChargeCode[]
+  /** Shared and organization aliases */
+  aliases: ChargeAlias[]
+}
+
+/**
+ * POST /api/charge-aliases
+ * Creates or replaces organization charge aliases
+ */
+export interface UpsertChargeAliasesRequest {
+  aliases: {
+    /** Name as the forwarder writes it, e.g. "Bunker Surcharge (BAF)" */
+    alias: string
+    /** Standard charge code, e.g. "BAF" */
+    code: string
+    /** Only apply to this forwarder's quotes */
+    forwarder_id?: string | null
+  }[]
+}
+
+/**
+ * POST /api/charge-aliases - Response
+ */
+export interface UpsertChargeAliasesResponse {
+  /** The stored aliases */
+  aliases: ChargeAlias[]
+}
+
+/**
+ * DELETE /api/charge-aliases/:id - Response
+ */
+export interface DeleteChargeAliasResponse {
+  /** Confirmation message */
+  message: string
+  /** ID of the deleted alias */
+  deleted_id: string
+}
+
 // =====================
 // ANALYSIS ENDPOINTS
 // =====================
 
 /**
  * GET /api/requests/:id/analysis
- * Returns air vs sea comparison analysis for a request
+ * Returns the comparison across transport modes for a request
  */
 export interface QuoteAnalysisResponse extends QuoteComparison {
+  /** Quotes parsed from email awaiting confirmation (not compared) */
+  draft_quotes: Quote[]
+  /** Quotes past their validity date (not compared) */
+  expired_quotes: Quote[]
+  /** Comparison currency; quotes carry their original and normalised amounts */
+  fx: CurrencyNormalization
+  /** Every compared quote, best first, with its score breakdown */
+  ranking: RankedQuote[]
   /** Analysis metadata */
   analysis: {
     /** Timestamp when analysis was generated */
@@ -228,6 +464,8 @@ export interface CreateDecisionRequest {
   selected_quote_id: string
   /** Reason for the decision */
   decision_reason?: string
+  /** Book immediately (default) or leave the request in 'decision_pending' */
+  confirm_booking?: boolean
 }
 
 /**
@@ -240,6 +478,22 @@ export interface CreateDecisionResponse {
   request: ShipmentRequest
 }
 
+/**
+ * PATCH /api/requests/:id/decision
+ * Records when the booked shipment left and arrived (yyyy-MM-dd, null to clear)
+ */
+export interface UpdateDecisionRequest {
+  shipped_at?: string | null
+  delivered_at?: string | null
+}
+
+/**
+ * PATCH /api/requests/:id/decision - Response
+ */
+export interface UpdateDecisionResponse {
+  decision: Decision
+}
+
 // =====================
 // FORWARDER ENDPOINTS
 // =====================
@@ -295,6 +549,412 @@ export interface RemoveUserForwarderResponse {
   removed_id: string
 }
 
+/**
+ * GET /api/forwarders/:id/scorecard - Response
+ */
+export interface ForwarderScorecardResponse {
+  scorecard: ForwarderScorecard
+}
+
+// =====================
+// ORGANIZATION ENDPOINTS
+// =====================
+
+/**
+ * GET /api/organization
+ * Returns the authenticated user's organization
+ */
+export interface OrganizationResponse {
+  /** The user's organization */
+  organization: Organization
+}
+
+/**
+ * POST /api/organization
+ * Creates an organization with the caller as owner
+ */
+export interface CreateOrganizationRequest {
+  /** Display name of the company */
+  name: string
+  /** URL-friendly identifier (derived from name if omitted) */
+  slug?: string
+}
+
+/**
+ * PATCH /api/organization
+ * Updates company details and defaults (owner/admin only)
+ */
+export interface UpdateOrganizationRequest {
+  name?: string
+  legal_name?: string | null
+  tax_id?: string | null
+  address?: string | null
+  city?: string | null
+  country_code?: string | null
+  phone?: string | null
+  website?: string | null
+  logo_url?: string | null
+  default_currency?: string
+  default_incoterms?: Incoterm
+  fiscal_year_start?: number
+  insurance_rate?: number
+  carrying_cost_rate?: number
+  /** Relative factor weights; omitted factors use the defaults */
+  recommendation_weights?: Partial<RecommendationWeights>
+}
+
+/**
+ * GET /api/organization/members
+ * Returns all members of the caller's organization
+ */
+export interface MemberListResponse {
+  /** Organization members */
+  members: Profile[]
+  /** Seats allowed by the organization's plan */
+  plan_seats: number
+  /** Seats currently taken by active members and pending invites */
+  seats_used: number
+}
+
+/**
+ * PATCH /api/organization/members/:id
+ * Changes a member's role or deactivates them (owner/admin only)
+ */
+export interface UpdateMemberRequest {
+  role?: Exclude<UserRole, 'owner'>
+  is_active?: boolean
+}
+
+/**
+ * PATCH /api/organization/members/:id - Response
+ */
+export interface UpdateMemberResponse {
+  /** The updated member profile */
+  member: Profile
+}
+
+/**
+ * GET /api/organization/invites
+ * Returns pending and accepted invites (owner/admin only)
+ */
+export interface InviteListResponse {
+  /** Organization invites */
+  invites: OrganizationInvite[]
+}
+
+/**
+ * POST /api/organization/invites
+ * Creates a tokenised invite (owner/admin only)
+ */
+export interface CreateInviteRequest {
+  /** Email address of the person being invited */
+  email: string
+  /** Role granted on acceptance (defaults to 'member') */
+  role?: Exclude<UserRole, 'owner'>
+  /** Days until the invite expires (defaults to 7) */
+  expires_in_days?: number
+}
+
+/**
+ * POST /api/organization/invites - Response
+ */
+export interface CreateInviteResponse {
+  /** The created invite */
+  invite: OrganizationInvite
+  /** Signup link carrying the invite token */
+  invite_url: string
+}
+
+/**
+ * DELETE /api/organization/invites/:id - Response
+ */
+export interface RevokeInviteResponse {
+  /** Confirmation message */
+  message: string
+  /** ID of the revoked invite */
+  revoked_id: string
+}
+
+/**
+ * POST /api/organization/invites/accept
+ * Accepts an invite for the authenticated user
+ */
+export interface AcceptInviteRequest {
+  /** Invite token from the signup link */
+  token: string
+}
+
+/**
+ * POST /api/organization/invites/accept - Response
+ */
+export interface AcceptInviteResponse {
+  /** The organization joined */
+  organization: Organization
+  /** Role granted in the organization */
+  role: UserRole
+}
+
+// =====================
+// ACTIVITY ENDPOINTS
+// =====================
+
+/**
+ * GET /api/activity
+ * Returns the audit trail for the caller's organization
+ */
+export interface ActivityListResponse {
+  /** Activity entries, newest first, with the acting user */
+  activities: ActivityLog[]
+  /** Total count of entries matching the filter */
+  count: number
+}
+
+// =====================
+// INBOUND EMAIL ENDPOINTS
+// =====================
+
+/**
+ * POST /api/inbound/email - Response
+ * Result of ingesting a forwarder's reply
+ */
+export interface InboundEmailResponse {
+  /** ID of the stored inbound email */
+  inbound_email_id: string
+  /** Processing outcome */
+  status: InboundEmailStatus
+  /** Request the email was matched to (null if unmatched) */
+  request_id: string | null
+  /** Draft quotes created for user confirmation */
+  quotes: Quote[]
+  /** True when this Message-ID was already ingested */
+  duplicate?: boolean
+}
+
+// =====================
+// SCHEDULED JOB ENDPOINTS
+// =====================
+
+/**
+ * GET /api/cron/reminders - Response
+ * Summary of a reminder run
+ */
+export interface ReminderRunResponse {
+  /** Reminders sent to forwarders that haven't quoted */
+  reminders_sent: number
+  /** Requests escalated to their owner after a missed reminder */
+  escalations_sent: number
+  /** Reminders or escalations that couldn't be sent */
+  failed: number
+}
+
+/**
+ * GET /api/cron/expire-quotes - Response
+ * Summary of a quote expiry sweep
+ */
+export interface ExpiryRunResponse {
+  /** Number of quotes marked expired */
+  expired_count: number
+  /** IDs of the quotes marked expired */
+  expired_ids: string[]
+}
+
+// =====================
+// FX RATE ENDPOINTS
+// =====================
+
+/**
+ * GET /api/fx-rates - Response
+ * Shared and organization rates, newest first
+ */
+export interface FxRateListResponse {
+  /** Array of rates */
+  rates: FxRate[]
+}
+
+/**
+ * POST /api/fx-rates - Response
+ * Result of importing a CSV or ECB XML rate file
+ */
+export interface ImportFxRatesResponse {
+  /** Number of rates stored (existing rates for the same day are replaced) */
+  imported: number
+  /** Quote currencies present in the file */
+  currencies: string[]
+  /** Earliest rate date in the file */
+  from: string
+  /** Latest rate date in the file */
+  to: string
+}
+
+// =====================
+// TARIFF ENDPOINTS
+// =====================
+
+/**
+ * GET /api/tariffs - Response
+ * Shared and organization duty/VAT rates
+ */
+export interface TariffRateListResponse {
+  /** Array of rates */
+  rates: TariffRate[]
+}
+
+/**
+ * POST /api/tariffs
+ * Creates or replaces organization tariff rates
+ */
+export interface UpsertTariffRatesRequest {
+  rates: {
+    /** Destination country (ISO 3166-1 alpha-2) */
+    dest_country: string
+    /** HS code prefix; omit for the country default */
+    hs_code?: string | null
+    /** Duty, percent of CIF value */
+    duty_rate?: number
+    /** VAT/import tax, percent of CIF value plus duty */
+    vat_rate?: number
+    description?: string | null
+  }[]
+}
+
+/**
+ * POST /api/tariffs - Response
+ */
+export interface UpsertTariffRatesResponse {
+  /** The stored rates */
+  rates: TariffRate[]
+}
+
+/**
+ * DELETE /api/tariffs/:id - Response
+ */
+export interface DeleteTariffRateResponse {
+  /** Confirmation message */
+  message: string
+  /** ID of the deleted rate */
+  deleted_id: string
+}
+
+// =====================
+// PORT ENDPOINTS
+// =====================
+
+/**
+ * GET /api/ports - Response
+ * Ports and airports matching a search, best match first
+ */
+export interface PortSearchResponse {
+  /** Array of ports */
+  ports: Port[]
+}
+
+/**
+ * POST /api/ports - Response
+ * Result of importing a UN/LOCODE or IATA airport file
+ */
+export interface ImportPortsResponse {
+  /** File format read */
+  format: 'unlocode' | 'iata'
+  /** Number of ports stored (existing codes are updated) */
+  imported: number
+  /** Rows skipped because their country isn't known */
+  skipped: number
+  /** Stored ports by type */
+  by_type: Record<PortType, number>
+  /** Countries added from the file's country rows */
+  countries_added: string[]
+}
+
+// =====================
+// ANALYTICS ENDPOINTS
+// =====================
+
+/**
+ * GET /api/analytics/lanes - Response
+ */
+export interface LaneAnalyticsResponse {
+  group_by: LaneGrouping
+  from: string
+  to: string
+  /** Currency the costs are given in */
+  currency: string
+  /** Lanes by mode, busiest first */
+  lanes: LaneRateHistory[]
+}
+
+// =====================
+// FORWARDER PORTAL ENDPOINTS
+// =====================
+
+/**
+ * GET /api/requests/:id/portal-links - Response
+ */
+export interface PortalLinkListResponse {
+  /** One entry per contacted forwarder */
+  links: PortalLink[]
+}
+
+/**
+ * POST /api/requests/:id/portal-links
+ * Issues a contacted forwarder a new portal link
+ */
+export interface IssuePortalLinkRequest {
+  forwarder_id: string
+  /** Days until the link expires (defaults to 14) */
+  expires_in_days?: number
+}
+
+/**
+ * POST /api/requests/:id/portal-links - Response
+ */
+export interface IssuePortalLinkResponse {
+  link: PortalLink
+  /** Portal page carrying the token; only returned here */
+  portal_url: string
+}
+
+/**
+ * DELETE /api/requests/:id/portal-links/:forwarderId - Response
+ */
+export interface RevokePortalLinkResponse {
+  /** Confirmation message */
+  message: string
+  /** Forwarder whose link was revoked */
+  forwarder_id: string
+}
+
+/**
+ * GET /api/portal/:token - Response
+ */
+export interface PortalViewResponse {
+  request: PortalRequest
+  forwarder: { id: string; name: string }
+  /** Organization or company asking for the quote */
+  requested_by: string | null
+  expires_at: string
+  /** False once the request has moved past collecting quotes */
+  accepting_quotes: boolean
+  /** Quotes this forwarder has already given, newest first */
+  quotes: PortalQuote[]
+}
+
+/**
+ * POST /api/portal/:token/quotes
+ * Submits one or more quotes through a portal link
+ */
+export interface SubmitPortalQuotesRequest {
+  quotes: PortalQuoteInput[]
+}
+
+/**
+ * POST /api/portal/:token/quotes - Response
+ */
+export interface SubmitPortalQuotesResponse {
+  quotes: PortalQuote[]
+  /** Charge names no alias matched, filed under OTH */
+  unmapped_charges: string[]
+}
+
 // =====================
 // TYPE GUARDS
 // =====================
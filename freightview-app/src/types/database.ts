@@ -30,8 +30,11 @@ export interface Organization {
 
   // Settings
   default_currency: string;
-  default_incoterms: string;
+  default_incoterms: Incoterm;
   fiscal_year_start: number;
+  insurance_rate: number; // % of cargo value
+  carrying_cost_rate: number; // annual % of cargo value
+  recommendation_weights: Partial<RecommendationWeights>;
 
   // Audit
   created_at: string;
@@ -60,6 +63,7 @@ export interface OrganizationForwarder {
   contact_email: string | null;
   contact_phone: string | null;
   is_preferred: boolean;
+  reliability_score: number | null; // 0-100
   contract_rate_available: boolean;
   contract_expires_at: string | null;
   notes: string | null;
@@ -68,6 +72,18 @@ export interface OrganizationForwarder {
   forwarder?: Forwarder;
 }
 
+// Factors the recommendation engine scores quotes on
+export type ScoreFactor =
+  | 'cost'
+  | 'transit'
+  | 'deadline'
+  | 'reliability'
+  | 'transshipment'
+  | 'free_days';
+
+// Relative importance of each factor; only ratios matter
+export type RecommendationWeights = Record<ScoreFactor, number>;
+
 export interface ActivityLog {
   id: string;
   organization_id: string;
@@ -79,6 +95,9 @@ export interface ActivityLog {
   ip_address: string | null;
   user_agent: string | null;
   created_at: string;
+
+  // Joined data
+  user?: Pick<Profile, 'id' | 'email'> | null;
 }
 
 // =====================
@@ -93,10 +112,41 @@ export type RequestStatus =
   | 'booked'
   | 'cancelled';
 
-export type TransportMode = 'air' | 'sea';
-export type ModePreference = 'air' | 'sea' | 'any';
-export type QuoteStatus = 'active' | 'expired' | 'selected' | 'declined';
-export type QuoteSource = 'manual' | 'email' | 'api';
+export type TransportMode = 'air' | 'sea_air' | 'sea' | 'rail' | 'road' | 'courier';
+export type ModePreference = TransportMode | 'any';
+export type LoadType = 'fcl' | 'lcl';
+export type ContainerType = '20GP' | '40GP' | '40HC' | '45HC';
+
+export interface ContainerCount {
+  type: ContainerType;
+  count: number;
+}
+export type TemperatureControl = 'reefer' | 'active' | 'passive';
+export type Incoterm = 'EXW' | 'FCA' | 'FAS' | 'FOB' | 'CFR' | 'CIF' | 'CPT' | 'CIP' | 'DAP' | 'DPU' | 'DDP'; // Incoterms 2020
+export type QuoteStatus = 'draft' | 'active' | 'expired' | 'selected' | 'declined';
+export type QuoteSource = 'manual' | 'email' | 'api' | 'portal';
+export type QuoteWarningCode =
+  | 'lane_price_outlier'
+  | 'request_price_outlier'
+  | 'missing_charge'
+  | 'implausible_transit'
+  | 'eta_before_etd'
+  | 'charges_mismatch'
+  | 'checks_failed';
+
+export interface QuoteWarning {
+  code: QuoteWarningCode;
+  message: string;
+}
+export type ChargeBasis = 'per_shipment' | 'per_kg' | 'per_cbm' | 'per_container' | 'per_document';
+export type ChargeQuoteField =
+  | 'freight_charge'
+  | 'fuel_surcharge'
+  | 'handling_charge'
+  | 'documentation_fee'
+  | 'terminal_handling'
+  | 'other_charges'
+  | 'destination_charges';
 
 export interface Profile {
   id: string;
@@ -127,6 +177,7 @@ export interface Forwarder {
   logo_url: string | null;
   default_quote_email: string | null;
   api_enabled: boolean;
+  accepts_dangerous_goods: boolean;
   created_at: string;
 }
 
@@ -146,12 +197,20 @@ export interface Country {
   name: string;
 }
 
+export type PortType = 'seaport' | 'airport' | 'inland';
+
 export interface Port {
-  code: string;
+  code: string; // UN/LOCODE (CNSHA) or, for imported airports, IATA (PVG)
   name: string;
   country_code: string;
-  port_type: 'seaport' | 'airport' | 'inland';
+  port_type: PortType;
   city: string;
+  subdivision: string | null;
+  iata_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  source: 'seed' | 'unlocode' | 'iata';
+  updated_at: string;
 }
 
 export interface CargoType {
@@ -161,6 +220,17 @@ export interface CargoType {
   is_hazmat: boolean;
 }
 
+export type PackingGroup = 'I' | 'II' | 'III';
+
+// UN hazard class or division, e.g. '3' or '2.1'
+export interface DgClass {
+  code: string;
+  name: string;
+  air_allowed: boolean; // false where forbidden on all aircraft
+  sea_allowed: boolean;
+  restrictions: string | null;
+}
+
 export interface ShipmentRequest {
   id: string;
   user_id: string;
@@ -183,19 +253,28 @@ export interface ShipmentRequest {
   // Cargo
   cargo_type: string | null;
   cargo_description: string | null;
+  hs_code: string | null;
   weight_kg: number | null;
   volume_cbm: number | null;
   pieces: number | null;
   value_usd: number | null;
   is_stackable: boolean;
   is_hazmat: boolean;
-  temperature_required: string | null;
+  temperature_required: string | null; // display label, e.g. "+2 to +8 °C"
+  temp_min_c: number | null;
+  temp_max_c: number | null;
+  dg_un_number: string | null; // e.g. UN1266
+  dg_class: string | null;
+  dg_packing_group: PackingGroup | null;
+  msds_path: string | null; // object in the 'msds' storage bucket
+  load_type: LoadType | null; // full container or consolidated, if the shipper has a preference
+  containers: ContainerCount[]; // requested FCL equipment, e.g. 2 x 40HC
 
   // Requirements
   cargo_ready_date: string | null;
   delivery_required_date: string | null;
   mode_preference: ModePreference;
-  incoterms: string;
+  incoterms: Incoterm;
   special_instructions: string | null;
 
   // Metadata
@@ -220,11 +299,18 @@ export interface Quote {
   documentation_fee: number | null;
   terminal_handling: number | null;
   other_charges: number | null;
+  destination_charges: number | null; // payable at destination, not in total_amount
+  dg_accepted: boolean | null; // forwarder confirmed it will carry the dangerous goods
 
   // Rate details
   rate_basis: string | null;
   rate_per_unit: number | null;
   chargeable_weight: number | null;
+  load_type: LoadType | null;
+  containers: ContainerCount[]; // equipment an FCL rate is for
+  temp_control: TemperatureControl | null;
+  temp_min_c: number | null; // range the forwarder will hold, °C
+  temp_max_c: number | null;
 
   // Schedule
   etd: string | null;
@@ -245,6 +331,7 @@ export interface Quote {
   received_via: QuoteSource;
   raw_email_id: string | null;
   notes: string | null;
+  warnings: QuoteWarning[]; // anomaly checks from when the quote was entered or last repriced
 
   created_at: string;
   updated_at: string;
@@ -259,11 +346,140 @@ export interface Decision {
   selected_quote_id: string | null;
   best_air_quote_id: string | null;
   best_sea_quote_id: string | null;
+  best_quote_ids: Partial<Record<TransportMode, string>>;
   savings_amount: number | null;
   savings_percentage: number | null;
+  savings_currency: string | null;
   decision_reason: string | null;
   decided_at: string;
   decided_by: string | null;
+  shipped_at: string | null; // date the booked shipment left
+  delivered_at: string | null; // date it arrived; with shipped_at gives the actual transit
+}
+
+export interface RequestForwarder {
+  id: string;
+  request_id: string;
+  forwarder_id: string;
+  email_sent_at: string | null;
+  email_message_id: string | null;
+  reminder_sent_at: string | null;
+  escalated_at: string | null;
+  portal_token_hash: string | null; // SHA-256 of the forwarder's portal token
+  portal_expires_at: string | null;
+  portal_revoked_at: string | null;
+  portal_last_used_at: string | null;
+}
+
+// One packing list line; dimensions, weight and value are per piece
+export interface RequestItem {
+  id: string;
+  request_id: string;
+  position: number;
+  description: string;
+  hs_code: string | null;
+  quantity: number;
+  length_cm: number | null;
+  width_cm: number | null;
+  height_cm: number | null;
+  gross_weight_kg: number | null;
+  unit_value: number | null; // USD, like requests.value_usd
+  un_number: string | null; // dangerous goods, e.g. UN1266
+  created_at: string;
+  updated_at: string;
+}
+
+// Request totals rolled up from its items; null where no item gives a value
+export interface RequestItemTotals {
+  pieces: number;
+  weight_kg: number | null;
+  volume_cbm: number | null;
+  value_usd: number | null;
+  is_hazmat: boolean;
+}
+
+// Standard charge, e.g. BAF; rolls up into quote_field on quotes
+export interface ChargeCode {
+  code: string;
+  name: string;
+  quote_field: ChargeQuoteField;
+  description: string | null;
+  position: number;
+}
+
+// A forwarder's name for a standard charge, lower-cased; organization_id null for shared aliases
+export interface ChargeAlias {
+  id: string;
+  organization_id: string | null;
+  forwarder_id: string | null; // only this forwarder's quotes
+  alias: string;
+  code: string;
+  created_at: string;
+}
+
+// One charge line on a quote, in its own currency
+export interface QuoteCharge {
+  id: string;
+  quote_id: string;
+  position: number;
+  code: string;
+  name: string; // as the forwarder named it
+  currency: string;
+  basis: ChargeBasis;
+  rate: number | null; // per unit of the basis
+  quantity: number | null;
+  amount: number; // line total
+  created_at: string;
+}
+
+// A quote's charges by standard code, in the comparison currency
+export interface ChargeBreakdownLine {
+  code: string | null; // null for the part of the total that isn't itemised
+  name: string;
+  amount: number;
+  destination: boolean; // payable at destination, outside total_amount
+}
+
+export type InboundEmailStatus = 'received' | 'unmatched' | 'parsed' | 'no_quotes' | 'failed';
+
+export interface InboundEmail {
+  id: string;
+  message_id: string | null;
+  from_email: string | null;
+  subject: string | null;
+  request_id: string | null;
+  forwarder_id: string | null;
+  matched_by: 'reference' | 'thread' | null;
+  status: InboundEmailStatus;
+  quotes_created: number;
+  error: string | null;
+  raw_message: string;
+  received_at: string;
+}
+
+// 1 base_currency = rate quote_currency; organization_id null for shared rates
+export interface FxRate {
+  id: string;
+  organization_id: string | null;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  rate_date: string;
+  source: string | null;
+  created_at: string;
+}
+
+// Duty and VAT in percent; hs_code null for the country default
+export interface TariffRate {
+  id: string;
+  organization_id: string | null;
+  dest_country: string;
+  hs_code: string | null;
+  duty_rate: number;
+  vat_rate: number;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // API request/response types
@@ -273,34 +489,86 @@ export interface CreateRequestInput {
   origin_city: string;
   dest_country: string;
   dest_city: string;
+  origin_port?: string; // port code; must be in origin_country
+  dest_port?: string;
   cargo_type: string;
+  hs_code?: string;
   weight_kg: number;
   volume_cbm: number;
   pieces?: number;
   value_usd?: number;
+  temp_min_c?: number; // °C; required for cargo types that need temperature control
+  temp_max_c?: number;
+  dg_un_number?: string;
+  dg_class?: string;
+  dg_packing_group?: PackingGroup;
+  load_type?: LoadType;
+  containers?: ContainerCount[];
   cargo_ready_date: string;
   delivery_required_date: string;
   mode_preference: ModePreference;
+  incoterms?: Incoterm; // defaults to the organization's default_incoterms
   special_instructions?: string;
   forwarder_ids: string[];
+  items?: RequestItemInput[]; // totals are rolled up from these when given
+}
+
+export interface RequestItemInput {
+  description: string;
+  hs_code?: string | null;
+  quantity: number;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+  gross_weight_kg?: number | null;
+  unit_value?: number | null;
+  un_number?: string | null;
+}
+
+export interface QuoteChargeInput {
+  name: string; // mapped to a code through charge aliases unless code is given
+  code?: string;
+  currency?: string; // defaults to the quote's currency
+  basis?: ChargeBasis; // defaults to per_shipment
+  rate?: number;
+  quantity?: number; // defaults from the basis and the quote's cargo
+  amount?: number; // defaults to rate x quantity
 }
 
 export interface CreateQuoteInput {
   request_id: string;
   forwarder_id: string;
   mode: TransportMode;
-  total_amount: number;
+  currency?: string;
+  total_amount: number; // rolled up from charges when they're given
   freight_charge?: number;
   fuel_surcharge?: number;
   handling_charge?: number;
   documentation_fee?: number;
   terminal_handling?: number;
+  other_charges?: number;
+  destination_charges?: number;
+  dg_accepted?: boolean;
+  rate_basis?: string;
+  rate_per_unit?: number;
+  chargeable_weight?: number;
+  load_type?: LoadType; // 'fcl' is implied when containers are given
+  containers?: ContainerCount[]; // FCL rates are rated per container
+  temp_control?: TemperatureControl;
+  temp_min_c?: number; // defaults to the request's range
+  temp_max_c?: number;
+  is_courier?: boolean; // air volumetric weight uses COURIER_VOLUMETRIC_DIVISOR
+  volumetric_divisor?: number; // explicit cm³/kg divisor
   etd: string;
   eta: string;
   transit_days: number;
   carrier?: string;
   routing?: string;
+  transshipment_ports?: string[]; // ports the cargo changes vessel or flight at
+  free_days_origin?: number;
+  free_days_dest?: number;
   valid_until: string;
+  charges?: QuoteChargeInput[]; // itemised charges; the charge fields and total come from these
 }
 
 // Enriched types with joins
@@ -311,15 +579,216 @@ export interface RequestWithQuotes extends ShipmentRequest {
     forwarder: Forwarder;
     email_sent_at: string | null;
   }[];
+  items: RequestItem[];
+}
+
+// Quotes for one transport mode, cheapest first
+export interface ModeQuotes {
+  mode: TransportMode;
+  quotes: Quote[];
+  best: Quote | null;
 }
 
 export interface QuoteComparison {
   request: ShipmentRequest;
-  air_quotes: Quote[];
-  sea_quotes: Quote[];
-  best_air: Quote | null;
-  best_sea: Quote | null;
-  potential_savings: number | null;
-  recommendation: 'air' | 'sea' | null;
+  modes: ModeQuotes[]; // only modes with quotes, in TRANSPORT_MODES order
+  potential_savings: number | null; // fastest mode's best quote minus the cheapest quote
+  recommendation: TransportMode | null;
   recommendation_reason: string | null;
 }
+
+// Quote amounts converted to the organization's comparison currency
+export type NormalizedQuote<T = Quote> = T & {
+  normalized_currency: string;
+  normalized_total_amount: number | null;
+  fx_rate: number | null;
+  fx_rate_date: string | null;
+};
+
+export interface CurrencyNormalization {
+  currency: string;
+  as_of: string;
+  missing_currencies: string[];
+}
+
+// One factor's contribution to a quote's recommendation score
+export interface ScoreComponent {
+  factor: ScoreFactor;
+  weight: number; // share of the total weight, 0-1
+  score: number; // 0-100
+  points: number; // weight * score
+  detail: string;
+}
+
+export interface RankedQuote {
+  quote_id: string;
+  forwarder_id: string;
+  mode: TransportMode;
+  rank: number;
+  score: number; // 0-100
+  meets_deadline: boolean | null;
+  breakdown: ScoreComponent[];
+}
+
+// =====================
+// FORWARDER SCORECARD TYPES
+// =====================
+
+// Price rank 1 is the cheapest quote for a request and mode; premium is
+// the percentage above that cheapest quote
+export interface ScorecardLane {
+  origin_country: string;
+  dest_country: string;
+  quotes: number; // request/mode pairs the forwarder was ranked on
+  avg_price_rank: number | null;
+  avg_competitors: number | null; // forwarders quoting, including this one
+  wins: number;
+}
+
+export interface ScorecardTrendPoint {
+  month: string; // yyyy-MM, by request creation
+  quotes: number;
+  avg_price_rank: number | null;
+  avg_premium_pct: number | null;
+}
+
+export interface ScorecardTransit {
+  shipments: number; // won shipments with shipped and delivered dates
+  avg_quoted_days: number | null;
+  avg_actual_days: number | null;
+  avg_delay_days: number | null; // actual minus quoted; negative is early
+  on_time_rate: number | null; // percent delivered within the quoted transit
+}
+
+export interface ForwarderScorecard {
+  forwarder: Pick<Forwarder, 'id' | 'name' | 'short_code'>;
+  from: string;
+  to: string;
+  currency: string; // prices are compared in the organization's currency
+  invitations: number; // RFQs emailed in the period
+  responses: number;
+  response_rate: number | null; // percent of invitations quoted on
+  median_hours_to_quote: number | null;
+  decisions: number; // decided requests the forwarder quoted on
+  wins: number;
+  win_rate: number | null; // percent of those decisions won
+  avg_price_rank: number | null;
+  lanes: ScorecardLane[];
+  transit: ScorecardTransit;
+  trend: ScorecardTrendPoint[];
+}
+
+// =====================
+// LANE ANALYTICS TYPES
+// =====================
+
+export type LaneGrouping = 'country' | 'port';
+
+// Distribution of a measure across quotes
+export interface RateStats {
+  count: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+}
+
+// Quote history for one lane and mode over a period; amounts are in the
+// organization's currency
+export interface LaneRatePeriod {
+  quotes: number;
+  requests: number;
+  forwarders: number;
+  cost_per_kg: RateStats | null; // per chargeable kg
+  cost_per_cbm: RateStats | null;
+  transit_days: RateStats | null;
+  spread_pct: number | null; // median gap between the cheapest and dearest forwarder on a request
+}
+
+export interface LaneRateMonth extends LaneRatePeriod {
+  month: string; // yyyy-MM, by quote date
+}
+
+export interface LaneRateHistory {
+  origin: string; // country or port code, per the grouping
+  dest: string;
+  mode: TransportMode;
+  summary: LaneRatePeriod;
+  months: LaneRateMonth[]; // oldest first
+}
+
+// =====================
+// FORWARDER PORTAL TYPES
+// =====================
+
+export type PortalLinkStatus = 'none' | 'active' | 'expired' | 'revoked';
+
+// A contacted forwarder's portal link, as the request owner sees it
+export interface PortalLink {
+  forwarder_id: string;
+  forwarder_name: string | null;
+  status: PortalLinkStatus;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+}
+
+// What a forwarder sees of a request: the details of the RFQ email
+export type PortalRequest = Pick<
+  ShipmentRequest,
+  | 'id'
+  | 'reference'
+  | 'origin_city'
+  | 'origin_country'
+  | 'origin_port'
+  | 'dest_city'
+  | 'dest_country'
+  | 'dest_port'
+  | 'mode_preference'
+  | 'incoterms'
+  | 'cargo_type'
+  | 'cargo_description'
+  | 'weight_kg'
+  | 'volume_cbm'
+  | 'pieces'
+  | 'load_type'
+  | 'containers'
+  | 'is_stackable'
+  | 'is_hazmat'
+  | 'dg_un_number'
+  | 'dg_class'
+  | 'dg_packing_group'
+  | 'temperature_required'
+  | 'temp_min_c'
+  | 'temp_max_c'
+  | 'cargo_ready_date'
+  | 'delivery_required_date'
+  | 'special_instructions'
+>;
+
+// A forwarder's own quote on the portal, without the buyer's analysis
+export type PortalQuote = Pick<
+  Quote,
+  | 'id'
+  | 'mode'
+  | 'status'
+  | 'currency'
+  | 'total_amount'
+  | ChargeQuoteField
+  | 'load_type'
+  | 'containers'
+  | 'etd'
+  | 'eta'
+  | 'transit_days'
+  | 'carrier'
+  | 'routing'
+  | 'transshipment_ports'
+  | 'free_days_origin'
+  | 'free_days_dest'
+  | 'valid_until'
+  | 'created_at'
+>;
+
+// A quote as a forwarder submits it; the request and forwarder come from the link
+export type PortalQuoteInput = Omit<CreateQuoteInput, 'request_id' | 'forwarder_id'>;
@@ -0,0 +1,39 @@
+-- FreightView Database Schema - Decision Recording
+-- Run this AFTER 002_organizations.sql to allow recording quote decisions
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Quotes: users can update quote status for their requests (select/decline)
+CREATE POLICY "Users can update quotes for own requests" ON quotes
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM requests
+            WHERE requests.id = quotes.request_id
+            AND requests.user_id = auth.uid()
+        )
+    );
+
+-- Decisions: users can record decisions for their requests
+CREATE POLICY "Users can insert own decisions" ON decisions
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM requests
+            WHERE requests.id = decisions.request_id
+            AND requests.user_id = auth.uid()
+        )
+        AND decided_by = auth.uid()
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_decisions_request ON decisions(request_id);
+
+-- =====================
+-- COMMENTS
+-- =====================
+
+COMMENT ON TABLE decisions IS 'Quote selections with a snapshot of the air vs sea comparison at decision time';
@@ -0,0 +1,16 @@
+-- FreightView Database Schema - Quote Management
+-- Run this AFTER 003_decisions.sql to allow correcting and removing quotes
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Quotes: users can delete mistaken quotes for their requests
+CREATE POLICY "Users can delete quotes for own requests" ON quotes
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM requests
+            WHERE requests.id = quotes.request_id
+            AND requests.user_id = auth.uid()
+        )
+    );
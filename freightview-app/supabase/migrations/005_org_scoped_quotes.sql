@@ -0,0 +1,74 @@
+-- FreightView Database Schema - Organization-Scoped Quotes & Decisions
+-- Run this AFTER 004_quote_management.sql so quotes and decisions follow
+-- the org-based request policies introduced in 002_organizations.sql
+
+-- =====================
+-- HELPER FUNCTIONS
+-- =====================
+
+-- Check if current user can access a request with one of the given org roles.
+-- Requests outside an organization remain accessible to their creator only.
+CREATE OR REPLACE FUNCTION user_can_access_request(req_id UUID, required_roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM requests
+        WHERE requests.id = req_id
+        AND (
+            requests.organization_id IS NULL AND requests.user_id = auth.uid()
+            OR
+            EXISTS (
+                SELECT 1 FROM profiles
+                WHERE profiles.id = auth.uid()
+                AND profiles.organization_id = requests.organization_id
+                AND profiles.role = ANY(required_roles)
+            )
+        )
+    );
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+-- =====================
+-- QUOTES
+-- =====================
+
+DROP POLICY IF EXISTS "Users can view quotes for own requests" ON quotes;
+DROP POLICY IF EXISTS "Users can insert quotes for own requests" ON quotes;
+DROP POLICY IF EXISTS "Users can update quotes for own requests" ON quotes;
+DROP POLICY IF EXISTS "Users can delete quotes for own requests" ON quotes;
+
+CREATE POLICY "Org members can view org quotes" ON quotes
+    FOR SELECT USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+CREATE POLICY "Org members can insert quotes" ON quotes
+    FOR INSERT WITH CHECK (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can update quotes" ON quotes
+    FOR UPDATE USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can delete quotes" ON quotes
+    FOR DELETE USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+-- =====================
+-- DECISIONS
+-- =====================
+
+DROP POLICY IF EXISTS "Users can view own decisions" ON decisions;
+DROP POLICY IF EXISTS "Users can insert own decisions" ON decisions;
+
+CREATE POLICY "Org members can view org decisions" ON decisions
+    FOR SELECT USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+CREATE POLICY "Org members can insert decisions" ON decisions
+    FOR INSERT WITH CHECK (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+        AND decided_by = auth.uid()
+    );
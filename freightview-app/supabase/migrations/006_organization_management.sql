@@ -0,0 +1,27 @@
+-- FreightView Database Schema - Organization Management
+-- Run this AFTER 005_org_scoped_quotes.sql to let org admins manage members
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Profiles: members can see colleagues in the same organization
+CREATE POLICY "Members can view org profiles" ON profiles
+    FOR SELECT USING (
+        organization_id IS NOT NULL
+        AND organization_id = get_user_org_id()
+    );
+
+-- Profiles: admins can change roles and deactivate colleagues
+CREATE POLICY "Admins can update org profiles" ON profiles
+    FOR UPDATE USING (
+        organization_id IS NOT NULL
+        AND organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_org_invites_org ON organization_invites(organization_id);
@@ -0,0 +1,29 @@
+-- FreightView Database Schema - Activity Log Writes
+-- Run this AFTER 006_organization_management.sql so API routes can record audit entries
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Activity log: users record their own actions within their organization
+CREATE POLICY "Users can insert own activity" ON activity_log
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (
+            organization_id IS NULL
+            OR organization_id = get_user_org_id()
+        )
+    );
+
+-- Activity log: users without an organization can view their own activity
+CREATE POLICY "Users can view own activity" ON activity_log
+    FOR SELECT USING (
+        organization_id IS NULL AND user_id = auth.uid()
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+-- Request timelines look up entries by the request_id in metadata
+CREATE INDEX idx_activity_request ON activity_log((metadata->>'request_id'));
@@ -0,0 +1,26 @@
+-- FreightView Database Schema - Outbound Email Logging
+-- Run this AFTER 007_activity_log.sql so RFQ sends can be recorded
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Email logs: org members can see emails sent for their requests
+CREATE POLICY "Org members can view email logs" ON email_logs
+    FOR SELECT USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+-- Email logs: emails are logged by users who can act on the request
+CREATE POLICY "Org members can insert email logs" ON email_logs
+    FOR INSERT WITH CHECK (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_email_logs_request ON email_logs(request_id);
+CREATE INDEX idx_email_logs_message ON email_logs(message_id);
+CREATE INDEX idx_request_forwarders_message ON request_forwarders(email_message_id);
@@ -0,0 +1,65 @@
+-- FreightView Database Schema - Inbound Quote Emails
+-- Run this AFTER 008_email_logs.sql so forwarder replies can be ingested
+-- as draft quotes awaiting user confirmation
+
+-- =====================
+-- DRAFT QUOTES
+-- =====================
+
+-- Quotes parsed from email start as drafts until a user confirms them
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_status_check
+    CHECK (status IN ('draft', 'active', 'expired', 'selected', 'declined'));
+
+-- =====================
+-- INBOUND EMAILS
+-- =====================
+
+-- Raw forwarder replies received by the inbound webhook.
+-- quotes.raw_email_id references inbound_emails.id for quotes parsed from them.
+CREATE TABLE inbound_emails (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id VARCHAR(255) UNIQUE,
+    from_email VARCHAR(255),
+    subject VARCHAR(500),
+
+    -- Matching
+    request_id UUID REFERENCES requests(id) ON DELETE CASCADE,
+    forwarder_id UUID REFERENCES forwarders(id) ON DELETE SET NULL,
+    matched_by VARCHAR(20) CHECK (matched_by IN ('reference', 'thread')),
+
+    -- Processing
+    status VARCHAR(20) DEFAULT 'received' CHECK (status IN (
+        'received',
+        'unmatched',
+        'parsed',
+        'no_quotes',
+        'failed'
+    )),
+    quotes_created INTEGER DEFAULT 0,
+    error TEXT,
+
+    raw_message TEXT NOT NULL,
+    received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+-- Inbound emails are written by the webhook with the service role.
+-- Org members can view the emails matched to their requests.
+ALTER TABLE inbound_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view inbound emails" ON inbound_emails
+    FOR SELECT USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_inbound_emails_request ON inbound_emails(request_id);
+CREATE INDEX idx_inbound_emails_status ON inbound_emails(status);
+CREATE INDEX idx_quotes_raw_email ON quotes(raw_email_id);
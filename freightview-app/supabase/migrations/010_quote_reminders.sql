@@ -0,0 +1,20 @@
+-- FreightView Database Schema - Quote Reminders
+-- Run this AFTER 009_inbound_quote_emails.sql so the reminder job can
+-- track escalations to the request owner
+
+-- =====================
+-- REQUEST FORWARDERS
+-- =====================
+
+-- Set when the request owner was told a forwarder still hasn't quoted
+-- after being reminded (reminder_sent_at is set by the same job)
+ALTER TABLE request_forwarders ADD COLUMN escalated_at TIMESTAMPTZ;
+
+-- =====================
+-- INDEXES
+-- =====================
+
+-- The reminder job scans contacted forwarders that haven't been escalated
+CREATE INDEX idx_request_forwarders_pending ON request_forwarders(email_sent_at)
+    WHERE escalated_at IS NULL;
+CREATE INDEX idx_quotes_request_forwarder ON quotes(request_id, forwarder_id);
@@ -0,0 +1,10 @@
+-- FreightView Database Schema - Quote Expiry
+-- Run this AFTER 010_quote_reminders.sql so the expiry sweep can find
+-- active quotes past their validity date quickly
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_quotes_active_validity ON quotes(valid_until)
+    WHERE status = 'active';
@@ -0,0 +1,61 @@
+-- FreightView Database Schema - FX Rates
+-- Run this AFTER 011_quote_expiry.sql so quotes in different currencies
+-- can be compared in the organization's default currency
+
+-- =====================
+-- FX RATES
+-- =====================
+
+-- Dated exchange rates: 1 base_currency = rate quote_currency.
+-- Rows without an organization are shared reference rates (e.g. loaded
+-- from the ECB feed with the service role); organizations may import
+-- their own rates, which take precedence.
+CREATE TABLE fx_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    base_currency CHAR(3) NOT NULL,
+    quote_currency CHAR(3) NOT NULL,
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    source VARCHAR(50),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (base_currency <> quote_currency),
+
+    -- One rate per pair per day for each organization and for the shared set
+    UNIQUE NULLS NOT DISTINCT (organization_id, base_currency, quote_currency, rate_date)
+);
+
+CREATE INDEX idx_fx_rates_lookup ON fx_rates(quote_currency, rate_date DESC);
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read shared rates; members can read their organization's rates
+CREATE POLICY "Users can view shared and org fx rates" ON fx_rates
+    FOR SELECT USING (
+        organization_id IS NULL
+        OR organization_id = get_user_org_id()
+    );
+
+-- Owners and admins manage their organization's rates
+CREATE POLICY "Org admins can insert fx rates" ON fx_rates
+    FOR INSERT WITH CHECK (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+CREATE POLICY "Org admins can update fx rates" ON fx_rates
+    FOR UPDATE USING (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+-- =====================
+-- DECISIONS
+-- =====================
+
+-- Savings are computed on normalised amounts; record which currency
+ALTER TABLE decisions ADD COLUMN savings_currency CHAR(3);
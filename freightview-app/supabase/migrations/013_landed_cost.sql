@@ -0,0 +1,82 @@
+-- FreightView Database Schema - Landed Cost
+-- Run this AFTER 012_fx_rates.sql so air and sea options can be ranked
+-- by total landed cost rather than freight alone
+
+-- =====================
+-- REQUESTS & QUOTES
+-- =====================
+
+-- Harmonized System code of the goods, used to look up duty and VAT
+ALTER TABLE requests ADD COLUMN hs_code VARCHAR(12);
+
+-- Charges payable at destination that aren't in the quoted total
+-- (clearance, destination THC, delivery), in the quote's currency
+ALTER TABLE quotes ADD COLUMN destination_charges DECIMAL(12,2);
+
+-- =====================
+-- ORGANIZATION SETTINGS
+-- =====================
+
+-- Percentages: insurance premium on cargo value, and annual cost of
+-- capital tied up in inventory while in transit
+ALTER TABLE organizations
+    ADD COLUMN insurance_rate DECIMAL(6,3) NOT NULL DEFAULT 0.3 CHECK (insurance_rate >= 0),
+    ADD COLUMN carrying_cost_rate DECIMAL(6,3) NOT NULL DEFAULT 15 CHECK (carrying_cost_rate >= 0);
+
+-- =====================
+-- TARIFF RATES
+-- =====================
+
+-- Duty and VAT by destination country and HS code prefix. The longest
+-- matching prefix wins; a NULL hs_code is the country's default. Rows
+-- without an organization are shared; an organization's own rows take
+-- precedence.
+CREATE TABLE tariff_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    dest_country CHAR(2) NOT NULL,
+    hs_code VARCHAR(12),
+    duty_rate DECIMAL(7,3) NOT NULL DEFAULT 0 CHECK (duty_rate >= 0),
+    vat_rate DECIMAL(7,3) NOT NULL DEFAULT 0 CHECK (vat_rate >= 0),
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE NULLS NOT DISTINCT (organization_id, dest_country, hs_code)
+);
+
+CREATE INDEX idx_tariff_rates_country ON tariff_rates(dest_country);
+
+CREATE TRIGGER update_tariff_rates_updated_at
+    BEFORE UPDATE ON tariff_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+ALTER TABLE tariff_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shared and org tariff rates" ON tariff_rates
+    FOR SELECT USING (
+        organization_id IS NULL
+        OR organization_id = get_user_org_id()
+    );
+
+CREATE POLICY "Org admins can insert tariff rates" ON tariff_rates
+    FOR INSERT WITH CHECK (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+CREATE POLICY "Org admins can update tariff rates" ON tariff_rates
+    FOR UPDATE USING (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+CREATE POLICY "Org admins can delete tariff rates" ON tariff_rates
+    FOR DELETE USING (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
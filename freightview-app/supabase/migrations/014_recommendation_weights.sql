@@ -0,0 +1,21 @@
+-- FreightView Database Schema - Recommendation Weights
+-- Run this AFTER 013_landed_cost.sql so each organization can tune how
+-- quotes are scored and ranked
+
+-- =====================
+-- ORGANIZATION SETTINGS
+-- =====================
+
+-- Relative weights for cost, transit, deadline, reliability,
+-- transshipment and free_days. Missing keys use the application defaults.
+ALTER TABLE organizations
+    ADD COLUMN recommendation_weights JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- =====================
+-- FORWARDER RELIABILITY
+-- =====================
+
+-- 0-100 rating of how reliably a forwarder performs for this organization.
+-- Forwarders without a rating score as neutral (50).
+ALTER TABLE organization_forwarders
+    ADD COLUMN reliability_score DECIMAL(5,2) CHECK (reliability_score BETWEEN 0 AND 100);
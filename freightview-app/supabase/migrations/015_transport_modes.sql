@@ -0,0 +1,29 @@
+-- FreightView Database Schema - Transport Modes
+-- Run this AFTER 014_recommendation_weights.sql so quotes can be for
+-- sea-air, rail, road and courier as well as air and sea
+
+-- =====================
+-- QUOTES
+-- =====================
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_mode_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_mode_check
+    CHECK (mode IN ('air', 'sea_air', 'sea', 'rail', 'road', 'courier'));
+
+-- =====================
+-- REQUESTS
+-- =====================
+
+ALTER TABLE requests DROP CONSTRAINT IF EXISTS requests_mode_preference_check;
+ALTER TABLE requests ADD CONSTRAINT requests_mode_preference_check
+    CHECK (mode_preference IN ('air', 'sea_air', 'sea', 'rail', 'road', 'courier', 'any'));
+
+-- =====================
+-- DECISIONS
+-- =====================
+
+-- Cheapest quote per mode at the time of the decision, e.g.
+-- {"air": "<quote id>", "rail": "<quote id>"}. best_air_quote_id and
+-- best_sea_quote_id are still filled in for existing reports.
+ALTER TABLE decisions
+    ADD COLUMN best_quote_ids JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,22 @@
+-- FreightView Database Schema - Containers
+-- Run this AFTER 015_transport_modes.sql so requests and quotes can say
+-- whether they are for full containers (FCL) or consolidated cargo (LCL)
+
+-- =====================
+-- REQUESTS
+-- =====================
+
+-- Requested equipment as [{"type": "40HC", "count": 2}, ...]
+-- Types: 20GP, 40GP, 40HC, 45HC
+ALTER TABLE requests
+    ADD COLUMN load_type VARCHAR(3) CHECK (load_type IN ('fcl', 'lcl')),
+    ADD COLUMN containers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- =====================
+-- QUOTES
+-- =====================
+
+-- Equipment an FCL quote is for; its rate_basis is 'per_container'
+ALTER TABLE quotes
+    ADD COLUMN load_type VARCHAR(3) CHECK (load_type IN ('fcl', 'lcl')),
+    ADD COLUMN containers JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,60 @@
+-- FreightView Database Schema - Request Items
+-- Run this AFTER 016_containers.sql so requests can carry an itemised
+-- packing list instead of a single weight, volume and piece count
+
+-- =====================
+-- REQUEST ITEMS
+-- =====================
+
+-- One line of a packing list. Dimensions, weight and value are per
+-- piece; the request's weight_kg, volume_cbm, pieces, value_usd and
+-- is_hazmat are rolled up from its items whenever they change.
+CREATE TABLE request_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    request_id UUID NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    description TEXT NOT NULL,
+    hs_code VARCHAR(12),
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    length_cm DECIMAL(8,2) CHECK (length_cm > 0),
+    width_cm DECIMAL(8,2) CHECK (width_cm > 0),
+    height_cm DECIMAL(8,2) CHECK (height_cm > 0),
+    gross_weight_kg DECIMAL(12,2) CHECK (gross_weight_kg > 0),
+    unit_value DECIMAL(15,2) CHECK (unit_value >= 0),
+    -- Dangerous goods UN number, e.g. UN1266
+    un_number VARCHAR(6) CHECK (un_number ~ '^UN[0-9]{4}$'),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_request_items_request ON request_items(request_id, position);
+
+CREATE TRIGGER update_request_items_updated_at
+    BEFORE UPDATE ON request_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+ALTER TABLE request_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view request items" ON request_items
+    FOR SELECT USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+CREATE POLICY "Org members can insert request items" ON request_items
+    FOR INSERT WITH CHECK (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can update request items" ON request_items
+    FOR UPDATE USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can delete request items" ON request_items
+    FOR DELETE USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
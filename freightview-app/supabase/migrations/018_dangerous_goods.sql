@@ -0,0 +1,96 @@
+-- FreightView Database Schema - Dangerous Goods
+-- Run this AFTER 017_request_items.sql so requests can describe
+-- dangerous goods and be checked against mode and forwarder restrictions
+
+-- =====================
+-- DG CLASSES
+-- =====================
+
+-- UN hazard classes and divisions. air_allowed is false where the
+-- class is forbidden on all aircraft (IATA DGR); sea_allowed where it
+-- can't go under the IMDG Code. '1' covers divisions 1.1-1.3, 1.5 and
+-- 1.6; 1.4 is listed separately as it can fly.
+CREATE TABLE dg_classes (
+    code VARCHAR(4) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    air_allowed BOOLEAN NOT NULL DEFAULT TRUE,
+    sea_allowed BOOLEAN NOT NULL DEFAULT TRUE,
+    restrictions TEXT
+);
+
+INSERT INTO dg_classes (code, name, air_allowed, sea_allowed, restrictions) VALUES
+    ('1', 'Explosives', FALSE, TRUE, 'Forbidden by air; sea in dedicated magazine stowage'),
+    ('1.4', 'Explosives (minor hazard)', TRUE, TRUE, 'Only 1.4S on passenger aircraft'),
+    ('2.1', 'Flammable gases', TRUE, TRUE, 'Cargo aircraft only for most entries'),
+    ('2.2', 'Non-flammable, non-toxic gases', TRUE, TRUE, NULL),
+    ('2.3', 'Toxic gases', FALSE, TRUE, 'Forbidden by air'),
+    ('3', 'Flammable liquids', TRUE, TRUE, NULL),
+    ('4.1', 'Flammable solids', TRUE, TRUE, NULL),
+    ('4.2', 'Spontaneously combustible substances', TRUE, TRUE, 'Cargo aircraft only for most entries'),
+    ('4.3', 'Dangerous when wet', TRUE, TRUE, NULL),
+    ('5.1', 'Oxidizing substances', TRUE, TRUE, NULL),
+    ('5.2', 'Organic peroxides', TRUE, TRUE, 'Temperature control may be required'),
+    ('6.1', 'Toxic substances', TRUE, TRUE, NULL),
+    ('6.2', 'Infectious substances', TRUE, TRUE, 'Category A requires approved packaging'),
+    ('7', 'Radioactive material', TRUE, TRUE, 'Transport index limits apply'),
+    ('8', 'Corrosives', TRUE, TRUE, NULL),
+    ('9', 'Miscellaneous (incl. lithium batteries)', TRUE, TRUE, 'Lithium batteries have state-of-charge limits by air');
+
+-- =====================
+-- REQUESTS
+-- =====================
+
+-- MSDS (safety data sheet) is stored in the 'msds' bucket under the
+-- request's id; msds_path is its object name
+ALTER TABLE requests
+    ADD COLUMN dg_un_number VARCHAR(6) CHECK (dg_un_number ~ '^UN[0-9]{4}$'),
+    ADD COLUMN dg_class VARCHAR(4) REFERENCES dg_classes(code),
+    ADD COLUMN dg_packing_group VARCHAR(3) CHECK (dg_packing_group IN ('I', 'II', 'III')),
+    ADD COLUMN msds_path TEXT;
+
+-- =====================
+-- FORWARDERS & QUOTES
+-- =====================
+
+ALTER TABLE forwarders
+    ADD COLUMN accepts_dangerous_goods BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The seeded networks all hold DG certification
+UPDATE forwarders SET accepts_dangerous_goods = TRUE;
+
+-- Whether the forwarder confirmed the quote covers the dangerous goods;
+-- NULL when not stated or the cargo isn't dangerous
+ALTER TABLE quotes ADD COLUMN dg_accepted BOOLEAN;
+
+-- =====================
+-- MSDS STORAGE
+-- =====================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('msds', 'msds', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are named <request id>/<file name>
+CREATE POLICY "Org members can view MSDS" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'msds'
+        AND user_can_access_request(((storage.foldername(name))[1])::uuid, ARRAY['owner', 'admin', 'member', 'viewer'])
+    );
+
+CREATE POLICY "Org members can upload MSDS" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'msds'
+        AND user_can_access_request(((storage.foldername(name))[1])::uuid, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can replace MSDS" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'msds'
+        AND user_can_access_request(((storage.foldername(name))[1])::uuid, ARRAY['owner', 'admin', 'member'])
+    );
+
+CREATE POLICY "Org members can delete MSDS" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'msds'
+        AND user_can_access_request(((storage.foldername(name))[1])::uuid, ARRAY['owner', 'admin', 'member'])
+    );
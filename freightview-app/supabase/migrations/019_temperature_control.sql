@@ -0,0 +1,29 @@
+-- FreightView Database Schema - Temperature Control
+-- Run this AFTER 018_dangerous_goods.sql so temperature-sensitive cargo
+-- has a structured range and quotes say how they'll hold it
+
+-- =====================
+-- REQUESTS
+-- =====================
+
+-- Range the cargo must stay within, in °C. temperature_required is kept
+-- as a display label ("+2 to +8 °C") for the RFQ email.
+ALTER TABLE requests
+    ADD COLUMN temp_min_c DECIMAL(4,1),
+    ADD COLUMN temp_max_c DECIMAL(4,1),
+    ADD CONSTRAINT requests_temp_range_check
+        CHECK (temp_min_c IS NULL OR temp_max_c IS NULL OR temp_min_c <= temp_max_c);
+
+-- =====================
+-- QUOTES
+-- =====================
+
+-- How the forwarder will keep the cargo in range:
+-- reefer (refrigerated container or trailer), active (powered air
+-- container) or passive (insulated packaging), and the range it holds
+ALTER TABLE quotes
+    ADD COLUMN temp_control VARCHAR(10) CHECK (temp_control IN ('reefer', 'active', 'passive')),
+    ADD COLUMN temp_min_c DECIMAL(4,1),
+    ADD COLUMN temp_max_c DECIMAL(4,1),
+    ADD CONSTRAINT quotes_temp_range_check
+        CHECK (temp_min_c IS NULL OR temp_max_c IS NULL OR temp_min_c <= temp_max_c);
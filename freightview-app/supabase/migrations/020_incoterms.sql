@@ -0,0 +1,26 @@
+-- FreightView Database Schema - Incoterms
+-- Run this AFTER 019_temperature_control.sql so requests and organization
+-- defaults hold an Incoterms 2020 rule the analysis can split costs by
+
+-- =====================
+-- NORMALISE EXISTING VALUES
+-- =====================
+
+UPDATE requests SET incoterms = UPPER(TRIM(incoterms)) WHERE incoterms IS NOT NULL;
+UPDATE organizations SET default_incoterms = UPPER(TRIM(default_incoterms)) WHERE default_incoterms IS NOT NULL;
+
+-- =====================
+-- CONSTRAINTS
+-- =====================
+
+-- NOT VALID leaves rows with free-text terms (e.g. "FOB Shanghai") in
+-- place; the analysis skips the cost split for those
+ALTER TABLE requests
+    ADD CONSTRAINT requests_incoterms_check
+        CHECK (incoterms IN ('EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'))
+        NOT VALID;
+
+ALTER TABLE organizations
+    ADD CONSTRAINT organizations_default_incoterms_check
+        CHECK (default_incoterms IN ('EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'))
+        NOT VALID;
@@ -0,0 +1,33 @@
+-- FreightView Database Schema - Port Lookup
+-- Run this AFTER 020_incoterms.sql so ports can be imported from
+-- UN/LOCODE and IATA airport lists and searched from the request form
+
+-- =====================
+-- PORTS
+-- =====================
+
+-- Seeded ports keep source 'seed'; imports set 'unlocode' or 'iata'.
+-- Airports imported from IATA lists use the 3-letter code as their code.
+ALTER TABLE ports
+    ADD COLUMN subdivision VARCHAR(3),
+    ADD COLUMN iata_code CHAR(3),
+    ADD COLUMN latitude DECIMAL(8,5),
+    ADD COLUMN longitude DECIMAL(8,5),
+    ADD COLUMN source VARCHAR(10) NOT NULL DEFAULT 'seed' CHECK (source IN ('seed', 'unlocode', 'iata')),
+    ADD COLUMN updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE TRIGGER ports_updated_at
+    BEFORE UPDATE ON ports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- SEARCH INDEXES
+-- =====================
+
+-- Typeahead matches anywhere in the name or city
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX idx_ports_name_trgm ON ports USING gin (name gin_trgm_ops);
+CREATE INDEX idx_ports_city_trgm ON ports USING gin (city gin_trgm_ops);
+CREATE INDEX idx_ports_country_type ON ports(country_code, port_type);
+CREATE INDEX idx_ports_iata ON ports(iata_code);
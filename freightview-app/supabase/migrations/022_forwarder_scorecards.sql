@@ -0,0 +1,30 @@
+-- FreightView Database Schema - Forwarder Scorecards
+-- Run this AFTER 021_ports.sql so booked shipments record their actual
+-- transit and forwarder scorecards can be computed per organization
+
+-- =====================
+-- SHIPMENT DATES
+-- =====================
+
+ALTER TABLE decisions
+    ADD COLUMN shipped_at DATE,
+    ADD COLUMN delivered_at DATE,
+    ADD CONSTRAINT decisions_delivery_after_shipment
+        CHECK (delivered_at IS NULL OR shipped_at IS NULL OR delivered_at >= shipped_at);
+
+-- =====================
+-- RLS POLICIES
+-- =====================
+
+CREATE POLICY "Org members can update decisions" ON decisions
+    FOR UPDATE USING (
+        user_can_access_request(request_id, ARRAY['owner', 'admin', 'member'])
+    );
+
+-- =====================
+-- INDEXES
+-- =====================
+
+-- Scorecards look up every RFQ and quote for one forwarder
+CREATE INDEX idx_request_forwarders_forwarder ON request_forwarders(forwarder_id);
+CREATE INDEX idx_quotes_forwarder ON quotes(forwarder_id);
@@ -0,0 +1,13 @@
+-- FreightView Database Schema - Quote Anomaly Warnings
+-- Run this AFTER 022_forwarder_scorecards.sql so quotes keep the warnings
+-- raised by the anomaly checks when they were entered or repriced
+
+-- =====================
+-- QUOTES
+-- =====================
+
+-- [{ "code": "lane_price_outlier", "message": "..." }, ...]
+ALTER TABLE quotes ADD COLUMN warnings JSONB NOT NULL DEFAULT '[]';
+
+-- Lane history for the price checks is read by country pair
+CREATE INDEX idx_requests_lane ON requests(origin_country, dest_country);
@@ -0,0 +1,179 @@
+-- FreightView Database Schema - Quote Charge Lines
+-- Run this AFTER 023_quote_warnings.sql so quotes can list every charge
+-- a forwarder bills, mapped to standard codes for comparison
+
+-- =====================
+-- CHARGE CODES
+-- =====================
+
+-- Standard charges. quote_field is the quote column a charge rolls up
+-- into; destination_charges are payable at destination and not part of
+-- the quote's total_amount.
+CREATE TABLE charge_codes (
+    code VARCHAR(10) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    quote_field VARCHAR(30) NOT NULL CHECK (quote_field IN (
+        'freight_charge', 'fuel_surcharge', 'handling_charge', 'documentation_fee',
+        'terminal_handling', 'other_charges', 'destination_charges'
+    )),
+    description TEXT,
+    position INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO charge_codes (code, name, quote_field, description, position) VALUES
+    ('FRT', 'Base freight', 'freight_charge', 'Main carriage, ocean or air freight', 10),
+    ('GRI', 'General rate increase', 'freight_charge', 'Carrier-wide increase on the base rate', 11),
+    ('BAF', 'Bunker adjustment factor', 'fuel_surcharge', 'Ocean fuel surcharge', 20),
+    ('LSS', 'Low sulphur surcharge', 'fuel_surcharge', 'IMO 2020 low sulphur fuel', 21),
+    ('EBS', 'Emergency bunker surcharge', 'fuel_surcharge', NULL, 22),
+    ('FSC', 'Fuel surcharge', 'fuel_surcharge', 'Air, road and courier fuel surcharge', 23),
+    ('CAF', 'Currency adjustment factor', 'other_charges', NULL, 30),
+    ('PSS', 'Peak season surcharge', 'other_charges', NULL, 31),
+    ('SEC', 'Security surcharge', 'other_charges', 'Air cargo screening and security', 32),
+    ('ISPS', 'ISPS port security', 'other_charges', NULL, 33),
+    ('WRS', 'War risk surcharge', 'other_charges', NULL, 34),
+    ('OTH', 'Other charges', 'other_charges', 'Charges without a standard code', 39),
+    ('PUC', 'Pickup', 'handling_charge', 'Collection and pre-carriage to the terminal', 40),
+    ('ORG', 'Origin handling', 'handling_charge', NULL, 41),
+    ('ECC', 'Export customs clearance', 'handling_charge', NULL, 42),
+    ('OTHC', 'Origin terminal handling', 'terminal_handling', NULL, 50),
+    ('DOC', 'Documentation fee', 'documentation_fee', NULL, 60),
+    ('BLF', 'Bill of lading fee', 'documentation_fee', NULL, 61),
+    ('AWB', 'Air waybill fee', 'documentation_fee', NULL, 62),
+    ('AMS', 'Advance manifest filing', 'documentation_fee', 'AMS, ENS, ACI and similar filings', 63),
+    ('DTHC', 'Destination terminal handling', 'destination_charges', NULL, 70),
+    ('DHC', 'Destination handling', 'destination_charges', NULL, 71),
+    ('ICC', 'Import customs clearance', 'destination_charges', NULL, 72),
+    ('DEL', 'Delivery', 'destination_charges', 'On-carriage from the terminal', 73);
+
+ALTER TABLE charge_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view charge codes" ON charge_codes
+    FOR SELECT USING (true);
+
+-- =====================
+-- CHARGE ALIASES
+-- =====================
+
+-- Names forwarders use for standard charges, stored lower-cased with
+-- single spaces. Rows without an organization are shared; an
+-- organization's rows, and among them those for the quoting forwarder,
+-- take precedence.
+CREATE TABLE charge_aliases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    forwarder_id UUID REFERENCES forwarders(id) ON DELETE CASCADE,
+    alias VARCHAR(100) NOT NULL,
+    code VARCHAR(10) NOT NULL REFERENCES charge_codes(code),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CHECK (forwarder_id IS NULL OR organization_id IS NOT NULL),
+    UNIQUE NULLS NOT DISTINCT (organization_id, forwarder_id, alias)
+);
+
+INSERT INTO charge_aliases (alias, code) VALUES
+    ('freight', 'FRT'), ('ocean freight', 'FRT'), ('sea freight', 'FRT'), ('air freight', 'FRT'),
+    ('base rate', 'FRT'), ('basic ocean freight', 'FRT'), ('linehaul', 'FRT'), ('rail freight', 'FRT'),
+    ('general rate increase', 'GRI'),
+    ('bunker', 'BAF'), ('bunker surcharge', 'BAF'), ('bunker adjustment factor', 'BAF'),
+    ('low sulphur', 'LSS'), ('low sulphur surcharge', 'LSS'), ('lsf', 'LSS'),
+    ('emergency bunker surcharge', 'EBS'),
+    ('fuel', 'FSC'), ('fuel surcharge', 'FSC'), ('myc', 'FSC'),
+    ('currency adjustment', 'CAF'), ('currency adjustment factor', 'CAF'),
+    ('peak season', 'PSS'), ('peak season surcharge', 'PSS'),
+    ('security', 'SEC'), ('security surcharge', 'SEC'), ('ssc', 'SEC'), ('x-ray', 'SEC'), ('screening', 'SEC'),
+    ('port security', 'ISPS'),
+    ('war risk', 'WRS'), ('war risk surcharge', 'WRS'),
+    ('other', 'OTH'), ('other charges', 'OTH'), ('miscellaneous', 'OTH'), ('misc', 'OTH'),
+    ('pickup', 'PUC'), ('pick up', 'PUC'), ('pick-up', 'PUC'), ('collection', 'PUC'), ('pre-carriage', 'PUC'),
+    ('origin handling', 'ORG'), ('handling', 'ORG'), ('origin charges', 'ORG'),
+    ('export clearance', 'ECC'), ('export customs', 'ECC'), ('export customs clearance', 'ECC'),
+    ('thc', 'OTHC'), ('origin thc', 'OTHC'), ('terminal handling', 'OTHC'), ('origin terminal handling', 'OTHC'),
+    ('documentation', 'DOC'), ('docs', 'DOC'), ('doc fee', 'DOC'), ('documentation fee', 'DOC'),
+    ('b/l fee', 'BLF'), ('bl fee', 'BLF'), ('bill of lading', 'BLF'), ('bill of lading fee', 'BLF'),
+    ('awb fee', 'AWB'), ('air waybill', 'AWB'),
+    ('ens', 'AMS'), ('aci', 'AMS'), ('afr', 'AMS'), ('manifest filing', 'AMS'),
+    ('destination thc', 'DTHC'), ('destination terminal handling', 'DTHC'),
+    ('destination handling', 'DHC'), ('destination charges', 'DHC'),
+    ('import clearance', 'ICC'), ('import customs', 'ICC'), ('import customs clearance', 'ICC'),
+    ('delivery', 'DEL'), ('on-carriage', 'DEL'), ('door delivery', 'DEL');
+
+CREATE INDEX idx_charge_aliases_org ON charge_aliases(organization_id, forwarder_id);
+
+ALTER TABLE charge_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shared and org charge aliases" ON charge_aliases
+    FOR SELECT USING (
+        organization_id IS NULL
+        OR organization_id = get_user_org_id()
+    );
+
+CREATE POLICY "Org admins can insert charge aliases" ON charge_aliases
+    FOR INSERT WITH CHECK (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+CREATE POLICY "Org admins can update charge aliases" ON charge_aliases
+    FOR UPDATE USING (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+CREATE POLICY "Org admins can delete charge aliases" ON charge_aliases
+    FOR DELETE USING (
+        organization_id = get_user_org_id()
+        AND user_has_org_role(ARRAY['owner', 'admin'])
+    );
+
+-- =====================
+-- QUOTE CHARGES
+-- =====================
+
+-- One charge on a quote, as the forwarder named it, in its own currency.
+-- amount is the line total (rate x quantity when charged per unit). A
+-- quote with lines has its charge columns and total_amount rolled up
+-- from them in the quote's currency.
+CREATE TABLE quote_charges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    code VARCHAR(10) NOT NULL REFERENCES charge_codes(code),
+    name VARCHAR(100) NOT NULL,
+    currency CHAR(3) NOT NULL,
+    basis VARCHAR(20) NOT NULL DEFAULT 'per_shipment' CHECK (basis IN (
+        'per_shipment', 'per_kg', 'per_cbm', 'per_container', 'per_document'
+    )),
+    rate DECIMAL(12,4),
+    quantity DECIMAL(12,3) CHECK (quantity > 0),
+    amount DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_quote_charges_quote ON quote_charges(quote_id, position);
+
+ALTER TABLE quote_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view quote charges" ON quote_charges
+    FOR SELECT USING (
+        user_can_access_request(
+            (SELECT request_id FROM quotes WHERE quotes.id = quote_charges.quote_id),
+            ARRAY['owner', 'admin', 'member', 'viewer']
+        )
+    );
+
+CREATE POLICY "Org members can insert quote charges" ON quote_charges
+    FOR INSERT WITH CHECK (
+        user_can_access_request(
+            (SELECT request_id FROM quotes WHERE quotes.id = quote_charges.quote_id),
+            ARRAY['owner', 'admin', 'member']
+        )
+    );
+
+CREATE POLICY "Org members can delete quote charges" ON quote_charges
+    FOR DELETE USING (
+        user_can_access_request(
+            (SELECT request_id FROM quotes WHERE quotes.id = quote_charges.quote_id),
+            ARRAY['owner', 'admin', 'member']
+        )
+    );
@@ -0,0 +1,43 @@
+-- FreightView Database Schema - Forwarder Quote Portal
+-- Run this AFTER 024_quote_charges.sql so forwarders can submit quotes
+-- themselves through a secure link
+
+-- =====================
+-- PORTAL QUOTES
+-- =====================
+
+-- Quotes a forwarder entered through its portal link
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_received_via_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_received_via_check
+    CHECK (received_via IN ('manual', 'email', 'api', 'portal'));
+
+-- =====================
+-- PORTAL LINKS
+-- =====================
+
+-- One link per contacted forwarder. Only a SHA-256 hash of the token is
+-- kept: request_forwarders has no row level security, and the link is a
+-- credential. Issuing a new link replaces the old one.
+ALTER TABLE request_forwarders ADD COLUMN portal_token_hash CHAR(64) UNIQUE;
+ALTER TABLE request_forwarders ADD COLUMN portal_expires_at TIMESTAMPTZ;
+ALTER TABLE request_forwarders ADD COLUMN portal_revoked_at TIMESTAMPTZ;
+ALTER TABLE request_forwarders ADD COLUMN portal_last_used_at TIMESTAMPTZ;
+
+-- =====================
+-- PORTAL HITS
+-- =====================
+
+-- Every portal call, for rate limiting by link and by client IP. Calls
+-- with an unknown token have no link. Written and read with the service
+-- role only.
+CREATE TABLE portal_hits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    request_forwarder_id UUID REFERENCES request_forwarders(id) ON DELETE CASCADE,
+    ip_address INET,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_portal_hits_link ON portal_hits(request_forwarder_id, created_at);
+CREATE INDEX idx_portal_hits_ip ON portal_hits(ip_address, created_at);
+
+ALTER TABLE portal_hits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,123 @@
+-- FreightView Database Schema - Atomic Decisions
+-- Run this AFTER 025_quote_portal.sql so a quote decision is recorded in
+-- one transaction and a request can only have one decision
+
+-- =====================
+-- DECISIONS
+-- =====================
+
+-- Decisions are the audit trail, so requests decided more than once stop
+-- the migration rather than lose history; sort those out by hand first
+DO $$
+DECLARE
+    duplicated INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO duplicated
+    FROM (
+        SELECT request_id FROM decisions GROUP BY request_id HAVING COUNT(*) > 1
+    ) AS decided_twice;
+
+    IF duplicated > 0 THEN
+        RAISE EXCEPTION '% request(s) have more than one decision; keep one per request before running this migration', duplicated;
+    END IF;
+END;
+$$;
+
+ALTER TABLE decisions
+    ADD CONSTRAINT decisions_request_unique UNIQUE (request_id);
+
+-- =====================
+-- FUNCTIONS
+-- =====================
+
+-- Selects a quote, declines the request's other open quotes, records the
+-- decision and moves the request on, all or nothing. The request row is
+-- locked first so concurrent decisions on it run one after the other and
+-- the second fails. Runs as the caller, so the usual RLS policies apply.
+CREATE OR REPLACE FUNCTION record_quote_decision(
+    p_request_id UUID,
+    p_selected_quote_id UUID,
+    p_best_quote_ids JSONB,
+    p_savings_amount DECIMAL,
+    p_savings_percentage DECIMAL,
+    p_savings_currency CHAR(3),
+    p_decision_reason TEXT,
+    p_decided_by UUID,
+    p_request_status TEXT
+)
+RETURNS decisions AS $$
+DECLARE
+    current_status TEXT;
+    quote_status TEXT;
+    new_decision decisions;
+BEGIN
+    IF p_request_status NOT IN ('booked', 'decision_pending') THEN
+        RAISE EXCEPTION 'Invalid request status %', p_request_status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT status INTO current_status
+    FROM requests
+    WHERE id = p_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Request not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF current_status IN ('booked', 'cancelled') THEN
+        RAISE EXCEPTION 'Request is already %', current_status
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM decisions WHERE request_id = p_request_id) THEN
+        RAISE EXCEPTION 'A decision has already been recorded for this request'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT status INTO quote_status
+    FROM quotes
+    WHERE id = p_selected_quote_id AND request_id = p_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quote not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF quote_status = 'draft' THEN
+        RAISE EXCEPTION 'Confirm the draft quote before selecting it'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE quotes SET status = 'selected' WHERE id = p_selected_quote_id;
+
+    UPDATE quotes SET status = 'declined'
+    WHERE request_id = p_request_id
+    AND id <> p_selected_quote_id
+    AND status IN ('active', 'selected');
+
+    INSERT INTO decisions (
+        request_id, selected_quote_id,
+        best_air_quote_id, best_sea_quote_id, best_quote_ids,
+        savings_amount, savings_percentage, savings_currency,
+        decision_reason, decided_by
+    )
+    VALUES (
+        p_request_id, p_selected_quote_id,
+        (p_best_quote_ids->>'air')::UUID, (p_best_quote_ids->>'sea')::UUID, p_best_quote_ids,
+        p_savings_amount, p_savings_percentage, p_savings_currency,
+        p_decision_reason, p_decided_by
+    )
+    RETURNING * INTO new_decision;
+
+    UPDATE requests SET status = p_request_status WHERE id = p_request_id;
+
+    RETURN new_decision;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================
+-- COMMENTS
+-- =====================
+
+COMMENT ON FUNCTION record_quote_decision IS 'Records a quote decision and the quote and request status changes it implies, atomically';
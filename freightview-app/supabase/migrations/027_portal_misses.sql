@@ -0,0 +1,66 @@
+-- FreightView Database Schema - Portal Misses
+-- Run this AFTER 026_decision_function.sql so calls with unknown portal
+-- tokens count against the caller's IP without a portal_hits row each,
+-- and portal links are taken out of logged emails
+
+-- =====================
+-- PORTAL HITS
+-- =====================
+
+-- Only calls on a real link are kept from now on
+DELETE FROM portal_hits WHERE request_forwarder_id IS NULL;
+
+ALTER TABLE portal_hits ALTER COLUMN request_forwarder_id SET NOT NULL;
+
+-- =====================
+-- EMAIL LOGS
+-- =====================
+
+-- Portal links are credentials; logged bodies keep a placeholder instead
+UPDATE email_logs
+    SET body = regexp_replace(body, '\S+/portal/[0-9a-f]{64}', '[portal link]', 'g')
+    WHERE body ~ '/portal/[0-9a-f]{64}';
+
+-- =====================
+-- PORTAL MISSES
+-- =====================
+
+-- Calls with a token that matches no link, counted per client IP over an
+-- hour from the first one. One row per IP however many tokens are tried.
+-- Written and read with the service role only.
+CREATE TABLE portal_misses (
+    ip_address INET PRIMARY KEY,
+    window_started_at TIMESTAMPTZ NOT NULL,
+    misses INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE portal_misses ENABLE ROW LEVEL SECURITY;
+
+-- =====================
+-- FUNCTIONS
+-- =====================
+
+-- Counts a miss for an IP, starting a new hour once the last one is over,
+-- and returns the misses in the current hour
+CREATE OR REPLACE FUNCTION record_portal_miss(p_ip_address INET, p_now TIMESTAMPTZ)
+RETURNS INTEGER AS $$
+    INSERT INTO portal_misses AS bucket (ip_address, window_started_at, misses)
+    VALUES (p_ip_address, p_now, 1)
+    ON CONFLICT (ip_address) DO UPDATE SET
+        window_started_at = CASE
+            WHEN bucket.window_started_at <= p_now - INTERVAL '1 hour' THEN p_now
+            ELSE bucket.window_started_at
+        END,
+        misses = CASE
+            WHEN bucket.window_started_at <= p_now - INTERVAL '1 hour' THEN 1
+            ELSE bucket.misses + 1
+        END
+    RETURNING misses;
+$$ LANGUAGE sql;
+
+-- =====================
+-- COMMENTS
+-- =====================
+
+COMMENT ON TABLE portal_misses IS 'Hourly count of portal calls per client IP with tokens that match no link';
+COMMENT ON FUNCTION record_portal_miss IS 'Counts a portal call with an unknown token against the client IP, returning the misses this hour';
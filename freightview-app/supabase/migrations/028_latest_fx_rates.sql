@@ -0,0 +1,32 @@
+-- FreightView Database Schema - Latest FX Rates
+-- Run this AFTER 027_portal_misses.sql so currency conversion reads one
+-- rate per pair however long the rate history grows
+
+-- =====================
+-- INDEXES
+-- =====================
+
+CREATE INDEX idx_fx_rates_latest ON fx_rates(organization_id, base_currency, quote_currency, rate_date DESC);
+
+-- =====================
+-- FUNCTIONS
+-- =====================
+
+-- The most recent rate on or before a date for every currency pair, from
+-- the shared set and (when given) the organization's own rates. A pair
+-- with both gets a row from each; the caller prefers the organization's
+-- on the same day. Runs as the caller, so the usual RLS policies apply.
+CREATE OR REPLACE FUNCTION latest_fx_rates(p_organization_id UUID, p_as_of DATE)
+RETURNS SETOF fx_rates AS $$
+    SELECT DISTINCT ON (organization_id, base_currency, quote_currency) *
+    FROM fx_rates
+    WHERE rate_date <= p_as_of
+    AND (organization_id IS NULL OR organization_id = p_organization_id)
+    ORDER BY organization_id, base_currency, quote_currency, rate_date DESC;
+$$ LANGUAGE sql STABLE;
+
+-- =====================
+-- COMMENTS
+-- =====================
+
+COMMENT ON FUNCTION latest_fx_rates IS 'Latest shared and organization FX rate per currency pair as of a date';